@@ -1,8 +1,46 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { analyzeLeads, runAgentSearch, planMarketStrategy, MarketStrategy } from './services/geminiService';
-import { Lead } from './types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { analyzeLeads, enrichCompany, runAgentSearch, planMarketStrategy, MarketStrategy } from './services/geminiService';
+import { getProvider } from './services/llmProvider';
+import { clearDatabase, createLead, deleteLeads, deleteMergeReview, listLeads, listMergeReviews, listSearchHistory, saveSearchEntry, deleteSearchEntries, loadBulkJob, loadEnrichmentQueue, migrateFromLocalStorage, saveBulkJob, saveEnrichmentQueue, saveLeads, saveMergeReviews } from './services/leadRepository';
+import { mergeLeads, resolveIncoming } from './services/dedup';
+import { applyEmailInference } from './services/emailPattern';
+import { rescoreLeads, scoreLead } from './services/scoring';
+import { Campaign, ContactSource, ExtractedLead, IdealCustomerProfile, Lead, MergeCandidate } from './types';
 import { LeadTable } from './components/LeadTable';
-import { Bot, FileDown, Loader2, Sparkles, Trash2, ClipboardPaste, Terminal, Zap, BrainCircuit, Database, Play, PauseCircle } from 'lucide-react';
+import { LeadBoard } from './components/LeadBoard';
+import { MergeReviewPanel } from './components/MergeReviewPanel';
+import { SettingsPanel } from './components/SettingsPanel';
+import { AppSettings, activeProfile, loadSettings, saveSettings } from './services/settings';
+import { IcpEditor } from './components/IcpEditor';
+import { AddLeadModal } from './components/AddLeadModal';
+import { LeadDraft, draftToExtracted } from './services/leadEditing';
+import { UndoEntry, applyUndo, pushUndo } from './services/undo';
+import { DEFAULT_VIEW, LeadView, applyView, isFiltered } from './services/leadFilters';
+import { ExportDialog } from './components/ExportDialog';
+import { ImportWizard } from './components/ImportWizard';
+import { ImportResult } from './services/leadImport';
+import { EnrichLeadModal } from './components/EnrichLeadModal';
+import { EnrichmentChange, applyEnrichment, diffEnrichment } from './services/leadEnrichment';
+import { BulkPanel } from './components/BulkPanel';
+import { RunHistoryPanel } from './components/RunHistoryPanel';
+import { AgentRun, RUN_HISTORY_LIMIT, appendRunLog, createRun, finishRun, formatDuration, markInterrupted, startPhase } from './services/agentRuns';
+import { apiCallsMade, configureRateLimits } from './services/rateLimiter';
+import { AiError, RateLimitedError, describeError } from './services/aiErrors';
+import { UsagePanel } from './components/UsagePanel';
+import { listRuns, loadLoopActive, pruneRuns, saveLoopActive, saveRuns } from './services/runRepository';
+import { CampaignEditor, ProgressBar } from './components/CampaignEditor';
+import { CoverageMap } from './components/CoverageMap';
+import { SearchHistoryPanel } from './components/SearchHistoryPanel';
+import { CoverageCell, CycleYield, coverageKey, recordCoverage } from './services/coverage';
+import { listCoverage, saveCoverageCell } from './services/coverageRepository';
+import { MAX_PLAN_ATTEMPTS, SearchEntry, blockReason, createSearchEntry, entriesToPrune, normalizeQuery, recordSearch } from './services/searchHistory';
+import { DEFAULT_CYCLE_DELAY_SECONDS, computeStats, qualifiedCount, recordCampaignCycle, tagCampaign } from './services/campaigns';
+import { deleteCampaign, listCampaigns, loadActiveCampaignId, saveActiveCampaignId, saveCampaign } from './services/campaignRepository';
+import { MessageError, UI_LOCALES, formatMessage, translator } from './services/i18n';
+import { countryName } from './services/markets';
+import { I18nProvider } from './components/I18nProvider';
+import { BULK_MAX_ATTEMPTS, BULK_SPACING_MS, BulkItem, BulkJob, createBulkJob, patchBulkItem, resumeBulkJob, retryBulkItems } from './services/bulkJobs';
+import { Bot, FileDown, Loader2, Sparkles, Trash2, ClipboardPaste, Terminal, Zap, BrainCircuit, Database, Play, PauseCircle, Table2, Columns3, GitMerge, Settings, Target, Plus, Undo2, Upload, ListChecks, History, Flag, Activity, Grid3x3, BookMarked } from 'lucide-react';
 
 const SAMPLE_TEXT = `Bienvenidos a Clinica Dental Sonrisas. Pide tu cita llamando al 912345678 o escribe a contacto@sonrisas.com. Horario de lunes a viernes...
 ---
@@ -12,7 +50,7 @@ Asesoría Legal Pérez. Atención personalizada. Para consultas, por favor relle
 `;
 
 export default function App() {
-  const [mode, setMode] = useState<'manual' | 'agent'>('agent');
+  const [mode, setMode] = useState<'manual' | 'agent' | 'bulk'>('agent');
   
   // Manual State
   const [inputText, setInputText] = useState<string>('');
@@ -20,38 +58,308 @@ export default function App() {
   // Agent State
   const [isLooping, setIsLooping] = useState<boolean>(false);
   const [agentLogs, setAgentLogs] = useState<string[]>([]);
+  // Leads the validator repaired or dropped in the last manual analysis
+  const [manualReport, setManualReport] = useState<string[]>([]);
   const [currentStrategy, setCurrentStrategy] = useState<MarketStrategy | null>(null);
-  const [searchHistory, setSearchHistory] = useState<string[]>([]);
+  const [runs, setRuns] = useState<AgentRun[]>([]);
+  const [showRunHistory, setShowRunHistory] = useState<boolean>(false);
+  const [resumeRun, setResumeRun] = useState<AgentRun | null>(null);
+  const [searchHistory, setSearchHistory] = useState<SearchEntry[]>([]);
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [activeCampaignId, setActiveCampaignId] = useState<string | null>(null);
+  const [showCampaigns, setShowCampaigns] = useState<boolean>(false);
+  const [coverage, setCoverage] = useState<CoverageCell[]>([]);
+  const [showCoverage, setShowCoverage] = useState<boolean>(false);
+  const [showSearchHistory, setShowSearchHistory] = useState<boolean>(false);
+
+  // Bulk List State
+  const [bulkJob, setBulkJob] = useState<BulkJob | null>(null);
+  const [bulkRunning, setBulkRunning] = useState<boolean>(false);
   
   // Shared State
   const [leads, setLeads] = useState<Lead[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [cooldown, setCooldown] = useState<number>(0);
+  const [resultsView, setResultsView] = useState<'table' | 'board'>('table');
+  const [mergeReviews, setMergeReviews] = useState<MergeCandidate[]>([]);
+  const [showMergeReviews, setShowMergeReviews] = useState<boolean>(false);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const t = useMemo(() => translator(settings.uiLanguage), [settings.uiLanguage]);
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+  const [showUsage, setShowUsage] = useState<boolean>(false);
+  const [showIcpEditor, setShowIcpEditor] = useState<boolean>(false);
+  const [showAddLead, setShowAddLead] = useState<boolean>(false);
+  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
+  const [leadView, setLeadView] = useState<LeadView>(DEFAULT_VIEW);
+  const [exportTarget, setExportTarget] = useState<{ leads: Lead[]; scopeLabel: string } | null>(null);
+  const [showImport, setShowImport] = useState<boolean>(false);
+  const [enrichmentQueue, setEnrichmentQueue] = useState<string[]>([]);
+  const [isEnriching, setIsEnriching] = useState<boolean>(false);
+  const [enrichReview, setEnrichReview] = useState<{ leadId: string; found?: Lead; changes: EnrichmentChange[] | null; error: string | null } | null>(null);
 
   const logsEndRef = useRef<HTMLDivElement>(null);
+  // Latest leads for async callbacks that outlive the render they were created in
+  const leadsRef = useRef<Lead[]>([]);
+  leadsRef.current = leads;
+  const settingsRef = useRef<AppSettings>(settings);
+  settingsRef.current = settings;
+  const enrichmentQueueRef = useRef<string[]>([]);
+  enrichmentQueueRef.current = enrichmentQueue;
+  const bulkJobRef = useRef<BulkJob | null>(null);
+  bulkJobRef.current = bulkJob;
+  const lastBulkLaunchRef = useRef<number>(0);
+  // Campaign edits made while a cycle runs must reach its bookkeeping
+  const campaignsRef = useRef<Campaign[]>([]);
+  campaignsRef.current = campaigns;
+  const activeCampaignIdRef = useRef<string | null>(null);
+  activeCampaignIdRef.current = activeCampaignId;
+  const activeCampaign = campaigns.find(c => c.id === activeCampaignId) || null;
+  const coverageRef = useRef<CoverageCell[]>([]);
+  coverageRef.current = coverage;
+  const searchHistoryRef = useRef<SearchEntry[]>([]);
+  searchHistoryRef.current = searchHistory;
+  // The cycle being recorded; log lines are appended to it as they arrive
+  const currentRunRef = useRef<AgentRun | null>(null);
+  const memoryLoadedRef = useRef<boolean>(false);
+  const resumedRef = useRef<boolean>(false);
 
   // --- MEMORY SYSTEM (Persistence) ---
   useEffect(() => {
-    try {
-      const savedLeads = localStorage.getItem('b2b_leads_db');
-      if (savedLeads) setLeads(JSON.parse(savedLeads));
+    const loadMemory = async () => {
+      try {
+        await migrateFromLocalStorage();
+        const storedLeads = await listLeads();
+        const inferred = new Map(applyEmailInference(storedLeads).map(l => [l.id, l]));
+        const withInference = storedLeads.map(l => inferred.get(l.id) || l);
+        const rescored = new Map(rescoreLeads(withInference, settingsRef.current.scoringWeights).map(l => [l.id, l]));
+        const updated = withInference.map(l => rescored.get(l.id) || l);
+        const changed = updated.filter(l => inferred.has(l.id) || rescored.has(l.id));
+        if (changed.length > 0) await saveLeads(changed);
+        setLeads(updated);
+        setSearchHistory(await listSearchHistory());
+        setCoverage(await listCoverage());
+        setMergeReviews(await listMergeReviews());
+        setEnrichmentQueue(await loadEnrichmentQueue());
+        const storedJob = await loadBulkJob();
+        if (storedJob) updateBulkJob(resumeBulkJob(storedJob));
+        const storedCampaigns = await listCampaigns();
+        setCampaigns(storedCampaigns);
+        const storedCampaignId = await loadActiveCampaignId();
+        setActiveCampaignId(storedCampaigns.some(c => c.id === storedCampaignId) ? storedCampaignId : null);
 
-      const savedHistory = localStorage.getItem('b2b_search_history');
-      if (savedHistory) setSearchHistory(JSON.parse(savedHistory));
-    } catch (e) {
-      console.error("Failed to load memory", e);
-    }
+        // Runs cut short by the reload are closed as interrupted; an active loop redoes the last one
+        const storedRuns = await listRuns();
+        const interrupted = markInterrupted(storedRuns);
+        if (interrupted.length > 0) await saveRuns(interrupted);
+        const restoredRuns = storedRuns.map(run => interrupted.find(i => i.id === run.id) || run);
+        setRuns(restoredRuns);
+        const lastRun = restoredRuns[0];
+        if (lastRun) {
+          setAgentLogs(lastRun.logs.slice(-100));
+          setCurrentStrategy(lastRun.strategy || null);
+        }
+        if (await loadLoopActive()) {
+          setMode('agent');
+          setIsLooping(true);
+          if (lastRun?.status === 'interrupted') setResumeRun(lastRun);
+        }
+        memoryLoadedRef.current = true;
+      } catch (e) {
+        console.error("Failed to load memory", e);
+      }
+    };
+    loadMemory();
   }, []);
 
+  const scoreCurrent = (lead: Lead) => scoreLead(lead, settingsRef.current.scoringWeights);
+
+  /**
+   * Resolves freshly extracted leads against memory: duplicates are merged,
+   * ambiguous matches go to the review queue, the rest are inserted.
+   */
+  const ingestLeads = async (extracted: ExtractedLead[], source: ContactSource, campaignId?: string) => {
+    // Tagged before resolving, so merges and review decisions carry the campaign over
+    const incoming = extracted.map(lead => {
+      const created = createLead(lead, source);
+      return campaignId ? tagCampaign(created, campaignId) : created;
+    });
+    const { toInsert, toUpdate, reviews } = resolveIncoming(incoming, leadsRef.current);
+
+    // New personal addresses may teach a company's email format: refresh guesses across the database
+    const snapshot = [...leadsRef.current.map(l => toUpdate.find(u => u.id === l.id) || l), ...toInsert];
+    const changed = new Map([...toInsert, ...toUpdate, ...applyEmailInference(snapshot)].map(l => [l.id, scoreCurrent(l)]));
+
+    // Update the ref before awaiting so concurrent ingests (bulk lists) see each other's leads
+    const withIncoming = (prev: Lead[]) => [...prev, ...toInsert].map(l => changed.get(l.id) || l);
+    leadsRef.current = withIncoming(leadsRef.current);
+    setLeads(withIncoming);
+    setMergeReviews(prev => [...prev, ...reviews]);
+    await saveLeads(Array.from(changed.values()));
+    await saveMergeReviews(reviews);
+
+    return {
+      inserted: toInsert.length,
+      merged: incoming.length - toInsert.length - reviews.length,
+      pendingReview: reviews.length,
+      leadIds: [...toInsert, ...toUpdate].map(l => l.id),
+    };
+  };
+
+  const handleImport = async (extracted: ExtractedLead[], enrich: boolean): Promise<ImportResult> => {
+    const { leadIds, ...counts } = await ingestLeads(extracted, 'import');
+    const queued = enrich ? leadIds.filter(id => !enrichmentQueueRef.current.includes(id)) : [];
+    if (queued.length > 0) await updateEnrichmentQueue([...enrichmentQueueRef.current, ...queued]);
+    return { ...counts, queued: queued.length };
+  };
+
+  const updateEnrichmentQueue = async (nextQueue: string[]) => {
+    enrichmentQueueRef.current = nextQueue;
+    setEnrichmentQueue(nextQueue);
+    await saveEnrichmentQueue(nextQueue);
+  };
+
+  const dequeueEnrichment = (id: string) => updateEnrichmentQueue(enrichmentQueueRef.current.filter(queuedId => queuedId !== id));
+
+  const handleClearEnrichmentQueue = () => updateEnrichmentQueue([]);
+
+  /**
+   * Researches the next queued import and folds what was found into it.
+   * Not undoable: it only adds data, like a merge from the agent.
+   */
+  const enrichNext = async () => {
+    const [id] = enrichmentQueueRef.current;
+    const lead = leadsRef.current.find(l => l.id === id);
+    if (!lead) {
+      await dequeueEnrichment(id);
+      return;
+    }
+
+    setIsEnriching(true);
+    try {
+      const found = await enrichCompany(lead, addLog, t, { profile: activeProfile(settingsRef.current) });
+      if (found) {
+        const current = leadsRef.current.find(l => l.id === id) || lead;
+        const merged = mergeLeads(current, createLead(found, 'agent'));
+        const updated = scoreCurrent(applyEmailInference([merged])[0] || merged);
+        setLeads(prev => prev.map(l => l.id === id ? updated : l));
+        await saveLeads([updated]);
+        addLog(t('log.enriched', { company: lead.companyName, count: found.contacts.length }));
+      }
+      await dequeueEnrichment(id);
+    } catch (err) {
+      // On a quota error the item stays queued and the cooldown pauses both loops
+      if (!pauseForQuota(err)) {
+        addLog(t('log.enrichFailed', { company: lead.companyName, error: formatMessage(t, describeError(err, 100)) }));
+        await dequeueEnrichment(id);
+      }
+    } finally {
+      setIsEnriching(false);
+    }
+  };
+
+  const handleUpdateLead = async (lead: Lead) => {
+    const before = leadsRef.current.find(l => l.id === lead.id);
+    // Edits can change emails and every scoring signal
+    const updated = scoreCurrent(applyEmailInference([lead])[0] || lead);
+    if (before) setUndoStack(prev => pushUndo(prev, t('undo.edit', { company: before.companyName }), [before]));
+    setLeads(prev => prev.map(l => l.id === updated.id ? updated : l));
+    await saveLeads([updated]);
+  };
+
+  const handleDeleteLeads = async (ids: string[]) => {
+    const removed = new Set(ids);
+    const before = leadsRef.current.filter(l => removed.has(l.id));
+    if (before.length === 0) return;
+    setUndoStack(prev => pushUndo(prev, before.length === 1 ? t('undo.deleteOne', { company: before[0].companyName }) : t('undo.deleteMany', { count: before.length }), before));
+    setLeads(prev => prev.filter(l => !removed.has(l.id)));
+    await deleteLeads(ids);
+  };
+
+  // A company typed by hand goes through deduplication like any other: it may merge into an existing lead
+  const handleCreateLead = async (draft: LeadDraft) => {
+    const before = leadsRef.current;
+    setShowAddLead(false);
+    const { leadIds } = await ingestLeads([draftToExtracted(draft)], 'manual');
+    // Undo removes the new lead or restores the one it merged into; a pending review has nothing to undo
+    const restore = before.filter(l => leadIds.includes(l.id));
+    const remove = leadIds.filter(id => !before.some(l => l.id === id));
+    if (leadIds.length > 0) setUndoStack(prev => pushUndo(prev, t('undo.add', { company: draft.companyName }), restore, remove));
+  };
+
+  const handleUndo = async () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return;
+    setUndoStack(prev => prev.slice(0, -1));
+    setLeads(prev => applyUndo(prev, entry));
+    if (entry.remove.length > 0) await deleteLeads(entry.remove);
+    if (entry.restore.length > 0) await saveLeads(entry.restore);
+  };
+
+  const handleMergeReview = async (review: MergeCandidate) => {
+    const existing = leadsRef.current.find(l => l.id === review.existingId);
+    if (existing) await handleUpdateLead(scoreCurrent(mergeLeads(existing, review.incoming)));
+    await deleteMergeReview(review.id);
+    setMergeReviews(prev => prev.filter(r => r.id !== review.id));
+  };
+
+  const handleKeepSeparate = async (review: MergeCandidate) => {
+    const lead = scoreCurrent(review.incoming);
+    await saveLeads([lead]);
+    setLeads(prev => [...prev, lead]);
+    await deleteMergeReview(review.id);
+    setMergeReviews(prev => prev.filter(r => r.id !== review.id));
+  };
+
+  // -----------------------------------
+
+  useEffect(() => {
+    configureRateLimits(settings.rateLimits);
+  }, [settings.rateLimits]);
+
+  /**
+   * Quota errors pause every loop for as long as the rate limiter says. Returns whether `err` was one.
+   */
+  const pauseForQuota = (err: unknown) => {
+    if (!(err instanceof RateLimitedError)) return false;
+    addLog(t('log.quotaPause', { error: formatMessage(t, err.text), duration: formatDuration(err.retryAfterMs) }));
+    setCooldown(err.retryAfterMs);
+    return true;
+  };
+
+  const handleSettingsChange = (next: AppSettings) => {
+    setSettings(next);
+    saveSettings(next);
+  };
+
   useEffect(() => {
-    localStorage.setItem('b2b_leads_db', JSON.stringify(leads));
-  }, [leads]);
+    document.documentElement.lang = settings.uiLanguage;
+  }, [settings.uiLanguage]);
 
+  // Weights changed: rescore the whole database once the user stops dragging
   useEffect(() => {
-    localStorage.setItem('b2b_search_history', JSON.stringify(searchHistory));
-  }, [searchHistory]);
-  // -----------------------------------
+    const timeoutId = setTimeout(async () => {
+      const rescored = rescoreLeads(leadsRef.current, settings.scoringWeights);
+      if (rescored.length === 0) return;
+      const byId = new Map(rescored.map(l => [l.id, l]));
+      setLeads(prev => prev.map(l => byId.get(l.id) || l));
+      await saveLeads(rescored);
+    }, 500);
+    return () => clearTimeout(timeoutId);
+  }, [settings.scoringWeights]);
+
+  // Ctrl/Cmd+Z outside text fields reverts the last manual change
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (!(e.ctrlKey || e.metaKey) || e.key !== 'z' || e.shiftKey) return;
+      if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      e.preventDefault();
+      handleUndo();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
 
   // Auto-scroll logs
   useEffect(() => {
@@ -61,149 +369,428 @@ export default function App() {
   }, [agentLogs]);
 
   // --- CONTINUOUS LOOP ENGINE ---
+  // Remember whether the loop is on, so a reload restarts it
+  useEffect(() => {
+    if (memoryLoadedRef.current) saveLoopActive(isLooping);
+  }, [isLooping]);
+
+  // Redo the cycle a reload interrupted, once per page load
+  useEffect(() => {
+    if (!resumeRun || resumedRef.current || isLoading) return;
+    resumedRef.current = true;
+    addLog(t('log.resuming'));
+    executeAgentCycle(resumeRun);
+  }, [resumeRun]);
+
   useEffect(() => {
     let timeoutId: ReturnType<typeof setTimeout>;
 
     if (isLooping && !isLoading && cooldown === 0) {
         // Delay next cycle to avoid rate limits and allow UI updates
-        // INCREASED SAFETY: 60 seconds (1 minute per cycle)
+        // INCREASED SAFETY: 60 seconds by default, or the campaign's own pause
         timeoutId = setTimeout(() => {
             executeAgentCycle();
-        }, 60000); 
+        }, (activeCampaign?.cycleDelaySeconds ?? DEFAULT_CYCLE_DELAY_SECONDS) * 1000);
     } else if (cooldown > 0) {
         timeoutId = setTimeout(() => {
             setCooldown(0);
-            addLog("🟢 Enfriamiento completado. Reanudando operaciones...");
+            addLog(t('log.cooldownOver'));
         }, cooldown);
     }
 
     return () => clearTimeout(timeoutId);
   }, [isLooping, isLoading, cooldown]);
 
+  // --- ON-DEMAND ENRICHMENT ---
+  // Re-researches one company and shows the differences; nothing is written until accepted
+  const handleEnrichLead = async (lead: Lead) => {
+    setEnrichReview({ leadId: lead.id, changes: null, error: null });
+    try {
+      const result = await enrichCompany(lead, addLog, t, { profile: activeProfile(settingsRef.current) });
+      const found = result ? createLead(result, 'agent') : undefined;
+      const current = leadsRef.current.find(l => l.id === lead.id) || lead;
+      setEnrichReview(prev => prev?.leadId === lead.id ? { ...prev, found, changes: found ? diffEnrichment(current, found, t) : [] } : prev);
+    } catch (err) {
+      setEnrichReview(prev => prev?.leadId === lead.id ? { ...prev, error: t('enrich.failed', { error: formatMessage(t, describeError(err, 150)) }) } : prev);
+    }
+  };
+
+  const handleApplyEnrichment = async (accepted: EnrichmentChange[]) => {
+    const lead = leadsRef.current.find(l => l.id === enrichReview?.leadId);
+    setEnrichReview(null);
+    if (!lead || !enrichReview?.found) return;
+    await handleUpdateLead(applyEnrichment(lead, enrichReview.found, accepted));
+  };
+
+  // --- ENRICHMENT QUEUE ---
+  // One company at a time, only while the agent loop is idle, to share the API quota gently
+  useEffect(() => {
+    if (enrichmentQueue.length === 0 || isEnriching || isLooping || bulkRunning || isLoading || cooldown > 0) return;
+    const timeoutId = setTimeout(() => { enrichNext(); }, 20000);
+    return () => clearTimeout(timeoutId);
+  }, [enrichmentQueue, isEnriching, isLooping, bulkRunning, isLoading, cooldown]);
+
+  // --- BULK LIST ENGINE ---
+  const updateBulkJob = async (next: BulkJob | null) => {
+    bulkJobRef.current = next;
+    setBulkJob(next);
+    await saveBulkJob(next);
+  };
+
+  // Ignores results that arrive after their job was discarded
+  const patchBulk = (jobId: string, itemId: string, patch: Partial<BulkItem>) => {
+    const job = bulkJobRef.current;
+    if (job?.id !== jobId) return;
+    return updateBulkJob(patchBulkItem(job, itemId, patch));
+  };
+
+  /**
+   * Qualifies one list item: decision makers and chatbot check for that company,
+   * then the usual dedup against the database. Quota errors put the item back
+   * and pause everything; other errors are retried up to BULK_MAX_ATTEMPTS.
+   */
+  const processBulkItem = async (jobId: string, item: BulkItem) => {
+    lastBulkLaunchRef.current = Date.now();
+    const attempts = item.attempts + 1;
+    await patchBulk(jobId, item.id, { status: 'running', attempts });
+
+    try {
+      const found = await enrichCompany(item, addLog, t, { profile: activeProfile(settingsRef.current) });
+      if (!found) {
+        await patchBulk(jobId, item.id, { status: 'notFound', error: undefined, finishedAt: new Date().toISOString() });
+        return;
+      }
+      const list = bulkJobRef.current?.name;
+      const { leadIds } = await ingestLeads([{ ...found, origin: { ...found.origin, mode: 'bulk' as const, list } }], 'agent');
+      await patchBulk(jobId, item.id, { status: 'done', leadId: leadIds[0], error: undefined, finishedAt: new Date().toISOString() });
+    } catch (err) {
+      if (pauseForQuota(err)) {
+        await patchBulk(jobId, item.id, { status: 'pending', attempts: item.attempts });
+      } else {
+        await patchBulk(jobId, item.id, {
+          // Safety blocks and the like fail the same way again: no automatic retry
+          status: attempts >= BULK_MAX_ATTEMPTS || (err instanceof AiError && !err.retryable) ? 'failed' : 'pending',
+          error: describeError(err, 150),
+        });
+      }
+    }
+  };
+
+  // Launches pending items up to the job's concurrency, spaced out, while not cooling down
+  useEffect(() => {
+    if (!bulkRunning || !bulkJob || cooldown > 0) return;
+    const running = bulkJob.items.filter(item => item.status === 'running').length;
+    const next = bulkJob.items.find(item => item.status === 'pending');
+    if (!next) {
+      if (running === 0) setBulkRunning(false);
+      return;
+    }
+    if (running >= bulkJob.concurrency) return;
+    const delay = Math.max(0, lastBulkLaunchRef.current + BULK_SPACING_MS - Date.now());
+    const timeoutId = setTimeout(() => { processBulkItem(bulkJob.id, next); }, delay);
+    return () => clearTimeout(timeoutId);
+  }, [bulkRunning, bulkJob, cooldown]);
+
+  const handleCreateBulkJob = async (text: string, concurrency: number) => {
+    await updateBulkJob(createBulkJob(text, concurrency));
+    setBulkRunning(true);
+  };
+
+  const handleDiscardBulkJob = async () => {
+    if (!confirm(t('bulk.discardConfirm'))) return;
+    setBulkRunning(false);
+    await updateBulkJob(null);
+  };
+
   const addLog = (msg: string) => {
     setAgentLogs(prev => {
         const newLogs = [...prev, msg];
         if (newLogs.length > 100) return newLogs.slice(-100); // Keep last 100 logs
         return newLogs;
     });
+    if (currentRunRef.current) updateCurrentRun(run => appendRunLog(run, msg), false);
+  };
+
+  // --- RUN RECORDING ---
+  const showRun = (run: AgentRun) =>
+    setRuns(prev => [run, ...prev.filter(r => r.id !== run.id)].slice(0, RUN_HISTORY_LIMIT));
+
+  const recordRun = async (run: AgentRun) => {
+    showRun(run);
+    await saveRuns([run]);
+  };
+
+  /**
+   * Changes the run in progress. Log lines (`persist` false) only refresh the history panel;
+   * the record is written when its phase, strategy or outcome changes and once more when the cycle ends.
+   */
+  const updateCurrentRun = (change: (run: AgentRun) => AgentRun, persist = true) => {
+    if (!currentRunRef.current) return;
+    currentRunRef.current = change(currentRunRef.current);
+    if (persist) recordRun(currentRunRef.current).catch(e => console.error("Failed to save run", e));
+    else showRun(currentRunRef.current);
   };
 
   const handleManualAnalyze = async () => {
     if (!inputText.trim()) {
-      setError("Por favor, introduce texto para analizar.");
+      setError(t('manual.empty'));
       return;
     }
     setIsLoading(true);
     setError(null);
+    setManualReport([]);
 
     try {
-      const result = await analyzeLeads(inputText);
-      // Deduplicate manually added leads against existing ones
-      const newLeads = result.filter(newLead => 
-        !leads.some(existing => existing.email === newLead.email && existing.companyName === newLead.companyName)
-      );
-      setLeads(prev => [...prev, ...newLeads]);
+      const report: string[] = [];
+      const result = await analyzeLeads(inputText, activeProfile(settings), t, { onLog: line => report.push(line) });
+      setManualReport(report);
+      await ingestLeads(result.map(lead => ({ ...lead, origin: { mode: 'manual' as const } })), 'manual');
     } catch (err) {
-      setError("Ocurrió un error al procesar el texto.");
+      setError(t('manual.error'));
     } finally {
       setIsLoading(false);
     }
   };
 
-  const executeAgentCycle = async () => {
+  /**
+   * Plans until the query is not a near-duplicate of a past or blacklisted search,
+   * telling the strategist which proposals were turned down.
+   */
+  const planUniqueStrategy = async (profile: IdealCustomerProfile, campaign: Campaign | null): Promise<MarketStrategy> => {
+    const rejectedQueries: string[] = [];
+    while (true) {
+      const proposal = await planMarketStrategy(searchHistoryRef.current, profile, { campaign, coverage: coverageRef.current, rejectedQueries });
+      const reason = blockReason(proposal.searchQuery, searchHistoryRef.current, t);
+      if (!reason) return proposal;
+      addLog(t('log.queryRejected', { reason, query: proposal.searchQuery }));
+      rejectedQueries.push(proposal.searchQuery);
+      if (rejectedQueries.length >= MAX_PLAN_ATTEMPTS) {
+        throw new MessageError({ key: 'log.repeatedPlans', params: { count: MAX_PLAN_ATTEMPTS } });
+      }
+    }
+  };
+
+  /**
+   * One plan -> search -> save cycle, recorded as a run. Retrying a run reuses
+   * its strategy when it had one, so the same query is searched again.
+   */
+  const executeAgentCycle = async (retryOf?: AgentRun) => {
     setIsLoading(true);
     setError(null);
     // Don't clear logs here to keep history during loop
-    setCurrentStrategy(null);
-    
-    // Note: We are now using Flash for planning to save Pro quota
-    addLog("🔵 [FASE 1] Iniciando Estudio de Mercado...");
+    setCurrentStrategy(retryOf?.strategy || null);
+
+    const profile = activeProfile(settingsRef.current);
+    // Retries stay with the campaign of the run they repeat
+    const campaignId = retryOf ? retryOf.campaignId : activeCampaignIdRef.current;
+    const campaign = campaignsRef.current.find(c => c.id === campaignId) || null;
+    const callsBefore = apiCallsMade();
+    currentRunRef.current = createRun(profile.name, retryOf, campaign?.id);
+    await recordRun(currentRunRef.current);
 
     try {
       // 1. Plan Strategy
-      const strategy = await planMarketStrategy(searchHistory);
-      setCurrentStrategy(strategy);
-      addLog(`💡 ESTRATEGIA DEFINIDA: ${strategy.targetNiche} en ${strategy.location}`);
-      addLog(`⚖️ Razón: ${strategy.reasoning}`);
-      
+      let strategy = currentRunRef.current.strategy;
+      if (strategy) {
+        addLog(t('log.retryingStrategy', { niche: strategy.targetNiche, location: strategy.location }));
+      } else {
+        // Note: We are now using Flash for planning to save Pro quota
+        updateCurrentRun(run => startPhase(run, 'planning'));
+        addLog(t('log.planning'));
+        const planned = await planUniqueStrategy(profile, campaign);
+        strategy = planned;
+        updateCurrentRun(run => ({ ...run, strategy: planned }));
+        setCurrentStrategy(planned);
+        addLog(`${t('log.strategy', { approach: t(`approach.${planned.approach || 'explore'}`), niche: planned.targetNiche, location: planned.location })}${planned.country ? ` (${planned.country})` : ''}`);
+        addLog(t('log.reasoning', { reasoning: planned.reasoning }));
+      }
+
       // 2. Execute Search
-      addLog("🔵 [FASE 2] Ejecutando Agente de Búsqueda...");
-      const result = await runAgentSearch(strategy.searchQuery, addLog);
+      updateCurrentRun(run => startPhase(run, 'searching'));
+      addLog(t('log.searching'));
+      const { leads: result, candidates, withChatbot } = await runAgentSearch(strategy.searchQuery, addLog, t, {
+        emailPolicy: settingsRef.current.emailPolicy,
+        profile,
+        country: strategy.country,
+      });
       
       // 3. Update Memory & State
+      updateCurrentRun(run => startPhase(run, 'ingesting'));
+      let outcome = { found: result.length, inserted: 0, merged: 0, pendingReview: 0 };
+      let leadIds: string[] = [];
       if (result.length > 0) {
-        setSearchHistory(prev => [...prev, strategy.searchQuery]);
-        
         // Deduplicate
-        setLeads(prev => {
-          const uniqueNewLeads = result.filter(newLead => 
-            !prev.some(existing => existing.email === newLead.email || existing.companyName === newLead.companyName)
-          );
-          
-          if (uniqueNewLeads.length < result.length) {
-            addLog(`♻️ Se filtraron ${result.length - uniqueNewLeads.length} duplicados ya existentes en memoria.`);
-          }
-          return [...prev, ...uniqueNewLeads];
-        });
+        const { leadIds: touched, ...counts } = await ingestLeads(
+          result.map(lead => ({ ...lead, origin: { ...lead.origin, mode: 'agent' as const, niche: strategy.targetNiche, location: strategy.location } })),
+          'agent',
+          campaign?.id
+        );
+        outcome = { ...outcome, ...counts };
+        leadIds = touched;
+        
+        if (counts.merged > 0) {
+          addLog(t('log.merged', { count: counts.merged }));
+        }
+        if (counts.pendingReview > 0) {
+          addLog(t('log.pendingReview', { count: counts.pendingReview }));
+        }
       }
+      updateCurrentRun(run => finishRun(run, 'succeeded', { outcome, leadIds }));
+      await recordSearchRun(strategy, outcome.found, outcome.inserted);
+      await recordCycleCoverage(strategy, {
+        candidates,
+        withChatbot,
+        needScores: leadIds.map(id => leadsRef.current.find(l => l.id === id)?.needScore).filter((score): score is number => score !== undefined),
+        inserted: outcome.inserted,
+      });
 
     } catch (err) {
       console.error(err);
-      const errorMessage = (err as Error).message || JSON.stringify(err);
-      
-      // Check for rate limit specific errors
-      if (errorMessage.includes('429') || errorMessage.includes('quota') || errorMessage.includes('RESOURCE_EXHAUSTED')) {
-        addLog("⏳ CUOTA DE API EXCEDIDA. Pausa de seguridad larga (5 min)...");
-        setCooldown(300000); // 5 minutes pause (300s)
-      } else {
-        addLog(`❌ Error en el ciclo: ${errorMessage.substring(0, 100)}... Reintentando en breve.`);
+      const error = describeError(err);
+
+      if (!pauseForQuota(err)) {
+        addLog(t('log.cycleFailed', { error: formatMessage(t, error).substring(0, 100) }));
       }
+      updateCurrentRun(run => finishRun(run, 'failed', { error }));
     } finally {
+      if (campaign) await recordCycleForCampaign(campaign.id, apiCallsMade() - callsBefore);
+      // Log lines written after the outcome
+      if (currentRunRef.current) await recordRun(currentRunRef.current).catch(e => console.error("Failed to save run", e));
+      currentRunRef.current = null;
       setIsLoading(false);
+      pruneRuns().catch(e => console.error("Failed to prune runs", e));
       // The useEffect will trigger the next cycle if isLooping is still true
     }
   };
 
-  const handleClearMemory = () => {
-    if (confirm("¿Estás seguro de borrar toda la memoria y los leads extraídos?")) {
+  // Yield of the cycle's niche × location, for the coverage map and the next plans
+  const recordCycleCoverage = async (strategy: MarketStrategy, result: CycleYield) => {
+    const key = coverageKey(strategy.targetNiche, strategy.location);
+    const cell = recordCoverage(coverageRef.current.find(c => c.key === key), strategy.targetNiche, strategy.location, result);
+    coverageRef.current = [...coverageRef.current.filter(c => c.key !== key), cell];
+    setCoverage(coverageRef.current);
+    await saveCoverageCell(cell);
+  };
+
+  // --- SEARCH HISTORY ---
+  // Every completed search is recorded, including the empty ones, so the strategist stops proposing them
+  const recordSearchRun = async (strategy: MarketStrategy, found: number, inserted: number) => {
+    const entry = await saveSearchEntry(recordSearch(searchHistoryRef.current, {
+      query: strategy.searchQuery, niche: strategy.targetNiche, location: strategy.location, found, inserted,
+    }));
+    const stale = entriesToPrune([...searchHistoryRef.current.filter(e => e.id !== entry.id), entry]);
+    const staleIds = new Set(stale.map(e => e.id));
+    searchHistoryRef.current = [...searchHistoryRef.current.filter(e => e.id !== entry.id && !staleIds.has(e.id)), entry];
+    setSearchHistory(searchHistoryRef.current);
+    if (stale.length > 0) await deleteSearchEntries(stale.map(e => e.id!));
+  };
+
+  const handleUpdateSearchEntry = async (entry: SearchEntry) => {
+    setSearchHistory(prev => prev.map(e => e.id === entry.id ? entry : e));
+    await saveSearchEntry(entry);
+  };
+
+  const handleDeleteSearchEntry = async (id: number) => {
+    setSearchHistory(prev => prev.filter(e => e.id !== id));
+    await deleteSearchEntries([id]);
+  };
+
+  // Blocking a query that was already run turns its entry into a blacklisted one
+  const handleBlockQuery = async (query: string) => {
+    const existing = searchHistory.find(e => normalizeQuery(e.query) === normalizeQuery(query));
+    const entry = await saveSearchEntry(existing ? { ...existing, status: 'blacklisted' } : createSearchEntry(query, { status: 'blacklisted' }));
+    setSearchHistory(prev => [...prev.filter(e => e.id !== entry.id), entry]);
+  };
+
+  // --- CAMPAIGNS ---
+  const handleSaveCampaign = async (campaign: Campaign) => {
+    setCampaigns(prev => prev.some(c => c.id === campaign.id) ? prev.map(c => c.id === campaign.id ? campaign : c) : [campaign, ...prev]);
+    await saveCampaign(campaign);
+  };
+
+  const handleDeleteCampaign = async (id: string) => {
+    setCampaigns(prev => prev.filter(c => c.id !== id));
+    setLeadView(prev => prev.filters.campaign === id ? { ...prev, filters: { ...prev.filters, campaign: '' } } : prev);
+    await deleteCampaign(id);
+  };
+
+  const handleSelectCampaign = async (id: string | null) => {
+    setActiveCampaignId(id);
+    await saveActiveCampaignId(id);
+  };
+
+  /**
+   * Counts a finished cycle against its campaign and stops the loop
+   * once the campaign's target or one of its limits is reached.
+   */
+  const recordCycleForCampaign = async (campaignId: string, calls: number) => {
+    const latest = campaignsRef.current.find(c => c.id === campaignId);
+    if (!latest || latest.status !== 'active') return;
+    const updated = recordCampaignCycle(latest, calls, qualifiedCount(leadsRef.current, latest));
+    campaignsRef.current = campaignsRef.current.map(c => c.id === campaignId ? updated : c);
+    await handleSaveCampaign(updated);
+    if (updated.status !== 'active') {
+      addLog(t('log.campaignFinished', { name: updated.name, reason: updated.stopReason ? formatMessage(t, updated.stopReason) : '' }));
+      setIsLooping(false);
+    }
+  };
+
+  const handleRetryRun = (run: AgentRun) => {
+    if (isLoading) return;
+    setMode('agent');
+    setShowRunHistory(false);
+    executeAgentCycle(run);
+  };
+
+  const handleClearMemory = async () => {
+    if (confirm(t('results.clearMemoryConfirm'))) {
       setLeads([]);
       setSearchHistory([]);
+      setMergeReviews([]);
       setCurrentStrategy(null);
       setAgentLogs([]);
+      setRuns([]);
+      setCampaigns([]);
+      setCoverage([]);
       setIsLooping(false); // Safety stop
-      localStorage.removeItem('b2b_leads_db');
-      localStorage.removeItem('b2b_search_history');
+      setUndoStack([]);
+      setBulkRunning(false);
+      await clearDatabase();
+      await handleSelectCampaign(null);
+      await handleClearEnrichmentQueue();
+      await updateBulkJob(null);
     }
   };
 
-  const handleDownloadCSV = () => {
-    if (leads.length === 0) return;
-    const headers = "Nombre Empresa;Nombre Contacto;Cargo;Email;Sitio Web;Nivel de Necesidad;Motivo;Redes Sociales";
-    const rows = leads.map(lead => 
-      `${lead.companyName};${lead.contactName || 'N/A'};${lead.role || 'N/A'};${lead.email};${lead.website};${lead.needScore};${lead.reason};${lead.socialLinks?.join(', ') || ''}`
-    );
-    const csvContent = "\uFEFF" + [headers, ...rows].join("\n");
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.setAttribute('download', 'leads_qualificados_exec_db.csv');
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const openExport = (selection: Lead[], scopeLabel: string) => setExportTarget({ leads: selection, scopeLabel });
+
+  // Sync marks are bookkeeping, not edits: saved without an undo entry
+  const handleSynced = async (synced: Lead[]) => {
+    if (synced.length === 0) return;
+    const byId = new Map(synced.map(l => [l.id, l]));
+    setLeads(prev => prev.map(l => byId.get(l.id) || l));
+    setExportTarget(prev => prev && { ...prev, leads: prev.leads.map(l => byId.get(l.id) || l) });
+    await saveLeads(synced);
   };
 
+  const handleExportView = () =>
+    openExport(applyView(leads, leadView), isFiltered(leadView.filters) ? t('scope.filtered') : t('scope.all'));
+
   const toggleLoop = () => {
+      if (!isLooping && activeCampaign && activeCampaign.status !== 'active') {
+          addLog(t('log.campaignOver', { name: activeCampaign.name }));
+          setShowCampaigns(true);
+          return;
+      }
       setIsLooping(!isLooping);
   };
 
-  const stats = {
-    total: leads.length,
-    opportunities: leads.filter(l => l.chatbotStatus === 'OPORTUNIDAD').length,
-    highPriority: leads.filter(l => l.needScore >= 4 && l.chatbotStatus === 'OPORTUNIDAD').length
-  };
+  const enrichLead = enrichReview && leads.find(l => l.id === enrichReview.leadId);
+
+  const stats = computeStats(leads, activeCampaign);
 
   return (
+    <I18nProvider language={settings.uiLanguage}>
     <div className="min-h-screen bg-gray-50 text-gray-900 pb-12 font-sans">
       {/* Header */}
       <header className="bg-white border-b border-gray-200 sticky top-0 z-10">
@@ -216,8 +803,14 @@ export default function App() {
               LeadQualifier AI <span className="text-xs font-normal text-gray-400 ml-1">v3.4 Flash Optimized</span>
             </h1>
           </div>
-          <div className="flex items-center gap-4 text-sm text-gray-500 hidden sm:flex">
-             <span className="flex items-center gap-1"><Zap size={14} className="text-blue-500"/> Gemini 2.5 Flash</span>
+          <div className="flex items-center gap-4 text-sm text-gray-500">
+             <span className="items-center gap-1 hidden sm:flex"><Zap size={14} className="text-blue-500"/> {getProvider().name} · {getProvider().modelFor('worker')}</span>
+             <button onClick={() => setShowUsage(true)} className="text-gray-400 hover:text-gray-700 transition-colors" title={t('header.usage')}>
+               <Activity size={18} />
+             </button>
+             <button onClick={() => setShowSettings(true)} className="text-gray-400 hover:text-gray-700 transition-colors" title={t('header.settings')}>
+               <Settings size={18} />
+             </button>
           </div>
         </div>
       </header>
@@ -227,10 +820,10 @@ export default function App() {
         {/* Intro */}
         <div className="text-center max-w-2xl mx-auto mb-8">
           <h2 className="text-3xl font-extrabold text-gray-900 sm:text-4xl tracking-tight">
-            Agente de Prospección B2B
+            {t('intro.title')}
           </h2>
           <p className="mt-4 text-lg text-gray-600">
-            Inteligencia Artificial autónoma que encuentra <b>Tomadores de Decisiones</b> y filtra chatbots.
+            {t('intro.lead')} <b>{t('intro.decisionMakers')}</b> {t('intro.tail')}
           </p>
         </div>
 
@@ -243,7 +836,7 @@ export default function App() {
             {/* Mode Switcher Tabs */}
             <div className="bg-white p-1 rounded-xl shadow-sm border border-gray-200 flex">
               <button
-                onClick={() => { setMode('manual'); setIsLooping(false); }}
+                onClick={() => { setMode('manual'); setIsLooping(false); setBulkRunning(false); }}
                 className={`flex-1 py-2.5 px-4 rounded-lg text-sm font-medium transition-all duration-200 flex items-center justify-center gap-2 ${
                   mode === 'manual' 
                     ? 'bg-blue-50 text-blue-700 shadow-sm ring-1 ring-blue-200' 
@@ -251,10 +844,10 @@ export default function App() {
                 }`}
               >
                 <ClipboardPaste size={16} />
-                Modo Manual
+                {t('mode.manual')}
               </button>
               <button
-                onClick={() => setMode('agent')}
+                onClick={() => { setMode('agent'); setBulkRunning(false); }}
                 className={`flex-1 py-2.5 px-4 rounded-lg text-sm font-medium transition-all duration-200 flex items-center justify-center gap-2 ${
                   mode === 'agent' 
                     ? 'bg-purple-50 text-purple-700 shadow-sm ring-1 ring-purple-200' 
@@ -262,70 +855,146 @@ export default function App() {
                 }`}
               >
                 <BrainCircuit size={16} />
-                Agente Autónomo
+                {t('mode.agent')}
+              </button>
+              <button
+                onClick={() => { setMode('bulk'); setIsLooping(false); }}
+                className={`flex-1 py-2.5 px-4 rounded-lg text-sm font-medium transition-all duration-200 flex items-center justify-center gap-2 ${
+                  mode === 'bulk'
+                    ? 'bg-emerald-50 text-emerald-700 shadow-sm ring-1 ring-emerald-200'
+                    : 'text-gray-500 hover:bg-gray-50'
+                }`}
+              >
+                <ListChecks size={16} />
+                {t('mode.bulk')}
               </button>
             </div>
 
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 flex flex-col h-[550px]">
-              {mode === 'manual' ? (
+              {mode === 'bulk' ? (
+                <BulkPanel
+                  job={bulkJob}
+                  isRunning={bulkRunning}
+                  cooldown={cooldown}
+                  onCreate={handleCreateBulkJob}
+                  onToggleRun={() => setBulkRunning(!bulkRunning)}
+                  onConcurrencyChange={(concurrency) => bulkJob && updateBulkJob({ ...bulkJob, concurrency })}
+                  onRetry={(ids) => bulkJob && updateBulkJob(retryBulkItems(bulkJob, ids))}
+                  onDiscard={handleDiscardBulkJob}
+                />
+              ) : mode === 'manual' ? (
                 <>
                   <div className="flex items-center justify-between mb-4">
-                    <h3 className="font-semibold text-gray-800">Pegar Texto Crudo</h3>
+                    <h3 className="font-semibold text-gray-800">{t('manual.title')}</h3>
                     <button 
                         onClick={() => setInputText(SAMPLE_TEXT)} 
                         className="text-xs text-blue-600 hover:underline"
                     >
-                      Cargar Ejemplo
+                      {t('manual.sample')}
                     </button>
                   </div>
                   <textarea
                     className="flex-1 w-full p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none text-sm font-mono bg-gray-50 mb-4"
-                    placeholder="Pega aquí el contenido de los sitios web..."
+                    placeholder={t('manual.placeholder')}
                     value={inputText}
                     onChange={(e) => setInputText(e.target.value)}
                   />
                   <div className="grid grid-cols-2 gap-3">
                     <button onClick={() => setInputText('')} className="btn-secondary flex justify-center items-center py-2 border rounded-lg hover:bg-gray-50">
-                      <Trash2 size={16} className="mr-2"/> Limpiar
+                      <Trash2 size={16} className="mr-2"/> {t('manual.clear')}
                     </button>
                     <button 
                       onClick={handleManualAnalyze} 
                       disabled={isLoading || !inputText}
                       className="btn-primary bg-blue-600 text-white flex justify-center items-center py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50"
                     >
-                      {isLoading ? <Loader2 className="animate-spin" /> : 'Analizar Texto'}
+                      {isLoading ? <Loader2 className="animate-spin" /> : t('manual.analyze')}
                     </button>
                   </div>
+                  {manualReport.length > 0 && (
+                    <div className="mt-4 p-3 bg-amber-50 text-amber-800 text-xs rounded-lg border border-amber-100 space-y-1">
+                      {manualReport.map((line, i) => <div key={i}>{line}</div>)}
+                    </div>
+                  )}
                 </>
               ) : (
                 <>
                   <div className="flex items-center justify-between mb-4">
-                    <h3 className="font-semibold text-gray-800">Piloto Automático</h3>
+                    <h3 className="font-semibold text-gray-800">{t('agent.title')}</h3>
+                    <button
+                      onClick={() => setShowIcpEditor(true)}
+                      className="flex items-center gap-1 text-xs text-purple-700 bg-purple-50 hover:bg-purple-100 px-2 py-1 rounded-full border border-purple-200 max-w-[45%]"
+                      title={t('agent.editProfile')}
+                    >
+                      <Target size={12} className="shrink-0" />
+                      <span className="truncate">{activeProfile(settings).name}</span>
+                    </button>
+                    <button
+                      onClick={() => setShowSearchHistory(true)}
+                      className="text-gray-400 hover:text-purple-700 transition-colors"
+                      title={t('agent.searchHistory')}
+                    >
+                      <BookMarked size={16} />
+                    </button>
+                    <button
+                      onClick={() => setShowCoverage(true)}
+                      className="text-gray-400 hover:text-purple-700 transition-colors"
+                      title={t('agent.coverage')}
+                    >
+                      <Grid3x3 size={16} />
+                    </button>
+                    <button
+                      onClick={() => setShowRunHistory(true)}
+                      className="text-gray-400 hover:text-purple-700 transition-colors"
+                      title={t('agent.runHistory')}
+                    >
+                      <History size={16} />
+                    </button>
                     {isLooping && !cooldown && (
                       <div className="flex items-center gap-1 text-xs text-green-600 bg-green-50 px-2 py-1 rounded-full border border-green-100 animate-pulse">
                         <Sparkles size={12} />
-                        <span>Bucle Activo</span>
+                        <span>{t('agent.looping')}</span>
                       </div>
                     )}
                     {cooldown > 0 && (
                       <div className="flex items-center gap-1 text-xs text-orange-600 bg-orange-50 px-2 py-1 rounded-full border border-orange-100 animate-pulse">
                         <Loader2 size={12} className="animate-spin" />
-                        <span>Enfriando ({Math.ceil(cooldown/1000)}s)</span>
+                        <span>{t('agent.cooling', { time: formatDuration(cooldown) })}</span>
                       </div>
                     )}
                   </div>
                   
+                  {/* Campaign */}
+                  <div className="mb-4">
+                    <button
+                      onClick={() => setShowCampaigns(true)}
+                      className="w-full flex items-center gap-2 text-xs text-left text-gray-600 hover:text-purple-700"
+                      title={t('agent.manageCampaigns')}
+                    >
+                      <Flag size={12} className={activeCampaign ? 'text-purple-500' : 'text-gray-400'} />
+                      <span className="truncate font-medium">{activeCampaign ? activeCampaign.name : t('agent.noCampaign')}</span>
+                      {activeCampaign?.stopReason && <span className="truncate text-gray-400">· {formatMessage(t, activeCampaign.stopReason)}</span>}
+                    </button>
+                    {activeCampaign && (
+                      <div className="grid grid-cols-3 gap-3 mt-2">
+                        <ProgressBar label={t('agent.qualified')} value={stats.highPriority} max={activeCampaign.leadTarget} />
+                        <ProgressBar label={t('agent.cycles')} value={activeCampaign.cycles} max={activeCampaign.maxCycles} />
+                        <ProgressBar label={t('agent.calls')} value={activeCampaign.apiCalls} max={activeCampaign.maxApiCalls} />
+                      </div>
+                    )}
+                  </div>
+
                   {/* Strategy Display */}
                   <div className={`mb-4 p-4 rounded-lg border transition-all duration-300 ${currentStrategy ? 'bg-purple-50 border-purple-200' : 'bg-gray-50 border-gray-200 border-dashed'}`}>
                      {currentStrategy ? (
                          <div className="space-y-2">
                              <div className="flex items-start gap-2">
-                                <span className="bg-purple-200 text-purple-800 text-[10px] font-bold px-1.5 py-0.5 rounded uppercase tracking-wider mt-0.5">Objetivo</span>
+                                <span className="bg-purple-200 text-purple-800 text-[10px] font-bold px-1.5 py-0.5 rounded uppercase tracking-wider mt-0.5">{t('agent.target')}</span>
                                 <span className="text-sm font-bold text-gray-800">{currentStrategy.targetNiche}</span>
                              </div>
                              <div className="flex items-start gap-2">
-                                <span className="bg-blue-200 text-blue-800 text-[10px] font-bold px-1.5 py-0.5 rounded uppercase tracking-wider mt-0.5">Zona</span>
-                                <span className="text-sm text-gray-700">{currentStrategy.location}</span>
+                                <span className="bg-blue-200 text-blue-800 text-[10px] font-bold px-1.5 py-0.5 rounded uppercase tracking-wider mt-0.5">{t('agent.zone')}</span>
+                                <span className="text-sm text-gray-700">{currentStrategy.location}{currentStrategy.country && ` · ${countryName(currentStrategy.country, UI_LOCALES[settings.uiLanguage])}`}</span>
                              </div>
                              <p className="text-xs text-gray-600 italic mt-2 border-t border-purple-100 pt-2">
                                 "{currentStrategy.reasoning}"
@@ -334,7 +1003,7 @@ export default function App() {
                      ) : (
                          <div className="text-center text-gray-400 py-4 text-sm flex flex-col items-center">
                              <BrainCircuit size={24} className="mb-2 opacity-20"/>
-                             <p>Esperando iniciar estudio de mercado...</p>
+                             <p>{t('agent.waiting')}</p>
                          </div>
                      )}
                   </div>
@@ -346,7 +1015,7 @@ export default function App() {
                       <span>AGENT_CORE_LOGS {isLooping ? '(LIVE)' : '(IDLE)'}</span>
                     </div>
                     {agentLogs.length === 0 && !isLoading && (
-                      <div className="text-gray-600 italic">Sistema en espera. Pulse START.</div>
+                      <div className="text-gray-600 italic">{t('agent.idle')}</div>
                     )}
                     {agentLogs.map((log, i) => (
                       <div key={i} className="mb-1.5 break-words">
@@ -372,18 +1041,18 @@ export default function App() {
                       {isLooping ? (
                         <>
                           <PauseCircle size={20} className="mr-2" /> 
-                          DETENER BUCLE
+                          {t('agent.stop')}
                         </>
                       ) : (
                         <>
                           <Play size={20} className="mr-2" /> 
-                          INICIAR AUTO-DESCUBRIMIENTO
+                          {t('agent.start')}
                         </>
                       )}
                     </button>
                     {isLooping && isLoading && (
                         <p className="text-[10px] text-center text-gray-400 animate-pulse">
-                            Ciclo en progreso...
+                            {t('agent.cycleRunning')}
                         </p>
                     )}
                   </div>
@@ -404,18 +1073,18 @@ export default function App() {
             {/* Stats Cards */}
             <div className="grid grid-cols-3 gap-4">
               <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-200">
-                <div className="text-gray-500 text-xs font-medium uppercase tracking-wider">Base de Datos (Memoria)</div>
+                <div className="text-gray-500 text-xs font-medium uppercase tracking-wider truncate" title={activeCampaign?.name}>{activeCampaign ? t('stats.campaign', { name: activeCampaign.name }) : t('stats.database')}</div>
                 <div className="mt-1 text-2xl font-bold text-gray-900 flex items-center gap-2">
                     {stats.total}
                     <Database size={16} className="text-gray-300"/>
                 </div>
               </div>
               <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-200">
-                <div className="text-green-600 text-xs font-medium uppercase tracking-wider">Oportunidades</div>
+                <div className="text-green-600 text-xs font-medium uppercase tracking-wider">{t('stats.opportunities')}</div>
                 <div className="mt-1 text-2xl font-bold text-green-700">{stats.opportunities}</div>
               </div>
               <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-200">
-                <div className="text-orange-600 text-xs font-medium uppercase tracking-wider">Alta Prioridad</div>
+                <div className="text-orange-600 text-xs font-medium uppercase tracking-wider">{t('stats.highPriority')}</div>
                 <div className="mt-1 text-2xl font-bold text-orange-700">{stats.highPriority}</div>
               </div>
             </div>
@@ -424,32 +1093,99 @@ export default function App() {
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 flex flex-col min-h-[550px] max-h-[600px] overflow-hidden">
               <div className="p-4 border-b border-gray-200 flex items-center justify-between bg-gray-50/50">
                 <h3 className="font-semibold text-gray-800 flex items-center gap-2">
-                  Resultados Globales
+                  {t('results.title')}
                   {leads.length > 0 && <span className="text-xs bg-gray-200 px-2 py-0.5 rounded-full text-gray-600">{leads.length}</span>}
                 </h3>
                 <div className="flex items-center gap-3">
+                    {enrichmentQueue.length > 0 && (
+                        <button
+                            onClick={() => confirm(t('results.clearQueueConfirm')) && handleClearEnrichmentQueue()}
+                            className="flex items-center gap-1 text-xs font-medium text-indigo-700 bg-indigo-50 border border-indigo-200 px-2 py-1 rounded-full hover:bg-indigo-100"
+                            title={isLooping ? t('results.queuePaused') : t('results.queuePending')}
+                        >
+                            {isEnriching ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />} {enrichmentQueue.length}
+                        </button>
+                    )}
+                    {mergeReviews.length > 0 && (
+                        <button
+                            onClick={() => setShowMergeReviews(true)}
+                            className="flex items-center gap-1 text-xs font-medium text-amber-700 bg-amber-50 border border-amber-200 px-2 py-1 rounded-full hover:bg-amber-100"
+                            title={t('results.mergeReviews')}
+                        >
+                            <GitMerge size={14} /> {mergeReviews.length}
+                        </button>
+                    )}
+                    <button
+                        onClick={handleUndo}
+                        disabled={undoStack.length === 0}
+                        className="text-gray-400 hover:text-gray-700 disabled:opacity-30 transition-colors"
+                        title={undoStack.length > 0 ? t('results.undo', { label: undoStack[undoStack.length - 1].label }) : t('results.nothingToUndo')}
+                    >
+                        <Undo2 size={18} />
+                    </button>
+                    <button
+                        onClick={() => setShowAddLead(true)}
+                        className="text-gray-400 hover:text-blue-600 transition-colors"
+                        title={t('results.addLead')}
+                    >
+                        <Plus size={18} />
+                    </button>
+                    <button
+                        onClick={() => setShowImport(true)}
+                        className="text-gray-400 hover:text-blue-600 transition-colors"
+                        title={t('results.import')}
+                    >
+                        <Upload size={18} />
+                    </button>
+                    <div className="flex bg-gray-100 rounded-lg p-0.5">
+                        <button
+                            onClick={() => setResultsView('table')}
+                            className={`p-1 rounded-md ${resultsView === 'table' ? 'bg-white shadow-sm text-gray-800' : 'text-gray-400 hover:text-gray-600'}`}
+                            title={t('results.tableView')}
+                        >
+                            <Table2 size={16} />
+                        </button>
+                        <button
+                            onClick={() => setResultsView('board')}
+                            className={`p-1 rounded-md ${resultsView === 'board' ? 'bg-white shadow-sm text-gray-800' : 'text-gray-400 hover:text-gray-600'}`}
+                            title={t('results.boardView')}
+                        >
+                            <Columns3 size={16} />
+                        </button>
+                    </div>
                     <button
                         onClick={handleClearMemory}
                         disabled={leads.length === 0}
                         className="text-gray-400 hover:text-red-500 transition-colors"
-                        title="Borrar Memoria"
+                        title={t('results.clearMemory')}
                     >
                         <Trash2 size={18} />
                     </button>
                     <button
-                    onClick={handleDownloadCSV}
+                    onClick={handleExportView}
                     disabled={leads.length === 0}
                     className="flex items-center gap-2 text-sm font-medium text-blue-600 hover:text-blue-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                     >
                     <FileDown size={18} />
-                    Exportar DB
+                    {t('results.export')}
                     </button>
                 </div>
               </div>
 
               <div className="flex-1 overflow-auto p-0">
                 {leads.length > 0 ? (
-                  <LeadTable leads={leads} />
+                  resultsView === 'table'
+                    ? <LeadTable
+                        leads={leads}
+                        view={leadView}
+                        campaigns={campaigns}
+                        onViewChange={setLeadView}
+                        onUpdateLead={handleUpdateLead}
+                        onDeleteLeads={handleDeleteLeads}
+                        onExportLeads={(selection) => openExport(selection, t('scope.selection'))}
+                        onEnrichLead={handleEnrichLead}
+                      />
+                    : <LeadBoard leads={leads} onUpdateLead={handleUpdateLead} />
                 ) : (
                   <div className="h-full flex flex-col items-center justify-center text-gray-400 p-8">
                     {isLoading ? (
@@ -462,10 +1198,10 @@ export default function App() {
                          </div>
                          <div>
                             <p className="text-sm font-semibold text-gray-800 mb-1">
-                                {currentStrategy ? 'Investigando Mercado...' : 'Analizando...'}
+                                {currentStrategy ? t('results.researching') : t('results.analyzing')}
                             </p>
                             <p className="text-xs text-gray-500">
-                                {currentStrategy ? `Buscando ${currentStrategy.targetNiche} en ${currentStrategy.location}` : 'El agente está pensando.'}
+                                {currentStrategy ? t('results.searchingFor', { niche: currentStrategy.targetNiche, location: currentStrategy.location }) : t('results.thinking')}
                             </p>
                          </div>
                        </div>
@@ -474,9 +1210,9 @@ export default function App() {
                         <div className="bg-gray-100 p-4 rounded-full mb-4">
                             <BrainCircuit size={32} className="text-gray-400" />
                         </div>
-                        <p className="font-medium text-gray-600">Memoria Vacía</p>
+                        <p className="font-medium text-gray-600">{t('results.emptyTitle')}</p>
                         <p className="text-sm text-gray-400 mt-1 max-w-xs text-center">
-                            Activa el modo "Agente Autónomo" para que la IA encuentre clientes por ti automáticamente.
+                            {t('results.emptyHint')}
                         </p>
                       </>
                     )}
@@ -487,6 +1223,87 @@ export default function App() {
           </div>
         </div>
       </main>
+
+      {showMergeReviews && (
+        <MergeReviewPanel
+          reviews={mergeReviews}
+          leads={leads}
+          onMerge={handleMergeReview}
+          onKeepSeparate={handleKeepSeparate}
+          onClose={() => setShowMergeReviews(false)}
+        />
+      )}
+
+      {exportTarget && (
+        <ExportDialog
+          leads={exportTarget.leads}
+          scopeLabel={exportTarget.scopeLabel}
+          profileName={activeProfile(settings).name}
+          options={settings.exportOptions}
+          onOptionsChange={(exportOptions) => handleSettingsChange({ ...settings, exportOptions })}
+          crm={settings.crm}
+          onCrmChange={(crm) => handleSettingsChange({ ...settings, crm })}
+          onSynced={handleSynced}
+          onClose={() => setExportTarget(null)}
+        />
+      )}
+      {enrichReview && enrichLead && (
+        <EnrichLeadModal
+          lead={enrichLead}
+          changes={enrichReview.changes}
+          error={enrichReview.error}
+          onApply={handleApplyEnrichment}
+          onClose={() => setEnrichReview(null)}
+        />
+      )}
+      {showUsage && (
+        <UsagePanel settings={settings} onChange={handleSettingsChange} onClose={() => setShowUsage(false)} />
+      )}
+      {showCampaigns && (
+        <CampaignEditor
+          campaigns={campaigns}
+          selectedId={activeCampaignId}
+          leads={leads}
+          isRunning={isLooping}
+          onSelect={handleSelectCampaign}
+          onSave={handleSaveCampaign}
+          onDelete={handleDeleteCampaign}
+          onClose={() => setShowCampaigns(false)}
+        />
+      )}
+      {showCoverage && (
+        <CoverageMap cells={coverage} onClose={() => setShowCoverage(false)} />
+      )}
+      {showSearchHistory && (
+        <SearchHistoryPanel
+          entries={searchHistory}
+          onUpdate={handleUpdateSearchEntry}
+          onDelete={handleDeleteSearchEntry}
+          onBlock={handleBlockQuery}
+          onClose={() => setShowSearchHistory(false)}
+        />
+      )}
+      {showRunHistory && (
+        <RunHistoryPanel
+          runs={runs}
+          isBusy={isLoading}
+          onRetry={handleRetryRun}
+          onClose={() => setShowRunHistory(false)}
+        />
+      )}
+      {showImport && (
+        <ImportWizard onImport={handleImport} onClose={() => setShowImport(false)} />
+      )}
+      {showAddLead && (
+        <AddLeadModal onSave={handleCreateLead} onClose={() => setShowAddLead(false)} />
+      )}
+      {showIcpEditor && (
+        <IcpEditor settings={settings} onChange={handleSettingsChange} onClose={() => setShowIcpEditor(false)} />
+      )}
+      {showSettings && (
+        <SettingsPanel settings={settings} onChange={handleSettingsChange} onClose={() => setShowSettings(false)} />
+      )}
     </div>
+    </I18nProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,31 @@
+import React from 'react';
+import { EMPTY_DRAFT, LeadDraft } from '../services/leadEditing';
+import { LeadEditForm } from './LeadEditForm';
+import { useI18n } from './I18nProvider';
+import { Plus, X } from 'lucide-react';
+
+interface AddLeadModalProps {
+  onSave: (draft: LeadDraft) => void;
+  onClose: () => void;
+}
+
+export const AddLeadModal: React.FC<AddLeadModalProps> = ({ onSave, onClose }) => {
+  const { t } = useI18n();
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-black/20 p-4" onClick={onClose}>
+      <div className="w-full max-w-3xl max-h-[85vh] bg-white rounded-xl shadow-xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+            <Plus size={18} className="text-blue-500" /> {t('results.addLead')}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={18} />
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-4">
+          <LeadEditForm initial={EMPTY_DRAFT} submitLabel={t('addLead.submit')} onSave={onSave} onCancel={onClose} />
+        </div>
+      </div>
+    </div>
+  );
+};
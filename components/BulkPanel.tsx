@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { formatDuration } from '../services/agentRuns';
+import { BULK_CONCURRENCY_OPTIONS, BulkItemStatus, BulkJob, bulkProgress, parseBulkInput } from '../services/bulkJobs';
+import { formatMessage } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import { AlertCircle, CheckCircle, CircleDashed, Loader2, PauseCircle, Play, RotateCcw, SearchX, Trash2 } from 'lucide-react';
+
+interface BulkPanelProps {
+  job: BulkJob | null;
+  isRunning: boolean;
+  cooldown: number;
+  onCreate: (text: string, concurrency: number) => void;
+  onToggleRun: () => void;
+  onConcurrencyChange: (concurrency: number) => void;
+  onRetry: (ids?: string[]) => void;
+  onDiscard: () => void;
+}
+
+const STATUS_ICONS: Record<BulkItemStatus, React.ReactNode> = {
+  pending: <CircleDashed size={14} className="text-gray-300" />,
+  running: <Loader2 size={14} className="text-blue-500 animate-spin" />,
+  done: <CheckCircle size={14} className="text-green-500" />,
+  notFound: <SearchX size={14} className="text-gray-400" />,
+  failed: <AlertCircle size={14} className="text-red-500" />,
+};
+
+export const BulkPanel: React.FC<BulkPanelProps> = ({ job, isRunning, cooldown, onCreate, onToggleRun, onConcurrencyChange, onRetry, onDiscard }) => {
+  const { t } = useI18n();
+  const [text, setText] = useState('');
+  const [concurrency, setConcurrency] = useState(BULK_CONCURRENCY_OPTIONS[1]);
+
+  if (!job) {
+    const parsed = parseBulkInput(text).length;
+    return (
+      <>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="font-semibold text-gray-800">{t('mode.bulk')}</h3>
+          <span className="text-xs text-gray-400">{t('bulk.companies', { count: parsed })}</span>
+        </div>
+        <textarea
+          className="flex-1 w-full p-4 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none text-sm font-mono bg-gray-50 mb-4"
+          placeholder={t('bulk.placeholder')}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+        />
+        <div className="flex items-center gap-3">
+          <label className="text-xs text-gray-500 flex items-center gap-1">
+            {t('bulk.concurrency')}
+            <select value={concurrency} onChange={(e) => setConcurrency(Number(e.target.value))} className="border border-gray-300 rounded px-1 py-1">
+              {BULK_CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          <button
+            onClick={() => onCreate(text, concurrency)}
+            disabled={parsed === 0}
+            className="flex-1 bg-blue-600 text-white flex justify-center items-center py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {t('bulk.create')}
+          </button>
+        </div>
+      </>
+    );
+  }
+
+  const progress = bulkProgress(job);
+  const finished = progress.done + progress.notFound + progress.failed;
+  const remaining = progress.pending + progress.running;
+  const jobName = t('bulk.jobName', { date: job.name });
+
+  return (
+    <>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold text-gray-800 truncate" title={jobName}>{jobName}</h3>
+        {cooldown > 0 && (
+          <div className="flex items-center gap-1 text-xs text-orange-600 bg-orange-50 px-2 py-1 rounded-full border border-orange-100 animate-pulse">
+            <Loader2 size={12} className="animate-spin" />
+            <span>{t('agent.cooling', { time: formatDuration(cooldown) })}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="mb-3">
+        <div className="h-2 bg-gray-100 rounded-full overflow-hidden flex">
+          <div className="bg-green-500" style={{ width: `${(progress.done / job.items.length) * 100}%` }} />
+          <div className="bg-gray-300" style={{ width: `${(progress.notFound / job.items.length) * 100}%` }} />
+          <div className="bg-red-400" style={{ width: `${(progress.failed / job.items.length) * 100}%` }} />
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          {t('bulk.progress', { finished, total: job.items.length, done: progress.done, notFound: progress.notFound, failed: progress.failed })}
+        </p>
+      </div>
+
+      <ul className="flex-1 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100 mb-4">
+        {job.items.map(item => (
+          <li key={item.id} className="px-3 py-1.5 flex items-center gap-2 text-sm">
+            <span title={t(`bulkStatus.${item.status}`)}>{STATUS_ICONS[item.status]}</span>
+            <span className="flex-1 min-w-0">
+              <span className="block truncate text-gray-800">{item.input}</span>
+              {item.error && <span className="block truncate text-xs text-red-500" title={formatMessage(t, item.error)}>{formatMessage(t, item.error)}</span>}
+            </span>
+            {item.status === 'failed' && (
+              <button onClick={() => onRetry([item.id])} className="text-gray-400 hover:text-blue-600" title={t('common.retry')}>
+                <RotateCcw size={14} />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex items-center gap-3">
+        <label className="text-xs text-gray-500 flex items-center gap-1">
+          {t('bulk.concurrency')}
+          <select value={job.concurrency} onChange={(e) => onConcurrencyChange(Number(e.target.value))} className="border border-gray-300 rounded px-1 py-1">
+            {BULK_CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <button
+          onClick={onToggleRun}
+          disabled={!isRunning && remaining === 0}
+          className={`flex-1 flex justify-center items-center py-2 rounded-lg disabled:opacity-50 ${
+            isRunning ? 'bg-red-50 text-red-600 border border-red-200 hover:bg-red-100' : 'bg-blue-600 text-white hover:bg-blue-700'
+          }`}
+        >
+          {isRunning
+            ? <><PauseCircle size={16} className="mr-2" /> {t('bulk.pause')}</>
+            : <><Play size={16} className="mr-2" /> {finished > 0 ? t('bulk.resume') : t('bulk.start')}</>}
+        </button>
+        {progress.failed > 0 && (
+          <button onClick={() => onRetry()} className="text-gray-500 hover:text-blue-600" title={t('bulk.retryFailed')}>
+            <RotateCcw size={18} />
+          </button>
+        )}
+        <button onClick={onDiscard} disabled={isRunning} className="text-gray-400 hover:text-red-500 disabled:opacity-30" title={t('bulk.discard')}>
+          <Trash2 size={18} />
+        </button>
+      </div>
+    </>
+  );
+};
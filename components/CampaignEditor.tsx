@@ -0,0 +1,161 @@
+import React from 'react';
+import { Campaign, Lead } from '../types';
+import { createCampaign, qualifiedCount, reopenCampaign } from '../services/campaigns';
+import { ListField } from './IcpEditor';
+import { formatMessage } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import { Flag, Plus, RotateCcw, Trash2, X } from 'lucide-react';
+
+interface CampaignEditorProps {
+  campaigns: Campaign[];
+  selectedId: string | null;
+  leads: Lead[];
+  isRunning: boolean; // the loop is on: limits can change, the selection can't
+  onSelect: (id: string | null) => void;
+  onSave: (campaign: Campaign) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const NumberField: React.FC<{ label: string; value: number; min?: number; max?: number; onChange: (value: number) => void }> = ({ label, value, min = 1, max, onChange }) => (
+  <label className="block text-sm text-gray-700">
+    {label}
+    <input
+      type="number"
+      value={value}
+      min={min}
+      max={max}
+      onChange={(e) => onChange(Math.max(min, Math.min(max ?? Infinity, Number(e.target.value) || min)))}
+      className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+    />
+  </label>
+);
+
+export const ProgressBar: React.FC<{ label: string; value: number; max: number }> = ({ label, value, max }) => (
+  <div>
+    <div className="flex justify-between text-xs text-gray-500">
+      <span>{label}</span>
+      <span>{value}/{max}</span>
+    </div>
+    <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+      <div className="h-full bg-purple-500" style={{ width: `${Math.min(100, (value / Math.max(1, max)) * 100)}%` }} />
+    </div>
+  </div>
+);
+
+export const CampaignEditor: React.FC<CampaignEditorProps> = ({ campaigns, selectedId, leads, isRunning, onSelect, onSave, onDelete, onClose }) => {
+  const { t } = useI18n();
+  const campaign = campaigns.find(c => c.id === selectedId) || null;
+  const update = (patch: Partial<Campaign>) => campaign && onSave({ ...campaign, ...patch });
+
+  const addCampaign = () => {
+    const created = createCampaign(t('campaigns.newName'));
+    onSave(created);
+    onSelect(created.id);
+  };
+
+  const removeCampaign = () => {
+    if (!campaign || !confirm(t('campaigns.deleteConfirm', { name: campaign.name }))) return;
+    onDelete(campaign.id);
+    onSelect(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex justify-end bg-black/20" onClick={onClose}>
+      <div className="w-full max-w-md h-full bg-white shadow-xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+            <Flag size={18} className="text-purple-500" /> {t('campaigns.title')}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-gray-200 flex items-center gap-2">
+          <select
+            value={selectedId || ''}
+            onChange={(e) => onSelect(e.target.value || null)}
+            disabled={isRunning}
+            className="flex-1 border border-gray-300 rounded-md px-2 py-1.5 text-sm disabled:bg-gray-50"
+            title={isRunning ? t('campaigns.stopToSwitch') : undefined}
+          >
+            <option value="">{t('agent.noCampaign')}</option>
+            {campaigns.map(c => (
+              <option key={c.id} value={c.id}>{c.name} · {t(`campaignStatus.${c.status}`)}</option>
+            ))}
+          </select>
+          <button onClick={addCampaign} disabled={isRunning} className="text-gray-400 hover:text-gray-700 disabled:opacity-30" title={t('campaigns.new')}>
+            <Plus size={16} />
+          </button>
+          <button onClick={removeCampaign} disabled={!campaign || isRunning} className="text-gray-400 hover:text-red-600 disabled:opacity-30" title={t('campaigns.delete')}>
+            <Trash2 size={16} />
+          </button>
+        </div>
+
+        {!campaign ? (
+          <p className="p-4 text-sm text-gray-500">
+            {t('campaigns.none')}
+          </p>
+        ) : (
+          <div key={campaign.id} className="flex-1 overflow-y-auto p-4 space-y-6">
+            <section className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-medium text-gray-500 uppercase tracking-wider">{t(`campaignStatus.${campaign.status}`)}</span>
+                {campaign.status !== 'active' && (
+                  <button onClick={() => onSave(reopenCampaign(campaign))} className="flex items-center gap-1 text-xs font-medium text-purple-700 hover:text-purple-900">
+                    <RotateCcw size={12} /> {t('campaigns.reopen')}
+                  </button>
+                )}
+              </div>
+              {campaign.stopReason && <p className="text-xs text-gray-500">{formatMessage(t, campaign.stopReason)}</p>}
+              <ProgressBar label={t('campaigns.qualified')} value={qualifiedCount(leads, campaign)} max={campaign.leadTarget} />
+              <ProgressBar label={t('agent.cycles')} value={campaign.cycles} max={campaign.maxCycles} />
+              <ProgressBar label={t('campaigns.apiCalls')} value={campaign.apiCalls} max={campaign.maxApiCalls} />
+            </section>
+
+            <section className="space-y-3">
+              <label className="block text-sm text-gray-700">
+                {t('icp.name')}
+                <input
+                  type="text"
+                  value={campaign.name}
+                  onChange={(e) => update({ name: e.target.value })}
+                  className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+                />
+              </label>
+              <label className="block text-sm text-gray-700">
+                {t('campaigns.objective')}
+                <textarea
+                  value={campaign.objective}
+                  rows={2}
+                  placeholder={t('campaigns.objectivePlaceholder')}
+                  onChange={(e) => update({ objective: e.target.value })}
+                  className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm resize-none"
+                />
+              </label>
+            </section>
+
+            <section className="space-y-3">
+              <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider">{t('campaigns.constraints')}</h4>
+              <ListField label={t('campaigns.niches')} values={campaign.niches} placeholder={t('campaigns.nichesPlaceholder')} onChange={(niches) => update({ niches })} />
+              <ListField label={t('campaigns.regions')} values={campaign.regions} placeholder={t('campaigns.regionsPlaceholder')} onChange={(regions) => update({ regions })} />
+            </section>
+
+            <section className="space-y-3">
+              <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider">{t('campaigns.limits')}</h4>
+              <div className="grid grid-cols-2 gap-3">
+                <NumberField label={t('campaigns.leadTarget')} value={campaign.leadTarget} onChange={(leadTarget) => update({ leadTarget })} />
+                <NumberField label={t('campaigns.minNeedScore')} value={campaign.minNeedScore} max={5} onChange={(minNeedScore) => update({ minNeedScore })} />
+                <NumberField label={t('campaigns.maxCycles')} value={campaign.maxCycles} onChange={(maxCycles) => update({ maxCycles })} />
+                <NumberField label={t('campaigns.maxApiCalls')} value={campaign.maxApiCalls} onChange={(maxApiCalls) => update({ maxApiCalls })} />
+                <NumberField label={t('campaigns.cycleDelay')} value={campaign.cycleDelaySeconds} min={10} onChange={(cycleDelaySeconds) => update({ cycleDelaySeconds })} />
+              </div>
+              <p className="text-xs text-gray-400">{t('campaigns.qualifiedHint')}</p>
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { CoverageCell, avgNeedScore, chatbotRate, leadsPerCycle, rankCoverage, segmentYield } from '../services/coverage';
+import { Translate } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import { Grid3x3, X } from 'lucide-react';
+
+interface CoverageMapProps {
+  cells: CoverageCell[];
+  onClose: () => void;
+}
+
+// Rows and columns shown in the heatmap; the table below lists everything
+const HEATMAP_SIZE = 8;
+
+// Purple scale by yield relative to the best segment
+const heatClass = (ratio: number) =>
+  ratio >= 0.75 ? 'bg-purple-600 text-white'
+    : ratio >= 0.5 ? 'bg-purple-400 text-white'
+    : ratio >= 0.25 ? 'bg-purple-200 text-purple-900'
+    : ratio > 0 ? 'bg-purple-50 text-purple-800'
+    : 'bg-red-50 text-red-700';
+
+const topBy = (cells: CoverageCell[], part: 'niche' | 'location') => {
+  const cycles = new Map<string, number>();
+  cells.forEach(cell => cycles.set(cell[part], (cycles.get(cell[part]) || 0) + cell.cycles));
+  return Array.from(cycles.entries()).sort((a, b) => b[1] - a[1]).slice(0, HEATMAP_SIZE).map(([name]) => name);
+};
+
+const describe = (cell: CoverageCell, t: Translate) =>
+  `${cell.niche} · ${cell.location}\n` +
+  t('coverage.cellTotals', { cycles: cell.cycles, candidates: cell.candidates, leads: cell.leads, inserted: cell.inserted }) + '\n' +
+  t('coverage.cellQuality', { score: avgNeedScore(cell).toFixed(1), chatbot: Math.round(chatbotRate(cell) * 100) });
+
+export const CoverageMap: React.FC<CoverageMapProps> = ({ cells, onClose }) => {
+  const { t } = useI18n();
+  const [view, setView] = useState<'heatmap' | 'table'>('heatmap');
+  const niches = topBy(cells, 'niche');
+  const locations = topBy(cells, 'location');
+  const bestYield = Math.max(0, ...cells.map(segmentYield));
+  const find = (niche: string, location: string) => cells.find(cell => cell.niche === niche && cell.location === location);
+  const totalCycles = cells.reduce((sum, cell) => sum + cell.cycles, 0);
+
+  return (
+    <div className="fixed inset-0 z-30 flex justify-end bg-black/20" onClick={onClose}>
+      <div className="w-full max-w-2xl h-full bg-white shadow-xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 flex items-start justify-between">
+          <div>
+            <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+              <Grid3x3 size={18} className="text-purple-500" /> {t('agent.coverage')}
+            </h3>
+            <p className="text-xs text-gray-500">{t('coverage.summary', { count: cells.length, cycles: totalCycles })}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={18} />
+          </button>
+        </div>
+
+        {cells.length === 0 ? (
+          <p className="p-4 text-sm text-gray-400 italic">{t('coverage.empty')}</p>
+        ) : (
+          <>
+            <div className="px-4 pt-3 flex gap-1">
+              {(['heatmap', 'table'] as const).map(option => (
+                <button
+                  key={option}
+                  onClick={() => setView(option)}
+                  className={`text-xs px-3 py-1 rounded-full border ${view === option ? 'bg-purple-50 text-purple-700 border-purple-200' : 'text-gray-500 border-gray-200 hover:bg-gray-50'}`}
+                >
+                  {option === 'heatmap' ? t('coverage.heatmap') : t('coverage.table')}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex-1 overflow-auto p-4">
+              {view === 'heatmap' ? (
+                <>
+                  <table className="text-xs border-separate border-spacing-1">
+                    <thead>
+                      <tr>
+                        <th />
+                        {locations.map(location => (
+                          <th key={location} className="font-medium text-gray-500 max-w-[80px] truncate" title={location}>{location}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {niches.map(niche => (
+                        <tr key={niche}>
+                          <th className="font-medium text-gray-600 text-left max-w-[140px] truncate pr-2" title={niche}>{niche}</th>
+                          {locations.map(location => {
+                            const cell = find(niche, location);
+                            return cell ? (
+                              <td
+                                key={location}
+                                title={describe(cell, t)}
+                                className={`w-16 h-10 rounded text-center ${heatClass(bestYield > 0 ? segmentYield(cell) / bestYield : 0)}`}
+                              >
+                                {leadsPerCycle(cell).toFixed(1)}
+                              </td>
+                            ) : (
+                              <td key={location} className="w-16 h-10 rounded border border-dashed border-gray-200" title={t('coverage.unexplored')} />
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="text-xs text-gray-400 mt-3">
+                    {t('coverage.legend')}
+                  </p>
+                </>
+              ) : (
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-gray-400 text-left">
+                      <th className="font-medium py-1">{t('coverage.segment')}</th>
+                      <th className="font-medium py-1 text-right">{t('agent.cycles')}</th>
+                      <th className="font-medium py-1 text-right">{t('coverage.leads')}</th>
+                      <th className="font-medium py-1 text-right">{t('coverage.leadsPerCycle')}</th>
+                      <th className="font-medium py-1 text-right">{t('table.needScore')}</th>
+                      <th className="font-medium py-1 text-right">{t('filters.withChatbot')}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 text-gray-700">
+                    {rankCoverage(cells).map(cell => (
+                      <tr key={cell.key}>
+                        <td className="py-1 pr-2">{cell.niche} · <span className="text-gray-500">{cell.location}</span></td>
+                        <td className="py-1 text-right">{cell.cycles}</td>
+                        <td className="py-1 text-right">{cell.leads}</td>
+                        <td className="py-1 text-right">{leadsPerCycle(cell).toFixed(1)}</td>
+                        <td className="py-1 text-right">{cell.leads > 0 ? avgNeedScore(cell).toFixed(1) : '–'}</td>
+                        <td className="py-1 text-right">{cell.candidates > 0 ? `${Math.round(chatbotRate(cell) * 100)}%` : '–'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { Lead } from '../types';
+import { EnrichmentChange } from '../services/leadEnrichment';
+import { useI18n } from './I18nProvider';
+import { ArrowRight, Loader2, Sparkles, X } from 'lucide-react';
+
+interface EnrichLeadModalProps {
+  lead: Lead;
+  changes: EnrichmentChange[] | null; // null while the research runs
+  error: string | null;
+  onApply: (accepted: EnrichmentChange[]) => void;
+  onClose: () => void;
+}
+
+export const EnrichLeadModal: React.FC<EnrichLeadModalProps> = ({ lead, changes, error, onApply, onClose }) => {
+  const { t } = useI18n();
+  const [acceptedIds, setAcceptedIds] = useState<Set<string>>(new Set());
+
+  // Everything is accepted by default once the result arrives
+  useEffect(() => {
+    setAcceptedIds(new Set((changes || []).map(change => change.id)));
+  }, [changes]);
+
+  const toggle = (id: string) =>
+    setAcceptedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-black/20 p-4" onClick={onClose}>
+      <div className="w-full max-w-2xl max-h-[85vh] bg-white rounded-xl shadow-xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+              <Sparkles size={18} className="text-indigo-500" /> {t('enrich.title', { company: lead.companyName })}
+            </h3>
+            <p className="text-xs text-gray-500">{t('enrich.subtitle')}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : !changes ? (
+            <div className="flex items-center justify-center gap-2 text-sm text-gray-500 py-8">
+              <Loader2 size={16} className="animate-spin" /> {t('enrich.researching')}
+            </div>
+          ) : changes.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">{t('enrich.nothingNew')}</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {changes.map(change => (
+                <li key={change.id}>
+                  <label className="flex items-start gap-3 py-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={acceptedIds.has(change.id)}
+                      onChange={() => toggle(change.id)}
+                      className="mt-1 h-4 w-4 accent-blue-600"
+                    />
+                    <div className="min-w-0 text-sm">
+                      <div className="text-xs font-medium text-gray-500">{change.label}</div>
+                      <div className="flex items-center gap-2 flex-wrap">
+                        {change.before && (
+                          <>
+                            <span className="text-gray-400 line-through break-all">{change.before}</span>
+                            <ArrowRight size={12} className="text-gray-400 shrink-0" />
+                          </>
+                        )}
+                        <span className="text-gray-900 break-all">{change.after}</span>
+                      </div>
+                    </div>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex items-center justify-end gap-2">
+          <button onClick={onClose} className="text-sm px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50">
+            {changes && changes.length > 0 ? t('enrich.reject') : t('common.close')}
+          </button>
+          {changes && changes.length > 0 && (
+            <button
+              onClick={() => onApply(changes.filter(change => acceptedIds.has(change.id)))}
+              disabled={acceptedIds.size === 0}
+              className="text-sm px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {t('enrich.apply', { count: acceptedIds.size })}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,238 @@
+import React, { useState } from 'react';
+import { Lead } from '../types';
+import { CSV_DELIMITERS, CsvDelimiter, EXPORT_COLUMNS, ExportColumnId, ExportFormat, ExportOptions, buildExport, downloadBlob, exportFilename, groupByCountry } from '../services/leadExport';
+import { CRM_ADAPTERS, CRM_TARGETS, CrmSettings, buildCrmExport, isContactable, isSynced, markSynced, pushToCrm } from '../services/crmExport';
+import { MessageKey } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import { FileDown, Loader2, Send, X } from 'lucide-react';
+
+interface ExportDialogProps {
+  leads: Lead[];
+  scopeLabel: string;
+  profileName: string;
+  options: ExportOptions;
+  onOptionsChange: (options: ExportOptions) => void;
+  crm: CrmSettings;
+  onCrmChange: (crm: CrmSettings) => void;
+  onSynced: (leads: Lead[]) => void;
+  onClose: () => void;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, MessageKey> = {
+  csv: 'export.formatCsv',
+  xlsx: 'export.formatXlsx',
+  json: 'export.formatJson',
+};
+
+const DELIMITER_LABELS: Record<CsvDelimiter, MessageKey> = {
+  ';': 'export.semicolon',
+  ',': 'export.comma',
+  '\t': 'export.tab',
+};
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ leads, scopeLabel, profileName, options, onOptionsChange, crm, onCrmChange, onSynced, onClose }) => {
+  const { t } = useI18n();
+  const [destination, setDestination] = useState<'file' | 'crm'>('file');
+  const [error, setError] = useState<string | null>(null);
+  const [pushProgress, setPushProgress] = useState<number | null>(null);
+  const update = (patch: Partial<ExportOptions>) => onOptionsChange({ ...options, ...patch });
+  const updateCrm = (patch: Partial<CrmSettings>) => onCrmChange({ ...crm, ...patch });
+  const rowCount = leads.reduce((sum, lead) => sum + Math.max(1, lead.contacts.length), 0);
+  const marketCount = groupByCountry(leads).size;
+
+  const crmLabel = CRM_ADAPTERS[crm.target].label;
+  const contactable = leads.filter(isContactable);
+  const doNotContact = leads.length - contactable.length;
+  const alreadySynced = contactable.filter(lead => isSynced(lead, crm.target)).length;
+  const crmLeads = crm.skipSynced ? contactable.filter(lead => !isSynced(lead, crm.target)) : contactable;
+
+  // Keep the column order of EXPORT_COLUMNS regardless of click order
+  const toggleColumn = (id: ExportColumnId, checked: boolean) =>
+    update({
+      columns: EXPORT_COLUMNS.map(c => c.id).filter(columnId => columnId === id ? checked : options.columns.includes(columnId)),
+    });
+
+  const handleExport = () => {
+    if (options.format !== 'json' && options.columns.length === 0) {
+      setError(t('export.noColumns'));
+      return;
+    }
+    downloadBlob(buildExport(leads, options, t), exportFilename(options, profileName));
+    onClose();
+  };
+
+  const handleCrmDownload = () => {
+    const { blob, filename } = buildCrmExport(crmLeads, crm.target, t);
+    downloadBlob(blob, filename);
+    onSynced(crmLeads.map(lead => markSynced(lead, crm.target, 'file')));
+    onClose();
+  };
+
+  const handlePush = async () => {
+    setError(null);
+    setPushProgress(0);
+    const { synced, error: pushError } = await pushToCrm(crmLeads, crm, t, setPushProgress);
+    setPushProgress(null);
+    onSynced(crmLeads.filter(lead => synced.has(lead.id)).map(lead => markSynced(lead, crm.target, 'push', synced.get(lead.id))));
+    if (pushError) {
+      setError(t('export.pushFailed', { synced: synced.size, total: crmLeads.length, error: pushError }));
+      return;
+    }
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-black/20 p-4" onClick={onClose}>
+      <div className="w-full max-w-lg max-h-[85vh] bg-white rounded-xl shadow-xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+              <FileDown size={18} className="text-blue-500" /> {t('export.title')}
+            </h3>
+            <p className="text-xs text-gray-500">{t('export.summary', { scope: scopeLabel, count: leads.length, rows: rowCount })}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="px-4 pt-3">
+          <div className="flex bg-gray-100 rounded-lg p-0.5 text-sm">
+            {([['file', t('export.file')], ['crm', t('export.crm')]] as const).map(([value, label]) => (
+              <button
+                key={value}
+                onClick={() => { setDestination(value); setError(null); }}
+                className={`flex-1 py-1 rounded-md ${destination === value ? 'bg-white shadow-sm text-gray-800' : 'text-gray-500 hover:text-gray-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {destination === 'crm' ? (
+          <div className="flex-1 overflow-y-auto p-4 space-y-5">
+            <section>
+              <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">{t('export.crm')}</h4>
+              <div className="flex gap-4">
+                {CRM_TARGETS.map(target => (
+                  <label key={target} className="flex items-center gap-1.5 text-sm text-gray-700">
+                    <input type="radio" checked={crm.target === target} onChange={() => updateCrm({ target })} className="accent-blue-600" />
+                    {CRM_ADAPTERS[target].label}
+                  </label>
+                ))}
+              </div>
+              <p className="text-xs text-gray-400 mt-2">
+                {CRM_ADAPTERS[crm.target].sheets.length > 1
+                  ? t('export.crmZip', { crm: crmLabel, sheets: CRM_ADAPTERS[crm.target].sheets.map(sheet => sheet.name).join(' + ') })
+                  : t('export.crmColumns', { crm: crmLabel })}
+              </p>
+            </section>
+
+            <section>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={crm.skipSynced} onChange={(e) => updateCrm({ skipSynced: e.target.checked })} className="h-4 w-4 accent-blue-600" />
+                {t('export.skipSynced', { crm: crmLabel, count: alreadySynced })}
+              </label>
+              {doNotContact > 0 && <p className="mt-2 text-xs text-amber-700">{t('export.doNotContactExcluded', { count: doNotContact })}</p>}
+            </section>
+
+            {error && <p className="text-xs text-red-600">{error}</p>}
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-4 space-y-5">
+            <section>
+              <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">{t('export.format')}</h4>
+              <div className="flex gap-4">
+                {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(format => (
+                  <label key={format} className="flex items-center gap-1.5 text-sm text-gray-700">
+                    <input type="radio" checked={options.format === format} onChange={() => update({ format })} className="accent-blue-600" />
+                    {t(FORMAT_LABELS[format])}
+                  </label>
+                ))}
+              </div>
+            </section>
+
+            {options.format === 'csv' && (
+              <section>
+                <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">{t('export.delimiter')}</h4>
+                <select
+                  value={options.delimiter}
+                  onChange={(e) => update({ delimiter: e.target.value as CsvDelimiter })}
+                  className="border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+                >
+                  {CSV_DELIMITERS.map(delimiter => (
+                    <option key={delimiter} value={delimiter}>{t(DELIMITER_LABELS[delimiter])}</option>
+                  ))}
+                </select>
+              </section>
+            )}
+
+            {options.format !== 'json' && (
+              <section>
+                <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">{t('export.columns')}</h4>
+                <div className="grid grid-cols-2 gap-x-4">
+                  {EXPORT_COLUMNS.map(column => (
+                    <label key={column.id} className="flex items-center gap-2 text-sm text-gray-700 py-0.5">
+                      <input
+                        type="checkbox"
+                        checked={options.columns.includes(column.id)}
+                        onChange={(e) => toggleColumn(column.id, e.target.checked)}
+                        className="h-4 w-4 accent-blue-600"
+                      />
+                      {t(`exportColumn.${column.id}`)}
+                    </label>
+                  ))}
+                </div>
+              </section>
+            )}
+
+            <section>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input type="checkbox" checked={options.splitByCountry} onChange={(e) => update({ splitByCountry: e.target.checked })} className="h-4 w-4 accent-blue-600" />
+                {t(marketCount === 1 ? 'export.splitByCountryOne' : 'export.splitByCountryMany', { count: marketCount })}
+              </label>
+            </section>
+
+            {error && <p className="text-xs text-red-600">{error}</p>}
+          </div>
+        )}
+
+        {destination === 'crm' ? (
+          <div className="p-4 border-t border-gray-200 flex items-center justify-between gap-2">
+            <span className="text-xs text-gray-400">{t('export.toSync', { count: crmLeads.length })}</span>
+            <div className="flex gap-2">
+              <button
+                onClick={handlePush}
+                disabled={crmLeads.length === 0 || !crm.endpoint || pushProgress !== null}
+                className="text-sm px-3 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50 flex items-center gap-1.5"
+                title={crm.endpoint ? `POST ${crm.endpoint}` : t('export.noEndpoint')}
+              >
+                {pushProgress !== null ? <Loader2 size={14} className="animate-spin" /> : <Send size={14} />}
+                {pushProgress !== null ? t('export.sending', { done: pushProgress, total: crmLeads.length }) : t('export.send')}
+              </button>
+              <button
+                onClick={handleCrmDownload}
+                disabled={crmLeads.length === 0 || pushProgress !== null}
+                className="text-sm px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                {t('export.download')}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="p-4 border-t border-gray-200 flex items-center justify-between">
+            <span className="text-xs text-gray-400 truncate">{exportFilename(options, profileName)}</span>
+            <button
+              onClick={handleExport}
+              disabled={leads.length === 0}
+              className="text-sm px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {t('export.download')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
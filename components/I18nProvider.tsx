@@ -0,0 +1,17 @@
+import React, { createContext, useContext, useMemo } from 'react';
+import { Translate, UI_LOCALES, UiLanguage, translator } from '../services/i18n';
+
+interface I18nValue {
+  language: UiLanguage;
+  locale: string;
+  t: Translate;
+}
+
+const I18nContext = createContext<I18nValue>({ language: 'es', locale: UI_LOCALES.es, t: translator('es') });
+
+export const I18nProvider: React.FC<{ language: UiLanguage; children: React.ReactNode }> = ({ language, children }) => {
+  const value = useMemo(() => ({ language, locale: UI_LOCALES[language], t: translator(language) }), [language]);
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = () => useContext(I18nContext);
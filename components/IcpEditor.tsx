@@ -0,0 +1,181 @@
+import React from 'react';
+import { IdealCustomerProfile } from '../types';
+import { AppSettings, activeProfile } from '../services/settings';
+import { ANY_CHATBOT, DISQUALIFYING_TECH_OPTIONS, createProfile } from '../services/icpProfiles';
+import { useI18n } from './I18nProvider';
+import { Copy, Plus, Target, Trash2, X } from 'lucide-react';
+
+interface IcpEditorProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+const parseList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+// Comma-separated input that keeps the raw text while typing and parses on blur
+export const ListField: React.FC<{ label: string; values: string[]; placeholder?: string; onChange: (values: string[]) => void }> = ({ label, values, placeholder, onChange }) => {
+  const [draft, setDraft] = React.useState(values.join(', '));
+  React.useEffect(() => setDraft(values.join(', ')), [values]);
+
+  return (
+    <label className="block text-sm text-gray-700">
+      {label}
+      <input
+        type="text"
+        value={draft}
+        placeholder={placeholder}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => onChange(parseList(draft))}
+        className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+      />
+    </label>
+  );
+};
+
+const TextField: React.FC<{ label: string; value: string; onChange: (value: string) => void }> = ({ label, value, onChange }) => (
+  <label className="block text-sm text-gray-700">
+    {label}
+    <textarea
+      value={value}
+      rows={2}
+      onChange={(e) => onChange(e.target.value)}
+      className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm resize-none"
+    />
+  </label>
+);
+
+export const IcpEditor: React.FC<IcpEditorProps> = ({ settings, onChange, onClose }) => {
+  const { t } = useI18n();
+  const profile = activeProfile(settings);
+
+  const updateProfile = (patch: Partial<IdealCustomerProfile>) =>
+    onChange({
+      ...settings,
+      icpProfiles: settings.icpProfiles.map(p => p.id === profile.id ? { ...p, ...patch } : p),
+    });
+
+  const addProfile = (base: IdealCustomerProfile, name: string) => {
+    const created = createProfile(base, name);
+    onChange({ ...settings, icpProfiles: [...settings.icpProfiles, created], activeProfileId: created.id });
+  };
+
+  const deleteProfile = () => {
+    if (settings.icpProfiles.length <= 1) return;
+    if (!confirm(t('icp.deleteConfirm', { name: profile.name }))) return;
+    const remaining = settings.icpProfiles.filter(p => p.id !== profile.id);
+    onChange({ ...settings, icpProfiles: remaining, activeProfileId: remaining[0].id });
+  };
+
+  const toggleTech = (tech: string, checked: boolean) =>
+    updateProfile({
+      disqualifyingTechnologies: checked
+        ? [...profile.disqualifyingTechnologies, tech]
+        : profile.disqualifyingTechnologies.filter(item => item !== tech),
+    });
+
+  return (
+    <div className="fixed inset-0 z-30 flex justify-end bg-black/20" onClick={onClose}>
+      <div className="w-full max-w-md h-full bg-white shadow-xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+            <Target size={18} className="text-purple-500" /> {t('icp.title')}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-gray-200 flex items-center gap-2">
+          <select
+            value={profile.id}
+            onChange={(e) => onChange({ ...settings, activeProfileId: e.target.value })}
+            className="flex-1 border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+          >
+            {settings.icpProfiles.map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          <button onClick={() => addProfile(profile, t('icp.copyName', { name: profile.name }))} className="text-gray-400 hover:text-gray-700" title={t('icp.duplicate')}>
+            <Copy size={16} />
+          </button>
+          <button
+            onClick={() => addProfile({ ...profile, includeSectors: [], excludeSectors: [], regions: [] }, t('icp.new'))}
+            className="text-gray-400 hover:text-gray-700"
+            title={t('icp.new')}
+          >
+            <Plus size={16} />
+          </button>
+          <button
+            onClick={deleteProfile}
+            disabled={settings.icpProfiles.length <= 1}
+            className="text-gray-400 hover:text-red-600 disabled:opacity-30"
+            title={t('icp.delete')}
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+
+        <div key={profile.id} className="flex-1 overflow-y-auto p-4 space-y-6">
+          <section className="space-y-3">
+            <label className="block text-sm text-gray-700">
+              {t('icp.name')}
+              <input
+                type="text"
+                value={profile.name}
+                onChange={(e) => updateProfile({ name: e.target.value })}
+                className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+              />
+            </label>
+          </section>
+
+          <section className="space-y-3">
+            <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider">{t('icp.market')}</h4>
+            <ListField label={t('icp.countries')} values={profile.countries} placeholder={t('icp.countriesPlaceholder')} onChange={(countries) => updateProfile({ countries })} />
+            <ListField label={t('icp.regions')} values={profile.regions} placeholder={t('icp.regionsPlaceholder')} onChange={(regions) => updateProfile({ regions })} />
+            <ListField label={t('icp.includeSectors')} values={profile.includeSectors} onChange={(includeSectors) => updateProfile({ includeSectors })} />
+            <ListField label={t('icp.excludeSectors')} values={profile.excludeSectors} placeholder={t('icp.excludeSectorsPlaceholder')} onChange={(excludeSectors) => updateProfile({ excludeSectors })} />
+            <TextField label={t('icp.companySize')} value={profile.companySize} onChange={(companySize) => updateProfile({ companySize })} />
+          </section>
+
+          <section className="space-y-3">
+            <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider">{t('icp.decisionMakers')}</h4>
+            <ListField label={t('icp.targetRoles')} values={profile.targetRoles} onChange={(targetRoles) => updateProfile({ targetRoles })} />
+            <label className="flex items-center justify-between text-sm text-gray-700 py-1">
+              {t('icp.requireTargetRole')}
+              <input
+                type="checkbox"
+                checked={profile.requireTargetRole}
+                onChange={(e) => updateProfile({ requireTargetRole: e.target.checked })}
+                className="h-4 w-4 accent-purple-600"
+              />
+            </label>
+          </section>
+
+          <section>
+            <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">{t('icp.disqualifyingTech')}</h4>
+            <div className="grid grid-cols-2 gap-x-4">
+              {DISQUALIFYING_TECH_OPTIONS.map(tech => (
+                <label key={tech} className="flex items-center gap-2 text-sm text-gray-700 py-0.5">
+                  <input
+                    type="checkbox"
+                    checked={profile.disqualifyingTechnologies.includes(tech)}
+                    onChange={(e) => toggleTech(tech, e.target.checked)}
+                    className="h-4 w-4 accent-purple-600"
+                  />
+                  {tech === ANY_CHATBOT ? t('icp.anyChatbot') : tech}
+                </label>
+              ))}
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider">{t('icp.scoring')}</h4>
+            <TextField label={t('icp.scoringHigh')} value={profile.scoring.high} onChange={(high) => updateProfile({ scoring: { ...profile.scoring, high } })} />
+            <TextField label={t('icp.scoringLow')} value={profile.scoring.low} onChange={(low) => updateProfile({ scoring: { ...profile.scoring, low } })} />
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { ExtractedLead } from '../types';
+import { IMPORT_FIELDS, ImportField, ImportResult, ImportTable, guessMapping, readImportFile, rowsToLeads } from '../services/leadImport';
+import { formatMessage } from '../services/i18n';
+import { describeError } from '../services/aiErrors';
+import { useI18n } from './I18nProvider';
+import { CheckCircle2, Loader2, Upload, X } from 'lucide-react';
+
+interface ImportWizardProps {
+  onImport: (leads: ExtractedLead[], enrich: boolean) => Promise<ImportResult>;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+export const ImportWizard: React.FC<ImportWizardProps> = ({ onImport, onClose }) => {
+  const { t } = useI18n();
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [mapping, setMapping] = useState<ImportField[]>([]);
+  const [enrich, setEnrich] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  const hasIdentity = !!table?.records || mapping.includes('companyName') || mapping.includes('website');
+  const leads = table && hasIdentity ? rowsToLeads(table, mapping) : [];
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setError(null);
+    try {
+      const read = await readImportFile(file);
+      setTable(read);
+      setMapping(guessMapping(read.headers));
+    } catch (e) {
+      setTable(null);
+      setError(t('import.readFailed', { file: file.name, error: formatMessage(t, describeError(e)) }));
+    }
+  };
+
+  const handleImport = async () => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      setResult(await onImport(leads, enrich));
+    } catch (e) {
+      setError(t('import.failed', { error: formatMessage(t, describeError(e)) }));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-black/20 p-4" onClick={onClose}>
+      <div className="w-full max-w-3xl max-h-[85vh] bg-white rounded-xl shadow-xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+              <Upload size={18} className="text-blue-500" /> {t('import.title')}
+            </h3>
+            <p className="text-xs text-gray-500">{t('import.subtitle')}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={18} />
+          </button>
+        </div>
+
+        {result ? (
+          <div className="flex-1 p-6 text-center space-y-2">
+            <CheckCircle2 size={32} className="mx-auto text-green-500" />
+            <p className="text-sm text-gray-800">
+              {t('import.result', { inserted: result.inserted, merged: result.merged, pending: result.pendingReview })}
+            </p>
+            {result.queued > 0 && (
+              <p className="text-xs text-gray-500">{t('import.queued', { count: result.queued })}</p>
+            )}
+            <button onClick={onClose} className="mt-4 text-sm px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700">
+              {t('common.close')}
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="flex-1 overflow-y-auto p-4 space-y-5">
+              <section>
+                <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">{t('import.stepFile')}</h4>
+                <input
+                  type="file"
+                  accept=".csv,.tsv,.txt,.xlsx,.json"
+                  onChange={(e) => handleFile(e.target.files?.[0])}
+                  className="text-sm text-gray-700 file:mr-3 file:px-3 file:py-1.5 file:rounded-md file:border-0 file:bg-gray-100 file:text-gray-700 hover:file:bg-gray-200"
+                />
+              </section>
+
+              {table && table.records && (
+                <p className="text-sm text-gray-700">
+                  {t('import.records', { count: table.records.length })}
+                </p>
+              )}
+              {table && !!table.rejected?.length && (
+                <p
+                  className="text-xs text-amber-700"
+                  title={table.rejected.map(r => `${r.companyName || t('import.noName')}: ${r.issues.map(issue => formatMessage(t, issue)).join(', ')}`).join('\n')}
+                >
+                  {t('import.rejected', { count: table.rejected.length })}
+                </p>
+              )}
+
+              {table && !table.records && (
+                <section>
+                  <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
+                    {t('import.stepColumns', { rows: table.rows.length })}
+                  </h4>
+                  <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                    <table className="min-w-full text-xs">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          {table.headers.map((header, i) => (
+                            <th key={i} className="px-2 py-2 text-left align-top">
+                              <div className="font-medium text-gray-700 truncate max-w-[10rem]" title={header}>{header || t('import.column', { index: i + 1 })}</div>
+                              <select
+                                value={mapping[i]}
+                                onChange={(e) => setMapping(prev => prev.map((field, j) => j === i ? e.target.value as ImportField : field))}
+                                className={`mt-1 border rounded px-1 py-0.5 font-normal ${mapping[i] === 'ignore' ? 'border-gray-200 text-gray-400' : 'border-blue-300 text-blue-700'}`}
+                              >
+                                {IMPORT_FIELDS.map(field => (
+                                  <option key={field} value={field}>{t(`importField.${field}`)}</option>
+                                ))}
+                              </select>
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {table.rows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                          <tr key={r}>
+                            {table.headers.map((_, c) => (
+                              <td key={c} className={`px-2 py-1.5 truncate max-w-[10rem] ${mapping[c] === 'ignore' ? 'text-gray-300' : 'text-gray-700'}`}>
+                                {row[c] || ''}
+                              </td>
+                            ))}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  {!hasIdentity && (
+                    <p className="text-xs text-amber-600 mt-2">{t('import.needIdentity')}</p>
+                  )}
+                </section>
+              )}
+
+              {table && hasIdentity && (
+                <section>
+                  <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-2">
+                    {t('import.stepEnrich', { step: table.records ? 2 : 3 })}
+                  </h4>
+                  <label className="flex items-start gap-2 text-sm text-gray-700">
+                    <input type="checkbox" checked={enrich} onChange={(e) => setEnrich(e.target.checked)} className="mt-0.5 h-4 w-4 accent-blue-600" />
+                    <span>
+                      {t('import.enrich')}
+                      <span className="block text-xs text-gray-500">
+                        {t('import.enrichHint')}
+                      </span>
+                    </span>
+                  </label>
+                </section>
+              )}
+
+              {error && <p className="text-xs text-red-600">{error}</p>}
+            </div>
+
+            <div className="p-4 border-t border-gray-200 flex items-center justify-between">
+              <span className="text-xs text-gray-400">{table ? t('import.toImport', { count: leads.length }) : t('import.noFile')}</span>
+              <button
+                onClick={handleImport}
+                disabled={leads.length === 0 || isWorking}
+                className="text-sm px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 flex items-center gap-2"
+              >
+                {isWorking && <Loader2 size={14} className="animate-spin" />} {t('import.import')}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
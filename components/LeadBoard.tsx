@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Lead, PipelineStatus } from '../types';
+import { PIPELINE_COLORS, PIPELINE_STATUSES, transitionLead } from '../services/pipeline';
+import { primaryContact } from '../services/contacts';
+import { LeadNotesDrawer } from './LeadNotesDrawer';
+import { useI18n } from './I18nProvider';
+import { Building2, StickyNote, User } from 'lucide-react';
+
+interface LeadBoardProps {
+  leads: Lead[];
+  onUpdateLead: (lead: Lead) => void;
+}
+
+/**
+ * Kanban view of the pipeline. Cards are dragged between columns to change status.
+ */
+export const LeadBoard: React.FC<LeadBoardProps> = ({ leads, onUpdateLead }) => {
+  const { t } = useI18n();
+  const [dragOver, setDragOver] = useState<PipelineStatus | null>(null);
+  const [notesLeadId, setNotesLeadId] = useState<string | null>(null);
+  const notesLead = leads.find(l => l.id === notesLeadId);
+
+  const handleDrop = (status: PipelineStatus, e: React.DragEvent) => {
+    e.preventDefault();
+    setDragOver(null);
+    const lead = leads.find(l => l.id === e.dataTransfer.getData('text/plain'));
+    if (lead) onUpdateLead(transitionLead(lead, status));
+  };
+
+  return (
+    <div className="flex gap-3 p-3 overflow-x-auto h-full">
+      {PIPELINE_STATUSES.map(status => {
+        const columnLeads = leads.filter(l => l.pipelineStatus === status);
+        return (
+          <div
+            key={status}
+            onDragOver={(e) => { e.preventDefault(); setDragOver(status); }}
+            onDragLeave={() => setDragOver(null)}
+            onDrop={(e) => handleDrop(status, e)}
+            className={`w-56 shrink-0 flex flex-col rounded-lg border transition-colors ${dragOver === status ? 'bg-blue-50 border-blue-300' : 'bg-gray-50 border-gray-200'}`}
+          >
+            <div className="p-2 flex items-center justify-between border-b border-gray-200">
+              <span className={`text-xs font-medium px-2 py-0.5 rounded-full border ${PIPELINE_COLORS[status]}`}>{t(`pipeline.${status}`)}</span>
+              <span className="text-xs text-gray-400">{columnLeads.length}</span>
+            </div>
+            <div className="flex-1 overflow-y-auto p-2 space-y-2">
+              {columnLeads.map(lead => (
+                <div
+                  key={lead.id}
+                  draggable
+                  onDragStart={(e) => e.dataTransfer.setData('text/plain', lead.id)}
+                  onClick={() => setNotesLeadId(lead.id)}
+                  className="bg-white rounded-lg border border-gray-200 p-2 shadow-sm cursor-grab hover:border-blue-300"
+                >
+                  <div className="text-sm font-medium text-gray-900 flex items-center gap-1.5">
+                    <Building2 size={12} className="text-gray-400 shrink-0" />
+                    <span className="truncate">{lead.companyName}</span>
+                  </div>
+                  {primaryContact(lead)?.name && (
+                    <div className="text-xs text-gray-600 flex items-center gap-1.5 mt-1">
+                      <User size={12} className="text-indigo-500 shrink-0" />
+                      <span className="truncate">{primaryContact(lead)?.name}</span>
+                      {lead.contacts.length > 1 && <span className="text-gray-400 shrink-0">+{lead.contacts.length - 1}</span>}
+                    </div>
+                  )}
+                  <div className="flex items-center justify-between mt-2">
+                    <span className="text-[10px] font-bold text-gray-500">{t('board.score', { score: lead.needScore })}</span>
+                    {lead.notes.length > 0 && (
+                      <span className="text-[10px] text-yellow-600 flex items-center gap-0.5">
+                        <StickyNote size={10} /> {lead.notes.length}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+      {notesLead && (
+        <LeadNotesDrawer lead={notesLead} onUpdateLead={onUpdateLead} onClose={() => setNotesLeadId(null)} />
+      )}
+    </div>
+  );
+};
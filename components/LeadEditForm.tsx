@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { Seniority } from '../types';
+import { SENIORITIES } from '../services/contacts';
+import { ContactDraft, DraftErrors, EMPTY_CONTACT, LeadDraft, validateDraft } from '../services/leadEditing';
+import { MARKET_LIST } from '../services/markets';
+import { useI18n } from './I18nProvider';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface LeadEditFormProps {
+  initial: LeadDraft;
+  submitLabel: string;
+  onSave: (draft: LeadDraft) => void;
+  onCancel: () => void;
+}
+
+const inputClass = (error?: string) =>
+  `w-full border rounded-md px-2 py-1 text-xs ${error ? 'border-red-400 bg-red-50' : 'border-gray-300'}`;
+
+const Field: React.FC<{ label: string; error?: string; className?: string; children: React.ReactNode }> = ({ label, error, className = '', children }) => (
+  <label className={`block text-xs text-gray-600 ${className}`}>
+    {label}
+    <div className="mt-0.5">{children}</div>
+    {error && <span className="text-[10px] text-red-600">{error}</span>}
+  </label>
+);
+
+export const LeadEditForm: React.FC<LeadEditFormProps> = ({ initial, submitLabel, onSave, onCancel }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState<LeadDraft>(initial);
+  const [errors, setErrors] = useState<DraftErrors>({});
+
+  const update = (patch: Partial<LeadDraft>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const updateContact = (index: number, patch: Partial<ContactDraft>) =>
+    update({ contacts: draft.contacts.map((c, i) => i === index ? { ...c, ...patch } : c) });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const found = validateDraft(draft, t);
+    setErrors(found);
+    if (Object.keys(found).length === 0) onSave(draft);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 text-left">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <Field label={`${t('table.company')} *`} error={errors.companyName}>
+          <input value={draft.companyName} onChange={(e) => update({ companyName: e.target.value })} className={inputClass(errors.companyName)} />
+        </Field>
+        <Field label={t('leadForm.website')} error={errors.website}>
+          <input value={draft.website} placeholder={t('leadForm.websitePlaceholder')} onChange={(e) => update({ website: e.target.value })} className={inputClass(errors.website)} />
+        </Field>
+        <div className="grid grid-cols-2 gap-2">
+          <Field label={t('leadForm.sector')}>
+            <input value={draft.sector} onChange={(e) => update({ sector: e.target.value })} className={inputClass()} />
+          </Field>
+          <Field label={t('leadForm.country')}>
+            <select value={draft.country} onChange={(e) => update({ country: e.target.value })} className={inputClass()}>
+              <option value="">{initial.country ? '—' : t('leadForm.detect')}</option>
+              {draft.country && !MARKET_LIST.some(market => market.code === draft.country) && (
+                <option value={draft.country}>{draft.country}</option>
+              )}
+              {MARKET_LIST.map(market => <option key={market.code} value={market.code}>{market.name}</option>)}
+            </select>
+          </Field>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <Field label={t('leadForm.chatbot')}>
+            <select value={draft.chatbotStatus} onChange={(e) => update({ chatbotStatus: e.target.value as LeadDraft['chatbotStatus'] })} className={inputClass()}>
+              <option value="OPORTUNIDAD">{t('leadForm.no')}</option>
+              <option value="TIENE_CHATBOT">{t('leadForm.yes')}</option>
+            </select>
+          </Field>
+          <Field label={t('table.needScore')}>
+            <select
+              value={draft.needScoreOverride ?? ''}
+              onChange={(e) => update({ needScoreOverride: e.target.value ? Number(e.target.value) : null })}
+              className={inputClass()}
+            >
+              <option value="">{t('leadForm.auto')}</option>
+              {[1, 2, 3, 4, 5].map(score => <option key={score} value={score}>{score}</option>)}
+            </select>
+          </Field>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <Field label={t('table.reason')}>
+          <textarea rows={2} value={draft.reason} onChange={(e) => update({ reason: e.target.value })} className={`${inputClass()} resize-none`} />
+        </Field>
+        <Field label={t('leadForm.socialLinks')} error={errors.socialLinks}>
+          <textarea rows={2} value={draft.socialLinks} onChange={(e) => update({ socialLinks: e.target.value })} className={`${inputClass(errors.socialLinks)} resize-none`} />
+        </Field>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <span className="text-xs font-medium text-gray-500 uppercase tracking-wider">{t('leadForm.contacts')}</span>
+          <button
+            type="button"
+            onClick={() => update({ contacts: [...draft.contacts, EMPTY_CONTACT] })}
+            className="text-xs text-blue-600 hover:text-blue-800 flex items-center gap-0.5"
+          >
+            <Plus size={12} /> {t('leadForm.addContact')}
+          </button>
+        </div>
+        <div className="space-y-2">
+          {draft.contacts.map((contact, i) => (
+            <div key={contact.id || `new-${i}`} className="grid grid-cols-[1fr_1fr_1fr_8rem_auto] gap-2 items-start">
+              <Field label={t('leadForm.name')} error={errors[`contacts.${i}.name`]}>
+                <input value={contact.name} onChange={(e) => updateContact(i, { name: e.target.value })} className={inputClass(errors[`contacts.${i}.name`])} />
+              </Field>
+              <Field label={t('leadForm.role')}>
+                <input value={contact.role} onChange={(e) => updateContact(i, { role: e.target.value })} className={inputClass()} />
+              </Field>
+              <Field label={t('leadForm.email')} error={errors[`contacts.${i}.email`]}>
+                <input value={contact.email} onChange={(e) => updateContact(i, { email: e.target.value })} className={inputClass(errors[`contacts.${i}.email`])} />
+              </Field>
+              <Field label={t('leadForm.seniority')}>
+                <select value={contact.seniority} onChange={(e) => updateContact(i, { seniority: e.target.value as Seniority })} className={inputClass()}>
+                  {SENIORITIES.map(s => <option key={s} value={s}>{t(`seniority.${s}`)}</option>)}
+                </select>
+              </Field>
+              <button
+                type="button"
+                onClick={() => update({ contacts: draft.contacts.filter((_, j) => j !== i) })}
+                className="mt-5 text-gray-400 hover:text-red-600"
+                title={t('leadForm.removeContact')}
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="text-xs px-3 py-1.5 border rounded-md hover:bg-gray-50">{t('common.cancel')}</button>
+        <button type="submit" className="text-xs px-3 py-1.5 rounded-md bg-blue-600 text-white hover:bg-blue-700">{submitLabel}</button>
+      </div>
+    </form>
+  );
+};
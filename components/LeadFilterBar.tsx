@@ -0,0 +1,102 @@
+import React from 'react';
+import { Campaign, Lead } from '../types';
+import { DEFAULT_FILTERS, LeadFilters, NO_COUNTRY, TriState, countryFacets, isFiltered, originFacets } from '../services/leadFilters';
+import { countryName } from '../services/markets';
+import { useI18n } from './I18nProvider';
+import { Search, X } from 'lucide-react';
+
+interface LeadFilterBarProps {
+  leads: Lead[];
+  filters: LeadFilters;
+  campaigns: Campaign[];
+  onChange: (filters: LeadFilters) => void;
+}
+
+const SCORES = [1, 2, 3, 4, 5];
+
+const selectClass = "text-xs border border-gray-300 rounded-md px-1.5 py-1 bg-white text-gray-700";
+
+const TriStateSelect: React.FC<{ label: string; value: TriState; onChange: (value: TriState) => void }> = ({ label, value, onChange }) => {
+  const { t } = useI18n();
+  return (
+    <select value={value} onChange={(e) => onChange(e.target.value as TriState)} className={selectClass} title={label}>
+      <option value="any">{t('filters.any', { label })}</option>
+      <option value="yes">{t('filters.yes', { label })}</option>
+      <option value="no">{t('filters.no', { label })}</option>
+    </select>
+  );
+};
+
+export const LeadFilterBar: React.FC<LeadFilterBarProps> = ({ leads, filters, campaigns, onChange }) => {
+  const { t, locale } = useI18n();
+  const update = (patch: Partial<LeadFilters>) => onChange({ ...filters, ...patch });
+  const origins = originFacets(leads, t);
+  const countries = countryFacets(leads);
+
+  return (
+    <div className="p-3 border-b border-gray-200 bg-white flex flex-wrap items-center gap-2">
+      <div className="relative flex-1 min-w-[180px]">
+        <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-gray-400" />
+        <input
+          type="text"
+          value={filters.search}
+          onChange={(e) => update({ search: e.target.value })}
+          placeholder={t('filters.search')}
+          className="w-full pl-7 pr-2 py-1 text-xs border border-gray-300 rounded-md"
+        />
+      </div>
+      <select
+        value={filters.chatbotStatus}
+        onChange={(e) => update({ chatbotStatus: e.target.value as LeadFilters['chatbotStatus'] })}
+        className={selectClass}
+      >
+        <option value="any">{t('filters.chatbotAny')}</option>
+        <option value="OPORTUNIDAD">{t('filters.noChatbot')}</option>
+        <option value="TIENE_CHATBOT">{t('filters.withChatbot')}</option>
+      </select>
+      <span className="flex items-center gap-1 text-xs text-gray-500">
+        {t('filters.score')}
+        <select value={filters.minScore} onChange={(e) => update({ minScore: Number(e.target.value) })} className={selectClass}>
+          {SCORES.filter(s => s <= filters.maxScore).map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        –
+        <select value={filters.maxScore} onChange={(e) => update({ maxScore: Number(e.target.value) })} className={selectClass}>
+          {SCORES.filter(s => s >= filters.minScore).map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+      </span>
+      <TriStateSelect label={t('filters.decisionMaker')} value={filters.hasNamedContact} onChange={(hasNamedContact) => update({ hasNamedContact })} />
+      <TriStateSelect label="LinkedIn" value={filters.hasLinkedin} onChange={(hasLinkedin) => update({ hasLinkedin })} />
+      {origins.length > 1 && (
+        <select value={filters.origin} onChange={(e) => update({ origin: e.target.value })} className={`${selectClass} max-w-[200px]`}>
+          <option value="">{t('filters.originAny')}</option>
+          {origins.map(origin => (
+            <option key={origin.key} value={origin.key}>{origin.label} ({origin.count})</option>
+          ))}
+        </select>
+      )}
+      {campaigns.length > 0 && (
+        <select value={filters.campaign} onChange={(e) => update({ campaign: e.target.value })} className={`${selectClass} max-w-[200px]`}>
+          <option value="">{t('filters.campaignAny')}</option>
+          {campaigns.map(campaign => (
+            <option key={campaign.id} value={campaign.id}>{campaign.name}</option>
+          ))}
+        </select>
+      )}
+      {(countries.length > 1 || filters.country) && (
+        <select value={filters.country} onChange={(e) => update({ country: e.target.value })} className={`${selectClass} max-w-[200px]`}>
+          <option value="">{t('filters.countryAny')}</option>
+          {countries.map(country => (
+            <option key={country.key} value={country.key}>
+              {country.key === NO_COUNTRY ? t('filters.noCountry') : countryName(country.key, locale)} ({country.count})
+            </option>
+          ))}
+        </select>
+      )}
+      {isFiltered(filters) && (
+        <button onClick={() => onChange(DEFAULT_FILTERS)} className="text-xs text-gray-500 hover:text-gray-800 flex items-center gap-0.5">
+          <X size={12} /> {t('filters.clear')}
+        </button>
+      )}
+    </div>
+  );
+};
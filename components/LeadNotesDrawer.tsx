@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Lead } from '../types';
+import { PIPELINE_COLORS, PIPELINE_STATUSES, addLeadNote, transitionLead } from '../services/pipeline';
+import { primaryContact } from '../services/contacts';
+import { useI18n } from './I18nProvider';
+import { ArrowRight, History, StickyNote, X } from 'lucide-react';
+
+interface LeadNotesDrawerProps {
+  lead: Lead;
+  onUpdateLead: (lead: Lead) => void;
+  onClose: () => void;
+}
+
+const formatDate = (iso: string, locale: string) =>
+  new Date(iso).toLocaleString(locale, { day: '2-digit', month: '2-digit', year: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+export const LeadNotesDrawer: React.FC<LeadNotesDrawerProps> = ({ lead, onUpdateLead, onClose }) => {
+  const { t, locale } = useI18n();
+  const [draft, setDraft] = useState('');
+  const primary = primaryContact(lead);
+
+  const handleAddNote = () => {
+    if (!draft.trim()) return;
+    onUpdateLead(addLeadNote(lead, draft.trim()));
+    setDraft('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex justify-end bg-black/20" onClick={onClose}>
+      <div className="w-full max-w-md h-full bg-white shadow-xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 flex items-start justify-between">
+          <div>
+            <h3 className="font-semibold text-gray-900">{lead.companyName}</h3>
+            <p className="text-xs text-gray-500">{primary?.name || t('table.noName')} · {primary?.email || 'N/A'}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-gray-200">
+          <label className="text-xs font-medium text-gray-500 uppercase tracking-wider">{t('table.status')}</label>
+          <select
+            value={lead.pipelineStatus}
+            onChange={(e) => onUpdateLead(transitionLead(lead, e.target.value as Lead['pipelineStatus']))}
+            className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+          >
+            {PIPELINE_STATUSES.map(status => (
+              <option key={status} value={status}>{t(`pipeline.${status}`)}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          <section>
+            <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider flex items-center gap-1 mb-2">
+              <History size={12} /> {t('notes.history')}
+            </h4>
+            <ul className="space-y-2">
+              {[...lead.statusHistory].reverse().map((transition, i) => (
+                <li key={i} className="flex items-center gap-2 text-xs">
+                  <span className="text-gray-400 w-28 shrink-0">{formatDate(transition.at, locale)}</span>
+                  {transition.from && (
+                    <>
+                      <span className={`px-1.5 py-0.5 rounded border ${PIPELINE_COLORS[transition.from]}`}>{t(`pipeline.${transition.from}`)}</span>
+                      <ArrowRight size={12} className="text-gray-400" />
+                    </>
+                  )}
+                  <span className={`px-1.5 py-0.5 rounded border ${PIPELINE_COLORS[transition.to]}`}>{t(`pipeline.${transition.to}`)}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          <section>
+            <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider flex items-center gap-1 mb-2">
+              <StickyNote size={12} /> {t('notes.title')}
+            </h4>
+            {lead.notes.length === 0 && <p className="text-xs text-gray-400 italic">{t('notes.empty')}</p>}
+            <ul className="space-y-2">
+              {lead.notes.map(note => (
+                <li key={note.id} className="bg-yellow-50 border border-yellow-100 rounded-lg p-2">
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">{note.text}</p>
+                  <span className="text-[10px] text-gray-400">{formatDate(note.createdAt, locale)}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        </div>
+
+        <div className="p-4 border-t border-gray-200 space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={t('notes.placeholder')}
+            className="w-full border border-gray-300 rounded-lg p-2 text-sm resize-none h-20"
+          />
+          <button
+            onClick={handleAddNote}
+            disabled={!draft.trim()}
+            className="w-full bg-blue-600 text-white py-2 rounded-lg text-sm hover:bg-blue-700 disabled:opacity-50"
+          >
+            {t('notes.save')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Lead } from '../types';
+import { originKey, originLabel } from '../services/leadFilters';
+import { useI18n } from './I18nProvider';
+import { ExternalLink, FileText, Link as LinkIcon, Search, X } from 'lucide-react';
+
+interface LeadSourcesDrawerProps {
+  lead: Lead;
+  onClose: () => void;
+}
+
+const formatDate = (iso: string, locale: string) =>
+  new Date(iso).toLocaleString(locale, { day: '2-digit', month: '2-digit', year: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Where a lead came from: the strategy and cycle that found it, the pages
+ * the search was grounded on and the raw text the data was extracted from.
+ */
+export const LeadSourcesDrawer: React.FC<LeadSourcesDrawerProps> = ({ lead, onClose }) => {
+  const { t, locale } = useI18n();
+  const origin = lead.origin;
+  const sources = origin?.sources || [];
+
+  return (
+    <div className="fixed inset-0 z-30 flex justify-end bg-black/20" onClick={onClose}>
+      <div className="w-full max-w-md h-full bg-white shadow-xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 flex items-start justify-between">
+          <div>
+            <h3 className="font-semibold text-gray-900">{lead.companyName}</h3>
+            <p className="text-xs text-gray-500">{originLabel(originKey(origin), t)}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          {!origin && (
+            <p className="text-sm text-gray-400 italic">{t('sources.noOrigin')}</p>
+          )}
+
+          {origin?.query && (
+            <section>
+              <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider flex items-center gap-1 mb-2">
+                <Search size={12} /> {t('sources.query')}
+              </h4>
+              <p className="text-sm text-gray-800">"{origin.query}"</p>
+              {origin.cycleAt && <p className="text-xs text-gray-400 mt-1">{t('sources.cycleAt', { date: formatDate(origin.cycleAt, locale) })}</p>}
+            </section>
+          )}
+
+          {origin && (
+            <section>
+              <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider flex items-center gap-1 mb-2">
+                <LinkIcon size={12} /> {t('sources.sources', { count: sources.length })}
+              </h4>
+              {sources.length === 0 ? (
+                <p className="text-sm text-gray-400 italic">{t('sources.noSources')}</p>
+              ) : (
+                <ul className="space-y-2">
+                  {sources.map(source => (
+                    <li key={source.uri} className="text-sm">
+                      <a href={source.uri} target="_blank" rel="noreferrer" className="text-blue-600 hover:text-blue-800 flex items-start gap-1 break-all">
+                        <ExternalLink size={12} className="mt-1 shrink-0" />
+                        {source.title || source.uri}
+                      </a>
+                      {!source.matchesCompany && (
+                        <span className="ml-4 text-[10px] text-gray-400">{t('sources.cycleSource')}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          )}
+
+          {origin?.excerpt && (
+            <section>
+              <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider flex items-center gap-1 mb-2">
+                <FileText size={12} /> {t('sources.excerpt')}
+              </h4>
+              <pre className="text-xs text-gray-700 bg-gray-50 border border-gray-200 rounded-lg p-3 whitespace-pre-wrap font-sans">
+                {origin.excerpt}
+              </pre>
+            </section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,28 @@
-import React from 'react';
-import { Lead } from '../types';
-import { AlertCircle, CheckCircle, Mail, Globe, User, Linkedin, Facebook, Instagram, Twitter, Link as LinkIcon, Building2 } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Campaign, Contact, Lead } from '../types';
+import { PIPELINE_COLORS, PIPELINE_STATUSES, transitionLead } from '../services/pipeline';
+import { primaryContact } from '../services/contacts';
+import { assessEmail } from '../services/emailQuality';
+import { LeadFilters, LeadSort, LeadView, PAGE_SIZES, SortKey, applyView } from '../services/leadFilters';
+import { LeadNotesDrawer } from './LeadNotesDrawer';
+import { LeadSourcesDrawer } from './LeadSourcesDrawer';
+import { LeadFilterBar } from './LeadFilterBar';
+import { LeadEditForm } from './LeadEditForm';
+import { applyDraft, toDraft } from '../services/leadEditing';
+import { countryName } from '../services/markets';
+import { MessageKey, Translate, formatMessage } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import { AlertCircle, CheckCircle, Mail, Globe, User, Linkedin, Facebook, Instagram, Twitter, Link as LinkIcon, Building2, StickyNote, ChevronDown, ChevronRight, ChevronLeft, Users, ArrowUp, ArrowDown, ArrowUpDown, FileDown, Trash2, Pencil, Link2, Sparkles } from 'lucide-react';
 
 interface LeadTableProps {
   leads: Lead[];
+  view: LeadView;
+  campaigns: Campaign[];
+  onViewChange: (view: LeadView) => void;
+  onUpdateLead: (lead: Lead) => void;
+  onDeleteLeads: (ids: string[]) => void;
+  onExportLeads: (leads: Lead[]) => void;
+  onEnrichLead: (lead: Lead) => void;
 }
 
 const SocialIcon: React.FC<{ url: string }> = ({ url }) => {
@@ -32,58 +51,283 @@ const SocialIcon: React.FC<{ url: string }> = ({ url }) => {
   );
 };
 
-export const LeadTable: React.FC<LeadTableProps> = ({ leads }) => {
+const EmailBadge: React.FC<{ contact: Contact; website: string }> = ({ contact, website }) => {
+  const { t } = useI18n();
+  // Leads stored before quality scoring existed are assessed on the fly
+  const quality = contact.emailQuality || assessEmail(contact.email, website, contact.name);
+  if (!quality.valid) return null;
+
+  const colorClass = quality.confidence >= 70
+    ? 'bg-green-50 text-green-700 border-green-200'
+    : quality.confidence >= 40
+      ? 'bg-yellow-50 text-yellow-700 border-yellow-200'
+      : 'bg-red-50 text-red-700 border-red-200';
+  const tooltip = [t(`emailKind.${quality.kind}`), ...quality.issues.map(issue => formatMessage(t, issue))].join('\n');
+
+  return (
+    <span title={tooltip} className={`text-[10px] font-bold px-1.5 py-0.5 rounded border whitespace-nowrap ${colorClass}`}>
+      {quality.confidence}%
+    </span>
+  );
+};
+
+const InferredEmailHint: React.FC<{ contact: Contact }> = ({ contact }) => {
+  const { t } = useI18n();
+  const [best, ...others] = contact.inferredEmails || [];
+  if (!best) return null;
+
+  const tooltip = [
+    best.basis === 'learned'
+      ? t('email.learnedPattern', { count: best.samples })
+      : t('email.defaultPattern'),
+    ...others.map(c => `${c.email} (${c.confidence}%)`),
+  ].join('\n');
+
+  return (
+    <div title={tooltip} className="flex items-center gap-1.5 text-xs text-gray-500">
+      <span className="italic select-all">{best.email}</span>
+      <span className="text-[10px] px-1 py-0.5 rounded border border-dashed border-gray-300 text-gray-500 whitespace-nowrap">
+        {t('email.inferred', { confidence: best.confidence })}
+      </span>
+    </div>
+  );
+};
+
+const VERDICT_LABELS: Record<'rules' | 'llm' | 'rules+llm', MessageKey> = {
+  'rules': 'chatbot.rules',
+  'llm': 'chatbot.llm',
+  'rules+llm': 'chatbot.rulesAndLlm',
+};
+
+const ChatbotBadge: React.FC<{ lead: Lead }> = ({ lead }) => {
+  const { t } = useI18n();
+  const evidence = lead.chatbotEvidence;
+  const hasChatbot = lead.chatbotStatus === 'TIENE_CHATBOT';
+  const tooltip = evidence
+    ? [
+        t('chatbot.verdict', { verdict: t(VERDICT_LABELS[evidence.verdictSource]), status: evidence.llmStatus }),
+        ...evidence.evidence.map(e => `${e.vendor}: …${e.snippet}…`),
+      ].join('\n')
+    : t('chatbot.unverified');
+
+  return (
+    <span
+      title={tooltip}
+      className={`mt-1 inline-flex items-center gap-1 text-[10px] font-medium px-1.5 py-0.5 rounded border ${hasChatbot ? 'bg-red-50 text-red-700 border-red-200' : 'bg-green-50 text-green-700 border-green-200'}`}
+    >
+      {hasChatbot ? <AlertCircle size={10} /> : <CheckCircle size={10} />}
+      {hasChatbot ? t('chatbot.yes') : t('chatbot.no')}
+      {evidence && evidence.vendors.length > 0 && <span className="opacity-70">· {evidence.vendors.join(', ')}</span>}
+    </span>
+  );
+};
+
+const scoreTooltip = (lead: Lead, t: Translate) => {
+  const breakdown = lead.scoreBreakdown;
+  if (!breakdown) return t('score.noBreakdown');
+  return [
+    ...(lead.needScoreOverride !== undefined ? [t('score.override', { score: lead.needScoreOverride })] : []),
+    t('score.total', { score: breakdown.score }),
+    ...breakdown.contributions
+      .filter(c => c.weight > 0)
+      .map(c => t('score.contribution', { points: c.points.toFixed(2), factor: t(`scoreFactor.${c.factor}`), weight: c.weight, detail: formatMessage(t, c.detail) })),
+  ].join('\n');
+};
+
+const SortHeader: React.FC<{ label: string; sortKey: SortKey; sort: LeadSort; onSort: (key: SortKey) => void; className?: string }> = ({ label, sortKey, sort, onSort, className = '' }) => {
+  const active = sort.key === sortKey;
+  const Icon = !active ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+  return (
+    <th className={`px-6 py-3 ${className}`}>
+      <button onClick={() => onSort(sortKey)} className={`inline-flex items-center gap-1 uppercase ${active ? 'text-blue-700' : 'hover:text-gray-900'}`}>
+        {label}
+        <Icon size={12} className={active ? '' : 'opacity-40'} />
+      </button>
+    </th>
+  );
+};
+
+export const LeadTable: React.FC<LeadTableProps> = ({ leads, view, campaigns, onViewChange, onUpdateLead, onDeleteLeads, onExportLeads, onEnrichLead }) => {
+  const [notesLeadId, setNotesLeadId] = useState<string | null>(null);
+  const notesLead = leads.find(l => l.id === notesLeadId);
+  const [sourcesLeadId, setSourcesLeadId] = useState<string | null>(null);
+  const sourcesLead = leads.find(l => l.id === sourcesLeadId);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[0]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const { t, locale } = useI18n();
+
+  const { filters, sort } = view;
+  const visible = useMemo(() => applyView(leads, view), [leads, view]);
+  const pageCount = Math.max(1, Math.ceil(visible.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageLeads = visible.slice(currentPage * pageSize, (currentPage + 1) * pageSize);
+  // Selection survives filtering, but never points at deleted leads
+  const selected = leads.filter(l => selectedIds.has(l.id));
+  const allVisibleSelected = visible.length > 0 && visible.every(l => selectedIds.has(l.id));
+
+  const handleFiltersChange = (next: LeadFilters) => {
+    onViewChange({ ...view, filters: next });
+    setPage(0);
+  };
+
+  const handleSort = (key: SortKey) => {
+    const next: LeadSort = sort.key === key
+      ? { key, direction: sort.direction === 'asc' ? 'desc' : 'asc' }
+      : { key, direction: key === 'companyName' ? 'asc' : 'desc' };
+    onViewChange({ ...view, sort: next });
+    setPage(0);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAllVisible = () => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      visible.forEach(l => allVisibleSelected ? next.delete(l.id) : next.add(l.id));
+      return next;
+    });
+  };
+
+  const handleBulkDelete = () => {
+    onDeleteLeads(selected.map(l => l.id));
+    setSelectedIds(new Set());
+  };
+
+  const toggleExpanded = (id: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
   if (leads.length === 0) return null;
 
   return (
-    <div className="overflow-x-auto rounded-lg border border-gray-200 shadow-sm bg-white">
+    <div className="rounded-lg border border-gray-200 shadow-sm bg-white">
+      <div className="sticky top-0 z-10">
+        <LeadFilterBar leads={leads} filters={filters} campaigns={campaigns} onChange={handleFiltersChange} />
+        {selected.length > 0 && (
+          <div className="px-4 py-2 bg-blue-50 border-b border-blue-100 flex items-center gap-4 text-xs text-blue-800">
+            <span className="font-medium">{t('table.selected', { count: selected.length })}</span>
+            <button onClick={() => onExportLeads(selected)} className="flex items-center gap-1 hover:text-blue-950">
+              <FileDown size={14} /> {t('table.export')}
+            </button>
+            <button onClick={handleBulkDelete} className="flex items-center gap-1 text-red-600 hover:text-red-800">
+              <Trash2 size={14} /> {t('table.delete')}
+            </button>
+            <button onClick={() => setSelectedIds(new Set())} className="ml-auto text-gray-500 hover:text-gray-800">
+              {t('table.deselect')}
+            </button>
+          </div>
+        )}
+      </div>
+      <div className="overflow-x-auto">
       <table className="w-full text-sm text-left text-gray-500">
         <thead className="text-xs text-gray-700 uppercase bg-gray-50">
           <tr>
-            <th className="px-6 py-3">Empresa</th>
-            <th className="px-6 py-3">Decisor & Rol</th>
-            <th className="px-6 py-3">Contacto Digital</th>
-            <th className="px-6 py-3 text-center">Need Score</th>
-            <th className="px-6 py-3">Motivo / Análisis</th>
+            <th className="pl-4 py-3 w-8">
+              <input
+                type="checkbox"
+                checked={allVisibleSelected}
+                onChange={toggleAllVisible}
+                className="h-4 w-4 accent-blue-600"
+                title={t('table.selectAll')}
+              />
+            </th>
+            <SortHeader label={t('table.company')} sortKey="companyName" sort={sort} onSort={handleSort} />
+            <th className="px-6 py-3">{t('table.decisionMaker')}</th>
+            <th className="px-6 py-3">{t('table.contact')}</th>
+            <SortHeader label={t('table.needScore')} sortKey="needScore" sort={sort} onSort={handleSort} className="text-center" />
+            <th className="px-6 py-3">{t('table.reason')}</th>
+            <th className="px-6 py-3">{t('table.status')}</th>
+            <SortHeader label={t('table.date')} sortKey="createdAt" sort={sort} onSort={handleSort} />
           </tr>
         </thead>
         <tbody>
-          {leads.map((lead, index) => (
-            <tr key={index} className="bg-white border-b hover:bg-gray-50">
+          {pageLeads.length === 0 && (
+            <tr>
+              <td colSpan={8} className="px-6 py-8 text-center text-sm text-gray-400">{t('table.noMatches')}</td>
+            </tr>
+          )}
+          {pageLeads.map((lead) => {
+            const primary = primaryContact(lead);
+            const isExpanded = expandedIds.has(lead.id);
+            const isEditing = editingId === lead.id;
+            return (
+            <React.Fragment key={lead.id}>
+            <tr className={`border-b hover:bg-gray-50 ${selectedIds.has(lead.id) ? 'bg-blue-50/40' : 'bg-white'}`}>
+              <td className="pl-4 py-4">
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(lead.id)}
+                  onChange={() => toggleSelected(lead.id)}
+                  className="h-4 w-4 accent-blue-600"
+                />
+              </td>
               <td className="px-6 py-4">
                 <div className="font-medium text-gray-900 whitespace-nowrap flex items-center gap-2">
                   <Building2 size={16} className="text-gray-400" />
                   {lead.companyName}
+                  {lead.country && (
+                    <span
+                      title={t('table.market', { country: countryName(lead.country, locale) })}
+                      className="text-[10px] font-medium px-1 py-0.5 rounded border border-gray-200 bg-gray-50 text-gray-500"
+                    >
+                      {lead.country}
+                    </span>
+                  )}
                 </div>
                 {lead.website !== 'N/A' && (
                   <a href={`https://${lead.website.replace(/^https?:\/\//, '')}`} target="_blank" rel="noreferrer" className="mt-1 text-xs text-blue-500 hover:text-blue-700 flex items-center gap-1">
                      <Globe size={12} /> {lead.website}
                   </a>
                 )}
+                <ChatbotBadge lead={lead} />
               </td>
               <td className="px-6 py-4">
                  <div className="flex flex-col">
-                    {lead.contactName ? (
+                    {primary?.name ? (
                         <div className="flex items-center gap-2 text-gray-900 font-medium">
                             <User size={16} className="text-indigo-500" />
-                            {lead.contactName}
+                            {primary.name}
                         </div>
                     ) : (
-                        <span className="text-gray-400 text-xs italic">Nombre no disponible</span>
+                        <span className="text-gray-400 text-xs italic">{t('table.noName')}</span>
                     )}
                     <span className="text-xs text-indigo-600 font-medium mt-0.5 ml-6">
-                        {lead.role || 'Rol Desconocido'}
+                        {primary?.role || t('table.unknownRole')}
                     </span>
+                    {lead.contacts.length > 1 && (
+                        <button
+                            onClick={() => toggleExpanded(lead.id)}
+                            className="mt-1 ml-6 text-xs text-gray-500 hover:text-indigo-600 flex items-center gap-1"
+                        >
+                            {isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                            <Users size={12} /> {t('table.contacts', { count: lead.contacts.length })}
+                        </button>
+                    )}
                  </div>
               </td>
               <td className="px-6 py-4">
                 <div className="flex flex-col gap-2">
                     <div className="flex items-center gap-2">
                         <Mail size={16} className="text-gray-400" />
-                        <span className={lead.email === 'N/A' ? 'text-gray-400 italic' : 'text-gray-700 font-medium select-all'}>
-                            {lead.email}
+                        <span className={!primary || primary.email === 'N/A' ? 'text-gray-400 italic' : 'text-gray-700 font-medium select-all'}>
+                            {primary?.email || 'N/A'}
                         </span>
+                        {primary && <EmailBadge contact={primary} website={lead.website} />}
                     </div>
+                    {primary && <div className="ml-6"><InferredEmailHint contact={primary} /></div>}
                     {lead.socialLinks && lead.socialLinks.length > 0 && (
                         <div className="flex items-center gap-2 ml-6">
                             {lead.socialLinks.map((link, i) => (
@@ -94,7 +338,7 @@ export const LeadTable: React.FC<LeadTableProps> = ({ leads }) => {
                 </div>
               </td>
               <td className="px-6 py-4 text-center">
-                <div className="flex items-center justify-center gap-1">
+                <div className="flex items-center justify-center gap-1 cursor-help" title={scoreTooltip(lead, t)}>
                     <div className="w-16 bg-gray-200 rounded-full h-2.5">
                         <div 
                             className={`h-2.5 rounded-full ${lead.needScore >= 4 ? 'bg-red-500' : lead.needScore >= 3 ? 'bg-yellow-400' : 'bg-green-500'}`} 
@@ -112,10 +356,136 @@ export const LeadTable: React.FC<LeadTableProps> = ({ leads }) => {
                     </p>
                 </div>
               </td>
+              <td className="px-6 py-4">
+                <div className="flex items-center gap-2">
+                    <select
+                        value={lead.pipelineStatus}
+                        onChange={(e) => onUpdateLead(transitionLead(lead, e.target.value as Lead['pipelineStatus']))}
+                        className={`text-xs font-medium border rounded-full px-2 py-1 ${PIPELINE_COLORS[lead.pipelineStatus]}`}
+                    >
+                        {PIPELINE_STATUSES.map(status => (
+                            <option key={status} value={status}>{t(`pipeline.${status}`)}</option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={() => setNotesLeadId(lead.id)}
+                        className="relative text-gray-400 hover:text-yellow-600 transition-colors"
+                        title={t('table.notes')}
+                    >
+                        <StickyNote size={16} />
+                        {lead.notes.length > 0 && (
+                            <span className="absolute -top-1.5 -right-1.5 bg-yellow-400 text-[9px] text-white font-bold rounded-full w-3.5 h-3.5 flex items-center justify-center">
+                                {lead.notes.length}
+                            </span>
+                        )}
+                    </button>
+                    <button
+                        onClick={() => setSourcesLeadId(lead.id)}
+                        className="relative text-gray-400 hover:text-blue-600 transition-colors"
+                        title={t('table.sources')}
+                    >
+                        <Link2 size={16} />
+                        {!!lead.origin?.sources?.length && (
+                            <span className="absolute -top-1.5 -right-1.5 bg-blue-400 text-[9px] text-white font-bold rounded-full w-3.5 h-3.5 flex items-center justify-center">
+                                {lead.origin.sources.length}
+                            </span>
+                        )}
+                    </button>
+                    <button
+                        onClick={() => setEditingId(isEditing ? null : lead.id)}
+                        className={`transition-colors ${isEditing ? 'text-blue-600' : 'text-gray-400 hover:text-blue-600'}`}
+                        title={t('table.edit')}
+                    >
+                        <Pencil size={15} />
+                    </button>
+                    <button
+                        onClick={() => onEnrichLead(lead)}
+                        className="text-gray-400 hover:text-indigo-600 transition-colors"
+                        title={t('table.enrich')}
+                    >
+                        <Sparkles size={15} />
+                    </button>
+                    <button
+                        onClick={() => onDeleteLeads([lead.id])}
+                        className="text-gray-400 hover:text-red-600 transition-colors"
+                        title={t('table.delete')}
+                    >
+                        <Trash2 size={15} />
+                    </button>
+                </div>
+              </td>
+              <td className="px-6 py-4 text-xs text-gray-500 whitespace-nowrap">
+                {new Date(lead.createdAt).toLocaleDateString(locale)}
+              </td>
             </tr>
-          ))}
+            {isEditing && (
+              <tr className="bg-blue-50/40 border-b">
+                <td colSpan={8} className="px-6 py-4">
+                  <LeadEditForm
+                    initial={toDraft(lead)}
+                    submitLabel={t('table.saveChanges')}
+                    onSave={(draft) => { onUpdateLead(applyDraft(lead, draft)); setEditingId(null); }}
+                    onCancel={() => setEditingId(null)}
+                  />
+                </td>
+              </tr>
+            )}
+            {isExpanded && (
+              <tr className="bg-indigo-50/40 border-b">
+                <td colSpan={8} className="px-6 py-3">
+                  <table className="w-full text-xs">
+                    <tbody>
+                      {lead.contacts.map(contact => (
+                        <tr key={contact.id}>
+                          <td className="py-1 pr-4 font-medium text-gray-800">{contact.name || <span className="italic text-gray-400">{t('table.unnamed')}</span>}</td>
+                          <td className="py-1 pr-4 text-indigo-600">{contact.role || t('table.unknownRole')}</td>
+                          <td className="py-1 pr-4 text-gray-500">{t(`seniority.${contact.seniority}`)}</td>
+                          <td className={`py-1 pr-4 select-all ${contact.email === 'N/A' ? 'text-gray-400 italic' : 'text-gray-700'}`}>
+                            {contact.email}
+                            <InferredEmailHint contact={contact} />
+                          </td>
+                          <td className="py-1"><EmailBadge contact={contact} website={lead.website} /></td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </td>
+              </tr>
+            )}
+            </React.Fragment>
+            );
+          })}
         </tbody>
       </table>
+      </div>
+      <div className="px-4 py-2 border-t border-gray-200 flex items-center justify-between text-xs text-gray-500">
+        <span>
+          {t('table.range', { from: visible.length === 0 ? 0 : currentPage * pageSize + 1, to: Math.min(visible.length, (currentPage + 1) * pageSize), total: visible.length })}
+          {visible.length !== leads.length && t('table.filteredFrom', { total: leads.length })}
+        </span>
+        <div className="flex items-center gap-2">
+          <select
+            value={pageSize}
+            onChange={(e) => { setPageSize(Number(e.target.value)); setPage(0); }}
+            className="border border-gray-300 rounded-md px-1 py-0.5"
+          >
+            {PAGE_SIZES.map(size => <option key={size} value={size}>{t('table.perPage', { size })}</option>)}
+          </select>
+          <button onClick={() => setPage(currentPage - 1)} disabled={currentPage === 0} className="p-1 hover:text-gray-800 disabled:opacity-30">
+            <ChevronLeft size={14} />
+          </button>
+          <span>{currentPage + 1} / {pageCount}</span>
+          <button onClick={() => setPage(currentPage + 1)} disabled={currentPage >= pageCount - 1} className="p-1 hover:text-gray-800 disabled:opacity-30">
+            <ChevronRight size={14} />
+          </button>
+        </div>
+      </div>
+      {sourcesLead && (
+        <LeadSourcesDrawer lead={sourcesLead} onClose={() => setSourcesLeadId(null)} />
+      )}
+      {notesLead && (
+        <LeadNotesDrawer lead={notesLead} onUpdateLead={onUpdateLead} onClose={() => setNotesLeadId(null)} />
+      )}
     </div>
   );
 };
\ No newline at end of file
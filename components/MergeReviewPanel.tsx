@@ -0,0 +1,86 @@
+import React from 'react';
+import { Lead, MergeCandidate } from '../types';
+import { formatMessage } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import { GitMerge, Split, X } from 'lucide-react';
+
+interface MergeReviewPanelProps {
+  reviews: MergeCandidate[];
+  leads: Lead[];
+  onMerge: (review: MergeCandidate) => void;
+  onKeepSeparate: (review: MergeCandidate) => void;
+  onClose: () => void;
+}
+
+const LeadSummary: React.FC<{ title: string; lead: Lead }> = ({ title, lead }) => {
+  const { t } = useI18n();
+  return (
+    <div className="flex-1 min-w-0 bg-gray-50 rounded-lg p-3 border border-gray-200">
+      <div className="text-[10px] font-bold uppercase tracking-wider text-gray-400 mb-1">{title}</div>
+      <div className="font-medium text-gray-900 truncate">{lead.companyName}</div>
+      <div className="text-xs text-blue-500 truncate">{lead.website}</div>
+      {lead.contacts.map(contact => (
+        <div key={contact.id} className="text-xs text-gray-600 truncate">
+          {contact.name || t('table.unnamed')} {contact.role && `· ${contact.role}`} · {contact.email}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Queue of possible duplicates the resolver was not confident enough to merge on its own.
+ */
+export const MergeReviewPanel: React.FC<MergeReviewPanelProps> = ({ reviews, leads, onMerge, onKeepSeparate, onClose }) => {
+  const { t } = useI18n();
+  return (
+    <div className="fixed inset-0 z-30 flex items-center justify-center bg-black/20 p-4" onClick={onClose}>
+      <div className="w-full max-w-2xl max-h-[80vh] bg-white rounded-xl shadow-xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+            <GitMerge size={18} className="text-amber-500" /> {t('merge.title')}
+            <span className="text-xs bg-gray-200 px-2 py-0.5 rounded-full text-gray-600">{reviews.length}</span>
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={18} />
+          </button>
+        </div>
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {reviews.length === 0 && <p className="text-sm text-gray-400 text-center py-8">{t('merge.empty')}</p>}
+          {reviews.map(review => {
+            const existing = leads.find(l => l.id === review.existingId);
+            return (
+              <div key={review.id} className="border border-gray-200 rounded-lg p-3 space-y-3">
+                <div className="flex items-center justify-between text-xs">
+                  <span className="font-bold text-amber-600">{t('merge.similarity', { percent: Math.round(review.score * 100) })}</span>
+                  <span className="text-gray-500">{review.reasons.map(reason => formatMessage(t, reason)).join(' · ')}</span>
+                </div>
+                <div className="flex gap-3">
+                  {existing
+                    ? <LeadSummary title={t('merge.existing')} lead={existing} />
+                    : <div className="flex-1 text-xs text-gray-400 italic p-3">{t('merge.missing')}</div>}
+                  <LeadSummary title={t('merge.incoming')} lead={review.incoming} />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <button
+                    onClick={() => onKeepSeparate(review)}
+                    className="flex items-center gap-1 text-xs px-3 py-1.5 border rounded-lg hover:bg-gray-50"
+                  >
+                    <Split size={14} /> {t('merge.keepSeparate')}
+                  </button>
+                  <button
+                    onClick={() => onMerge(review)}
+                    disabled={!existing}
+                    className="flex items-center gap-1 text-xs px-3 py-1.5 rounded-lg bg-amber-500 text-white hover:bg-amber-600 disabled:opacity-50"
+                  >
+                    <GitMerge size={14} /> {t('merge.merge')}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
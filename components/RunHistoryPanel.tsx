@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { AgentRun, RunStatus, canRetry, durationMs, formatDuration } from '../services/agentRuns';
+import { formatMessage } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import { ChevronDown, ChevronRight, History, RotateCcw, X } from 'lucide-react';
+
+interface RunHistoryPanelProps {
+  runs: AgentRun[];
+  isBusy: boolean; // a cycle is running: retries wait
+  onRetry: (run: AgentRun) => void;
+  onClose: () => void;
+}
+
+const STATUS_COLORS: Record<RunStatus, string> = {
+  running: 'bg-blue-50 text-blue-700 border-blue-200',
+  succeeded: 'bg-green-50 text-green-700 border-green-200',
+  failed: 'bg-red-50 text-red-700 border-red-200',
+  interrupted: 'bg-amber-50 text-amber-700 border-amber-200',
+};
+
+const formatDate = (iso: string, locale: string) =>
+  new Date(iso).toLocaleString(locale, { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+export const RunHistoryPanel: React.FC<RunHistoryPanelProps> = ({ runs, isBusy, onRetry, onClose }) => {
+  const { t, locale } = useI18n();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const failed = runs.filter(run => run.status === 'failed' || run.status === 'interrupted').length;
+
+  return (
+    <div className="fixed inset-0 z-30 flex justify-end bg-black/20" onClick={onClose}>
+      <div className="w-full max-w-md h-full bg-white shadow-xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 flex items-start justify-between">
+          <div>
+            <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+              <History size={18} className="text-purple-500" /> {t('agent.runHistory')}
+            </h3>
+            <p className="text-xs text-gray-500">{t('runs.summary', { count: runs.length, failed })}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-gray-100">
+          {runs.length === 0 && (
+            <p className="p-4 text-sm text-gray-400 italic">{t('runs.empty')}</p>
+          )}
+          {runs.map(run => {
+            const isExpanded = expandedId === run.id;
+            return (
+              <div key={run.id} className="p-3">
+                <button onClick={() => setExpandedId(isExpanded ? null : run.id)} className="w-full flex items-start gap-2 text-left">
+                  {isExpanded ? <ChevronDown size={14} className="mt-1 text-gray-400" /> : <ChevronRight size={14} className="mt-1 text-gray-400" />}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className={`text-[10px] font-medium px-1.5 py-0.5 rounded border ${STATUS_COLORS[run.status]}`}>
+                        {t(`runStatus.${run.status}`)}
+                      </span>
+                      <span className="text-xs text-gray-500">{formatDate(run.startedAt, locale)}</span>
+                      <span className="text-xs text-gray-400">{formatDuration(durationMs(run.startedAt, run.finishedAt))}</span>
+                      {run.retryOf && <RotateCcw size={10} className="text-gray-400" aria-label={t('runs.retryOf')} />}
+                    </div>
+                    <p className="text-sm text-gray-800 truncate">
+                      {run.strategy ? `${run.strategy.targetNiche} · ${run.strategy.location}` : t('runs.noStrategy')}
+                    </p>
+                    {run.outcome && (
+                      <p className="text-xs text-gray-500">
+                        {t('runs.outcome', { found: run.outcome.found, inserted: run.outcome.inserted, merged: run.outcome.merged })}
+                      </p>
+                    )}
+                    {run.error && !isExpanded && <p className="text-xs text-red-600 truncate">{formatMessage(t, run.error)}</p>}
+                  </div>
+                </button>
+
+                {isExpanded && (
+                  <div className="mt-2 ml-5 space-y-3">
+                    <p className="text-xs text-gray-500">{t('runs.profile', { name: run.profileName })}</p>
+                    {run.strategy && <p className="text-xs text-gray-600">"{run.strategy.searchQuery}"</p>}
+                    {run.phases.length > 0 && (
+                      <ul className="text-xs text-gray-600 space-y-0.5">
+                        {run.phases.map(phase => (
+                          <li key={phase.phase} className="flex justify-between">
+                            <span>{t(`runPhase.${phase.phase}`)}</span>
+                            <span className="text-gray-400">{formatDuration(durationMs(phase.startedAt, phase.endedAt))}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {run.error && <p className="text-xs text-red-600 break-words">{formatMessage(t, run.error)}</p>}
+                    {run.logs.length > 0 && (
+                      <div className="bg-gray-900 rounded p-2 font-mono text-[11px] text-green-400 max-h-48 overflow-y-auto">
+                        {run.logs.map((line, i) => <div key={i} className="break-words">{line}</div>)}
+                      </div>
+                    )}
+                    {canRetry(run) && (
+                      <button
+                        onClick={() => onRetry(run)}
+                        disabled={isBusy}
+                        className="flex items-center gap-1 text-xs font-medium text-purple-700 hover:text-purple-900 disabled:opacity-40"
+                        title={isBusy ? t('runs.waitForCycle') : undefined}
+                      >
+                        <RotateCcw size={12} /> {run.strategy ? t('runs.retrySameStrategy') : t('common.retry')}
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
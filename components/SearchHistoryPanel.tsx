@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { SearchEntry, SearchEntryStatus, queryTokens } from '../services/searchHistory';
+import { useI18n } from './I18nProvider';
+import { Ban, BookMarked, Pin, Trash2, X } from 'lucide-react';
+
+interface SearchHistoryPanelProps {
+  entries: SearchEntry[];
+  onUpdate: (entry: SearchEntry) => void;
+  onDelete: (id: number) => void;
+  onBlock: (query: string) => void;
+  onClose: () => void;
+}
+
+type StatusFilter = SearchEntryStatus | 'all';
+
+const STATUS_COLORS: Record<SearchEntryStatus, string> = {
+  normal: 'bg-gray-50 text-gray-600 border-gray-200',
+  pinned: 'bg-purple-50 text-purple-700 border-purple-200',
+  blacklisted: 'bg-red-50 text-red-700 border-red-200',
+};
+
+const formatDate = (iso: string, locale: string) =>
+  new Date(iso).toLocaleString(locale, { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+export const SearchHistoryPanel: React.FC<SearchHistoryPanelProps> = ({ entries, onUpdate, onDelete, onBlock, onClose }) => {
+  const { t, locale } = useI18n();
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [search, setSearch] = useState('');
+  const [blockInput, setBlockInput] = useState('');
+
+  const terms = queryTokens(search);
+  const visible = entries
+    .filter(entry => statusFilter === 'all' || entry.status === statusFilter)
+    .filter(entry => {
+      const words = queryTokens(`${entry.query} ${entry.niche || ''} ${entry.location || ''}`);
+      return terms.every(term => words.some(word => word.startsWith(term)));
+    })
+    .sort((a, b) => b.lastRunAt.localeCompare(a.lastRunAt));
+  const countOf = (status: SearchEntryStatus) => entries.filter(entry => entry.status === status).length;
+
+  const toggle = (entry: SearchEntry, status: SearchEntryStatus) =>
+    onUpdate({ ...entry, status: entry.status === status ? 'normal' : status });
+
+  const handleBlock = () => {
+    if (!blockInput.trim()) return;
+    onBlock(blockInput.trim());
+    setBlockInput('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-30 flex justify-end bg-black/20" onClick={onClose}>
+      <div className="w-full max-w-md h-full bg-white shadow-xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 flex items-start justify-between">
+          <div>
+            <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+              <BookMarked size={18} className="text-purple-500" /> {t('agent.searchHistory')}
+            </h3>
+            <p className="text-xs text-gray-500">
+              {t('searches.summary', { count: entries.length, pinned: countOf('pinned'), blocked: countOf('blacklisted') })}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-gray-100 space-y-3">
+          <div className="flex gap-2">
+            <input
+              value={blockInput}
+              onChange={(e) => setBlockInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleBlock()}
+              placeholder={t('searches.blockPlaceholder')}
+              className="flex-1 text-sm border border-gray-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-purple-500 outline-none"
+            />
+            <button
+              onClick={handleBlock}
+              disabled={!blockInput.trim()}
+              className="text-xs px-3 py-1.5 rounded-lg bg-red-50 text-red-700 border border-red-200 hover:bg-red-100 disabled:opacity-50"
+            >
+              {t('searches.block')}
+            </button>
+          </div>
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={t('searches.filterPlaceholder')}
+            className="w-full text-sm border border-gray-200 rounded-lg px-3 py-1.5 focus:ring-2 focus:ring-purple-500 outline-none"
+          />
+          <div className="flex gap-1">
+            {(['all', 'pinned', 'blacklisted', 'normal'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setStatusFilter(option)}
+                className={`text-xs px-3 py-1 rounded-full border ${statusFilter === option ? 'bg-purple-50 text-purple-700 border-purple-200' : 'text-gray-500 border-gray-200 hover:bg-gray-50'}`}
+              >
+                {option === 'all' ? t('searches.all') : t(`searchStatus.${option}`)}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-gray-100">
+          {visible.length === 0 && (
+            <p className="p-4 text-sm text-gray-400 italic">
+              {entries.length === 0 ? t('searches.empty') : t('searches.noMatches')}
+            </p>
+          )}
+          {visible.map(entry => (
+            <div key={entry.id} className="p-3 flex items-start gap-2">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  {entry.status !== 'normal' && (
+                    <span className={`text-[10px] font-medium px-1.5 py-0.5 rounded border ${STATUS_COLORS[entry.status]}`}>
+                      {t(`searchStatus.${entry.status}`)}
+                    </span>
+                  )}
+                  <span className="text-xs text-gray-500">{formatDate(entry.lastRunAt, locale)}</span>
+                </div>
+                <p className="text-sm text-gray-800 break-words">"{entry.query}"</p>
+                {(entry.niche || entry.location) && (
+                  <p className="text-xs text-gray-500 truncate">{[entry.niche, entry.location].filter(Boolean).join(' · ')}</p>
+                )}
+                {entry.runs > 0 && (
+                  <p className="text-xs text-gray-400">
+                    {t(entry.runs === 1 ? 'searches.statsOne' : 'searches.statsMany', { runs: entry.runs, found: entry.found, inserted: entry.inserted })}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                <button
+                  onClick={() => toggle(entry, 'pinned')}
+                  className={`p-1 rounded hover:bg-gray-100 ${entry.status === 'pinned' ? 'text-purple-600' : 'text-gray-400'}`}
+                  title={entry.status === 'pinned' ? t('searches.unpin') : t('searches.pin')}
+                >
+                  <Pin size={14} />
+                </button>
+                <button
+                  onClick={() => toggle(entry, 'blacklisted')}
+                  className={`p-1 rounded hover:bg-gray-100 ${entry.status === 'blacklisted' ? 'text-red-600' : 'text-gray-400'}`}
+                  title={entry.status === 'blacklisted' ? t('searches.unblock') : t('searches.blockHint')}
+                >
+                  <Ban size={14} />
+                </button>
+                <button
+                  onClick={() => entry.id !== undefined && onDelete(entry.id)}
+                  className="p-1 rounded text-gray-400 hover:bg-gray-100 hover:text-red-600"
+                  title={t('searches.delete')}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
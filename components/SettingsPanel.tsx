@@ -0,0 +1,160 @@
+import React from 'react';
+import { AppSettings } from '../services/settings';
+import { EmailAcceptancePolicy } from '../services/emailQuality';
+import { DEFAULT_SCORING_WEIGHTS, MAX_WEIGHT, SCORE_FACTORS } from '../services/scoring';
+import { ScoreFactor } from '../types';
+import { CrmSettings } from '../services/crmExport';
+import { UI_LANGUAGES, UiLanguage } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+import { Gauge, Languages, Mail, Send, Settings, X } from 'lucide-react';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+const Toggle: React.FC<{ label: string; checked: boolean; onChange: (checked: boolean) => void }> = ({ label, checked, onChange }) => (
+  <label className="flex items-center justify-between text-sm text-gray-700 py-1">
+    {label}
+    <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} className="h-4 w-4 accent-blue-600" />
+  </label>
+);
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const { t } = useI18n();
+  const updateEmailPolicy = (patch: Partial<EmailAcceptancePolicy>) =>
+    onChange({ ...settings, emailPolicy: { ...settings.emailPolicy, ...patch } });
+
+  const updateCrm = (patch: Partial<CrmSettings>) =>
+    onChange({ ...settings, crm: { ...settings.crm, ...patch } });
+
+  const updateWeight = (factor: ScoreFactor, weight: number) =>
+    onChange({ ...settings, scoringWeights: { ...settings.scoringWeights, [factor]: weight } });
+
+  return (
+    <div className="fixed inset-0 z-30 flex justify-end bg-black/20" onClick={onClose}>
+      <div className="w-full max-w-md h-full bg-white shadow-xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+            <Settings size={18} className="text-gray-500" /> {t('header.settings')}
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          <section>
+            <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider flex items-center gap-1 mb-2">
+              <Languages size={12} /> {t('settings.language')}
+            </h4>
+            <select
+              value={settings.uiLanguage}
+              onChange={(e) => onChange({ ...settings, uiLanguage: e.target.value as UiLanguage })}
+              className="w-full text-sm border border-gray-200 rounded-lg px-2 py-1.5 bg-white"
+            >
+              {(Object.keys(UI_LANGUAGES) as UiLanguage[]).map(language => (
+                <option key={language} value={language}>{UI_LANGUAGES[language]}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-400 mt-1">
+              {t('settings.languageHint')}
+            </p>
+          </section>
+
+          <section>
+            <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider flex items-center gap-1 mb-2">
+              <Mail size={12} /> {t('settings.emailQuality')}
+            </h4>
+            <label className="block text-sm text-gray-700">
+              {t('settings.minConfidence')} <b>{settings.emailPolicy.minConfidence}%</b>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                step={5}
+                value={settings.emailPolicy.minConfidence}
+                onChange={(e) => updateEmailPolicy({ minConfidence: Number(e.target.value) })}
+                className="w-full accent-blue-600"
+              />
+            </label>
+            <Toggle
+              label={t('settings.allowGeneric')}
+              checked={settings.emailPolicy.allowGeneric}
+              onChange={(allowGeneric) => updateEmailPolicy({ allowGeneric })}
+            />
+            <Toggle
+              label={t('settings.allowFreeMail')}
+              checked={settings.emailPolicy.allowFreeMail}
+              onChange={(allowFreeMail) => updateEmailPolicy({ allowFreeMail })}
+            />
+            <Toggle
+              label={t('settings.requireDomainMatch')}
+              checked={settings.emailPolicy.requireDomainMatch}
+              onChange={(requireDomainMatch) => updateEmailPolicy({ requireDomainMatch })}
+            />
+          </section>
+
+          <section>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider flex items-center gap-1">
+                <Gauge size={12} /> {t('settings.weights')}
+              </h4>
+              <button
+                onClick={() => onChange({ ...settings, scoringWeights: DEFAULT_SCORING_WEIGHTS })}
+                className="text-xs text-blue-600 hover:underline"
+              >
+                {t('settings.reset')}
+              </button>
+            </div>
+            <p className="text-xs text-gray-400 mb-2">{t('settings.weightsHint')}</p>
+            {SCORE_FACTORS.map(factor => (
+              <label key={factor} className="block text-sm text-gray-700">
+                <span className="flex justify-between">
+                  {t(`scoreFactor.${factor}`)}
+                  <b>{settings.scoringWeights[factor]}</b>
+                </span>
+                <input
+                  type="range"
+                  min={0}
+                  max={MAX_WEIGHT}
+                  step={0.5}
+                  value={settings.scoringWeights[factor]}
+                  onChange={(e) => updateWeight(factor, Number(e.target.value))}
+                  className="w-full accent-blue-600"
+                />
+              </label>
+            ))}
+          </section>
+
+          <section>
+            <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider flex items-center gap-1 mb-2">
+              <Send size={12} /> {t('settings.crm')}
+            </h4>
+            <p className="text-xs text-gray-400 mb-2">{t('settings.crmHint')}</p>
+            <label className="block text-sm text-gray-700 mb-2">
+              {t('settings.endpoint')}
+              <input
+                type="url"
+                value={settings.crm.endpoint}
+                onChange={(e) => updateCrm({ endpoint: e.target.value.trim() })}
+                placeholder="http://localhost:4010/leads"
+                className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+              />
+            </label>
+            <label className="block text-sm text-gray-700">
+              {t('settings.token')}
+              <input
+                type="password"
+                value={settings.crm.token}
+                onChange={(e) => updateCrm({ token: e.target.value })}
+                className="mt-1 w-full border border-gray-300 rounded-md px-2 py-1.5 text-sm"
+              />
+            </label>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
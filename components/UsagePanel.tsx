@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { AppSettings } from '../services/settings';
+import { getProvider } from '../services/llmProvider';
+import {
+  ModelBudget, budgetFor, clearUsage, loadUsage, localDate, queuedRequests, requestsLastMinute,
+  subscribeUsage, totalTokens, usageCost, usageToday,
+} from '../services/rateLimiter';
+import { useI18n } from './I18nProvider';
+import { Activity, X } from 'lucide-react';
+
+interface UsagePanelProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+const HISTORY_DAYS = 7;
+
+const formatCost = (usd: number) => `$${usd < 1 ? usd.toFixed(3) : usd.toFixed(2)}`;
+
+const BudgetField: React.FC<{ label: string; value: number; step?: number; onChange: (value: number) => void }> = ({ label, value, step = 1, onChange }) => (
+  <label className="block text-xs text-gray-500">
+    {label}
+    <input
+      type="number"
+      min={0}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Math.max(0, Number(e.target.value) || 0))}
+      className="mt-0.5 w-full border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-800"
+    />
+  </label>
+);
+
+const Bar: React.FC<{ value: number; max: number }> = ({ value, max }) => (
+  <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+    <div
+      className={`h-full ${value >= max ? 'bg-red-500' : value >= max * 0.8 ? 'bg-amber-500' : 'bg-blue-500'}`}
+      style={{ width: `${max > 0 ? Math.min(100, (value / max) * 100) : 0}%` }}
+    />
+  </div>
+);
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ settings, onChange, onClose }) => {
+  const { t, locale } = useI18n();
+  const [, setTick] = useState(0);
+
+  // Re-render on every recorded call, and every few seconds so the per-minute window drains visibly
+  useEffect(() => {
+    const refresh = () => setTick(tick => tick + 1);
+    const unsubscribe = subscribeUsage(refresh);
+    const interval = setInterval(refresh, 5000);
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, []);
+
+  const days = loadUsage();
+  const provider = getProvider();
+  const models = Array.from(new Set([
+    provider.modelFor('worker'),
+    provider.modelFor('support'),
+    ...days.flatMap(day => Object.keys(day.models)),
+  ]));
+
+  const updateBudget = (model: string, patch: Partial<ModelBudget>) =>
+    onChange({
+      ...settings,
+      rateLimits: { budgets: { ...settings.rateLimits.budgets, [model]: { ...budgetFor(settings.rateLimits, model), ...patch } } },
+    });
+
+  const history = Array.from({ length: HISTORY_DAYS }, (_, i) => {
+    const date = new Date();
+    date.setDate(date.getDate() - i);
+    const day = days.find(d => d.date === localDate(date));
+    const perModel = Object.entries(day?.models || {});
+    return {
+      date: localDate(date),
+      requests: perModel.reduce((sum, [, usage]) => sum + usage.requests, 0),
+      tokens: perModel.reduce((sum, [, usage]) => sum + totalTokens(usage), 0),
+      cost: perModel.reduce((sum, [model, usage]) => sum + usageCost(usage, budgetFor(settings.rateLimits, model)), 0),
+    };
+  });
+
+  return (
+    <div className="fixed inset-0 z-30 flex justify-end bg-black/20" onClick={onClose}>
+      <div className="w-full max-w-md h-full bg-white shadow-xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+              <Activity size={18} className="text-blue-500" /> {t('header.usage')}
+            </h3>
+            <p className="text-xs text-gray-500">{t('usage.subtitle')}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-6">
+          {models.map(model => {
+            const budget = budgetFor(settings.rateLimits, model);
+            const today = usageToday(model, days);
+            const tokens = totalTokens(today);
+            const perRequest = today.requests > 0 ? tokens / today.requests : 0;
+            const remainingRequests = budget.tokensPerDay > 0 && perRequest > 0
+              ? Math.max(0, Math.floor((budget.tokensPerDay - tokens) / perRequest))
+              : null;
+            const lastMinute = requestsLastMinute(model);
+            const queued = queuedRequests(model);
+
+            return (
+              <section key={model} className="space-y-3">
+                <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider">{model}</h4>
+
+                <div className="space-y-1">
+                  <div className="flex justify-between text-xs text-gray-600">
+                    <span>{t('usage.lastMinute')}{queued > 0 ? ` · ${t('usage.queued', { count: queued })}` : ''}</span>
+                    <span>{t('usage.requestsOf', { count: lastMinute, max: budget.rpm || '∞' })}</span>
+                  </div>
+                  {budget.rpm > 0 && <Bar value={lastMinute} max={budget.rpm} />}
+                </div>
+
+                <div className="space-y-1">
+                  <div className="flex justify-between text-xs text-gray-600">
+                    <span>{t('usage.today', { count: today.requests })}{today.rateLimited > 0 ? ` · ${t('usage.rateLimited', { count: today.rateLimited })}` : ''}</span>
+                    <span>{t('usage.tokensOf', { count: tokens.toLocaleString(locale), max: budget.tokensPerDay ? budget.tokensPerDay.toLocaleString(locale) : '∞' })}</span>
+                  </div>
+                  {budget.tokensPerDay > 0 && <Bar value={tokens} max={budget.tokensPerDay} />}
+                  <p className="text-xs text-gray-500">
+                    {t('usage.costToday')} <b>{formatCost(usageCost(today, budget))}</b>
+                    {remainingRequests !== null && <> · {t('usage.remaining', { count: remainingRequests })}</>}
+                    {today.estimated > 0 && <> · {t('usage.estimated', { count: today.estimated })}</>}
+                  </p>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <BudgetField label={t('usage.rpm')} value={budget.rpm} onChange={(rpm) => updateBudget(model, { rpm })} />
+                  <BudgetField label={t('usage.tokensPerDay')} value={budget.tokensPerDay} step={10000} onChange={(tokensPerDay) => updateBudget(model, { tokensPerDay })} />
+                  <BudgetField label={t('usage.inputPrice')} value={budget.inputPricePerMillion} step={0.05} onChange={(inputPricePerMillion) => updateBudget(model, { inputPricePerMillion })} />
+                  <BudgetField label={t('usage.outputPrice')} value={budget.outputPricePerMillion} step={0.05} onChange={(outputPricePerMillion) => updateBudget(model, { outputPricePerMillion })} />
+                </div>
+                <p className="text-xs text-gray-400">{t('usage.zeroDisables')}</p>
+              </section>
+            );
+          })}
+
+          <section>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-xs font-medium text-gray-500 uppercase tracking-wider">{t('usage.lastDays', { count: HISTORY_DAYS })}</h4>
+              <button
+                onClick={() => confirm(t('usage.resetConfirm')) && clearUsage()}
+                className="text-xs text-blue-600 hover:underline"
+              >
+                {t('usage.reset')}
+              </button>
+            </div>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-gray-400 text-left">
+                  <th className="font-medium py-1">{t('usage.day')}</th>
+                  <th className="font-medium py-1 text-right">{t('usage.requests')}</th>
+                  <th className="font-medium py-1 text-right">{t('usage.tokens')}</th>
+                  <th className="font-medium py-1 text-right">{t('usage.cost')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100 text-gray-700">
+                {history.map(day => (
+                  <tr key={day.date}>
+                    <td className="py-1">{day.date}</td>
+                    <td className="py-1 text-right">{day.requests}</td>
+                    <td className="py-1 text-right">{day.tokens.toLocaleString(locale)}</td>
+                    <td className="py-1 text-right">{formatCost(day.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+// Runs the chat widget detector against the saved pages in fixtures/chatbot:
+// `npm run check:chatbot`. expected.json lists the vendors each page must yield;
+// exits non-zero on any mismatch, so a fingerprint change can be checked before shipping.
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const fixtures = path.join(root, 'fixtures', 'chatbot');
+
+const server = await createServer({ root, configFile: false, logLevel: 'error', server: { middlewareMode: true }, appType: 'custom' });
+let failures = 0;
+try {
+  const { detectChatWidgets, combineChatbotVerdict } = await server.ssrLoadModule('/services/chatbotDetector.ts');
+  const expected = JSON.parse(await readFile(path.join(fixtures, 'expected.json'), 'utf8'));
+
+  for (const [file, vendors] of Object.entries(expected)) {
+    const html = await readFile(path.join(fixtures, file), 'utf8');
+    const detection = detectChatWidgets(html);
+    const found = [...detection.vendors].sort();
+    const ok = JSON.stringify(found) === JSON.stringify([...vendors].sort());
+    // The model said "no chatbot": only an automated widget may overrule it
+    const verdict = combineChatbotVerdict({ companyName: file, website: 'N/A', chatbotStatus: 'OPORTUNIDAD', needScore: 3, reason: '', socialLinks: [] }, detection);
+    console.log(`${ok ? '✓' : '✗'} ${file}: ${found.join(', ') || '(none)'} → ${verdict.chatbotStatus}`);
+    if (!ok) {
+      console.log(`    expected ${vendors.join(', ') || '(none)'}`);
+      failures++;
+    }
+  }
+} finally {
+  await server.close();
+}
+
+if (failures > 0) {
+  console.error(`${failures} fixture(s) failed`);
+  process.exit(1);
+}
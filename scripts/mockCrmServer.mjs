@@ -0,0 +1,45 @@
+// Local stand-in for a CRM push endpoint: `npm run mock:crm`, then set
+// http://localhost:4010/leads as the endpoint in Settings.
+// Answers every record with a fake remote id; FAIL_EVERY=n makes every n-th request fail.
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT) || 4010;
+const FAIL_EVERY = Number(process.env.FAIL_EVERY) || 0;
+let requests = 0;
+let nextId = 1;
+
+const cors = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, cors).end();
+    return;
+  }
+  if (req.method !== 'POST') {
+    res.writeHead(405, cors).end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    requests++;
+    if (FAIL_EVERY && requests % FAIL_EVERY === 0) {
+      console.log(`#${requests} -> 503 (simulated failure)`);
+      res.writeHead(503, cors).end();
+      return;
+    }
+    try {
+      const { target, records = [] } = JSON.parse(body);
+      const results = records.map(record => ({ externalId: record.externalId, id: `${target}-${nextId++}` }));
+      console.log(`#${requests} ${target}: ${records.length} records${req.headers.authorization ? ' (with token)' : ''}`);
+      res.writeHead(200, { ...cors, 'Content-Type': 'application/json' }).end(JSON.stringify({ results }));
+    } catch {
+      res.writeHead(400, cors).end();
+    }
+  });
+}).listen(PORT, () => console.log(`Mock CRM listening on http://localhost:${PORT}/leads`));
@@ -0,0 +1,92 @@
+import { MarketStrategy } from "./geminiService";
+import { Message } from "./i18n";
+
+// --- AGENT RUNS ---
+// Every cycle of the autonomous loop is recorded as a run: its strategy,
+// phases with timings, log lines and outcome. Runs are saved as they
+// progress, so a reload can tell which cycle was cut short and redo it.
+
+export type RunPhase = 'planning' | 'searching' | 'ingesting';
+export type RunStatus = 'running' | 'succeeded' | 'failed' | 'interrupted';
+
+export interface RunPhaseTiming {
+  phase: RunPhase;
+  startedAt: string;
+  endedAt?: string;
+}
+
+export interface RunOutcome {
+  found: number;
+  inserted: number;
+  merged: number;
+  pendingReview: number;
+}
+
+export interface AgentRun {
+  id: string;
+  startedAt: string;
+  finishedAt?: string;
+  status: RunStatus;
+  phases: RunPhaseTiming[];
+  strategy?: MarketStrategy;
+  profileName: string;
+  logs: string[];
+  outcome?: RunOutcome;
+  leadIds: string[];
+  error?: Message;
+  retryOf?: string; // run this one repeats
+  campaignId?: string; // campaign the cycle worked for
+}
+
+// Runs kept in storage and log lines kept per run
+export const RUN_HISTORY_LIMIT = 200;
+export const RUN_LOG_LIMIT = 200;
+
+export const createRun = (profileName: string, retryOf?: AgentRun, campaignId?: string): AgentRun => ({
+  id: crypto.randomUUID(),
+  startedAt: new Date().toISOString(),
+  status: 'running',
+  phases: [],
+  strategy: retryOf?.strategy,
+  profileName,
+  logs: [],
+  leadIds: [],
+  ...(retryOf ? { retryOf: retryOf.id } : {}),
+  ...(campaignId ? { campaignId } : {}),
+});
+
+const closePhases = (phases: RunPhaseTiming[], at: string) =>
+  phases.map(p => p.endedAt ? p : { ...p, endedAt: at });
+
+export const startPhase = (run: AgentRun, phase: RunPhase): AgentRun => {
+  const at = new Date().toISOString();
+  return { ...run, phases: [...closePhases(run.phases, at), { phase, startedAt: at }] };
+};
+
+export const appendRunLog = (run: AgentRun, line: string): AgentRun => ({
+  ...run,
+  logs: [...run.logs, line].slice(-RUN_LOG_LIMIT),
+});
+
+export const finishRun = (run: AgentRun, status: Exclude<RunStatus, 'running'>, patch: Partial<AgentRun> = {}): AgentRun => {
+  const at = new Date().toISOString();
+  return { ...run, ...patch, status, finishedAt: at, phases: closePhases(run.phases, at) };
+};
+
+/**
+ * Runs still marked as running when the app starts were cut short by a reload.
+ */
+export const markInterrupted = (runs: AgentRun[]): AgentRun[] =>
+  runs
+    .filter(run => run.status === 'running')
+    .map(run => finishRun(run, 'interrupted', { error: { key: 'runs.interrupted' } }));
+
+export const durationMs = (from: string, to?: string) => (to ? new Date(to).getTime() : Date.now()) - new Date(from).getTime();
+
+export const formatDuration = (ms: number) =>
+  ms < 60000 ? `${Math.round(ms / 1000)}s`
+    : ms < 3600000 ? `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`
+    : `${Math.floor(ms / 3600000)}h ${Math.round((ms % 3600000) / 60000)}m`;
+
+// Retries reuse the run's strategy when it got that far
+export const canRetry = (run: AgentRun) => run.status === 'failed' || run.status === 'interrupted';
@@ -0,0 +1,132 @@
+import { Message, MessageError, asWritten } from "./i18n";
+
+// --- AI ERRORS ---
+// What can go wrong with a model call, as classes the callers can branch on
+// instead of matching substrings of vendor messages.
+
+export type AiErrorKind = 'rateLimited' | 'safetyBlocked' | 'emptyResponse' | 'invalidJson' | 'schemaViolation' | 'network';
+
+export abstract class AiError extends MessageError {
+  abstract readonly kind: AiErrorKind;
+  // Whether repeating the same call may succeed
+  abstract readonly retryable: boolean;
+}
+
+/**
+ * A call refused or given up on because of a quota. `retryAfterMs` is how long
+ * to pause before trying again: the server's hint, or until the daily budget resets.
+ */
+export class RateLimitedError extends AiError {
+  readonly kind = 'rateLimited';
+  readonly retryable = true;
+  constructor(text: Message, public model: string, public retryAfterMs: number) {
+    super(text);
+    this.name = 'RateLimitedError';
+  }
+}
+
+// The vendor's safety filter blocked the prompt or the answer
+export class SafetyBlockedError extends AiError {
+  readonly kind = 'safetyBlocked';
+  readonly retryable = false;
+  constructor(public reason: string) {
+    super({ key: 'aiError.safetyBlocked', params: { reason } });
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class EmptyResponseError extends AiError {
+  readonly kind = 'emptyResponse';
+  readonly retryable = true;
+  constructor(public what: 'answer' | 'search' = 'answer') {
+    super({ key: what === 'search' ? 'aiError.emptySearch' : 'aiError.emptyResponse' });
+    this.name = 'EmptyResponseError';
+  }
+}
+
+export class InvalidJsonError extends AiError {
+  readonly kind = 'invalidJson';
+  readonly retryable = true;
+  constructor(public excerpt: string) {
+    super({ key: 'aiError.invalidJson', params: { excerpt: excerpt.slice(0, 80) } });
+    this.name = 'InvalidJsonError';
+  }
+}
+
+// Valid JSON that does not have the expected shape, not even after repairs
+export class SchemaViolationError extends AiError {
+  readonly kind = 'schemaViolation';
+  readonly retryable = true;
+  constructor(public issues: Message[]) {
+    super({ key: 'aiError.schemaViolation', params: { issues: issues.slice(0, 3) } });
+    this.name = 'SchemaViolationError';
+  }
+}
+
+// The request never got an HTTP answer (offline, DNS, CORS, refused connection)
+export class NetworkError extends AiError {
+  readonly kind = 'network';
+  readonly retryable = true;
+  constructor(public cause: unknown) {
+    super({ key: 'aiError.network', params: { cause: (cause as Error)?.message || String(cause) } });
+    this.name = 'NetworkError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+/**
+ * The message of whatever was thrown: an Error, an SDK error object or a plain string.
+ */
+export const errorMessage = (error: unknown): string => {
+  if (isRecord(error) && typeof error.message === 'string') return error.message;
+  return typeof error === 'string' ? error : '';
+};
+
+/**
+ * What to show for whatever was thrown: the message of our own errors,
+ * or the wording of any other, cut to `limit` characters.
+ */
+export const describeError = (error: unknown, limit = 500): Message =>
+  error instanceof MessageError ? error.text : asWritten((errorMessage(error) || errorDump(error)).substring(0, limit));
+
+// Serialised form of the whole error; SDKs bury status details in nested fields
+export const errorDump = (error: unknown): string => {
+  try {
+    return JSON.stringify(error ?? null) || '';
+  } catch {
+    return '';
+  }
+};
+
+const errorStatus = (error: unknown): unknown => {
+  if (!isRecord(error)) return undefined;
+  if (error.status !== undefined) return error.status;
+  return isRecord(error.response) ? error.response.status : undefined;
+};
+
+/**
+ * 429s and quota errors, whatever the SDK wrapped them in.
+ */
+export const isRateLimitResponse = (error: unknown): boolean => {
+  const msg = errorMessage(error) || String(error ?? '');
+  return errorStatus(error) === 429 ||
+    msg.includes('429') ||
+    msg.includes('RESOURCE_EXHAUSTED') ||
+    msg.includes('quota') ||
+    errorDump(error).includes('RESOURCE_EXHAUSTED');
+};
+
+const isNetworkFailure = (error: unknown): boolean => {
+  const msg = errorMessage(error);
+  return (error instanceof TypeError && /fetch|network|load failed/i.test(msg)) ||
+    /ECONNREFUSED|ECONNRESET|ENOTFOUND|ETIMEDOUT|fetch failed|NetworkError/i.test(msg);
+};
+
+/**
+ * Wraps network failures in NetworkError; anything else that is not
+ * already an AiError (HTTP 4xx/5xx, SDK bugs) is returned untouched.
+ */
+export const classifyProviderError = (error: unknown): unknown =>
+  error instanceof AiError ? error : isNetworkFailure(error) ? new NetworkError(error) : error;
@@ -0,0 +1,99 @@
+import { normalizeCompanyName, normalizeDomain } from "./dedup";
+import { Message } from "./i18n";
+
+// --- BULK LIST JOBS ---
+// A pasted list of websites or company names, qualified one item at a time.
+// The job is persisted after every change so it can resume after a reload.
+
+export type BulkItemStatus = 'pending' | 'running' | 'done' | 'notFound' | 'failed';
+
+export interface BulkItem {
+  id: string;
+  input: string; // the line as pasted
+  companyName: string;
+  website: string; // 'N/A' when only a name was given
+  status: BulkItemStatus;
+  attempts: number;
+  error?: Message;
+  leadId?: string; // lead created or merged from this item
+  finishedAt?: string;
+}
+
+export interface BulkJob {
+  id: string;
+  name: string; // creation date and time, shown as "List <name>"
+  createdAt: string;
+  concurrency: number;
+  items: BulkItem[];
+}
+
+export const BULK_CONCURRENCY_OPTIONS = [1, 2, 3];
+// Automatic attempts before an item is left as failed for a manual retry
+export const BULK_MAX_ATTEMPTS = 2;
+// Pause between launches, so concurrent items don't hit the API in the same second
+export const BULK_SPACING_MS = 5000;
+
+const DOMAIN_PATTERN = /^(https?:\/\/)?(www\.)?[a-z0-9-]+(\.[a-z0-9-]+)+([/?#].*)?$/i;
+
+/**
+ * One item per line (or per semicolon); URLs and bare domains become websites,
+ * anything else a company name. Repeated entries are dropped.
+ */
+export const parseBulkInput = (text: string): Omit<BulkItem, 'id' | 'status' | 'attempts'>[] => {
+  const seen = new Set<string>();
+  return text
+    .split(/[\n;]+/)
+    .map(line => line.trim().replace(/^(?:[-*•]|\d+[.)])\s+/, ''))
+    .filter(Boolean)
+    .flatMap(input => {
+      const isDomain = DOMAIN_PATTERN.test(input) && !/\s/.test(input);
+      const domain = isDomain ? normalizeDomain(input) : '';
+      const key = domain || normalizeCompanyName(input);
+      if (!key || seen.has(key)) return [];
+      seen.add(key);
+      return [{
+        input,
+        companyName: domain ? domain.split('.')[0] : input,
+        website: domain ? (/^https?:\/\//i.test(input) ? input : `https://${input}`) : 'N/A',
+      }];
+    });
+};
+
+export const createBulkJob = (text: string, concurrency: number, createdAt = new Date()): BulkJob => ({
+  id: crypto.randomUUID(),
+  name: `${createdAt.toLocaleDateString()} ${createdAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`,
+  createdAt: createdAt.toISOString(),
+  concurrency,
+  items: parseBulkInput(text).map(item => ({ ...item, id: crypto.randomUUID(), status: 'pending', attempts: 0 })),
+});
+
+export const patchBulkItem = (job: BulkJob, id: string, patch: Partial<BulkItem>): BulkJob => ({
+  ...job,
+  items: job.items.map(item => item.id === id ? { ...item, ...patch } : item),
+});
+
+/**
+ * Items left running by a closed tab go back to the queue.
+ */
+export const resumeBulkJob = (job: BulkJob): BulkJob => ({
+  ...job,
+  items: job.items.map(item => item.status === 'running' ? { ...item, status: 'pending' } : item),
+});
+
+/**
+ * Puts failed items (or the given ones) back in the queue with fresh attempts.
+ */
+export const retryBulkItems = (job: BulkJob, ids?: string[]): BulkJob => ({
+  ...job,
+  items: job.items.map(item =>
+    item.status === 'failed' && (!ids || ids.includes(item.id))
+      ? { ...item, status: 'pending', attempts: 0, error: undefined }
+      : item
+  ),
+});
+
+export const bulkProgress = (job: BulkJob): Record<BulkItemStatus, number> => {
+  const counts: Record<BulkItemStatus, number> = { pending: 0, running: 0, done: 0, notFound: 0, failed: 0 };
+  job.items.forEach(item => counts[item.status]++);
+  return counts;
+};
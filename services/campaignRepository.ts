@@ -0,0 +1,34 @@
+import { Campaign } from "../types";
+import { STORES, getMeta, requestToPromise, setMeta, withStore } from "./db";
+
+const ACTIVE_CAMPAIGN_KEY = 'activeCampaignId';
+
+// --- CAMPAIGNS ---
+
+/**
+ * All campaigns, newest first.
+ */
+export const listCampaigns = async (): Promise<Campaign[]> => {
+  const campaigns = await withStore(STORES.campaigns, 'readonly', tx =>
+    requestToPromise<Campaign[]>(tx.objectStore(STORES.campaigns).getAll())
+  );
+  return campaigns.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const saveCampaign = (campaign: Campaign): Promise<void> =>
+  withStore(STORES.campaigns, 'readwrite', tx => {
+    tx.objectStore(STORES.campaigns).put(campaign);
+  });
+
+// Leads keep the id in `campaignIds`; the filter just stops offering it
+export const deleteCampaign = (id: string): Promise<void> =>
+  withStore(STORES.campaigns, 'readwrite', tx => {
+    tx.objectStore(STORES.campaigns).delete(id);
+  });
+
+// --- SELECTED CAMPAIGN ---
+// The campaign the agent loop works for; null is free exploration.
+
+export const loadActiveCampaignId = async (): Promise<string | null> => (await getMeta<string | null>(ACTIVE_CAMPAIGN_KEY)) || null;
+
+export const saveActiveCampaignId = (id: string | null): Promise<void> => setMeta(ACTIVE_CAMPAIGN_KEY, id);
@@ -0,0 +1,76 @@
+import { AnalysisStats, Campaign, Lead } from "../types";
+import { Message } from "./i18n";
+
+// --- CAMPAIGNS ---
+// Counting, limits and stats of goal-driven agent runs.
+
+// Pause between cycles when no campaign is selected
+export const DEFAULT_CYCLE_DELAY_SECONDS = 60;
+
+export const createCampaign = (name: string): Campaign => ({
+  id: crypto.randomUUID(),
+  name,
+  objective: '',
+  niches: [],
+  regions: [],
+  leadTarget: 50,
+  minNeedScore: 4,
+  maxCycles: 20,
+  maxApiCalls: 100,
+  cycleDelaySeconds: DEFAULT_CYCLE_DELAY_SECONDS,
+  status: 'active',
+  cycles: 0,
+  apiCalls: 0,
+  createdAt: new Date().toISOString(),
+});
+
+export const tagCampaign = (lead: Lead, campaignId: string): Lead =>
+  lead.campaignIds?.includes(campaignId) ? lead : { ...lead, campaignIds: [...(lead.campaignIds || []), campaignId] };
+
+export const campaignLeads = (leads: Lead[], campaignId: string) =>
+  leads.filter(lead => lead.campaignIds?.includes(campaignId));
+
+// High priority: no chatbot and a need score at or above the threshold
+const isHighPriority = (lead: Lead, minNeedScore: number) =>
+  lead.chatbotStatus === 'OPORTUNIDAD' && lead.needScore >= minNeedScore;
+
+export const qualifiedCount = (leads: Lead[], campaign: Campaign) =>
+  campaignLeads(leads, campaign.id).filter(lead => isHighPriority(lead, campaign.minNeedScore)).length;
+
+/**
+ * Stats cards for the whole database, or for one campaign's leads
+ * (where "high priority" uses the campaign's own need-score threshold).
+ */
+export const computeStats = (leads: Lead[], campaign?: Campaign | null): AnalysisStats => {
+  const scope = campaign ? campaignLeads(leads, campaign.id) : leads;
+  return {
+    total: scope.length,
+    opportunities: scope.filter(l => l.chatbotStatus === 'OPORTUNIDAD').length,
+    highPriority: scope.filter(l => isHighPriority(l, campaign?.minNeedScore ?? 4)).length,
+  };
+};
+
+/**
+ * Counts a finished cycle and closes the campaign when the target is met
+ * or a limit is used up. `qualified` is measured after the cycle's leads were saved.
+ */
+export const recordCampaignCycle = (campaign: Campaign, apiCalls: number, qualified: number): Campaign => {
+  const updated = { ...campaign, cycles: campaign.cycles + 1, apiCalls: campaign.apiCalls + apiCalls };
+  const end = (status: Campaign['status'], stopReason: Message): Campaign =>
+    ({ ...updated, status, stopReason, endedAt: new Date().toISOString() });
+
+  if (qualified >= campaign.leadTarget) return end('completed', { key: 'campaignStop.target', params: { qualified, target: campaign.leadTarget } });
+  if (updated.cycles >= campaign.maxCycles) return end('stopped', { key: 'campaignStop.cycles', params: { max: campaign.maxCycles } });
+  if (updated.apiCalls >= campaign.maxApiCalls) return end('stopped', { key: 'campaignStop.apiCalls', params: { max: campaign.maxApiCalls } });
+  return updated;
+};
+
+/**
+ * Back to active after the user raised a limit or the target.
+ */
+export const reopenCampaign = (campaign: Campaign): Campaign => ({
+  ...campaign,
+  status: 'active',
+  endedAt: undefined,
+  stopReason: undefined,
+});
@@ -0,0 +1,115 @@
+import { ChatbotEvidence, ChatVendor, Company } from "../types";
+import { normalizeDomain } from "./dedup";
+
+// --- CHAT WIDGET FINGERPRINTS ---
+// Rule-based counterpart of the model's chatbot opinion. Each vendor is recognised
+// by the loader script, global object or markup its embed snippet leaves in the page,
+// or by the container the widget renders (pages saved from the browser lose the loader).
+// `npm run check:chatbot` runs these against the saved pages in fixtures/chatbot.
+
+interface WidgetFingerprint {
+  vendor: ChatVendor;
+  // Automated/live chat tools disqualify the lead; a plain WhatsApp link does not
+  automated: boolean;
+  patterns: RegExp[];
+}
+
+const FINGERPRINTS: WidgetFingerprint[] = [
+  { vendor: 'Intercom', automated: true, patterns: [/widget\.intercom\.io/i, /js\.intercomcdn\.com/i, /window\.intercomSettings/i, /intercom-(container|launcher-frame)/i] },
+  { vendor: 'Zendesk', automated: true, patterns: [/static\.zdassets\.com/i, /ze-snippet/i, /v2\.zopim\.com/i] },
+  { vendor: 'Drift', automated: true, patterns: [/js\.driftt\.com/i, /drift\.load\(/i] },
+  { vendor: 'Tidio', automated: true, patterns: [/code\.tidio\.co/i, /tidioChatApi/i] },
+  { vendor: 'HubSpot Chat', automated: true, patterns: [/js\.usemessages\.com/i, /HubSpotConversations/i, /hubspot-messages-iframe-container/i] },
+  { vendor: 'Crisp', automated: true, patterns: [/client\.crisp\.chat/i, /\$crisp\s*=/i, /CRISP_WEBSITE_ID/i] },
+  { vendor: 'Tawk.to', automated: true, patterns: [/embed\.tawk\.to/i, /Tawk_API/i, /tawk\.to\/chat\//i] },
+  { vendor: 'LiveChat', automated: true, patterns: [/cdn\.livechatinc\.com/i, /__lc\.license/i] },
+  { vendor: 'WhatsApp', automated: false, patterns: [/wa\.me\/\d+/i, /api\.whatsapp\.com\/send/i, /whatsapp-(button|widget|float)/i] },
+];
+
+const AUTOMATED_VENDORS = new Set(FINGERPRINTS.filter(f => f.automated).map(f => f.vendor));
+
+const SNIPPET_RADIUS = 60;
+
+const snippetAround = (html: string, index: number, length: number) =>
+  html.slice(Math.max(0, index - SNIPPET_RADIUS), index + length + SNIPPET_RADIUS).replace(/\s+/g, ' ').trim();
+
+export interface WidgetDetection {
+  vendors: ChatVendor[];
+  evidence: { vendor: ChatVendor; snippet: string }[];
+}
+
+/**
+ * Scans raw HTML for known chat widgets. Returns every vendor found with
+ * the first matching snippet for each, so the verdict can be audited.
+ */
+export const detectChatWidgets = (html: string): WidgetDetection => {
+  const evidence: WidgetDetection['evidence'] = [];
+  for (const { vendor, patterns } of FINGERPRINTS) {
+    for (const pattern of patterns) {
+      const match = pattern.exec(html);
+      if (match) {
+        evidence.push({ vendor, snippet: snippetAround(html, match.index, match[0].length) });
+        break;
+      }
+    }
+  }
+  return { vendors: evidence.map(e => e.vendor), evidence };
+};
+
+export const looksLikeHtml = (text: string) => /<(html|head|body|script|div)[\s>]/i.test(text);
+
+/**
+ * Merges the rule-based detection with the model's verdict.
+ * An automated widget in the HTML is conclusive; otherwise the model decides.
+ */
+export const combineChatbotVerdict = <T extends Company>(lead: T, detection: WidgetDetection, url?: string): T => {
+  const llmStatus = lead.chatbotStatus;
+  const rulesFound = detection.vendors.some(v => AUTOMATED_VENDORS.has(v));
+
+  // Who decided the final status: both agree, the HTML overruled the model, or only the model saw a bot
+  let verdictSource: ChatbotEvidence['verdictSource'];
+  if (rulesFound === (llmStatus === 'TIENE_CHATBOT')) {
+    verdictSource = 'rules+llm';
+  } else {
+    verdictSource = rulesFound ? 'rules' : 'llm';
+  }
+
+  return {
+    ...lead,
+    chatbotStatus: rulesFound ? 'TIENE_CHATBOT' : llmStatus,
+    chatbotEvidence: {
+      ...detection,
+      llmStatus,
+      verdictSource,
+      url,
+      checkedAt: new Date().toISOString(),
+    },
+  };
+};
+
+/**
+ * Fetches a page through the configured CORS proxy. HTML_PROXY_URL is a template
+ * where `{url}` is replaced by the encoded target, e.g. `http://localhost:8080/?url={url}`.
+ * Returns null when no proxy is configured.
+ */
+export const fetchHtml = async (website: string, proxyTemplate = process.env.HTML_PROXY_URL): Promise<string | null> => {
+  const domain = normalizeDomain(website);
+  if (!proxyTemplate || !domain) return null;
+  const target = encodeURIComponent(`https://${domain}`);
+  const response = await fetch(proxyTemplate.replace('{url}', target));
+  if (!response.ok) throw new Error(`Proxy returned ${response.status} for ${domain}`);
+  return response.text();
+};
+
+/**
+ * Pasted input may hold several sites separated by `---`. Returns the
+ * fragment that mentions the company's domain or name, if any.
+ */
+export const findHtmlForCompany = (company: Company, rawInput: string): string | null => {
+  const domain = normalizeDomain(company.website);
+  const name = company.companyName.toLowerCase();
+  const segments = rawInput.split(/^---$/m);
+  if (segments.length === 1) return looksLikeHtml(rawInput) ? rawInput : null;
+  const segment = segments.find(s => (domain && s.toLowerCase().includes(domain)) || s.toLowerCase().includes(name));
+  return segment && looksLikeHtml(segment) ? segment : null;
+};
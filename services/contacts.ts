@@ -0,0 +1,96 @@
+import { Contact, ContactSource, ExtractedContact, Lead, Seniority } from "../types";
+
+export const SENIORITIES: Seniority[] = ['c-level', 'director', 'manager', 'staff', 'department', 'unknown'];
+
+// Lower is more senior; used to pick who to approach first
+const SENIORITY_RANK: Record<Seniority, number> = {
+  'c-level': 0, 'director': 1, 'manager': 2, 'staff': 3, 'department': 4, 'unknown': 5,
+};
+
+const SENIORITY_PATTERNS: [RegExp, Seniority][] = [
+  [/\b(ceo|fundador|founder|dueñ[oa]|propietari[oa]|socio|gerente general|director general|presidente|owner)\b/i, 'c-level'],
+  [/\b(cmo|coo|cfo|cto|director|directora|head)\b/i, 'director'],
+  [/\b(gerente|responsable|jef[ea]|manager|coordinador|coordinadora)\b/i, 'manager'],
+  [/\b(dpto|departamento)\b/i, 'department'],
+];
+
+/**
+ * Best-effort seniority from a free-text role, for data the model did not classify.
+ */
+export const inferSeniority = (role?: string): Seniority => {
+  if (!role) return 'unknown';
+  const match = SENIORITY_PATTERNS.find(([pattern]) => pattern.test(role));
+  return match ? match[1] : 'staff';
+};
+
+export const hasEmail = (contact: Pick<Contact, 'email'>) => !!contact.email && contact.email !== 'N/A' && contact.email.includes('@');
+
+export const createContact = (extracted: ExtractedContact, source: ContactSource): Contact => ({
+  ...extracted,
+  seniority: extracted.seniority || inferSeniority(extracted.role),
+  id: crypto.randomUUID(),
+  source,
+});
+
+/**
+ * The person to approach first: the most senior contact with an email,
+ * falling back to the most senior one overall.
+ */
+export const primaryContact = (lead: Pick<Lead, 'contacts'>): Contact | undefined => {
+  const sorted = [...lead.contacts].sort((a, b) => SENIORITY_RANK[a.seniority] - SENIORITY_RANK[b.seniority]);
+  return sorted.find(hasEmail) || sorted[0];
+};
+
+export const contactEmails = (lead: Pick<Lead, 'contacts'>): string[] =>
+  lead.contacts.filter(hasEmail).map(c => c.email.toLowerCase());
+
+/**
+ * Union of two contact lists. Contacts with the same email (or, lacking email,
+ * the same name) are folded together, keeping the first non-empty value of each field.
+ */
+export const mergeContacts = (target: Contact[], source: Contact[]): Contact[] => {
+  const merged = [...target];
+  for (const contact of source) {
+    const email = hasEmail(contact) ? contact.email.toLowerCase() : '';
+    const name = contact.name?.trim().toLowerCase();
+    const index = merged.findIndex(c =>
+      (email && hasEmail(c) && c.email.toLowerCase() === email) ||
+      (!email && name && c.name?.trim().toLowerCase() === name)
+    );
+    if (index === -1) {
+      merged.push(contact);
+    } else {
+      const current = merged[index];
+      merged[index] = {
+        ...current,
+        name: current.name || contact.name,
+        role: current.role || contact.role,
+        email: hasEmail(current) ? current.email : contact.email,
+        emailQuality: hasEmail(current) ? current.emailQuality : contact.emailQuality,
+        seniority: current.seniority !== 'unknown' ? current.seniority : contact.seniority,
+      };
+    }
+  }
+  return merged;
+};
+
+interface LegacyContactFields {
+  contactName?: string;
+  role?: string;
+  email?: string;
+}
+
+/**
+ * Converts a pre-contacts record (flat contactName/role/email) to the contacts list shape.
+ */
+export const fromLegacyLead = <T extends LegacyContactFields>({ contactName, role, email, ...rest }: T) => {
+  const contacts: Contact[] = contactName || email ? [{
+    id: crypto.randomUUID(),
+    name: contactName,
+    role,
+    email: email || 'N/A',
+    seniority: inferSeniority(role),
+    source: 'agent',
+  }] : [];
+  return { ...rest, contacts };
+};
@@ -0,0 +1,107 @@
+import { stripAccents } from "./dedup";
+
+// --- MARKET COVERAGE ---
+// What the agent has tried, by niche × location, and how well it went.
+// Fed back to the strategist so it can return to productive segments and
+// avoid the ones that keep coming back empty or full of chatbots.
+
+export interface CoverageCell {
+  key: string; // normalized niche|location
+  niche: string; // as last worded by the strategist
+  location: string;
+  cycles: number;
+  candidates: number; // companies the search returned, before any filter
+  withChatbot: number; // candidates that already had a chatbot
+  leads: number; // leads that passed every filter
+  inserted: number; // of those, new to the database
+  needScoreSum: number; // over `leads`, after scoring
+  lastRunAt: string;
+}
+
+export interface CycleYield {
+  candidates: number;
+  withChatbot: number;
+  needScores: number[]; // scores of the leads the cycle kept
+  inserted: number;
+}
+
+export type PlanningApproach = 'exploit' | 'explore';
+
+// Cycles that return to a productive segment, once there are enough segments to compare
+const EXPLOIT_SHARE = 0.4;
+const MIN_CELLS_TO_EXPLOIT = 3;
+// Segments listed in the strategist prompt, best and worst each
+const PROMPT_SEGMENTS = 5;
+// Tried segments whose niche and location are named in the prompt: the most productive and the latest, this many each
+const PROMPT_TRIED_SEGMENTS = 15;
+
+const normalizePart = (value: string) => stripAccents(value.toLowerCase()).replace(/\s+/g, ' ').trim();
+
+export const coverageKey = (niche: string, location: string) => `${normalizePart(niche)}|${normalizePart(location)}`;
+
+export const recordCoverage = (cell: CoverageCell | undefined, niche: string, location: string, result: CycleYield, at = new Date()): CoverageCell => {
+  const base: CoverageCell = cell || {
+    key: coverageKey(niche, location), niche, location,
+    cycles: 0, candidates: 0, withChatbot: 0, leads: 0, inserted: 0, needScoreSum: 0, lastRunAt: at.toISOString(),
+  };
+  return {
+    ...base,
+    niche,
+    location,
+    cycles: base.cycles + 1,
+    candidates: base.candidates + result.candidates,
+    withChatbot: base.withChatbot + result.withChatbot,
+    leads: base.leads + result.needScores.length,
+    inserted: base.inserted + result.inserted,
+    needScoreSum: base.needScoreSum + result.needScores.reduce((sum, score) => sum + score, 0),
+    lastRunAt: at.toISOString(),
+  };
+};
+
+export const avgNeedScore = (cell: CoverageCell) => cell.leads > 0 ? cell.needScoreSum / cell.leads : 0;
+
+export const chatbotRate = (cell: CoverageCell) => cell.candidates > 0 ? cell.withChatbot / cell.candidates : 0;
+
+export const leadsPerCycle = (cell: CoverageCell) => cell.cycles > 0 ? cell.leads / cell.cycles : 0;
+
+/**
+ * Expected worth of another cycle in the segment: leads per cycle, weighted by how needy they were.
+ */
+export const segmentYield = (cell: CoverageCell) => leadsPerCycle(cell) * (avgNeedScore(cell) / 5);
+
+export const rankCoverage = (cells: CoverageCell[]) => [...cells].sort((a, b) => segmentYield(b) - segmentYield(a));
+
+/**
+ * Mostly explore; once a few segments can be compared, sometimes go back to a productive one.
+ */
+export const chooseApproach = (cells: CoverageCell[], random = Math.random()): PlanningApproach =>
+  cells.filter(cell => cell.leads > 0).length >= MIN_CELLS_TO_EXPLOIT && random < EXPLOIT_SHARE ? 'exploit' : 'explore';
+
+export interface CoverageSummary {
+  best: CoverageCell[];
+  worst: CoverageCell[];
+  niches: string[];
+  locations: string[];
+  omitted: number;
+}
+
+/**
+ * Compact view of the map for the strategist prompt: the best and worst
+ * segments with their numbers, and the niches and locations already tried.
+ * Only the top segments by yield and by recency are named, so the prompt
+ * stays the same size however large the map grows; `omitted` counts the rest.
+ */
+export const summarizeCoverage = (cells: CoverageCell[]): CoverageSummary => {
+  const ranked = rankCoverage(cells);
+  const best = ranked.filter(cell => cell.leads > 0).slice(0, PROMPT_SEGMENTS);
+  const worst = ranked.slice().reverse().filter(cell => !best.includes(cell)).slice(0, PROMPT_SEGMENTS);
+  const latest = [...cells].sort((a, b) => b.lastRunAt.localeCompare(a.lastRunAt));
+  const tried = Array.from(new Set([...ranked.slice(0, PROMPT_TRIED_SEGMENTS), ...latest.slice(0, PROMPT_TRIED_SEGMENTS)]));
+  return {
+    best,
+    worst,
+    niches: Array.from(new Set(tried.map(cell => cell.niche))),
+    locations: Array.from(new Set(tried.map(cell => cell.location))),
+    omitted: cells.length - tried.length,
+  };
+};
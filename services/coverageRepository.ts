@@ -0,0 +1,14 @@
+import { CoverageCell } from "./coverage";
+import { STORES, requestToPromise, withStore } from "./db";
+
+// --- COVERAGE ---
+
+export const listCoverage = (): Promise<CoverageCell[]> =>
+  withStore(STORES.coverage, 'readonly', tx =>
+    requestToPromise<CoverageCell[]>(tx.objectStore(STORES.coverage).getAll())
+  );
+
+export const saveCoverageCell = (cell: CoverageCell): Promise<void> =>
+  withStore(STORES.coverage, 'readwrite', tx => {
+    tx.objectStore(STORES.coverage).put(cell);
+  });
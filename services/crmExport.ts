@@ -0,0 +1,287 @@
+import { Contact, CrmSyncRecord, CrmTarget, Lead, PipelineStatus } from "../types";
+import { hasEmail } from "./contacts";
+import { normalizeDomain } from "./dedup";
+import { Translate } from "./i18n";
+import { toCsv } from "./leadExport";
+import { countryName } from "./markets";
+import { CellValue, zipStore } from "./xlsx";
+
+// --- CRM ADAPTERS ---
+// Each CRM's native import layout, so files can be imported without fixing
+// columns by hand, plus an optional push of the same records to a REST endpoint.
+
+interface CrmColumn {
+  header: string;
+  value: (lead: Lead, contact: Contact | undefined, t: Translate) => CellValue;
+}
+
+interface CrmSheet {
+  name: string;
+  // 'company': one row per lead; 'contact': one row per contact, and leads
+  // without contacts get one only when the object cannot exist without a person
+  level: 'company' | 'contact';
+  keepContactless?: boolean;
+  columns: CrmColumn[];
+}
+
+interface CrmAdapter {
+  label: string;
+  sheets: CrmSheet[];
+}
+
+export interface CrmSettings {
+  target: CrmTarget;
+  endpoint: string; // push URL; empty disables push
+  token: string; // sent as a bearer token when set
+  skipSynced: boolean;
+}
+
+export const DEFAULT_CRM_SETTINGS: CrmSettings = {
+  target: 'hubspot',
+  endpoint: '',
+  token: '',
+  skipSynced: true,
+};
+
+const hasWebsite = (lead: Lead) => lead.website && lead.website !== 'N/A';
+
+const domainOf = (lead: Lead) => hasWebsite(lead) ? normalizeDomain(lead.website) : '';
+
+const linkedinOf = (lead: Lead) => lead.socialLinks.find(link => /linkedin\.com/i.test(link)) || '';
+
+// CRMs match countries by their English name, not the ISO code
+const countryOf = (lead: Lead) => lead.country ? countryName(lead.country, 'en') : '';
+
+const emailOf = (contact?: Contact) => contact && hasEmail(contact) ? contact.email : '';
+
+// "Ana María López Ruiz" -> first "Ana", last "María López Ruiz": CRMs only require the last name
+const nameParts = (contact?: Contact) => {
+  const tokens = (contact?.name || '').trim().split(/\s+/).filter(Boolean);
+  if (tokens.length <= 1) return { first: '', last: tokens[0] || '' };
+  return { first: tokens[0], last: tokens.slice(1).join(' ') };
+};
+
+const description = (lead: Lead, _contact: Contact | undefined, t: Translate) =>
+  [lead.reason, `Need Score ${lead.needScore}/5`, lead.chatbotStatus === 'TIENE_CHATBOT' ? t('enrich.hasChatbot') : t('chatbot.no')]
+    .filter(Boolean)
+    .join(' · ');
+
+/**
+ * Leads marked do-not-contact never leave for a CRM, where sales would work them as live prospects.
+ */
+export const isContactable = (lead: Lead) => lead.pipelineStatus !== 'do-not-contact';
+
+// HubSpot's default Lead Status values
+const HUBSPOT_STATUS: Record<PipelineStatus, string> = {
+  'new': 'NEW',
+  'contacted': 'ATTEMPTED_TO_CONTACT',
+  'replied': 'CONNECTED',
+  'meeting': 'OPEN_DEAL',
+  'won': 'OPEN_DEAL',
+  'lost': 'UNQUALIFIED',
+  'do-not-contact': 'UNQUALIFIED',
+};
+
+// Salesforce's default Lead Status picklist
+const SALESFORCE_STATUS: Record<PipelineStatus, string> = {
+  'new': 'Open - Not Contacted',
+  'contacted': 'Working - Contacted',
+  'replied': 'Working - Contacted',
+  'meeting': 'Working - Contacted',
+  'won': 'Closed - Converted',
+  'lost': 'Closed - Not Converted',
+  'do-not-contact': 'Closed - Not Converted',
+};
+
+// Pipedrive only accepts the labels defined in the account; these are its defaults for persons
+const PIPEDRIVE_LABEL: Record<PipelineStatus, string> = {
+  'new': 'Cold lead',
+  'contacted': 'Warm lead',
+  'replied': 'Hot lead',
+  'meeting': 'Hot lead',
+  'won': 'Customer',
+  'lost': 'Cold lead',
+  'do-not-contact': 'Cold lead',
+};
+
+const rating = (lead: Lead) => lead.needScore >= 4 ? 'Hot' : lead.needScore === 3 ? 'Warm' : 'Cold';
+
+export const CRM_ADAPTERS: Record<CrmTarget, CrmAdapter> = {
+  // Companies first: HubSpot associates contacts to companies by email domain
+  hubspot: {
+    label: 'HubSpot',
+    sheets: [
+      {
+        name: 'companies',
+        level: 'company',
+        columns: [
+          { header: 'Company name', value: lead => lead.companyName },
+          { header: 'Company Domain Name', value: domainOf },
+          { header: 'Website URL', value: lead => hasWebsite(lead) ? lead.website : '' },
+          { header: 'LinkedIn Company Page', value: linkedinOf },
+          { header: 'Country/Region', value: countryOf },
+          { header: 'Description', value: description },
+        ],
+      },
+      {
+        name: 'contacts',
+        level: 'contact',
+        columns: [
+          { header: 'First Name', value: (_, c) => nameParts(c).first },
+          { header: 'Last Name', value: (_, c) => nameParts(c).last },
+          { header: 'Email', value: (_, c) => emailOf(c) },
+          { header: 'Job Title', value: (_, c) => c?.role || '' },
+          { header: 'Company Name', value: lead => lead.companyName },
+          { header: 'Company Domain Name', value: domainOf },
+          { header: 'Lead Status', value: lead => HUBSPOT_STATUS[lead.pipelineStatus] },
+          { header: 'Lifecycle Stage', value: lead => lead.pipelineStatus === 'won' ? 'customer' : 'lead' },
+        ],
+      },
+    ],
+  },
+  // Persons are linked to their organization by exact name
+  pipedrive: {
+    label: 'Pipedrive',
+    sheets: [
+      {
+        name: 'organizations',
+        level: 'company',
+        columns: [
+          { header: 'Organization - Name', value: lead => lead.companyName },
+          { header: 'Organization - Website', value: lead => hasWebsite(lead) ? lead.website : '' },
+          { header: 'Organization - Industry', value: lead => lead.sector || '' },
+          { header: 'Organization - LinkedIn profile', value: linkedinOf },
+          { header: 'Note - Content', value: description },
+        ],
+      },
+      {
+        name: 'persons',
+        level: 'contact',
+        columns: [
+          { header: 'Person - Name', value: (_, c) => c?.name || '' },
+          { header: 'Person - Email', value: (_, c) => emailOf(c) },
+          { header: 'Person - Job title', value: (_, c) => c?.role || '' },
+          { header: 'Organization - Name', value: lead => lead.companyName },
+          { header: 'Person - Label', value: lead => PIPEDRIVE_LABEL[lead.pipelineStatus] },
+        ],
+      },
+    ],
+  },
+  // The Lead object holds person and company together; LastName and Company are required
+  salesforce: {
+    label: 'Salesforce',
+    sheets: [
+      {
+        name: 'leads',
+        level: 'contact',
+        keepContactless: true,
+        columns: [
+          { header: 'FirstName', value: (_, c) => nameParts(c).first },
+          { header: 'LastName', value: (_, c, t) => nameParts(c).last || c?.role || t('crm.unknownName') },
+          { header: 'Title', value: (_, c) => c?.role || '' },
+          { header: 'Email', value: (_, c) => emailOf(c) },
+          { header: 'Company', value: lead => lead.companyName },
+          { header: 'Website', value: lead => hasWebsite(lead) ? lead.website : '' },
+          { header: 'Industry', value: lead => lead.sector || '' },
+          { header: 'Country', value: countryOf },
+          { header: 'LeadSource', value: () => 'Web' },
+          { header: 'Status', value: lead => SALESFORCE_STATUS[lead.pipelineStatus] },
+          { header: 'Rating', value: rating },
+          { header: 'Description', value: description },
+        ],
+      },
+    ],
+  },
+};
+
+export const CRM_TARGETS = Object.keys(CRM_ADAPTERS) as CrmTarget[];
+
+const sheetRows = (lead: Lead, sheet: CrmSheet, t: Translate): CellValue[][] => {
+  if (sheet.level === 'company') return [sheet.columns.map(column => column.value(lead, undefined, t))];
+  const contacts = lead.contacts.length > 0 ? lead.contacts : sheet.keepContactless ? [undefined] : [];
+  return contacts.map(contact => sheet.columns.map(column => column.value(lead, contact, t)));
+};
+
+export const isSynced = (lead: Lead, target: CrmTarget) => !!lead.crmSync?.[target];
+
+export const markSynced = (lead: Lead, target: CrmTarget, via: CrmSyncRecord['via'], remoteId?: string): Lead => ({
+  ...lead,
+  crmSync: { ...lead.crmSync, [target]: { syncedAt: new Date().toISOString(), via, ...(remoteId ? { remoteId } : {}) } },
+});
+
+/**
+ * The import file for a CRM: a CSV when it takes one object, otherwise a ZIP
+ * with one CSV per object, to be imported in the order they are listed.
+ * Do-not-contact leads are left out.
+ */
+export const buildCrmExport = (leads: Lead[], target: CrmTarget, t: Translate, date = new Date()): { blob: Blob; filename: string } => {
+  const { sheets } = CRM_ADAPTERS[target];
+  const contactable = leads.filter(isContactable);
+  const csvs = sheets.map(sheet => ({
+    name: `${target}_${sheet.name}.csv`,
+    content: toCsv([sheet.columns.map(column => column.header), ...contactable.flatMap(lead => sheetRows(lead, sheet, t))], ','),
+  }));
+  const stamp = date.toISOString().slice(0, 10);
+
+  if (csvs.length === 1) {
+    return { blob: new Blob([csvs[0].content], { type: 'text/csv;charset=utf-8;' }), filename: `leads_${target}_${stamp}.csv` };
+  }
+  const numbered = csvs.map((csv, i) => ({ ...csv, name: `${i + 1}_${csv.name}` }));
+  return { blob: new Blob([zipStore(numbered)], { type: 'application/zip' }), filename: `leads_${target}_${stamp}.zip` };
+};
+
+// --- PUSH ---
+
+const PUSH_BATCH_SIZE = 25;
+
+interface PushResponse {
+  results?: { externalId: string; id?: string }[];
+}
+
+export interface PushOutcome {
+  synced: Map<string, string | undefined>; // lead id -> remote id
+  error?: string;
+}
+
+/**
+ * POSTs `{ target, records }` in batches, each record carrying the lead id as
+ * `externalId` and the same CRM-native rows as the file export. Stops at the
+ * first failing batch; whatever went through before is still reported as synced.
+ * Do-not-contact leads are never sent.
+ */
+export const pushToCrm = async (leads: Lead[], settings: CrmSettings, t: Translate, onProgress?: (done: number) => void): Promise<PushOutcome> => {
+  const { sheets } = CRM_ADAPTERS[settings.target];
+  const synced = new Map<string, string | undefined>();
+  const contactable = leads.filter(isContactable);
+
+  for (let start = 0; start < contactable.length; start += PUSH_BATCH_SIZE) {
+    const batch = contactable.slice(start, start + PUSH_BATCH_SIZE);
+    const records = batch.map(lead => ({
+      externalId: lead.id,
+      ...Object.fromEntries(sheets.map(sheet => [
+        sheet.name,
+        sheetRows(lead, sheet, t).map(row => Object.fromEntries(sheet.columns.map((column, i) => [column.header, row[i]]))),
+      ])),
+    }));
+
+    try {
+      const response = await fetch(settings.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(settings.token ? { Authorization: `Bearer ${settings.token}` } : {}),
+        },
+        body: JSON.stringify({ target: settings.target, records }),
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+
+      const body: PushResponse = await response.json().catch(() => ({}));
+      const remoteIds = new Map((body.results || []).map(result => [result.externalId, result.id]));
+      batch.forEach(lead => synced.set(lead.id, remoteIds.get(lead.id)));
+      onProgress?.(synced.size);
+    } catch (error) {
+      return { synced, error: (error as Error).message };
+    }
+  }
+  return { synced };
+};
@@ -0,0 +1,238 @@
+import { Campaign, Lead, MergeCandidate } from "../types";
+import type { AgentRun } from "./agentRuns";
+import type { BulkItem, BulkJob } from "./bulkJobs";
+import { fromLegacyLead } from "./contacts";
+import { getEmailDomain } from "./dedup";
+import { withEmailQuality } from "./emailQuality";
+import { Message, asWritten } from "./i18n";
+import { SearchEntry, createSearchEntry } from "./searchHistory";
+import { detectMarket } from "./markets";
+
+// --- INDEXEDDB PLUMBING ---
+// Shared by every repository. Each schema change bumps DB_VERSION and adds a step to `upgrade`.
+
+const DB_NAME = 'b2b_lead_qualifier';
+const DB_VERSION = 10;
+
+export const STORES = {
+  leads: 'leads',
+  searchHistory: 'searchHistory',
+  mergeReviews: 'mergeReviews',
+  meta: 'meta',
+  runs: 'runs',
+  campaigns: 'campaigns',
+  coverage: 'coverage',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// A lead as any earlier schema version stored it: flat contact fields, no pipeline yet
+type StoredLead = Omit<Lead, 'contacts' | 'pipelineStatus' | 'statusHistory' | 'notes'>
+  & Partial<Pick<Lead, 'contacts' | 'pipelineStatus' | 'statusHistory' | 'notes'>>
+  & { contactName?: string; role?: string; email?: string; emailDomain?: string; emailDomains?: string[] };
+// Up to version 9, text shown in the interface was saved already written in Spanish
+type StoredText = string | Message;
+type StoredMergeReview = Omit<MergeCandidate, 'incoming' | 'reasons'> & { incoming: StoredLead; reasons: StoredText[] };
+// Version 1 history records were only the query and its date
+type StoredSearch = Partial<SearchEntry> & Pick<SearchEntry, 'query' | 'createdAt'>;
+type StoredRun = Omit<AgentRun, 'error'> & { error?: StoredText };
+type StoredCampaign = Omit<Campaign, 'stopReason'> & { stopReason?: StoredText };
+type StoredBulkJob = Omit<BulkJob, 'items'> & { items: (Omit<BulkItem, 'error'> & { error?: StoredText })[] };
+
+// Meta key of the bulk list job, as leadRepository saves it
+const BULK_JOB_KEY = 'bulkJob';
+
+// Returns the rewritten record, or null to leave it as is
+type RecordPatch<T> = (value: T) => T | null;
+
+/**
+ * Rewrites the records of a store during an upgrade, in a single cursor pass.
+ * Patches run in order and each one sees the previous one's output: separate
+ * cursors in the same transaction would read stale records and undo each other.
+ */
+const backfill = <T>(store: IDBObjectStore, patches: RecordPatch<T>[]) => {
+  if (patches.length === 0) return;
+  store.openCursor().onsuccess = (event) => {
+    const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (!cursor) return;
+    let changed = false;
+    const updated = patches.reduce((record, patch) => {
+      const next = patch(record);
+      if (!next) return record;
+      changed = true;
+      return next;
+    }, cursor.value as T);
+    if (changed) cursor.update(updated);
+    cursor.continue();
+  };
+};
+
+const isLegacyText = (text: StoredText) => typeof text === 'string';
+const toMessage = (text: StoredText): Message => typeof text === 'string' ? asWritten(text) : text;
+// Bulk list names were saved as "Lista <date>"; the interface now adds the word
+const stripListWord = (name: string) => name.replace(/^Lista /, '');
+
+/**
+ * Version 10: email issues are assessed again, which yields message keys;
+ * score details keep their wording until the next rescore; bulk list names
+ * lose the Spanish word the interface now adds.
+ */
+const leadTextToMessages: RecordPatch<StoredLead> = lead => {
+  const stale = lead.contacts?.some(contact => contact.emailQuality?.issues.some(isLegacyText))
+    || lead.scoreBreakdown?.contributions.some(c => isLegacyText(c.detail))
+    || lead.origin?.list?.startsWith('Lista ');
+  if (!stale) return null;
+  return {
+    ...lead,
+    ...(lead.contacts ? { contacts: lead.contacts.map(contact => contact.emailQuality ? withEmailQuality(contact, lead.website) : contact) } : {}),
+    ...(lead.scoreBreakdown ? {
+      scoreBreakdown: { ...lead.scoreBreakdown, contributions: lead.scoreBreakdown.contributions.map(c => ({ ...c, detail: toMessage(c.detail) })) },
+    } : {}),
+    ...(lead.origin?.list ? { origin: { ...lead.origin, list: stripListWord(lead.origin.list) } } : {}),
+  };
+};
+
+const upgrade = (db: IDBDatabase, oldVersion: number, tx: IDBTransaction) => {
+  // Lead and merge review patches of every pending step, applied together at the end
+  const leadPatches: RecordPatch<StoredLead>[] = [];
+  const reviewPatches: RecordPatch<StoredMergeReview>[] = [];
+
+  if (oldVersion < 1) {
+    const leads = db.createObjectStore(STORES.leads, { keyPath: 'id' });
+    leads.createIndex('emailDomain', 'emailDomain');
+    leads.createIndex('needScore', 'needScore');
+    leads.createIndex('chatbotStatus', 'chatbotStatus');
+    leads.createIndex('createdAt', 'createdAt');
+
+    db.createObjectStore(STORES.searchHistory, { keyPath: 'id', autoIncrement: true });
+    db.createObjectStore(STORES.meta);
+  }
+  if (oldVersion < 2) {
+    // Pipeline tracking: backfill existing leads as 'new'
+    const leads = tx.objectStore(STORES.leads);
+    leads.createIndex('pipelineStatus', 'pipelineStatus');
+    leadPatches.push(lead => lead.pipelineStatus ? null : {
+      ...lead,
+      pipelineStatus: 'new',
+      statusHistory: [{ from: null, to: 'new', at: lead.createdAt }],
+      notes: [],
+    });
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(STORES.mergeReviews, { keyPath: 'id' });
+  }
+  if (oldVersion < 4) {
+    // Company + contacts model: one lead can now hold several email domains
+    const leads = tx.objectStore(STORES.leads);
+    leads.deleteIndex('emailDomain');
+    leads.createIndex('emailDomains', 'emailDomains', { multiEntry: true });
+    leadPatches.push(record => {
+      if (record.contacts) return null;
+      const { emailDomain, ...lead } = fromLegacyLead(record);
+      return { ...lead, emailDomains: lead.contacts.map(c => getEmailDomain(c.email)).filter(Boolean) };
+    });
+    reviewPatches.push(review =>
+      review.incoming.contacts ? null : { ...review, incoming: fromLegacyLead(review.incoming) });
+  }
+  if (oldVersion < 5) {
+    const runs = db.createObjectStore(STORES.runs, { keyPath: 'id' });
+    runs.createIndex('startedAt', 'startedAt');
+  }
+  if (oldVersion < 6) {
+    db.createObjectStore(STORES.campaigns, { keyPath: 'id' });
+  }
+  if (oldVersion < 7) {
+    db.createObjectStore(STORES.coverage, { keyPath: 'key' });
+  }
+  if (oldVersion < 8) {
+    // Structured search history: old records were just the query and its date
+    backfill<StoredSearch>(tx.objectStore(STORES.searchHistory), [record =>
+      record.status ? null : { ...createSearchEntry(record.query, { runs: 1 }, record.createdAt), id: record.id },
+    ]);
+  }
+  if (oldVersion < 9) {
+    // Market segmentation: guess the country of existing leads from their own traces
+    tx.objectStore(STORES.leads).createIndex('country', 'country');
+    leadPatches.push(lead => {
+      if (lead.country || !lead.contacts) return null;
+      const country = detectMarket({ ...lead, contacts: lead.contacts }, lead.origin?.excerpt);
+      return country ? { ...lead, country } : null;
+    });
+  }
+  if (oldVersion < 10) {
+    // Interface text is saved as message keys, translated when shown
+    leadPatches.push(leadTextToMessages);
+    reviewPatches.push(review => {
+      const incoming = leadTextToMessages(review.incoming);
+      if (!incoming && !review.reasons.some(isLegacyText)) return null;
+      return { ...review, incoming: incoming || review.incoming, reasons: review.reasons.map(toMessage) };
+    });
+    backfill<StoredRun>(tx.objectStore(STORES.runs), [run =>
+      run.error && isLegacyText(run.error) ? { ...run, error: toMessage(run.error) } : null,
+    ]);
+    backfill<StoredCampaign>(tx.objectStore(STORES.campaigns), [campaign =>
+      campaign.stopReason && isLegacyText(campaign.stopReason) ? { ...campaign, stopReason: toMessage(campaign.stopReason) } : null,
+    ]);
+    const meta = tx.objectStore(STORES.meta);
+    meta.get(BULK_JOB_KEY).onsuccess = (event) => {
+      const job = (event.target as IDBRequest<StoredBulkJob | undefined>).result;
+      if (!job) return;
+      meta.put({
+        ...job,
+        name: stripListWord(job.name),
+        items: job.items.map(item => item.error ? { ...item, error: toMessage(item.error) } : item),
+      }, BULK_JOB_KEY);
+    };
+  }
+  backfill(tx.objectStore(STORES.leads), leadPatches);
+  backfill(tx.objectStore(STORES.mergeReviews), reviewPatches);
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion, request.transaction!);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error("IndexedDB upgrade blocked by another open tab"));
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs `work` inside a transaction and resolves once it has committed.
+ */
+export const withStore = async <T>(
+  storeNames: StoreName | StoreName[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+  });
+  const result = await work(tx);
+  await done;
+  return result;
+};
+
+export const getMeta = <T>(key: string): Promise<T | undefined> =>
+  withStore(STORES.meta, 'readonly', tx => requestToPromise(tx.objectStore(STORES.meta).get(key)));
+
+export const setMeta = (key: string, value: unknown): Promise<void> =>
+  withStore(STORES.meta, 'readwrite', tx => {
+    tx.objectStore(STORES.meta).put(value, key);
+  });
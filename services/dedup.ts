@@ -0,0 +1,245 @@
+import { Lead, LeadOrigin, MergeCandidate } from "../types";
+import { contactEmails, mergeContacts } from "./contacts";
+import { Message } from "./i18n";
+import { MARKETS, MARKET_LIST, isMarketCode } from "./markets";
+
+// --- ENTITY RESOLUTION ---
+// Decides whether an incoming lead is a company we already have.
+
+// Score at or above which two records are merged without asking
+export const AUTO_MERGE_THRESHOLD = 0.85;
+// Score at or above which the pair goes to the review queue
+export const REVIEW_THRESHOLD = 0.6;
+
+// Legal forms that are also ordinary words or initials ("Relax Spa", "Taller SC"):
+// stripped only from names of a market that uses them
+const AMBIGUOUS_FORMS = new Set(['spa', 'sc', 'cb', 'sci', 'cic']);
+
+// The other legal forms of every market are stripped whatever the company's country
+const LEGAL_SUFFIXES = Array.from(new Set(MARKET_LIST.flatMap(market => market.legalForms))).filter(form => !AMBIGUOUS_FORMS.has(form));
+
+const legalSuffixesFor = (country?: string) =>
+  country && isMarketCode(country) ? Array.from(new Set([...LEGAL_SUFFIXES, ...MARKETS[country].legalForms])) : LEGAL_SUFFIXES;
+
+const FREE_MAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'hotmail.com', 'hotmail.es', 'outlook.com', 'outlook.es', 'live.com',
+  'yahoo.com', 'yahoo.es', 'icloud.com', 'me.com', 'aol.com', 'protonmail.com', 'gmx.com', 'telefonica.net',
+  ...MARKET_LIST.flatMap(market => market.freeMailDomains),
+]);
+
+export const stripAccents = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+/**
+ * "Clínica Dental Sonrisas, S.L." -> "clinica dental sonrisas". Forms that are
+ * also words ("spa") only go when `country` is a market that uses them.
+ */
+export const normalizeCompanyName = (name: string, country?: string): string => {
+  const suffixes = legalSuffixesFor(country);
+  let normalized = stripAccents(name.toLowerCase())
+    .replace(/[.,]/g, '') // "S.L." -> "sl"
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  // Suffixes can stack ("... sl sociedad limitada"), strip until none is left
+  let stripped = true;
+  while (stripped) {
+    stripped = false;
+    for (const suffix of suffixes) {
+      if (normalized.endsWith(` ${suffix}`)) {
+        normalized = normalized.slice(0, -suffix.length - 1).trim();
+        stripped = true;
+      }
+    }
+  }
+  return normalized;
+};
+
+/**
+ * "https://www.Empresa.es/contacto" -> "empresa.es". Returns '' for N/A or empty values.
+ */
+export const normalizeDomain = (website: string): string => {
+  if (!website || website === 'N/A') return '';
+  return website.trim().toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/^www\./, '')
+    .split(/[/?#:]/)[0];
+};
+
+export const getEmailDomain = (email: string): string => {
+  const at = email.lastIndexOf('@');
+  return at === -1 ? '' : email.slice(at + 1).trim().toLowerCase();
+};
+
+export const isFreeMailDomain = (domain: string) => FREE_MAIL_DOMAINS.has(domain);
+
+// Corporate email domains of the contacts, ignoring gmail & co. which say nothing about the company
+const companyEmailDomains = (lead: Lead): Set<string> =>
+  new Set(contactEmails(lead).map(getEmailDomain).filter(domain => domain && !isFreeMailDomain(domain)));
+
+const bigrams = (value: string) => {
+  const compact = value.replace(/\s/g, '');
+  const grams: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) grams.push(compact.slice(i, i + 2));
+  return grams;
+};
+
+/**
+ * Dice coefficient over character bigrams, 0..1. Tolerant to typos and word order.
+ * The countries decide which legal forms are stripped first.
+ */
+export const nameSimilarity = (a: string, b: string, countryA?: string, countryB?: string): number => {
+  const left = bigrams(normalizeCompanyName(a, countryA));
+  const right = bigrams(normalizeCompanyName(b, countryB));
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  left.forEach(g => counts.set(g, (counts.get(g) || 0) + 1));
+  let overlap = 0;
+  right.forEach(g => {
+    const count = counts.get(g) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(g, count - 1);
+    }
+  });
+  return (2 * overlap) / (left.length + right.length);
+};
+
+export interface MatchScore {
+  score: number;
+  reasons: Message[];
+}
+
+/**
+ * Combines independent signals with a noisy-OR: each one can only raise the score.
+ */
+export const scoreMatch = (a: Lead, b: Lead): MatchScore => {
+  const signals: [number, Message][] = [];
+
+  const emailsB = new Set(contactEmails(b));
+  const sharedEmail = contactEmails(a).find(email => emailsB.has(email));
+  if (sharedEmail) signals.push([1, { key: 'matchReason.sameEmail', params: { email: sharedEmail } }]);
+
+  const webA = normalizeDomain(a.website);
+  const webB = normalizeDomain(b.website);
+  if (webA && webA === webB) signals.push([0.9, { key: 'matchReason.sameWebsite', params: { domain: webA } }]);
+
+  const mailA = companyEmailDomains(a);
+  const mailB = companyEmailDomains(b);
+  const sharedDomain = Array.from(mailA).find(domain => mailB.has(domain));
+  if (sharedDomain) {
+    signals.push([0.8, { key: 'matchReason.sameEmailDomain', params: { domain: sharedDomain } }]);
+  } else if (mailA.has(webB) || mailB.has(webA)) {
+    signals.push([0.8, { key: 'matchReason.emailMatchesWebsite' }]);
+  }
+
+  const similarity = nameSimilarity(a.companyName, b.companyName, a.country, b.country);
+  if (similarity === 1) {
+    signals.push([0.85, { key: 'matchReason.sameName' }]);
+  } else if (similarity >= 0.7) {
+    signals.push([similarity * 0.75, { key: 'matchReason.similarName', params: { percent: Math.round(similarity * 100) } }]);
+  }
+
+  const score = 1 - signals.reduce((acc, [s]) => acc * (1 - s), 1);
+  return { score, reasons: signals.map(([, reason]) => reason) };
+};
+
+export const findBestMatch = (candidate: Lead, pool: Lead[]): (MatchScore & { lead: Lead }) | null => {
+  let best: (MatchScore & { lead: Lead }) | null = null;
+  for (const lead of pool) {
+    if (lead.id === candidate.id) continue;
+    const match = scoreMatch(candidate, lead);
+    if (match.score >= REVIEW_THRESHOLD && (!best || match.score > best.score)) {
+      best = { ...match, lead };
+    }
+  }
+  return best;
+};
+
+/**
+ * Provenance of a merged lead: the target's origin stays, and the
+ * evidence from the duplicate is added so nothing checkable is lost.
+ */
+export const mergeOrigins = (target?: LeadOrigin, source?: LeadOrigin): LeadOrigin | undefined => {
+  if (!target || !source) return target || source;
+  const sources = [...(target.sources || [])];
+  (source.sources || []).forEach(s => {
+    if (!sources.some(existing => existing.uri === s.uri)) sources.push(s);
+  });
+  const excerpts = [target.excerpt, source.excerpt].filter((e): e is string => !!e);
+  return {
+    ...target,
+    sources: sources.length > 0 ? sources : undefined,
+    excerpt: excerpts.length > 0 ? Array.from(new Set(excerpts)).join('\n---\n') : undefined,
+  };
+};
+
+/**
+ * Folds `source` into `target`. The target keeps its identity and pipeline state;
+ * blanks are filled from the source and both contact lists are combined.
+ */
+export const mergeLeads = (target: Lead, source: Lead): Lead => {
+  const hasWebsite = (lead: Lead) => lead.website && lead.website !== 'N/A';
+
+  return {
+    ...target,
+    website: hasWebsite(target) ? target.website : source.website,
+    sector: target.sector || source.sector,
+    country: target.country || source.country,
+    websiteAgeHints: target.websiteAgeHints?.length ? target.websiteAgeHints : source.websiteAgeHints,
+    chatbotStatus: target.chatbotStatus === 'TIENE_CHATBOT' || source.chatbotStatus === 'TIENE_CHATBOT' ? 'TIENE_CHATBOT' : 'OPORTUNIDAD',
+    socialLinks: Array.from(new Set([...target.socialLinks, ...source.socialLinks])),
+    chatbotEvidence: target.chatbotEvidence || source.chatbotEvidence,
+    contacts: mergeContacts(target.contacts, source.contacts),
+    notes: [...target.notes, ...source.notes],
+    origin: mergeOrigins(target.origin, source.origin),
+    ...(target.campaignIds || source.campaignIds
+      ? { campaignIds: Array.from(new Set([...(target.campaignIds || []), ...(source.campaignIds || [])])) }
+      : {}),
+  };
+};
+
+export interface Resolution {
+  toInsert: Lead[];
+  toUpdate: Lead[];
+  reviews: MergeCandidate[];
+}
+
+/**
+ * Resolves a batch of new leads against the database (and against each other):
+ * confident matches are merged, ambiguous ones are queued for review, the rest inserted.
+ */
+export const resolveIncoming = (incoming: Lead[], existing: Lead[]): Resolution => {
+  const pool = new Map(existing.map(lead => [lead.id, lead]));
+  const updated = new Map<string, Lead>();
+  const toInsert: Lead[] = [];
+  const reviews: MergeCandidate[] = [];
+
+  for (const lead of incoming) {
+    const match = findBestMatch(lead, Array.from(pool.values()));
+    if (match && match.score >= AUTO_MERGE_THRESHOLD) {
+      const merged = mergeLeads(match.lead, lead);
+      pool.set(merged.id, merged);
+      if (toInsert.some(l => l.id === merged.id)) {
+        toInsert.splice(toInsert.findIndex(l => l.id === merged.id), 1, merged);
+      } else {
+        updated.set(merged.id, merged);
+      }
+    } else if (match) {
+      reviews.push({
+        id: crypto.randomUUID(),
+        incoming: lead,
+        existingId: match.lead.id,
+        score: match.score,
+        reasons: match.reasons,
+        createdAt: new Date().toISOString(),
+      });
+    } else {
+      toInsert.push(lead);
+      pool.set(lead.id, lead);
+    }
+  }
+
+  return { toInsert, toUpdate: Array.from(updated.values()), reviews };
+};
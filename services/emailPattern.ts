@@ -0,0 +1,146 @@
+import { Contact, EmailPattern, InferredEmail, Lead } from "../types";
+import { getEmailDomain, isFreeMailDomain, normalizeDomain, stripAccents } from "./dedup";
+import { assessEmail } from "./emailQuality";
+
+// --- EMAIL PATTERN INFERENCE ---
+// Learns how each company builds addresses (juan.perez@, jperez@...) from the personal
+// emails already in the database and proposes addresses for named contacts without one.
+
+const PATTERNS: EmailPattern[] = ['first.last', 'first_last', 'firstlast', 'flast', 'f.last', 'first', 'last'];
+
+// Used when a domain has no known personal address yet; deliberately low confidence
+const DEFAULT_PRIORS: Partial<Record<EmailPattern, number>> = {
+  'first.last': 30,
+  'first': 20,
+  'flast': 15,
+};
+
+// Spanish compound surnames and particles that never appear in addresses
+const NAME_PARTICLES = new Set(['de', 'del', 'la', 'las', 'los', 'y', 'i', 'da', 'van', 'von']);
+
+interface NameParts {
+  first: string;
+  // Every surname, since "Juan Pérez García" may be juan.perez@ or juan.garcia@
+  lasts: string[];
+}
+
+export interface DomainPatternStats {
+  samples: number;
+  counts: Partial<Record<EmailPattern, number>>;
+}
+
+const splitName = (name?: string): NameParts | null => {
+  if (!name) return null;
+  const tokens = stripAccents(name.toLowerCase())
+    .replace(/[^a-z\s-]/g, ' ')
+    .split(/[\s-]+/)
+    .filter(token => token && !NAME_PARTICLES.has(token));
+  if (tokens.length === 0) return null;
+  return { first: tokens[0], lasts: tokens.slice(1) };
+};
+
+const renderPattern = (pattern: EmailPattern, first: string, last?: string): string | null => {
+  if (pattern === 'first') return first;
+  if (!last) return null;
+  switch (pattern) {
+    case 'first.last': return `${first}.${last}`;
+    case 'first_last': return `${first}_${last}`;
+    case 'firstlast': return `${first}${last}`;
+    case 'flast': return `${first[0]}${last}`;
+    case 'f.last': return `${first[0]}.${last}`;
+    case 'last': return last;
+    default: return null;
+  }
+};
+
+const isPersonalFound = (contact: Contact, website: string) =>
+  (contact.emailQuality || assessEmail(contact.email, website, contact.name)).kind === 'personal';
+
+/**
+ * The domain addresses at this company are expected to use: the website's,
+ * or failing that the corporate domain of any contact email.
+ */
+export const companyDomain = (lead: Lead): string => {
+  const website = normalizeDomain(lead.website);
+  if (website) return website;
+  const fromEmail = lead.contacts.map(c => getEmailDomain(c.email)).find(d => d && !isFreeMailDomain(d));
+  return fromEmail || '';
+};
+
+/**
+ * Counts, per email domain, which patterns explain the named personal addresses seen.
+ */
+export const learnDomainPatterns = (leads: Lead[]): Map<string, DomainPatternStats> => {
+  const stats = new Map<string, DomainPatternStats>();
+
+  for (const lead of leads) {
+    for (const contact of lead.contacts) {
+      const parts = splitName(contact.name);
+      if (!parts || !isPersonalFound(contact, lead.website)) continue;
+
+      const email = contact.email.trim().toLowerCase();
+      const local = email.slice(0, email.lastIndexOf('@'));
+      const domain = getEmailDomain(email);
+      const matched = PATTERNS.filter(pattern =>
+        (pattern === 'first' ? [undefined] : parts.lasts).some(last => renderPattern(pattern, parts.first, last) === local)
+      );
+      if (matched.length === 0) continue;
+
+      const entry = stats.get(domain) || { samples: 0, counts: {} };
+      entry.samples++;
+      matched.forEach(pattern => { entry.counts[pattern] = (entry.counts[pattern] || 0) + 1; });
+      stats.set(domain, entry);
+    }
+  }
+  return stats;
+};
+
+/**
+ * Ranked candidate addresses for a named person at `domain`.
+ */
+export const inferEmailCandidates = (name: string, domain: string, stats?: DomainPatternStats): InferredEmail[] => {
+  const parts = splitName(name);
+  if (!parts || !domain) return [];
+  const last = parts.lasts[0];
+
+  const ranked: [EmailPattern, number][] = stats && stats.samples > 0
+    ? Object.entries(stats.counts).map(([pattern, count]) => [pattern as EmailPattern, Math.round((100 * (count || 0)) / stats.samples * (stats.samples >= 2 ? 1 : 0.8))])
+    : Object.entries(DEFAULT_PRIORS).map(([pattern, confidence]) => [pattern as EmailPattern, confidence || 0]);
+
+  return ranked
+    .sort((a, b) => b[1] - a[1])
+    .map(([pattern, confidence]) => {
+      const local = renderPattern(pattern, parts.first, last);
+      return local ? {
+        email: `${local}@${domain}`,
+        pattern,
+        confidence,
+        basis: stats && stats.samples > 0 ? 'learned' as const : 'default' as const,
+        samples: stats?.samples || 0,
+      } : null;
+    })
+    .filter((candidate): candidate is InferredEmail => candidate !== null);
+};
+
+/**
+ * Refreshes inferred addresses for every named contact without a personal email.
+ * Returns only the leads whose candidates changed, ready to be persisted.
+ */
+export const applyEmailInference = (leads: Lead[]): Lead[] => {
+  const stats = learnDomainPatterns(leads);
+  const changed: Lead[] = [];
+
+  for (const lead of leads) {
+    const domain = companyDomain(lead);
+    let touched = false;
+    const contacts = lead.contacts.map(contact => {
+      if (!contact.name || isPersonalFound(contact, lead.website)) return contact;
+      const inferredEmails = inferEmailCandidates(contact.name, domain, stats.get(domain));
+      if (JSON.stringify(inferredEmails) === JSON.stringify(contact.inferredEmails || [])) return contact;
+      touched = true;
+      return { ...contact, inferredEmails };
+    });
+    if (touched) changed.push({ ...lead, contacts });
+  }
+  return changed;
+};
@@ -0,0 +1,134 @@
+import { Contact, EmailKind, EmailQuality } from "../types";
+import { getEmailDomain, isFreeMailDomain, normalizeDomain, stripAccents } from "./dedup";
+import { Message } from "./i18n";
+import { MARKET_LIST } from "./markets";
+
+// --- EMAIL QUALITY ---
+// Scores how likely an address reaches a decision maker at the company.
+
+export interface EmailAcceptancePolicy {
+  minConfidence: number; // 0-100
+  allowGeneric: boolean;
+  allowFreeMail: boolean;
+  requireDomainMatch: boolean;
+}
+
+export const DEFAULT_EMAIL_POLICY: EmailAcceptancePolicy = {
+  minConfidence: 40,
+  allowGeneric: true,
+  allowFreeMail: false,
+  requireDomainMatch: false,
+};
+
+const EMAIL_PATTERN = /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*@([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/i;
+
+const NO_REPLY_PATTERN = /^(no-?reply|do-?not-?reply|noresponder|mailer-daemon|bounces?|notifications?)\b/i;
+
+const GENERIC_LOCALS = new Set([
+  'info', 'informacion', 'contacto', 'contact', 'hola', 'hello', 'hi', 'admin', 'office', 'oficina',
+  'web', 'webmaster', 'general', 'recepcion', 'reservas', 'citas', 'clinica', 'mail', 'correo', 'email',
+  ...MARKET_LIST.flatMap(market => market.genericMailboxes),
+]);
+
+const DEPARTMENT_LOCALS = new Set([
+  'marketing', 'ventas', 'sales', 'comercial', 'gerencia', 'direccion', 'rrhh', 'hr', 'operaciones',
+  'administracion', 'soporte', 'support', 'atencion', 'clientes', 'compras', 'facturacion', 'prensa',
+  'comunicacion', 'legal', 'proyectos', 'calidad', 'logistica',
+  ...MARKET_LIST.flatMap(market => market.departmentMailboxes),
+]);
+
+const DISPOSABLE_DOMAINS = new Set([
+  'mailinator.com', '10minutemail.com', 'guerrillamail.com', 'yopmail.com', 'tempmail.com', 'temp-mail.org',
+  'trashmail.com', 'getnada.com', 'sharklasers.com', 'maildrop.cc', 'dispostable.com', 'throwawaymail.com',
+  'fakeinbox.com', 'mohmal.com', 'emailondeck.com',
+]);
+
+const BASE_CONFIDENCE: Record<EmailKind, number> = {
+  'personal': 80,
+  'departmental': 65,
+  'generic': 40,
+  'free-mail': 35,
+  'no-reply': 0,
+  'invalid': 0,
+};
+
+export const isValidEmailSyntax = (email: string) => EMAIL_PATTERN.test(email.trim());
+
+const classify = (local: string, domain: string): EmailKind => {
+  if (NO_REPLY_PATTERN.test(local)) return 'no-reply';
+  if (isFreeMailDomain(domain)) return 'free-mail';
+  const head = local.split(/[.\-_+]/)[0];
+  if (GENERIC_LOCALS.has(local) || GENERIC_LOCALS.has(head)) return 'generic';
+  if (DEPARTMENT_LOCALS.has(local) || DEPARTMENT_LOCALS.has(head)) return 'departmental';
+  return 'personal';
+};
+
+// Accept the bare domain or any subdomain of the website ("mail.empresa.es" for "empresa.es")
+const domainMatches = (emailDomain: string, website: string) => {
+  const site = normalizeDomain(website);
+  return !!site && (emailDomain === site || emailDomain.endsWith(`.${site}`));
+};
+
+/**
+ * Full quality assessment of one address. `website` and `contactName` are optional
+ * context: they raise or lower the confidence but are not required.
+ */
+export const assessEmail = (email: string, website = '', contactName = ''): EmailQuality => {
+  const trimmed = email.trim().toLowerCase();
+  if (!trimmed || trimmed === 'n/a' || !isValidEmailSyntax(trimmed)) {
+    return { kind: 'invalid', valid: false, disposable: false, domainMatchesWebsite: false, confidence: 0, issues: [{ key: 'emailIssue.invalidSyntax' }] };
+  }
+
+  const local = trimmed.slice(0, trimmed.lastIndexOf('@'));
+  const domain = getEmailDomain(trimmed);
+  const kind = classify(local, domain);
+  const disposable = DISPOSABLE_DOMAINS.has(domain);
+  const domainMatchesWebsite = domainMatches(domain, website);
+  const issues: Message[] = [];
+
+  let confidence = BASE_CONFIDENCE[kind];
+  if (kind === 'no-reply') issues.push({ key: 'emailIssue.noReply' });
+  if (kind === 'free-mail') issues.push({ key: 'emailIssue.freeMail' });
+  if (kind === 'generic') issues.push({ key: 'emailIssue.generic' });
+
+  if (domainMatchesWebsite) {
+    confidence += 15;
+  } else if (normalizeDomain(website) && kind !== 'free-mail') {
+    confidence -= 20;
+    issues.push({ key: 'emailIssue.domainMismatch' });
+  }
+
+  // A personal address that contains the contact's name is very likely real
+  const nameTokens = stripAccents(contactName.toLowerCase()).split(/\s+/).filter(t => t.length > 2);
+  if (kind === 'personal' && nameTokens.some(token => local.includes(token))) confidence += 5;
+
+  if (disposable) {
+    confidence = 0;
+    issues.push({ key: 'emailIssue.disposable' });
+  }
+
+  return {
+    kind,
+    valid: true,
+    disposable,
+    domainMatchesWebsite,
+    confidence: Math.max(0, Math.min(100, confidence)),
+    issues,
+  };
+};
+
+export const withEmailQuality = <T extends Pick<Contact, 'email' | 'name'>>(contact: T, website: string): T & { emailQuality: EmailQuality } => ({
+  ...contact,
+  emailQuality: assessEmail(contact.email, website, contact.name),
+});
+
+/**
+ * Whether the agent loop should accept an address under the given policy.
+ */
+export const acceptsEmail = (quality: EmailQuality, policy: EmailAcceptancePolicy): boolean => {
+  if (!quality.valid || quality.disposable || quality.kind === 'no-reply') return false;
+  if (quality.kind === 'generic' && !policy.allowGeneric) return false;
+  if (quality.kind === 'free-mail' && !policy.allowFreeMail) return false;
+  if (policy.requireDomainMatch && !quality.domainMatchesWebsite) return false;
+  return quality.confidence >= policy.minConfidence;
+};
@@ -1,43 +1,23 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { Lead } from "../types";
+import { Type, Schema } from "@google/genai";
+import { Campaign, ExtractedLead, IdealCustomerProfile } from "../types";
+import { GroundingSource, JsonGenerationRequest, SearchGenerationRequest, getProvider } from "./llmProvider";
+import { scheduleRequest } from "./rateLimiter";
+import { EmptyResponseError } from "./aiErrors";
+import { CoverageCell, PlanningApproach, chooseApproach, summarizeCoverage } from "./coverage";
+import { SearchEntry, summarizeHistory } from "./searchHistory";
+import { MARKETS, Market, isMarketCode, profileMarkets } from "./markets";
+import { parseJsonResponse, validateExtractedLeads, validateStrategy } from "./responseValidation";
+import { SENIORITIES } from "./contacts";
+import { combineChatbotVerdict, detectChatWidgets, fetchHtml, findHtmlForCompany } from "./chatbotDetector";
+import { DEFAULT_EMAIL_POLICY, EmailAcceptancePolicy, acceptsEmail, withEmailQuality } from "./emailQuality";
+import { DEFAULT_ICP, icpRejection } from "./icpProfiles";
+import { withWebsiteAgeHints } from "./scoring";
+import { buildAgentOrigin } from "./provenance";
+import { REVIEW_THRESHOLD, nameSimilarity, normalizeDomain } from "./dedup";
+import { Translate, formatMessage } from "./i18n";
+import { buildEnrichmentPrompt, buildExtractionPrompt, buildSearchPrompt, buildStrategyPrompt } from "./promptTemplates";
 
-const apiKey = process.env.API_KEY;
-const ai = new GoogleGenAI({ apiKey });
-
-// Configuration for models
-// Switched to Flash for both to ensure high quota availability and prevent 429 errors
-const MODEL_WORKER = 'gemini-2.5-flash'; 
-const MODEL_SUPPORT = 'gemini-2.5-flash';
-
-const systemInstructionExtraction = `
-Eres un Analista de Datos experto en cualificación de leads B2B (Headhunter digital).
-
-OBJETIVO PRINCIPAL:
-1. Descartar empresas con CHATBOTS o automatización avanzada.
-2. Encontrar al TOMADOR DE DECISIONES (CEO, Marketing, Operaciones, Dueño).
-
-REGLAS DE EXTRACCIÓN (STRICT):
-1. Detección de Rol (CRÍTICO):
-   - Busca nombres propios asociados a cargos: CEO, Fundador, Director, Gerente, Marketing, Operaciones.
-   - Si encuentras un nombre, ponlo en "contactName" y su cargo en "role".
-   - Si no hay nombre, intenta inferir el departamento del email (ej: marketing@ -> "Dpto. Marketing").
-
-2. Email:
-   - PRIORIDAD: Emails directos de personas (juan.perez@empresa.com).
-   - SECUNDARIO: Emails departamentales específicos (marketing@, gerencia@, operaciones@).
-   - EVITAR: Emails genéricos 'info@' SALVO que sea una empresa pequeña donde el dueño lo lee.
-   - NUNCA: Emails 'no-reply' o personales (gmail/hotmail) a menos que sea un autónomo claro.
-
-3. Redes Sociales: Busca enlaces a LinkedIn (prioridad para ver empleados), Instagram, etc.
-
-4. Status Chatbot:
-   - "TIENE_CHATBOT": Si ves burbujas de chat automáticas, Zendesk, Intercom, bots.
-   - "OPORTUNIDAD": Si es formulario simple, mailto, o teléfono.
-
-5. Need Score (1-5):
-   - 5: Web antigua, solo teléfono/fax, sin LinkedIn corporativo.
-   - 1: Empresa tech, con chatbot y procesos modernos.
-`;
+const marketOf = (code: string | undefined): Market | undefined => code && isMarketCode(code) ? MARKETS[code] : undefined;
 
 const responseSchema: Schema = {
   type: Type.ARRAY,
@@ -45,16 +25,29 @@ const responseSchema: Schema = {
     type: Type.OBJECT,
     properties: {
       companyName: { type: Type.STRING },
-      contactName: { type: Type.STRING },
-      role: { type: Type.STRING },
-      email: { type: Type.STRING },
       website: { type: Type.STRING },
       chatbotStatus: { type: Type.STRING, enum: ['OPORTUNIDAD', 'TIENE_CHATBOT'] },
       needScore: { type: Type.INTEGER },
       reason: { type: Type.STRING },
       socialLinks: { type: Type.ARRAY, items: { type: Type.STRING } },
+      sector: { type: Type.STRING },
+      country: { type: Type.STRING },
+      websiteAgeHints: { type: Type.ARRAY, items: { type: Type.STRING } },
+      contacts: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            name: { type: Type.STRING },
+            role: { type: Type.STRING },
+            email: { type: Type.STRING },
+            seniority: { type: Type.STRING, enum: SENIORITIES },
+          },
+          required: ['email', 'seniority'],
+        },
+      },
     },
-    required: ['companyName', 'email', 'website', 'chatbotStatus', 'needScore', 'reason', 'socialLinks'],
+    required: ['companyName', 'website', 'chatbotStatus', 'needScore', 'reason', 'socialLinks', 'contacts'],
   },
 };
 
@@ -63,68 +56,56 @@ export interface MarketStrategy {
   location: string;
   searchQuery: string;
   reasoning: string;
+  country?: string; // ISO code of the market the query targets
+  approach?: PlanningApproach; // whether the cycle went back to a productive segment or tried a new one
 }
 
-// --- RATE LIMIT HANDLING ---
-const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+// --- PROVIDER CALLS ---
+// Paced, retried and metered by the rate limiter
+const generateJson = (request: JsonGenerationRequest) =>
+  scheduleRequest(request, () => getProvider().generateJson(request));
 
-/**
- * Wraps generateContent with retry logic for 429/Resource Exhausted errors.
- * Reduced retries to 3 to fail fast and let the main loop handle the pause.
- */
-async function safeGenerateContent(params: any, retries = 3): Promise<any> {
-  for (let attempt = 1; attempt <= retries; attempt++) {
-    try {
-      return await ai.models.generateContent(params);
-    } catch (error: any) {
-      // Robust error detection for various SDK error formats
-      const msg = error?.message || error?.toString() || '';
-      const status = error?.status || error?.response?.status;
-      const fullErrorString = JSON.stringify(error);
-
-      const isRateLimit = status === 429 || 
-                          msg.includes('429') || 
-                          msg.includes('RESOURCE_EXHAUSTED') ||
-                          msg.includes('quota') ||
-                          fullErrorString.includes('RESOURCE_EXHAUSTED');
-
-      if (isRateLimit) {
-        if (attempt < retries) {
-          // Exponential backoff: 15s, 30s, 60s
-          const delayTime = 15000 * Math.pow(2, attempt - 1);
-          console.warn(`⚠️ Rate limit hit (Attempt ${attempt}/${retries}). Cooling down for ${delayTime/1000}s...`);
-          await wait(delayTime);
-          continue;
-        } else {
-            console.error("❌ Rate limit exceeded after all retries.");
-        }
-      }
-      throw error;
-    }
-  }
-}
+const generateWithSearch = (request: SearchGenerationRequest, retries?: number) =>
+  scheduleRequest(request, () => getProvider().generateWithSearch(request), retries);
 
 /**
- * Standard analysis for raw text input (Manual Mode)
+ * Standard analysis for raw text input (Manual Mode). Leads the validator
+ * repaired or rejected are reported through `onLog` when given; the prompt is
+ * written in the language of `market`, or of the profile's markets without one.
  */
-export const analyzeLeads = async (text: string): Promise<Lead[]> => {
+export const analyzeLeads = async (
+  text: string,
+  profile: IdealCustomerProfile,
+  t: Translate,
+  options: { onLog?: (msg: string) => void; market?: Market } = {}
+): Promise<ExtractedLead[]> => {
+  const { onLog, market } = options;
   if (!text.trim()) return [];
 
   try {
-    const response = await safeGenerateContent({
-      model: MODEL_SUPPORT, // Use Flash for text processing speed
-      contents: text,
-      config: {
-        systemInstruction: systemInstructionExtraction,
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-        temperature: 0.1,
-      },
+    const response = await generateJson({
+      task: 'extraction',
+      tier: 'support', // Use Flash for text processing speed
+      prompt: text,
+      systemInstruction: buildExtractionPrompt({ profile, market }),
+      schema: responseSchema,
+      temperature: 0.1,
     });
 
-    const jsonText = response.text;
-    if (!jsonText) throw new Error("No response from AI");
-    return JSON.parse(jsonText);
+    const { leads, repaired, rejected } = validateExtractedLeads(parseJsonResponse(response.text));
+    if (repaired.length > 0) {
+      onLog?.(t('log.repaired', { count: repaired.length, details: repaired.map(r => `${r.companyName} (${r.fixes.map(fix => formatMessage(t, fix)).join('; ')})`).join(', ') }));
+    }
+    if (rejected.length > 0) {
+      onLog?.(t('log.dropped', { count: rejected.length, details: rejected.map(r => `${r.companyName || `#${r.index + 1}`} (${r.issues.map(issue => formatMessage(t, issue)).join('; ')})`).join(', ') }));
+    }
+
+    // If the input is pasted HTML, back the model's chatbot verdict with the widget fingerprints
+    return leads.map(lead => {
+      const html = findHtmlForCompany(lead, text);
+      const checked = html ? withWebsiteAgeHints(combineChatbotVerdict(lead, detectChatWidgets(html)), html) : lead;
+      return { ...checked, contacts: checked.contacts.map(contact => withEmailQuality(contact, lead.website)) };
+    });
   } catch (error) {
     console.error("Error analyzing leads:", error);
     throw error;
@@ -132,145 +113,220 @@ export const analyzeLeads = async (text: string): Promise<Lead[]> => {
 };
 
 /**
- * STRATEGIST AGENT (Gemini 2.5 Flash)
+ * STRATEGIST AGENT (support model)
  */
-export const planMarketStrategy = async (pastSearches: string[]): Promise<MarketStrategy> => {
-  const historyContext = pastSearches.length > 0 
-    ? `Historial de búsquedas recientes (EVITAR REPETIR): ${pastSearches.join(", ")}.`
-    : "No hay historial previo.";
+export const planMarketStrategy = async (
+  history: SearchEntry[],
+  profile: IdealCustomerProfile = DEFAULT_ICP,
+  options: { campaign?: Campaign | null; coverage?: CoverageCell[]; rejectedQueries?: string[] } = {}
+): Promise<MarketStrategy> => {
+  const { campaign, coverage = [], rejectedQueries = [] } = options;
+  // Searches are written the way locals would search, in each market's language
+  const markets = profileMarkets(profile);
+  // Yield of the segments already tried, so planning can exploit what works and skip what doesn't
+  const approach = chooseApproach(coverage);
+  const prompt = buildStrategyPrompt({
+    profile,
+    campaign,
+    markets,
+    history: summarizeHistory(history),
+    rejectedQueries,
+    coverage: coverage.length > 0 ? summarizeCoverage(coverage) : null,
+    approach,
+  });
 
-  const prompt = `
-    Actúa como un Director de Estrategia Comercial B2B.
-    
-    TU MISIÓN:
-    Identificar un nicho de mercado de servicios y una ubicación en España con alta probabilidad de NO estar digitalizado Y ser accesible para contactar al dueño/gerente.
-    
-    CONTEXTO:
-    ${historyContext}
-    
-    INSTRUCCIONES:
-    1. Elige sectores donde el contacto con el dueño es factible (ej: Clínicas, Despachos, Reformas, Agencias locales). Evita grandes corporaciones.
-    2. Elige una ciudad o región específica de España diferente a las del historial.
-    3. Genera una query diseñada para encontrar a las personas ("Dueño", "Gerente", "Equipo").
-    
-    FORMATO DE RESPUESTA JSON:
-    {
-      "targetNiche": "Nombre del nicho",
-      "location": "Ciudad/Región",
-      "searchQuery": "Query optimizada para Google (ej: 'Clínicas dentales Madrid equipo directivo' o 'Despacho abogados Valencia socios')",
-      "reasoning": "Breve explicación estratégica."
+  const response = await generateJson({
+    task: 'strategy',
+    tier: 'support',
+    prompt,
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        targetNiche: { type: Type.STRING },
+        location: { type: Type.STRING },
+        country: { type: Type.STRING },
+        searchQuery: { type: Type.STRING },
+        reasoning: { type: Type.STRING },
+      },
+      required: ["targetNiche", "location", "searchQuery", "reasoning"]
     }
-  `;
+  });
 
-  const response = await safeGenerateContent({
-    model: MODEL_SUPPORT, 
-    contents: prompt,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          targetNiche: { type: Type.STRING },
-          location: { type: Type.STRING },
-          searchQuery: { type: Type.STRING },
-          reasoning: { type: Type.STRING },
-        },
-        required: ["targetNiche", "location", "searchQuery", "reasoning"]
+  const strategy = validateStrategy(parseJsonResponse(response.text));
+  // With a single market there is nothing to choose
+  return { ...strategy, country: strategy.country || (markets.length === 1 ? markets[0].code : undefined), approach };
+};
+
+/**
+ * Fetches each company's homepage through the HTML proxy (if configured) and
+ * fingerprints chat widgets. Fetch failures keep the model's verdict.
+ */
+const verifyChatbots = async (leads: ExtractedLead[], onLog: (msg: string) => void, t: Translate): Promise<ExtractedLead[]> => {
+  if (!process.env.HTML_PROXY_URL) return leads;
+
+  onLog(t('log.checkingWidgets', { count: leads.length }));
+  const verified: ExtractedLead[] = [];
+  for (const lead of leads) {
+    try {
+      const html = await fetchHtml(lead.website);
+      if (!html) {
+        verified.push(lead);
+        continue;
+      }
+      const checked = withWebsiteAgeHints(combineChatbotVerdict(lead, detectChatWidgets(html), lead.website), html);
+      if (checked.chatbotEvidence?.vendors.length) {
+        onLog(`🔎 ${lead.companyName}: ${checked.chatbotEvidence.vendors.join(', ')}`);
       }
+      verified.push(checked);
+    } catch (error) {
+      onLog(t('log.htmlUnavailable', { website: lead.website }));
+      verified.push(lead);
     }
-  });
-
-  if (!response.text) throw new Error("Failed to generate strategy");
-  return JSON.parse(response.text);
+  }
+  return verified;
 };
 
+export interface AgentSearchResult {
+  leads: ExtractedLead[];
+  candidates: number; // companies the search turned up, before any filter
+  withChatbot: number; // candidates that already had a chatbot
+}
+
 /**
  * WORKER AGENT
  * Executes the search and qualifies leads.
  */
 export const runAgentSearch = async (
   query: string, 
-  onLog: (msg: string) => void
-): Promise<Lead[]> => {
+  onLog: (msg: string) => void,
+  t: Translate,
+  options: { emailPolicy?: EmailAcceptancePolicy; profile?: IdealCustomerProfile; country?: string } = {}
+): Promise<AgentSearchResult> => {
+  const { emailPolicy = DEFAULT_EMAIL_POLICY, profile = DEFAULT_ICP, country } = options;
+  const market = marketOf(country);
   let searchResultText = "";
+  let searchSources: GroundingSource[] = [];
+  const cycleAt = new Date().toISOString();
+  const workerModel = getProvider().modelFor('worker');
   
   // --- PHASE 1: SEARCH & GATHER (Worker) ---
-  onLog(`🤖 [WORKER: ${MODEL_WORKER}] Iniciando búsqueda ejecutiva (Headhunting)...`);
+  onLog(t('log.workerStart', { model: workerModel }));
   
-  const searchPrompt = `
-    Realiza una investigación profunda para la búsqueda: "${query}".
-    Objetivo: Encontrar 5-8 empresas candidatas y sus TOMADORES DE DECISIONES.
-    
-    Para cada empresa:
-    1. Extrae Nombre y Web.
-    2. INVESTIGA PROFUNDAMENTE para encontrar nombres de personas clave:
-       - CEO / Fundador / Dueño
-       - Director de Marketing (CMO)
-       - Director de Operaciones (COO)
-    3. Busca emails directos de estas personas o de sus departamentos.
-    4. Verifica sus redes sociales (especialmente LinkedIn).
-    5. Revisa si tienen Chatbot automatizado (para descartarlas luego).
-    
-    Genera un informe detallado con estos datos.
-  `;
+  const searchPrompt = buildSearchPrompt({ query, profile, market });
 
   try {
-    onLog(`🔍 Ejecutando Google Search buscando perfiles directivos...`);
+    onLog(t('log.webSearch'));
     
-    const response = await safeGenerateContent({
-      model: MODEL_WORKER,
-      contents: searchPrompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-      },
+    const response = await generateWithSearch({
+      task: 'search',
+      tier: 'worker',
+      prompt: searchPrompt,
     }, 2); // Only 2 retries for search to avoid long hangs
     
     searchResultText = response.text || "";
+    searchSources = response.sources;
     
-    if (!searchResultText) throw new Error("Empty search result");
+    if (!searchResultText) throw new EmptyResponseError('search');
     
-    onLog("✅ Búsqueda completada. Analizando perfiles...");
+    onLog(t('log.searchDone'));
     
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    if (chunks?.length) {
-      onLog(`🌐 Fuentes consultadas: ${chunks.length} sitios web.`);
+    if (response.sources.length) {
+      onLog(t('log.sources', { count: response.sources.length }));
     }
 
   } catch (workerError) {
-    onLog(`❌ Error en búsqueda con ${MODEL_WORKER}. Verificando cuota...`);
+    onLog(t('log.searchFailed', { model: workerModel }));
     throw workerError; // Let the main loop handle the backoff
   }
 
   // --- PHASE 2: STRUCTURE & QUALIFY (Support) ---
-  onLog("🧠 [SOPORTE] Filtrando chatbots y validando cargos...");
+  onLog(t('log.applyingProfile', { profile: profile.name }));
 
   try {
-    const rawLeads = await analyzeLeads(searchResultText);
+    const rawLeads = await verifyChatbots(await analyzeLeads(searchResultText, profile, t, { onLog, market }), onLog, t);
     
     // STRICT FILTERING:
-    // 1. Must have email
-    // 2. Must NOT be 'TIENE_CHATBOT'
-    const validLeads = rawLeads.filter(lead => {
-      const hasEmail = lead.email && lead.email !== 'N/A' && lead.email.includes('@');
-      const isOpportunity = lead.chatbotStatus === 'OPORTUNIDAD';
-      return hasEmail && isOpportunity;
+    // 1. Must fit the active customer profile (technologies, sector, roles)
+    // 2. Must have at least one contact whose email passes the quality policy
+    const isReachable = (lead: ExtractedLead) =>
+      lead.contacts.some(contact => contact.emailQuality && acceptsEmail(contact.emailQuality, emailPolicy));
+    const fitting = rawLeads.filter(lead => {
+      const rejection = icpRejection(lead, profile, t);
+      if (rejection) onLog(t('log.companyRejected', { company: lead.companyName, reason: rejection }));
+      return !rejection;
     });
+    const validLeads = fitting.filter(isReachable);
 
-    const discardedChatbots = rawLeads.filter(l => l.chatbotStatus === 'TIENE_CHATBOT').length;
-    
-    if (discardedChatbots > 0) {
-      onLog(`🚫 Se descartaron ${discardedChatbots} empresas por tener Chatbot activo.`);
+    const discardedEmails = fitting.length - validLeads.length;
+    if (discardedEmails > 0) {
+      onLog(t('log.untrustedEmails', { count: discardedEmails }));
     }
     
     if (validLeads.length === 0) {
-      onLog(`⚠️ Se encontraron ${rawLeads.length} candidatos, pero ninguno pasó los filtros de calidad.`);
+      onLog(t('log.noneQualified', { count: rawLeads.length }));
     } else {
-      onLog(`✨ Éxito: ${validLeads.length} leads cualificados.`);
+      onLog(t('log.qualified', { count: validLeads.length }));
     }
     
-    return validLeads;
+    // Keep the evidence each lead came from, for fact-checking before outreach
+    const search = { query, text: searchResultText, sources: searchSources, cycleAt };
+    return {
+      leads: validLeads.map(lead => ({ ...lead, country: lead.country || market?.code, origin: buildAgentOrigin(lead, search) })),
+      candidates: rawLeads.length,
+      withChatbot: rawLeads.filter(lead => lead.chatbotStatus === 'TIENE_CHATBOT').length,
+    };
   } catch (error) {
-    onLog("❌ Error durante la estructuración de datos.");
+    onLog(t('log.structuringFailed'));
     throw error;
   }
-};
\ No newline at end of file
+};
+/**
+ * ENRICHMENT
+ * Researches one known company (e.g. from an imported list) for decision
+ * makers, emails and chat widgets. Returns null when the search does not
+ * turn up that company. ICP and email filters are not applied: the user
+ * already chose to have it in the database.
+ */
+export const enrichCompany = async (
+  company: Pick<ExtractedLead, 'companyName' | 'website' | 'country'>,
+  onLog: (msg: string) => void,
+  t: Translate,
+  options: { profile?: IdealCustomerProfile } = {}
+): Promise<ExtractedLead | null> => {
+  const { profile = DEFAULT_ICP } = options;
+  const cycleAt = new Date().toISOString();
+  const hasWebsite = company.website && company.website !== 'N/A';
+  const query = hasWebsite ? `${company.companyName} (${company.website})` : company.companyName;
+  const market = marketOf(company.country);
+
+  onLog(t('log.enriching', { company: company.companyName }));
+  const searchPrompt = buildEnrichmentPrompt({ query, profile, market });
+
+  const response = await generateWithSearch({
+    task: 'search',
+    tier: 'worker',
+    prompt: searchPrompt,
+  }, 2);
+  if (!response.text) throw new EmptyResponseError('search');
+
+  const domain = hasWebsite ? normalizeDomain(company.website) : '';
+  const candidates = await analyzeLeads(response.text, profile, t, { onLog, market });
+  const match = candidates
+    .map(lead => ({
+      lead,
+      similarity: domain && normalizeDomain(lead.website) === domain
+        ? 1
+        : nameSimilarity(lead.companyName, company.companyName, lead.country || company.country, company.country),
+    }))
+    .filter(candidate => candidate.similarity >= REVIEW_THRESHOLD)
+    .sort((a, b) => b.similarity - a.similarity)[0];
+
+  if (!match) {
+    onLog(t('log.nothingNew', { company: company.companyName }));
+    return null;
+  }
+
+  const [verified] = await verifyChatbots([match.lead], onLog, t);
+  const search = { query, text: response.text, sources: response.sources, cycleAt };
+  return { ...verified, country: verified.country || company.country, origin: buildAgentOrigin(verified, search) };
+};
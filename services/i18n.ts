@@ -0,0 +1,2471 @@
+// --- UI LANGUAGE ---
+// Interface strings per language. Spanish is the reference: every other
+// dictionary must define the same keys, so a missing translation fails the build.
+
+export type UiLanguage = 'es' | 'en' | 'pt' | 'fr';
+
+// Native names, so each option is readable whatever the current language
+export const UI_LANGUAGES: Record<UiLanguage, string> = {
+  es: 'Español',
+  en: 'English',
+  pt: 'Português',
+  fr: 'Français',
+};
+
+// For dates, numbers and country names
+export const UI_LOCALES: Record<UiLanguage, string> = {
+  es: 'es-ES',
+  en: 'en-GB',
+  pt: 'pt-PT',
+  fr: 'fr-FR',
+};
+
+const es = {
+  'header.usage': 'Consumo de la API',
+  'header.settings': 'Configuración',
+  'intro.title': 'Agente de Prospección B2B',
+  'intro.lead': 'Inteligencia Artificial autónoma que encuentra',
+  'intro.decisionMakers': 'Tomadores de Decisiones',
+  'intro.tail': 'y filtra chatbots.',
+
+  'mode.manual': 'Modo Manual',
+  'mode.agent': 'Agente Autónomo',
+  'mode.bulk': 'Lista de Webs',
+
+  'manual.title': 'Pegar Texto Crudo',
+  'manual.sample': 'Cargar Ejemplo',
+  'manual.placeholder': 'Pega aquí el contenido de los sitios web...',
+  'manual.clear': 'Limpiar',
+  'manual.analyze': 'Analizar Texto',
+  'manual.empty': 'Por favor, introduce texto para analizar.',
+  'manual.error': 'Ocurrió un error al procesar el texto.',
+
+  'agent.title': 'Piloto Automático',
+  'agent.editProfile': 'Editar perfil de cliente ideal',
+  'agent.searchHistory': 'Historial de búsquedas',
+  'agent.coverage': 'Mapa de cobertura',
+  'agent.runHistory': 'Historial de ciclos',
+  'agent.looping': 'Bucle Activo',
+  'agent.cooling': 'Enfriando ({time})',
+  'agent.manageCampaigns': 'Gestionar campañas',
+  'agent.noCampaign': 'Exploración libre (sin campaña)',
+  'agent.qualified': 'Cualificados',
+  'agent.cycles': 'Ciclos',
+  'agent.calls': 'Llamadas',
+  'agent.target': 'Objetivo',
+  'agent.zone': 'Zona',
+  'agent.waiting': 'Esperando iniciar estudio de mercado...',
+  'agent.idle': 'Sistema en espera. Pulse START.',
+  'agent.stop': 'DETENER BUCLE',
+  'agent.start': 'INICIAR AUTO-DESCUBRIMIENTO',
+  'agent.cycleRunning': 'Ciclo en progreso...',
+
+  'stats.campaign': 'Campaña · {name}',
+  'stats.database': 'Base de Datos (Memoria)',
+  'stats.opportunities': 'Oportunidades',
+  'stats.highPriority': 'Alta Prioridad',
+
+  'results.title': 'Resultados Globales',
+  'results.clearQueueConfirm': '¿Vaciar la cola de enriquecimiento IA?',
+  'results.queuePaused': 'Enriquecimiento en pausa mientras el agente busca. Clic para vaciar la cola.',
+  'results.queuePending': 'Empresas pendientes de enriquecimiento IA. Clic para vaciar la cola.',
+  'results.mergeReviews': 'Revisar posibles duplicados',
+  'results.undo': 'Deshacer: {label}',
+  'results.nothingToUndo': 'Nada que deshacer',
+  'results.addLead': 'Añadir lead a mano',
+  'results.import': 'Importar CSV, Excel o JSON',
+  'results.tableView': 'Vista Tabla',
+  'results.boardView': 'Vista Pipeline',
+  'results.clearMemory': 'Borrar Memoria',
+  'results.clearMemoryConfirm': '¿Estás seguro de borrar toda la memoria y los leads extraídos?',
+  'results.export': 'Exportar',
+  'results.researching': 'Investigando Mercado...',
+  'results.analyzing': 'Analizando...',
+  'results.searchingFor': 'Buscando {niche} en {location}',
+  'results.thinking': 'El agente está pensando.',
+  'results.emptyTitle': 'Memoria Vacía',
+  'results.emptyHint': 'Activa el modo "Agente Autónomo" para que la IA encuentre clientes por ti automáticamente.',
+
+  'scope.filtered': 'Vista filtrada',
+  'scope.all': 'Toda la base',
+  'scope.selection': 'Selección',
+
+  'bulk.discardConfirm': '¿Descartar la lista? Los leads ya creados se conservan.',
+
+  'undo.edit': 'Cambios en {company}',
+  'undo.deleteOne': 'Eliminar {company}',
+  'undo.deleteMany': 'Eliminar {count} leads',
+  'undo.add': 'Añadir {company}',
+
+  'filters.search': 'Buscar empresa, contacto, email...',
+  'filters.any': '{label}: todos',
+  'filters.yes': '{label}: sí',
+  'filters.no': '{label}: no',
+  'filters.chatbotAny': 'Chatbot: todos',
+  'filters.noChatbot': 'Sin chatbot',
+  'filters.withChatbot': 'Con chatbot',
+  'filters.score': 'Score',
+  'filters.decisionMaker': 'Decisor',
+  'filters.originAny': 'Origen: todos',
+  'filters.campaignAny': 'Campaña: todas',
+  'filters.countryAny': 'País: todos',
+  'filters.noCountry': 'Sin país',
+  'filters.clear': 'Limpiar',
+
+  'table.selected': '{count} seleccionados',
+  'table.export': 'Exportar',
+  'table.delete': 'Eliminar',
+  'table.deselect': 'Deseleccionar',
+  'table.selectAll': 'Seleccionar todos los resultados filtrados',
+  'table.company': 'Empresa',
+  'table.decisionMaker': 'Decisor & Rol',
+  'table.contact': 'Contacto Digital',
+  'table.needScore': 'Need Score',
+  'table.reason': 'Motivo / Análisis',
+  'table.status': 'Estado',
+  'table.date': 'Fecha',
+  'table.noMatches': 'Ningún lead coincide con los filtros.',
+  'table.noName': 'Nombre no disponible',
+  'table.unknownRole': 'Rol Desconocido',
+  'table.contacts': '{count} contactos',
+  'table.notes': 'Notas e historial',
+  'table.sources': 'Fuentes y procedencia',
+  'table.edit': 'Editar',
+  'table.enrich': 'Enriquecer: volver a investigar esta empresa',
+  'table.saveChanges': 'Guardar cambios',
+  'table.unnamed': 'Sin nombre',
+  'table.range': '{from}–{to} de {total}',
+  'table.filteredFrom': ' (filtrados de {total})',
+  'table.perPage': '{size} / pág.',
+  'table.market': 'Mercado: {country}',
+
+  'email.learnedPattern': 'Patrón aprendido de {count} email(s) personales del dominio',
+  'email.defaultPattern': 'Patrón por defecto (sin emails personales conocidos del dominio)',
+  'email.inferred': 'inferido {confidence}%',
+
+  'chatbot.rules': 'Detectado en el HTML',
+  'chatbot.llm': 'Criterio de la IA',
+  'chatbot.rulesAndLlm': 'HTML e IA coinciden',
+  'chatbot.verdict': '{verdict} (IA: {status})',
+  'chatbot.unverified': 'Criterio de la IA (sin verificar HTML)',
+  'chatbot.yes': 'Chatbot',
+  'chatbot.no': 'Sin chatbot',
+
+  'score.noBreakdown': 'Puntuación de la IA (sin desglose)',
+  'score.override': 'Fijado a mano: {score}',
+  'score.total': 'Need Score {score} / 5 (base 1)',
+  'score.contribution': '+{points} {factor} (peso {weight}): {detail}',
+
+  'pipeline.new': 'Nuevo',
+  'pipeline.contacted': 'Contactado',
+  'pipeline.replied': 'Respondió',
+  'pipeline.meeting': 'Reunión',
+  'pipeline.won': 'Ganado',
+  'pipeline.lost': 'Perdido',
+  'pipeline.do-not-contact': 'No contactar',
+
+  'addLead.submit': 'Añadir lead',
+
+  'board.score': 'Score {score}',
+
+  'common.cancel': 'Cancelar',
+  'common.close': 'Cerrar',
+  'common.retry': 'Reintentar',
+
+  'leadForm.website': 'Web',
+  'leadForm.websitePlaceholder': 'empresa.es',
+  'leadForm.sector': 'Sector',
+  'leadForm.country': 'País',
+  'leadForm.detect': 'Detectar',
+  'leadForm.chatbot': 'Chatbot',
+  'leadForm.no': 'No',
+  'leadForm.yes': 'Sí',
+  'leadForm.auto': 'Auto',
+  'leadForm.socialLinks': 'Redes sociales (una por línea)',
+  'leadForm.contacts': 'Contactos',
+  'leadForm.addContact': 'Añadir contacto',
+  'leadForm.name': 'Nombre',
+  'leadForm.role': 'Cargo',
+  'leadForm.email': 'Email',
+  'leadForm.seniority': 'Nivel',
+  'leadForm.removeContact': 'Quitar contacto',
+  'leadForm.companyRequired': 'El nombre de la empresa es obligatorio',
+  'leadForm.invalidDomain': 'Dominio no válido (ej: empresa.es)',
+  'leadForm.invalidLink': 'Enlace no válido: {link}',
+  'leadForm.nameOrEmail': 'Indica al menos nombre o email',
+  'leadForm.invalidEmail': 'Email no válido',
+
+  'seniority.c-level': 'Dirección General',
+  'seniority.director': 'Director',
+  'seniority.manager': 'Responsable',
+  'seniority.staff': 'Empleado',
+  'seniority.department': 'Departamento',
+  'seniority.unknown': 'Desconocido',
+
+  'enrich.title': 'Enriquecer {company}',
+  'enrich.subtitle': 'Nueva investigación de decisores, chatbot y redes sociales. Elige qué cambios aplicar.',
+  'enrich.researching': 'Investigando la empresa...',
+  'enrich.nothingNew': 'La investigación no encontró nada nuevo.',
+  'enrich.reject': 'Rechazar',
+  'enrich.apply': 'Aplicar {count} cambios',
+  'enrich.hasChatbot': 'Tiene chatbot',
+  'enrich.emptyContact': 'Contacto sin datos',
+  'enrich.newContact': 'Nuevo contacto',
+  'enrich.completedContact': 'Contacto completado',
+  'enrich.newSocialLink': 'Nueva red social',
+  'enrich.websiteAgeHints': 'Pistas de antigüedad web',
+
+  'notes.history': 'Historial',
+  'notes.title': 'Notas',
+  'notes.empty': 'Sin notas todavía.',
+  'notes.placeholder': 'Añadir nota (ej: Llamado, pide propuesta por email)...',
+  'notes.save': 'Guardar Nota',
+
+  'sources.noOrigin': 'Este lead se guardó antes de registrar su procedencia.',
+  'sources.query': 'Búsqueda',
+  'sources.cycleAt': 'Ciclo del {date}',
+  'sources.sources': 'Fuentes ({count})',
+  'sources.noSources': 'Sin fuentes web registradas.',
+  'sources.cycleSource': 'Fuente del ciclo, no menciona a la empresa',
+  'sources.excerpt': 'Texto original',
+
+  'merge.title': 'Posibles Duplicados',
+  'merge.empty': 'No hay fusiones pendientes.',
+  'merge.similarity': 'Similitud {percent}%',
+  'merge.existing': 'En memoria',
+  'merge.missing': 'El registro original ya no existe.',
+  'merge.incoming': 'Nuevo',
+  'merge.keepSeparate': 'Mantener separados',
+  'merge.merge': 'Fusionar',
+
+  'runs.summary': '{count} ciclos · {failed} fallidos o interrumpidos',
+  'runs.empty': 'Aún no se ha ejecutado ningún ciclo del agente.',
+  'runs.retryOf': 'Reintento',
+  'runs.noStrategy': 'Sin estrategia',
+  'runs.outcome': '{found} encontrados · {inserted} nuevos · {merged} fusionados',
+  'runs.profile': 'Perfil: {name}',
+  'runs.waitForCycle': 'Espera a que termine el ciclo en curso',
+  'runs.retrySameStrategy': 'Reintentar con la misma estrategia',
+
+  'runStatus.running': 'En curso',
+  'runStatus.succeeded': 'Completado',
+  'runStatus.failed': 'Fallido',
+  'runStatus.interrupted': 'Interrumpido',
+
+  'runPhase.planning': 'Estrategia',
+  'runPhase.searching': 'Búsqueda',
+  'runPhase.ingesting': 'Guardado',
+
+  'searches.summary': '{count} búsquedas · {pinned} fijadas · {blocked} bloqueadas. Las queries parecidas a una anterior o bloqueada se descartan antes de buscar.',
+  'searches.blockPlaceholder': 'Bloquear una búsqueda (ej: gimnasios Madrid)',
+  'searches.block': 'Bloquear',
+  'searches.filterPlaceholder': 'Filtrar por query, nicho o zona',
+  'searches.all': 'Todas',
+  'searches.empty': 'Aún no hay búsquedas. Se registran al completar cada ciclo del agente.',
+  'searches.noMatches': 'Ninguna búsqueda coincide con el filtro.',
+  'searches.statsOne': '{runs} ejecución · {found} leads · {inserted} nuevos',
+  'searches.statsMany': '{runs} ejecuciones · {found} leads · {inserted} nuevos',
+  'searches.unpin': 'Desfijar',
+  'searches.pin': 'Fijar: se puede repetir y siempre se muestra al estratega',
+  'searches.unblock': 'Desbloquear',
+  'searches.blockHint': 'Bloquear: nunca buscar nada parecido',
+  'searches.delete': 'Eliminar del historial: el agente podrá volver a buscarla',
+
+  'searchStatus.normal': 'Normal',
+  'searchStatus.pinned': 'Fijada',
+  'searchStatus.blacklisted': 'Bloqueada',
+
+  'coverage.summary': '{count} segmentos · {cycles} ciclos. El estratega usa este rendimiento para elegir el siguiente segmento.',
+  'coverage.empty': 'Aún no hay ciclos completados. El mapa se llena a medida que el agente explora nichos y zonas.',
+  'coverage.heatmap': 'Mapa de calor',
+  'coverage.table': 'Tabla',
+  'coverage.unexplored': 'Sin explorar',
+  'coverage.legend': 'Cada celda muestra leads por ciclo; el color, su rendimiento ponderado por need score frente al mejor segmento. Rojo: sin leads. Vacío: sin explorar.',
+  'coverage.segment': 'Nicho · Zona',
+  'coverage.leads': 'Leads',
+  'coverage.leadsPerCycle': 'Leads/ciclo',
+  'coverage.cellTotals': '{cycles} ciclos · {candidates} candidatas · {leads} leads ({inserted} nuevos)',
+  'coverage.cellQuality': 'Need score medio {score} · {chatbot}% con chatbot',
+
+  'bulk.companies': '{count} empresas',
+  'bulk.placeholder': 'Una web o nombre de empresa por línea:\nempresa.es\nhttps://www.otra-empresa.com\nClínica Dental Sonrisas',
+  'bulk.concurrency': 'En paralelo',
+  'bulk.create': 'Crear cola',
+  'bulk.progress': '{finished}/{total} procesadas · {done} completadas · {notFound} sin datos · {failed} con error',
+  'bulk.pause': 'Pausar',
+  'bulk.resume': 'Reanudar',
+  'bulk.start': 'Iniciar',
+  'bulk.retryFailed': 'Reintentar todas las fallidas',
+  'bulk.discard': 'Descartar lista',
+
+  'bulkStatus.pending': 'Pendiente',
+  'bulkStatus.running': 'En curso',
+  'bulkStatus.done': 'Completada',
+  'bulkStatus.notFound': 'Sin datos',
+  'bulkStatus.failed': 'Error',
+
+  'icp.title': 'Perfil de Cliente Ideal',
+  'icp.deleteConfirm': '¿Eliminar el perfil "{name}"?',
+  'icp.copyName': '{name} (copia)',
+  'icp.duplicate': 'Duplicar perfil',
+  'icp.new': 'Nuevo perfil',
+  'icp.delete': 'Eliminar perfil',
+  'icp.name': 'Nombre',
+  'icp.market': 'Mercado',
+  'icp.countries': 'Países',
+  'icp.countriesPlaceholder': 'España, Portugal',
+  'icp.regions': 'Regiones / ciudades preferidas',
+  'icp.regionsPlaceholder': 'Andalucía, Valencia',
+  'icp.includeSectors': 'Sectores objetivo',
+  'icp.excludeSectors': 'Sectores excluidos',
+  'icp.excludeSectorsPlaceholder': 'Hostelería, Inmobiliarias',
+  'icp.companySize': 'Tamaño de empresa',
+  'icp.decisionMakers': 'Decisores',
+  'icp.targetRoles': 'Cargos objetivo',
+  'icp.requireTargetRole': 'Descartar empresas sin un contacto con cargo objetivo',
+  'icp.disqualifyingTech': 'Tecnologías descalificantes',
+  'icp.anyChatbot': 'Cualquier chatbot',
+  'icp.scoring': 'Criterio de Need Score',
+  'icp.scoringHigh': '5 · Necesidad alta',
+  'icp.scoringLow': '1 · Necesidad baja',
+
+  'campaigns.title': 'Campañas',
+  'campaigns.newName': 'Nueva campaña',
+  'campaigns.deleteConfirm': '¿Eliminar la campaña "{name}"? Los leads se conservan.',
+  'campaigns.stopToSwitch': 'Detén el bucle para cambiar de campaña',
+  'campaigns.new': 'Nueva campaña',
+  'campaigns.delete': 'Eliminar campaña',
+  'campaigns.none': 'Sin campaña, el agente explora sin límite con el perfil activo. Crea una campaña para fijar un objetivo, acotar nichos y regiones, y que el bucle se detenga solo al cumplirlo.',
+  'campaigns.reopen': 'Reactivar',
+  'campaigns.qualified': 'Leads cualificados',
+  'campaigns.apiCalls': 'Llamadas a la API',
+  'campaigns.objective': 'Objetivo',
+  'campaigns.objectivePlaceholder': '50 clínicas dentales cualificadas en Andalucía',
+  'campaigns.constraints': 'Restricciones',
+  'campaigns.niches': 'Nichos',
+  'campaigns.nichesPlaceholder': 'Vacío: los sectores del perfil',
+  'campaigns.regions': 'Regiones / ciudades',
+  'campaigns.regionsPlaceholder': 'Vacío: las regiones del perfil',
+  'campaigns.limits': 'Meta y límites',
+  'campaigns.leadTarget': 'Leads objetivo',
+  'campaigns.minNeedScore': 'Need score mínimo',
+  'campaigns.maxCycles': 'Máx. ciclos',
+  'campaigns.maxApiCalls': 'Máx. llamadas API',
+  'campaigns.cycleDelay': 'Pausa entre ciclos (s)',
+  'campaigns.qualifiedHint': 'Cuentan para el objetivo los leads sin chatbot de esta campaña con el need score mínimo.',
+
+  'campaignStatus.active': 'Activa',
+  'campaignStatus.completed': 'Objetivo cumplido',
+  'campaignStatus.stopped': 'Detenida por límite',
+
+  'export.title': 'Exportar leads',
+  'export.summary': '{scope}: {count} empresas · {rows} filas',
+  'export.file': 'Archivo',
+  'export.crm': 'CRM',
+  'export.crmColumns': 'Columnas con los nombres de campo de {crm}.',
+  'export.crmZip': 'Columnas con los nombres de campo de {crm}: un ZIP con {sheets}, para importar en ese orden.',
+  'export.skipSynced': 'Omitir leads ya sincronizados con {crm} ({count})',
+  'export.format': 'Formato',
+  'export.formatCsv': 'CSV',
+  'export.formatXlsx': 'Excel (XLSX)',
+  'export.formatJson': 'JSON (registro completo)',
+  'export.delimiter': 'Separador',
+  'export.semicolon': 'Punto y coma (;)',
+  'export.comma': 'Coma (,)',
+  'export.tab': 'Tabulador',
+  'export.columns': 'Columnas',
+  'export.splitByCountryOne': 'Un archivo por mercado ({count} país), en un ZIP',
+  'export.splitByCountryMany': 'Un archivo por mercado ({count} países), en un ZIP',
+  'export.noColumns': 'Selecciona al menos una columna.',
+  'export.pushFailed': 'Envío interrumpido tras {synced} de {total} leads: {error}',
+  'export.toSync': '{count} leads a sincronizar',
+  'export.noEndpoint': 'Configura el endpoint en Configuración',
+  'export.sending': 'Enviando {done}/{total}',
+  'export.send': 'Enviar',
+  'export.download': 'Descargar',
+
+  'import.title': 'Importar leads',
+  'import.subtitle': 'CSV, Excel (XLSX) o JSON. Los duplicados se fusionan con la base existente.',
+  'import.readFailed': 'No se pudo leer {file}: {error}',
+  'import.failed': 'Error al importar: {error}',
+  'import.result': '{inserted} nuevos · {merged} fusionados · {pending} pendientes de revisión',
+  'import.queued': '{count} empresas en cola de enriquecimiento IA.',
+  'import.stepFile': '1. Archivo',
+  'import.records': '{count} registros completos de leads. Se importan tal cual, sin mapeo de columnas.',
+  'import.noName': '(sin nombre)',
+  'import.rejected': '{count} registros descartados por datos no válidos.',
+  'import.stepColumns': '2. Columnas ({rows} filas)',
+  'import.column': 'Columna {index}',
+  'import.needIdentity': 'Asigna al menos la columna de Empresa o de Web.',
+  'import.stepEnrich': '{step}. Enriquecimiento',
+  'import.enrich': 'Encolar para enriquecimiento IA',
+  'import.enrichHint': 'Busca decisores y emails y comprueba el chatbot de cada empresa, una a una en segundo plano.',
+  'import.toImport': '{count} empresas a importar',
+  'import.noFile': 'Ningún archivo seleccionado',
+  'import.import': 'Importar',
+
+  'importField.ignore': '— Ignorar —',
+  'importField.companyName': 'Empresa',
+  'importField.website': 'Web',
+  'importField.contactName': 'Nombre contacto',
+  'importField.role': 'Cargo',
+  'importField.email': 'Email',
+  'importField.sector': 'Sector',
+  'importField.reason': 'Motivo / notas',
+  'importField.socialLinks': 'Redes sociales',
+  'importField.needScore': 'Need Score',
+  'importField.chatbotStatus': 'Chatbot',
+  'importField.country': 'País',
+
+  'settings.language': 'Idioma de la interfaz',
+  'settings.languageHint': 'Traduce toda la interfaz y la consola del agente. El idioma de búsqueda lo marca el mercado de cada perfil.',
+  'settings.emailQuality': 'Calidad de Email (Agente)',
+  'settings.minConfidence': 'Confianza mínima:',
+  'settings.allowGeneric': 'Aceptar buzones genéricos (info@, contacto@)',
+  'settings.allowFreeMail': 'Aceptar correos gratuitos (gmail, hotmail)',
+  'settings.requireDomainMatch': 'Exigir que el dominio coincida con la web',
+  'settings.weights': 'Ponderación del Need Score',
+  'settings.reset': 'Restablecer',
+  'settings.weightsHint': 'Al cambiar los pesos se recalcula la puntuación de toda la base de datos.',
+  'settings.crm': 'Envío a CRM',
+  'settings.crmHint': 'Endpoint REST que recibe los leads en formato del CRM elegido al exportar. Vacío desactiva el envío.',
+  'settings.endpoint': 'URL del endpoint',
+  'settings.token': 'Token (opcional)',
+
+  'scoreFactor.noChatWidget': 'Sin chat en la web',
+  'scoreFactor.noCorporateLinkedin': 'Sin LinkedIn corporativo',
+  'scoreFactor.contactChannel': 'Canal de contacto',
+  'scoreFactor.decisionMaker': 'Decisor identificado',
+  'scoreFactor.emailQuality': 'Calidad del email',
+  'scoreFactor.websiteAge': 'Web anticuada',
+  'scoreFactor.modelAssessment': 'Criterio de la IA',
+
+  'usage.subtitle': 'Peticiones, tokens y coste estimado por modelo. Los límites se aplican a todas las llamadas.',
+  'usage.lastMinute': 'Último minuto',
+  'usage.queued': '{count} en espera',
+  'usage.requestsOf': '{count}/{max} peticiones',
+  'usage.today': 'Hoy · {count} peticiones',
+  'usage.rateLimited': '{count} rechazadas (429)',
+  'usage.tokensOf': '{count}/{max} tokens',
+  'usage.costToday': 'Coste estimado hoy:',
+  'usage.remaining': 'quedan ≈ {count} peticiones al ritmo actual',
+  'usage.estimated': '{count} sin datos de uso (estimadas)',
+  'usage.rpm': 'Peticiones por minuto',
+  'usage.tokensPerDay': 'Tokens por día',
+  'usage.inputPrice': '$ / M tokens entrada',
+  'usage.outputPrice': '$ / M tokens salida',
+  'usage.zeroDisables': '0 desactiva el límite.',
+  'usage.lastDays': 'Últimos {count} días',
+  'usage.resetConfirm': '¿Reiniciar los contadores de consumo?',
+  'usage.reset': 'Reiniciar',
+  'usage.day': 'Día',
+  'usage.requests': 'Peticiones',
+  'usage.tokens': 'Tokens',
+  'usage.cost': 'Coste',
+
+  'emailKind.personal': 'Personal',
+  'emailKind.departmental': 'Departamental',
+  'emailKind.generic': 'Genérico',
+  'emailKind.no-reply': 'No-reply',
+  'emailKind.free-mail': 'Correo gratuito',
+  'emailKind.invalid': 'Inválido',
+
+  'origin.unknown': 'Origen desconocido',
+  'origin.manual': 'Entrada manual',
+  'origin.import': 'Importado',
+  'origin.agent': 'Agente',
+
+  'exportColumn.companyName': 'Nombre Empresa',
+  'exportColumn.contactName': 'Nombre Contacto',
+  'exportColumn.role': 'Cargo',
+  'exportColumn.seniority': 'Nivel',
+  'exportColumn.email': 'Email',
+  'exportColumn.emailConfidence': 'Confianza Email',
+  'exportColumn.inferredEmail': 'Email Inferido (no verificado)',
+  'exportColumn.inferredPattern': 'Patrón Inferido',
+  'exportColumn.website': 'Sitio Web',
+  'exportColumn.sector': 'Sector',
+  'exportColumn.country': 'País',
+  'exportColumn.needScore': 'Nivel de Necesidad',
+  'exportColumn.chatbotStatus': 'Chatbot',
+  'exportColumn.reason': 'Motivo',
+  'exportColumn.socialLinks': 'Redes Sociales',
+  'exportColumn.pipelineStatus': 'Estado',
+  'exportColumn.createdAt': 'Fecha Alta',
+  'exportColumn.origin': 'Origen',
+  'exportColumn.sources': 'Fuentes',
+
+  'approach.exploit': 'Explotar',
+  'approach.explore': 'Explorar',
+
+  'history.similarToBlocked': 'se parece a la búsqueda bloqueada "{query}" ({percent}%)',
+  'history.alreadySearched': 'ya se buscó "{query}" ({percent}% similar)',
+
+  'campaignStop.target': '{qualified} leads cualificados de {target}',
+  'campaignStop.cycles': 'Límite de {max} ciclos alcanzado',
+  'campaignStop.apiCalls': 'Límite de {max} llamadas a la API alcanzado',
+
+  'enrich.failed': 'No se pudo investigar la empresa: {error}',
+
+  'log.enriched': '✅ {company} enriquecida: {count} contactos encontrados.',
+  'log.enrichFailed': '❌ No se pudo enriquecer {company}: {error}',
+  'log.quotaPause': '⏳ {error}. Pausa de {duration}...',
+  'log.resuming': '🔁 Reanudando el ciclo interrumpido por la recarga...',
+  'log.cooldownOver': '🟢 Enfriamiento completado. Reanudando operaciones...',
+  'log.queryRejected': '🚫 Query descartada, {reason}: "{query}"',
+  'log.repeatedPlans': 'El estratega repitió búsquedas anteriores {count} veces seguidas',
+  'log.retryingStrategy': '🔁 Reintentando estrategia: {niche} en {location}',
+  'log.planning': '🔵 [FASE 1] Iniciando Estudio de Mercado...',
+  'log.strategy': '💡 ESTRATEGIA DEFINIDA ({approach}): {niche} en {location}',
+  'log.reasoning': '⚖️ Razón: {reasoning}',
+  'log.searching': '🔵 [FASE 2] Ejecutando Agente de Búsqueda...',
+  'log.merged': '♻️ Se fusionaron {count} duplicados ya existentes en memoria.',
+  'log.pendingReview': '🔀 {count} posibles duplicados pendientes de revisión.',
+  'log.cycleFailed': '❌ Error en el ciclo: {error}... Reintentando en breve.',
+  'log.campaignFinished': '🏁 Campaña "{name}" finalizada: {reason}. Bucle detenido.',
+  'log.campaignOver': '⛔ La campaña "{name}" ya terminó. Reactívala o elige otra para seguir.',
+
+  'log.repaired': '🩹 {count} leads con datos corregidos: {details}.',
+  'log.dropped': '🗑️ {count} leads descartados por datos no válidos: {details}.',
+  'log.checkingWidgets': '🕵️ Verificando widgets de chat en {count} webs...',
+  'log.htmlUnavailable': '⚠️ No se pudo descargar {website}. Se mantiene el criterio de la IA.',
+  'log.workerStart': '🤖 [WORKER: {model}] Iniciando búsqueda ejecutiva (Headhunting)...',
+  'log.webSearch': '🔍 Ejecutando Google Search buscando perfiles directivos...',
+  'log.searchDone': '✅ Búsqueda completada. Analizando perfiles...',
+  'log.sources': '🌐 Fuentes consultadas: {count} sitios web.',
+  'log.searchFailed': '❌ Error en búsqueda con {model}. Verificando cuota...',
+  'log.applyingProfile': '🧠 [SOPORTE] Aplicando perfil "{profile}" y validando cargos...',
+  'log.companyRejected': '🚫 {company} descartada: {reason}.',
+  'log.untrustedEmails': '📭 Se descartaron {count} empresas sin un email de confianza suficiente.',
+  'log.noneQualified': '⚠️ Se encontraron {count} candidatos, pero ninguno pasó los filtros de calidad.',
+  'log.qualified': '✨ Éxito: {count} leads cualificados.',
+  'log.structuringFailed': '❌ Error durante la estructuración de datos.',
+  'log.enriching': '🧩 Enriqueciendo {company}...',
+  'log.nothingNew': '🤷 No se encontraron datos nuevos de {company}.',
+
+  'icpRejection.chatbot': 'Tiene chatbot',
+  'icpRejection.vendor': 'Usa {vendor}',
+  'icpRejection.sector': 'Sector excluido ({sector})',
+  'icpRejection.noTargetRole': 'Sin decisor con cargo objetivo',
+
+  'crm.unknownName': 'Desconocido',
+  'export.doNotContactExcluded': '{count} leads marcados como «No contactar» no se envían',
+
+  'text.asWritten': '{text}',
+
+  'scoreDetail.chatDetected': 'Chat detectado ({vendors})',
+  'scoreDetail.aiChatbot': 'La IA detectó un chatbot',
+  'scoreDetail.whatsappOnly': 'Solo enlace de WhatsApp',
+  'scoreDetail.noWidgets': 'HTML revisado, sin widgets de chat',
+  'scoreDetail.aiNoChatbot': 'Sin chatbot según la IA',
+  'scoreDetail.linkedinCompany': 'Tiene página de empresa en LinkedIn',
+  'scoreDetail.linkedinPersonal': 'Solo perfiles personales en LinkedIn',
+  'scoreDetail.noLinkedin': 'Sin presencia en LinkedIn',
+  'scoreDetail.personalEmail': 'Email personal',
+  'scoreDetail.departmentEmail': 'Email de departamento',
+  'scoreDetail.freeEmail': 'Email gratuito',
+  'scoreDetail.genericMailbox': 'Buzón genérico',
+  'scoreDetail.noUsableEmail': 'Sin email utilizable',
+  'scoreDetail.noNamedContact': 'Ningún contacto con nombre',
+  'scoreDetail.decisionMaker': '{name} ({seniority})',
+  'scoreDetail.bestConfidence': 'Mejor confianza {confidence}%',
+  'scoreDetail.noWebsite': 'Sin web propia',
+  'scoreDetail.noAgeHints': 'Sin indicios de web antigua',
+  'scoreDetail.modelScore': 'La IA puntuó {score}/5',
+
+  'emailIssue.invalidSyntax': 'Sintaxis inválida',
+  'emailIssue.noReply': 'Dirección no-reply',
+  'emailIssue.freeMail': 'Correo gratuito, no corporativo',
+  'emailIssue.generic': 'Buzón genérico',
+  'emailIssue.domainMismatch': 'El dominio no coincide con la web',
+  'emailIssue.disposable': 'Dominio de correo desechable',
+
+  'matchReason.sameEmail': 'Mismo email ({email})',
+  'matchReason.sameWebsite': 'Mismo dominio web ({domain})',
+  'matchReason.sameEmailDomain': 'Mismo dominio de email ({domain})',
+  'matchReason.emailMatchesWebsite': 'Dominio de email coincide con la web',
+  'matchReason.sameName': 'Nombre equivalente',
+  'matchReason.similarName': 'Nombre similar ({percent}%)',
+
+  'runs.interrupted': 'La pestaña se cerró o recargó durante el ciclo.',
+  'bulk.jobName': 'Lista {date}',
+
+  'aiError.dailyBudget': 'Presupuesto diario de {tokens} tokens agotado para {model}',
+  'aiError.tooManyRequests': 'Límite de peticiones de {model} excedido (429)',
+  'aiError.safetyBlocked': 'Respuesta bloqueada por el filtro de seguridad del modelo ({reason})',
+  'aiError.emptyResponse': 'El modelo devolvió una respuesta vacía',
+  'aiError.emptySearch': 'El modelo devolvió una búsqueda vacía',
+  'aiError.invalidJson': 'El modelo devolvió JSON no válido: {excerpt}',
+  'aiError.schemaViolation': 'Respuesta del modelo con formato inesperado: {issues}',
+  'aiError.network': 'Error de red al contactar con el modelo: {cause}',
+
+  'validation.notAList': 'se esperaba una lista de empresas',
+  'validation.strategyNotObject': 'la estrategia no es un objeto',
+  'validation.missingField': 'falta {field}',
+  'validation.notObject': 'no es un objeto',
+  'validation.noCompanyName': 'sin nombre de empresa',
+  'validation.unknownChatbotStatus': 'chatbotStatus "{value}" desconocido',
+  'validation.invalidContactDropped': 'contacto no válido descartado',
+  'validation.invalidEmail': 'email "{email}" no válido',
+  'validation.emptyContactDropped': 'contacto vacío descartado',
+  'validation.unknownSeniority': 'seniority "{value}" → unknown',
+  'validation.invalidWebsite': 'web "{website}" no válida',
+  'validation.needScore': 'needScore {from} → {to}',
+  'validation.invalidSocialLinks': '{count} enlaces sociales no válidos',
+  'validation.contactsNotList': 'contacts no es una lista',
+  'validation.unknownCountry': 'país "{country}" desconocido',
+
+  'import.noLeadList': 'El JSON no contiene una lista de leads',
+  'import.emptyFile': 'El archivo está vacío',
+  'import.invalidXlsx': 'El archivo no es un XLSX válido',
+  'import.noSheets': 'El XLSX no contiene hojas',
+};
+
+export type MessageKey = keyof typeof es;
+type Messages = Record<MessageKey, string>;
+
+const en: Messages = {
+  'header.usage': 'API usage',
+  'header.settings': 'Settings',
+  'intro.title': 'B2B Prospecting Agent',
+  'intro.lead': 'Autonomous AI that finds',
+  'intro.decisionMakers': 'Decision Makers',
+  'intro.tail': 'and filters out chatbots.',
+
+  'mode.manual': 'Manual Mode',
+  'mode.agent': 'Autonomous Agent',
+  'mode.bulk': 'Website List',
+
+  'manual.title': 'Paste Raw Text',
+  'manual.sample': 'Load Sample',
+  'manual.placeholder': 'Paste the website content here...',
+  'manual.clear': 'Clear',
+  'manual.analyze': 'Analyse Text',
+  'manual.empty': 'Please enter some text to analyse.',
+  'manual.error': 'Something went wrong while processing the text.',
+
+  'agent.title': 'Autopilot',
+  'agent.editProfile': 'Edit ideal customer profile',
+  'agent.searchHistory': 'Search history',
+  'agent.coverage': 'Coverage map',
+  'agent.runHistory': 'Cycle history',
+  'agent.looping': 'Loop Active',
+  'agent.cooling': 'Cooling down ({time})',
+  'agent.manageCampaigns': 'Manage campaigns',
+  'agent.noCampaign': 'Free exploration (no campaign)',
+  'agent.qualified': 'Qualified',
+  'agent.cycles': 'Cycles',
+  'agent.calls': 'Calls',
+  'agent.target': 'Target',
+  'agent.zone': 'Area',
+  'agent.waiting': 'Waiting to start market research...',
+  'agent.idle': 'System idle. Press START.',
+  'agent.stop': 'STOP LOOP',
+  'agent.start': 'START AUTO-DISCOVERY',
+  'agent.cycleRunning': 'Cycle in progress...',
+
+  'stats.campaign': 'Campaign · {name}',
+  'stats.database': 'Database (Memory)',
+  'stats.opportunities': 'Opportunities',
+  'stats.highPriority': 'High Priority',
+
+  'results.title': 'All Results',
+  'results.clearQueueConfirm': 'Empty the AI enrichment queue?',
+  'results.queuePaused': 'Enrichment paused while the agent searches. Click to empty the queue.',
+  'results.queuePending': 'Companies waiting for AI enrichment. Click to empty the queue.',
+  'results.mergeReviews': 'Review possible duplicates',
+  'results.undo': 'Undo: {label}',
+  'results.nothingToUndo': 'Nothing to undo',
+  'results.addLead': 'Add a lead by hand',
+  'results.import': 'Import CSV, Excel or JSON',
+  'results.tableView': 'Table View',
+  'results.boardView': 'Pipeline View',
+  'results.clearMemory': 'Clear Memory',
+  'results.clearMemoryConfirm': 'Are you sure you want to delete the whole memory and every extracted lead?',
+  'results.export': 'Export',
+  'results.researching': 'Researching the Market...',
+  'results.analyzing': 'Analysing...',
+  'results.searchingFor': 'Looking for {niche} in {location}',
+  'results.thinking': 'The agent is thinking.',
+  'results.emptyTitle': 'Empty Memory',
+  'results.emptyHint': 'Switch to "Autonomous Agent" mode and let the AI find customers for you automatically.',
+
+  'scope.filtered': 'Filtered view',
+  'scope.all': 'Whole database',
+  'scope.selection': 'Selection',
+
+  'bulk.discardConfirm': 'Discard the list? Leads already created are kept.',
+
+  'undo.edit': 'Changes to {company}',
+  'undo.deleteOne': 'Delete {company}',
+  'undo.deleteMany': 'Delete {count} leads',
+  'undo.add': 'Add {company}',
+
+  'filters.search': 'Search company, contact, email...',
+  'filters.any': '{label}: all',
+  'filters.yes': '{label}: yes',
+  'filters.no': '{label}: no',
+  'filters.chatbotAny': 'Chatbot: all',
+  'filters.noChatbot': 'No chatbot',
+  'filters.withChatbot': 'With chatbot',
+  'filters.score': 'Score',
+  'filters.decisionMaker': 'Decision maker',
+  'filters.originAny': 'Origin: all',
+  'filters.campaignAny': 'Campaign: all',
+  'filters.countryAny': 'Country: all',
+  'filters.noCountry': 'No country',
+  'filters.clear': 'Clear',
+
+  'table.selected': '{count} selected',
+  'table.export': 'Export',
+  'table.delete': 'Delete',
+  'table.deselect': 'Deselect',
+  'table.selectAll': 'Select every filtered result',
+  'table.company': 'Company',
+  'table.decisionMaker': 'Decision Maker & Role',
+  'table.contact': 'Digital Contact',
+  'table.needScore': 'Need Score',
+  'table.reason': 'Reason / Analysis',
+  'table.status': 'Status',
+  'table.date': 'Date',
+  'table.noMatches': 'No lead matches the filters.',
+  'table.noName': 'Name not available',
+  'table.unknownRole': 'Unknown Role',
+  'table.contacts': '{count} contacts',
+  'table.notes': 'Notes and history',
+  'table.sources': 'Sources and provenance',
+  'table.edit': 'Edit',
+  'table.enrich': 'Enrich: research this company again',
+  'table.saveChanges': 'Save changes',
+  'table.unnamed': 'No name',
+  'table.range': '{from}–{to} of {total}',
+  'table.filteredFrom': ' (filtered from {total})',
+  'table.perPage': '{size} / page',
+  'table.market': 'Market: {country}',
+
+  'email.learnedPattern': 'Pattern learned from {count} personal email(s) at the domain',
+  'email.defaultPattern': 'Default pattern (no known personal emails at the domain)',
+  'email.inferred': 'inferred {confidence}%',
+
+  'chatbot.rules': 'Detected in the HTML',
+  'chatbot.llm': 'AI judgement',
+  'chatbot.rulesAndLlm': 'HTML and AI agree',
+  'chatbot.verdict': '{verdict} (AI: {status})',
+  'chatbot.unverified': 'AI judgement (HTML not checked)',
+  'chatbot.yes': 'Chatbot',
+  'chatbot.no': 'No chatbot',
+
+  'score.noBreakdown': 'AI score (no breakdown)',
+  'score.override': 'Set by hand: {score}',
+  'score.total': 'Need Score {score} / 5 (base 1)',
+  'score.contribution': '+{points} {factor} (weight {weight}): {detail}',
+
+  'pipeline.new': 'New',
+  'pipeline.contacted': 'Contacted',
+  'pipeline.replied': 'Replied',
+  'pipeline.meeting': 'Meeting',
+  'pipeline.won': 'Won',
+  'pipeline.lost': 'Lost',
+  'pipeline.do-not-contact': 'Do not contact',
+
+  'addLead.submit': 'Add lead',
+
+  'board.score': 'Score {score}',
+
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.retry': 'Retry',
+
+  'leadForm.website': 'Website',
+  'leadForm.websitePlaceholder': 'company.co.uk',
+  'leadForm.sector': 'Sector',
+  'leadForm.country': 'Country',
+  'leadForm.detect': 'Detect',
+  'leadForm.chatbot': 'Chatbot',
+  'leadForm.no': 'No',
+  'leadForm.yes': 'Yes',
+  'leadForm.auto': 'Auto',
+  'leadForm.socialLinks': 'Social profiles (one per line)',
+  'leadForm.contacts': 'Contacts',
+  'leadForm.addContact': 'Add contact',
+  'leadForm.name': 'Name',
+  'leadForm.role': 'Role',
+  'leadForm.email': 'Email',
+  'leadForm.seniority': 'Seniority',
+  'leadForm.removeContact': 'Remove contact',
+  'leadForm.companyRequired': 'The company name is required',
+  'leadForm.invalidDomain': 'Invalid domain (e.g. company.co.uk)',
+  'leadForm.invalidLink': 'Invalid link: {link}',
+  'leadForm.nameOrEmail': 'Enter at least a name or an email',
+  'leadForm.invalidEmail': 'Invalid email',
+
+  'seniority.c-level': 'Executive',
+  'seniority.director': 'Director',
+  'seniority.manager': 'Manager',
+  'seniority.staff': 'Staff',
+  'seniority.department': 'Department',
+  'seniority.unknown': 'Unknown',
+
+  'enrich.title': 'Enrich {company}',
+  'enrich.subtitle': 'Fresh research on decision makers, chatbot and social profiles. Choose which changes to apply.',
+  'enrich.researching': 'Researching the company...',
+  'enrich.nothingNew': 'The research found nothing new.',
+  'enrich.reject': 'Reject',
+  'enrich.apply': 'Apply {count} changes',
+  'enrich.hasChatbot': 'Has a chatbot',
+  'enrich.emptyContact': 'Contact without details',
+  'enrich.newContact': 'New contact',
+  'enrich.completedContact': 'Contact completed',
+  'enrich.newSocialLink': 'New social profile',
+  'enrich.websiteAgeHints': 'Website age hints',
+
+  'notes.history': 'History',
+  'notes.title': 'Notes',
+  'notes.empty': 'No notes yet.',
+  'notes.placeholder': 'Add a note (e.g. Called, wants a proposal by email)...',
+  'notes.save': 'Save Note',
+
+  'sources.noOrigin': 'This lead was saved before its origin was recorded.',
+  'sources.query': 'Search',
+  'sources.cycleAt': 'Cycle of {date}',
+  'sources.sources': 'Sources ({count})',
+  'sources.noSources': 'No web sources recorded.',
+  'sources.cycleSource': 'Cycle source, does not mention the company',
+  'sources.excerpt': 'Original text',
+
+  'merge.title': 'Possible Duplicates',
+  'merge.empty': 'No merges pending.',
+  'merge.similarity': 'Similarity {percent}%',
+  'merge.existing': 'In memory',
+  'merge.missing': 'The original record no longer exists.',
+  'merge.incoming': 'New',
+  'merge.keepSeparate': 'Keep separate',
+  'merge.merge': 'Merge',
+
+  'runs.summary': '{count} cycles · {failed} failed or interrupted',
+  'runs.empty': 'The agent has not run any cycle yet.',
+  'runs.retryOf': 'Retry',
+  'runs.noStrategy': 'No strategy',
+  'runs.outcome': '{found} found · {inserted} new · {merged} merged',
+  'runs.profile': 'Profile: {name}',
+  'runs.waitForCycle': 'Wait for the current cycle to finish',
+  'runs.retrySameStrategy': 'Retry with the same strategy',
+
+  'runStatus.running': 'Running',
+  'runStatus.succeeded': 'Completed',
+  'runStatus.failed': 'Failed',
+  'runStatus.interrupted': 'Interrupted',
+
+  'runPhase.planning': 'Strategy',
+  'runPhase.searching': 'Search',
+  'runPhase.ingesting': 'Saving',
+
+  'searches.summary': '{count} searches · {pinned} pinned · {blocked} blocked. Queries close to a past or blocked one are discarded before searching.',
+  'searches.blockPlaceholder': 'Block a search (e.g. gyms Manchester)',
+  'searches.block': 'Block',
+  'searches.filterPlaceholder': 'Filter by query, niche or area',
+  'searches.all': 'All',
+  'searches.empty': 'No searches yet. They are recorded when each agent cycle completes.',
+  'searches.noMatches': 'No search matches the filter.',
+  'searches.statsOne': '{runs} run · {found} leads · {inserted} new',
+  'searches.statsMany': '{runs} runs · {found} leads · {inserted} new',
+  'searches.unpin': 'Unpin',
+  'searches.pin': 'Pin: it may be repeated and is always shown to the strategist',
+  'searches.unblock': 'Unblock',
+  'searches.blockHint': 'Block: never search anything similar',
+  'searches.delete': 'Remove from history: the agent may search it again',
+
+  'searchStatus.normal': 'Normal',
+  'searchStatus.pinned': 'Pinned',
+  'searchStatus.blacklisted': 'Blocked',
+
+  'coverage.summary': '{count} segments · {cycles} cycles. The strategist uses this yield to pick the next segment.',
+  'coverage.empty': 'No completed cycles yet. The map fills in as the agent explores niches and areas.',
+  'coverage.heatmap': 'Heatmap',
+  'coverage.table': 'Table',
+  'coverage.unexplored': 'Unexplored',
+  'coverage.legend': 'Each cell shows leads per cycle; the colour, its yield weighted by need score against the best segment. Red: no leads. Empty: unexplored.',
+  'coverage.segment': 'Niche · Area',
+  'coverage.leads': 'Leads',
+  'coverage.leadsPerCycle': 'Leads/cycle',
+  'coverage.cellTotals': '{cycles} cycles · {candidates} candidates · {leads} leads ({inserted} new)',
+  'coverage.cellQuality': 'Average need score {score} · {chatbot}% with a chatbot',
+
+  'bulk.companies': '{count} companies',
+  'bulk.placeholder': 'One website or company name per line:\ncompany.co.uk\nhttps://www.another-company.com\nSmile Dental Clinic',
+  'bulk.concurrency': 'In parallel',
+  'bulk.create': 'Create queue',
+  'bulk.progress': '{finished}/{total} processed · {done} completed · {notFound} no data · {failed} with errors',
+  'bulk.pause': 'Pause',
+  'bulk.resume': 'Resume',
+  'bulk.start': 'Start',
+  'bulk.retryFailed': 'Retry all failed',
+  'bulk.discard': 'Discard list',
+
+  'bulkStatus.pending': 'Pending',
+  'bulkStatus.running': 'Running',
+  'bulkStatus.done': 'Completed',
+  'bulkStatus.notFound': 'No data',
+  'bulkStatus.failed': 'Error',
+
+  'icp.title': 'Ideal Customer Profile',
+  'icp.deleteConfirm': 'Delete the profile "{name}"?',
+  'icp.copyName': '{name} (copy)',
+  'icp.duplicate': 'Duplicate profile',
+  'icp.new': 'New profile',
+  'icp.delete': 'Delete profile',
+  'icp.name': 'Name',
+  'icp.market': 'Market',
+  'icp.countries': 'Countries',
+  'icp.countriesPlaceholder': 'United Kingdom, France',
+  'icp.regions': 'Preferred regions / cities',
+  'icp.regionsPlaceholder': 'London, Manchester',
+  'icp.includeSectors': 'Target sectors',
+  'icp.excludeSectors': 'Excluded sectors',
+  'icp.excludeSectorsPlaceholder': 'Hospitality, Estate agents',
+  'icp.companySize': 'Company size',
+  'icp.decisionMakers': 'Decision makers',
+  'icp.targetRoles': 'Target roles',
+  'icp.requireTargetRole': 'Drop companies without a contact in a target role',
+  'icp.disqualifyingTech': 'Disqualifying technologies',
+  'icp.anyChatbot': 'Any chatbot',
+  'icp.scoring': 'Need Score criteria',
+  'icp.scoringHigh': '5 · High need',
+  'icp.scoringLow': '1 · Low need',
+
+  'campaigns.title': 'Campaigns',
+  'campaigns.newName': 'New campaign',
+  'campaigns.deleteConfirm': 'Delete the campaign "{name}"? Its leads are kept.',
+  'campaigns.stopToSwitch': 'Stop the loop to switch campaigns',
+  'campaigns.new': 'New campaign',
+  'campaigns.delete': 'Delete campaign',
+  'campaigns.none': 'Without a campaign, the agent explores without limits using the active profile. Create a campaign to set a goal, narrow niches and regions, and have the loop stop by itself once the goal is met.',
+  'campaigns.reopen': 'Reactivate',
+  'campaigns.qualified': 'Qualified leads',
+  'campaigns.apiCalls': 'API calls',
+  'campaigns.objective': 'Objective',
+  'campaigns.objectivePlaceholder': '50 qualified dental clinics in Yorkshire',
+  'campaigns.constraints': 'Constraints',
+  'campaigns.niches': 'Niches',
+  'campaigns.nichesPlaceholder': "Empty: the profile's sectors",
+  'campaigns.regions': 'Regions / cities',
+  'campaigns.regionsPlaceholder': "Empty: the profile's regions",
+  'campaigns.limits': 'Target and limits',
+  'campaigns.leadTarget': 'Lead target',
+  'campaigns.minNeedScore': 'Minimum need score',
+  'campaigns.maxCycles': 'Max. cycles',
+  'campaigns.maxApiCalls': 'Max. API calls',
+  'campaigns.cycleDelay': 'Pause between cycles (s)',
+  'campaigns.qualifiedHint': 'Leads from this campaign without a chatbot and with the minimum need score count towards the target.',
+
+  'campaignStatus.active': 'Active',
+  'campaignStatus.completed': 'Target met',
+  'campaignStatus.stopped': 'Stopped by a limit',
+
+  'export.title': 'Export leads',
+  'export.summary': '{scope}: {count} companies · {rows} rows',
+  'export.file': 'File',
+  'export.crm': 'CRM',
+  'export.crmColumns': "Columns named after {crm}'s fields.",
+  'export.crmZip': "Columns named after {crm}'s fields: a ZIP with {sheets}, to import in that order.",
+  'export.skipSynced': 'Skip leads already synced with {crm} ({count})',
+  'export.format': 'Format',
+  'export.formatCsv': 'CSV',
+  'export.formatXlsx': 'Excel (XLSX)',
+  'export.formatJson': 'JSON (full record)',
+  'export.delimiter': 'Delimiter',
+  'export.semicolon': 'Semicolon (;)',
+  'export.comma': 'Comma (,)',
+  'export.tab': 'Tab',
+  'export.columns': 'Columns',
+  'export.splitByCountryOne': 'One file per market ({count} country), in a ZIP',
+  'export.splitByCountryMany': 'One file per market ({count} countries), in a ZIP',
+  'export.noColumns': 'Select at least one column.',
+  'export.pushFailed': 'Sending stopped after {synced} of {total} leads: {error}',
+  'export.toSync': '{count} leads to sync',
+  'export.noEndpoint': 'Set the endpoint in Settings',
+  'export.sending': 'Sending {done}/{total}',
+  'export.send': 'Send',
+  'export.download': 'Download',
+
+  'import.title': 'Import leads',
+  'import.subtitle': 'CSV, Excel (XLSX) or JSON. Duplicates are merged into the existing database.',
+  'import.readFailed': 'Could not read {file}: {error}',
+  'import.failed': 'Import failed: {error}',
+  'import.result': '{inserted} new · {merged} merged · {pending} awaiting review',
+  'import.queued': '{count} companies queued for AI enrichment.',
+  'import.stepFile': '1. File',
+  'import.records': '{count} full lead records. They are imported as they are, without column mapping.',
+  'import.noName': '(no name)',
+  'import.rejected': '{count} records dropped for invalid data.',
+  'import.stepColumns': '2. Columns ({rows} rows)',
+  'import.column': 'Column {index}',
+  'import.needIdentity': 'Map at least the Company or Website column.',
+  'import.stepEnrich': '{step}. Enrichment',
+  'import.enrich': 'Queue for AI enrichment',
+  'import.enrichHint': "Looks for decision makers and emails and checks each company's chatbot, one at a time in the background.",
+  'import.toImport': '{count} companies to import',
+  'import.noFile': 'No file selected',
+  'import.import': 'Import',
+
+  'importField.ignore': '— Ignore —',
+  'importField.companyName': 'Company',
+  'importField.website': 'Website',
+  'importField.contactName': 'Contact name',
+  'importField.role': 'Role',
+  'importField.email': 'Email',
+  'importField.sector': 'Sector',
+  'importField.reason': 'Reason / notes',
+  'importField.socialLinks': 'Social profiles',
+  'importField.needScore': 'Need Score',
+  'importField.chatbotStatus': 'Chatbot',
+  'importField.country': 'Country',
+
+  'settings.language': 'Interface language',
+  'settings.languageHint': "Translates the whole interface and the agent console. The search language is set by each profile's market.",
+  'settings.emailQuality': 'Email Quality (Agent)',
+  'settings.minConfidence': 'Minimum confidence:',
+  'settings.allowGeneric': 'Accept generic mailboxes (info@, contact@)',
+  'settings.allowFreeMail': 'Accept free mail (gmail, hotmail)',
+  'settings.requireDomainMatch': 'Require the domain to match the website',
+  'settings.weights': 'Need Score weights',
+  'settings.reset': 'Reset',
+  'settings.weightsHint': 'Changing the weights rescores the whole database.',
+  'settings.crm': 'CRM push',
+  'settings.crmHint': 'REST endpoint that receives the leads in the format of the CRM chosen when exporting. Leave empty to disable sending.',
+  'settings.endpoint': 'Endpoint URL',
+  'settings.token': 'Token (optional)',
+
+  'scoreFactor.noChatWidget': 'No chat on the website',
+  'scoreFactor.noCorporateLinkedin': 'No company LinkedIn',
+  'scoreFactor.contactChannel': 'Contact channel',
+  'scoreFactor.decisionMaker': 'Decision maker found',
+  'scoreFactor.emailQuality': 'Email quality',
+  'scoreFactor.websiteAge': 'Outdated website',
+  'scoreFactor.modelAssessment': 'AI assessment',
+
+  'usage.subtitle': 'Requests, tokens and estimated cost per model. The limits apply to every call.',
+  'usage.lastMinute': 'Last minute',
+  'usage.queued': '{count} waiting',
+  'usage.requestsOf': '{count}/{max} requests',
+  'usage.today': 'Today · {count} requests',
+  'usage.rateLimited': '{count} rejected (429)',
+  'usage.tokensOf': '{count}/{max} tokens',
+  'usage.costToday': 'Estimated cost today:',
+  'usage.remaining': '≈ {count} requests left at the current rate',
+  'usage.estimated': '{count} without usage data (estimated)',
+  'usage.rpm': 'Requests per minute',
+  'usage.tokensPerDay': 'Tokens per day',
+  'usage.inputPrice': '$ / M input tokens',
+  'usage.outputPrice': '$ / M output tokens',
+  'usage.zeroDisables': '0 disables the limit.',
+  'usage.lastDays': 'Last {count} days',
+  'usage.resetConfirm': 'Reset the usage counters?',
+  'usage.reset': 'Reset',
+  'usage.day': 'Day',
+  'usage.requests': 'Requests',
+  'usage.tokens': 'Tokens',
+  'usage.cost': 'Cost',
+
+  'emailKind.personal': 'Personal',
+  'emailKind.departmental': 'Departmental',
+  'emailKind.generic': 'Generic',
+  'emailKind.no-reply': 'No-reply',
+  'emailKind.free-mail': 'Free mail',
+  'emailKind.invalid': 'Invalid',
+
+  'origin.unknown': 'Unknown origin',
+  'origin.manual': 'Manual entry',
+  'origin.import': 'Imported',
+  'origin.agent': 'Agent',
+
+  'exportColumn.companyName': 'Company Name',
+  'exportColumn.contactName': 'Contact Name',
+  'exportColumn.role': 'Role',
+  'exportColumn.seniority': 'Seniority',
+  'exportColumn.email': 'Email',
+  'exportColumn.emailConfidence': 'Email Confidence',
+  'exportColumn.inferredEmail': 'Inferred Email (unverified)',
+  'exportColumn.inferredPattern': 'Inferred Pattern',
+  'exportColumn.website': 'Website',
+  'exportColumn.sector': 'Sector',
+  'exportColumn.country': 'Country',
+  'exportColumn.needScore': 'Need Score',
+  'exportColumn.chatbotStatus': 'Chatbot',
+  'exportColumn.reason': 'Reason',
+  'exportColumn.socialLinks': 'Social Profiles',
+  'exportColumn.pipelineStatus': 'Status',
+  'exportColumn.createdAt': 'Date Added',
+  'exportColumn.origin': 'Origin',
+  'exportColumn.sources': 'Sources',
+
+  'approach.exploit': 'Exploit',
+  'approach.explore': 'Explore',
+
+  'history.similarToBlocked': 'it resembles the blocked search "{query}" ({percent}%)',
+  'history.alreadySearched': '"{query}" was already searched ({percent}% similar)',
+
+  'campaignStop.target': '{qualified} of {target} qualified leads',
+  'campaignStop.cycles': 'Limit of {max} cycles reached',
+  'campaignStop.apiCalls': 'Limit of {max} API calls reached',
+
+  'enrich.failed': 'Could not research the company: {error}',
+
+  'log.enriched': '✅ {company} enriched: {count} contacts found.',
+  'log.enrichFailed': '❌ Could not enrich {company}: {error}',
+  'log.quotaPause': '⏳ {error}. Pausing for {duration}...',
+  'log.resuming': '🔁 Resuming the cycle interrupted by the reload...',
+  'log.cooldownOver': '🟢 Cooldown over. Resuming operations...',
+  'log.queryRejected': '🚫 Query rejected, {reason}: "{query}"',
+  'log.repeatedPlans': 'The strategist repeated past searches {count} times in a row',
+  'log.retryingStrategy': '🔁 Retrying strategy: {niche} in {location}',
+  'log.planning': '🔵 [PHASE 1] Starting market research...',
+  'log.strategy': '💡 STRATEGY SET ({approach}): {niche} in {location}',
+  'log.reasoning': '⚖️ Reason: {reasoning}',
+  'log.searching': '🔵 [PHASE 2] Running the search agent...',
+  'log.merged': '♻️ Merged {count} duplicates already in memory.',
+  'log.pendingReview': '🔀 {count} possible duplicates awaiting review.',
+  'log.cycleFailed': '❌ Cycle error: {error}... Retrying shortly.',
+  'log.campaignFinished': '🏁 Campaign "{name}" finished: {reason}. Loop stopped.',
+  'log.campaignOver': '⛔ Campaign "{name}" has already finished. Reopen it or pick another one to continue.',
+
+  'log.repaired': '🩹 {count} leads with repaired data: {details}.',
+  'log.dropped': '🗑️ {count} leads dropped for invalid data: {details}.',
+  'log.checkingWidgets': '🕵️ Checking chat widgets on {count} websites...',
+  'log.htmlUnavailable': "⚠️ Could not download {website}. Keeping the AI's verdict.",
+  'log.workerStart': '🤖 [WORKER: {model}] Starting executive search (headhunting)...',
+  'log.webSearch': '🔍 Running Google Search for executive profiles...',
+  'log.searchDone': '✅ Search complete. Analysing profiles...',
+  'log.sources': '🌐 Sources consulted: {count} websites.',
+  'log.searchFailed': '❌ Search failed with {model}. Checking quota...',
+  'log.applyingProfile': '🧠 [SUPPORT] Applying profile "{profile}" and checking roles...',
+  'log.companyRejected': '🚫 {company} rejected: {reason}.',
+  'log.untrustedEmails': '📭 Dropped {count} companies without a trustworthy enough email.',
+  'log.noneQualified': '⚠️ Found {count} candidates, but none passed the quality filters.',
+  'log.qualified': '✨ Success: {count} qualified leads.',
+  'log.structuringFailed': '❌ Error while structuring the data.',
+  'log.enriching': '🧩 Enriching {company}...',
+  'log.nothingNew': '🤷 No new data found for {company}.',
+
+  'icpRejection.chatbot': 'Has a chatbot',
+  'icpRejection.vendor': 'Uses {vendor}',
+  'icpRejection.sector': 'Excluded sector ({sector})',
+  'icpRejection.noTargetRole': 'No decision maker with a target role',
+
+  'crm.unknownName': 'Unknown',
+  'export.doNotContactExcluded': '{count} leads marked "Do not contact" are left out',
+
+  'text.asWritten': '{text}',
+
+  'scoreDetail.chatDetected': 'Chat detected ({vendors})',
+  'scoreDetail.aiChatbot': 'The AI detected a chatbot',
+  'scoreDetail.whatsappOnly': 'WhatsApp link only',
+  'scoreDetail.noWidgets': 'HTML checked, no chat widgets',
+  'scoreDetail.aiNoChatbot': 'No chatbot according to the AI',
+  'scoreDetail.linkedinCompany': 'Has a LinkedIn company page',
+  'scoreDetail.linkedinPersonal': 'Only personal LinkedIn profiles',
+  'scoreDetail.noLinkedin': 'No LinkedIn presence',
+  'scoreDetail.personalEmail': 'Personal email',
+  'scoreDetail.departmentEmail': 'Department email',
+  'scoreDetail.freeEmail': 'Free email',
+  'scoreDetail.genericMailbox': 'Generic mailbox',
+  'scoreDetail.noUsableEmail': 'No usable email',
+  'scoreDetail.noNamedContact': 'No named contact',
+  'scoreDetail.decisionMaker': '{name} ({seniority})',
+  'scoreDetail.bestConfidence': 'Best confidence {confidence}%',
+  'scoreDetail.noWebsite': 'No website of its own',
+  'scoreDetail.noAgeHints': 'No signs of an old website',
+  'scoreDetail.modelScore': 'The AI scored {score}/5',
+
+  'emailIssue.invalidSyntax': 'Invalid syntax',
+  'emailIssue.noReply': 'No-reply address',
+  'emailIssue.freeMail': 'Free email, not a company address',
+  'emailIssue.generic': 'Generic mailbox',
+  'emailIssue.domainMismatch': 'The domain does not match the website',
+  'emailIssue.disposable': 'Disposable email domain',
+
+  'matchReason.sameEmail': 'Same email ({email})',
+  'matchReason.sameWebsite': 'Same website domain ({domain})',
+  'matchReason.sameEmailDomain': 'Same email domain ({domain})',
+  'matchReason.emailMatchesWebsite': 'Email domain matches the website',
+  'matchReason.sameName': 'Equivalent name',
+  'matchReason.similarName': 'Similar name ({percent}%)',
+
+  'runs.interrupted': 'The tab was closed or reloaded during the cycle.',
+  'bulk.jobName': 'List {date}',
+
+  'aiError.dailyBudget': 'Daily budget of {tokens} tokens used up for {model}',
+  'aiError.tooManyRequests': 'Request limit exceeded for {model} (429)',
+  'aiError.safetyBlocked': "Answer blocked by the model's safety filter ({reason})",
+  'aiError.emptyResponse': 'The model returned an empty answer',
+  'aiError.emptySearch': 'The model returned an empty search',
+  'aiError.invalidJson': 'The model returned invalid JSON: {excerpt}',
+  'aiError.schemaViolation': 'Model answer in an unexpected format: {issues}',
+  'aiError.network': 'Network error reaching the model: {cause}',
+
+  'validation.notAList': 'expected a list of companies',
+  'validation.strategyNotObject': 'the strategy is not an object',
+  'validation.missingField': 'missing {field}',
+  'validation.notObject': 'not an object',
+  'validation.noCompanyName': 'no company name',
+  'validation.unknownChatbotStatus': 'unknown chatbotStatus "{value}"',
+  'validation.invalidContactDropped': 'invalid contact dropped',
+  'validation.invalidEmail': 'invalid email "{email}"',
+  'validation.emptyContactDropped': 'empty contact dropped',
+  'validation.unknownSeniority': 'seniority "{value}" → unknown',
+  'validation.invalidWebsite': 'invalid website "{website}"',
+  'validation.needScore': 'needScore {from} → {to}',
+  'validation.invalidSocialLinks': '{count} invalid social links',
+  'validation.contactsNotList': 'contacts is not a list',
+  'validation.unknownCountry': 'unknown country "{country}"',
+
+  'import.noLeadList': 'The JSON does not contain a list of leads',
+  'import.emptyFile': 'The file is empty',
+  'import.invalidXlsx': 'The file is not a valid XLSX',
+  'import.noSheets': 'The XLSX has no sheets',
+};
+
+const pt: Messages = {
+  'header.usage': 'Consumo da API',
+  'header.settings': 'Definições',
+  'intro.title': 'Agente de Prospeção B2B',
+  'intro.lead': 'Inteligência Artificial autónoma que encontra',
+  'intro.decisionMakers': 'Decisores',
+  'intro.tail': 'e filtra chatbots.',
+
+  'mode.manual': 'Modo Manual',
+  'mode.agent': 'Agente Autónomo',
+  'mode.bulk': 'Lista de Sites',
+
+  'manual.title': 'Colar Texto',
+  'manual.sample': 'Carregar Exemplo',
+  'manual.placeholder': 'Cole aqui o conteúdo dos sites...',
+  'manual.clear': 'Limpar',
+  'manual.analyze': 'Analisar Texto',
+  'manual.empty': 'Introduza algum texto para analisar.',
+  'manual.error': 'Ocorreu um erro ao processar o texto.',
+
+  'agent.title': 'Piloto Automático',
+  'agent.editProfile': 'Editar perfil de cliente ideal',
+  'agent.searchHistory': 'Histórico de pesquisas',
+  'agent.coverage': 'Mapa de cobertura',
+  'agent.runHistory': 'Histórico de ciclos',
+  'agent.looping': 'Ciclo Ativo',
+  'agent.cooling': 'A arrefecer ({time})',
+  'agent.manageCampaigns': 'Gerir campanhas',
+  'agent.noCampaign': 'Exploração livre (sem campanha)',
+  'agent.qualified': 'Qualificados',
+  'agent.cycles': 'Ciclos',
+  'agent.calls': 'Chamadas',
+  'agent.target': 'Alvo',
+  'agent.zone': 'Zona',
+  'agent.waiting': 'À espera de iniciar o estudo de mercado...',
+  'agent.idle': 'Sistema em espera. Prima START.',
+  'agent.stop': 'PARAR CICLO',
+  'agent.start': 'INICIAR AUTODESCOBERTA',
+  'agent.cycleRunning': 'Ciclo em curso...',
+
+  'stats.campaign': 'Campanha · {name}',
+  'stats.database': 'Base de Dados (Memória)',
+  'stats.opportunities': 'Oportunidades',
+  'stats.highPriority': 'Alta Prioridade',
+
+  'results.title': 'Resultados Globais',
+  'results.clearQueueConfirm': 'Esvaziar a fila de enriquecimento IA?',
+  'results.queuePaused': 'Enriquecimento em pausa enquanto o agente pesquisa. Clique para esvaziar a fila.',
+  'results.queuePending': 'Empresas à espera de enriquecimento IA. Clique para esvaziar a fila.',
+  'results.mergeReviews': 'Rever possíveis duplicados',
+  'results.undo': 'Anular: {label}',
+  'results.nothingToUndo': 'Nada para anular',
+  'results.addLead': 'Adicionar lead manualmente',
+  'results.import': 'Importar CSV, Excel ou JSON',
+  'results.tableView': 'Vista Tabela',
+  'results.boardView': 'Vista Pipeline',
+  'results.clearMemory': 'Apagar Memória',
+  'results.clearMemoryConfirm': 'Tem a certeza de que quer apagar toda a memória e os leads extraídos?',
+  'results.export': 'Exportar',
+  'results.researching': 'A investigar o mercado...',
+  'results.analyzing': 'A analisar...',
+  'results.searchingFor': 'A procurar {niche} em {location}',
+  'results.thinking': 'O agente está a pensar.',
+  'results.emptyTitle': 'Memória Vazia',
+  'results.emptyHint': 'Ative o modo "Agente Autónomo" para que a IA encontre clientes por si automaticamente.',
+
+  'scope.filtered': 'Vista filtrada',
+  'scope.all': 'Toda a base',
+  'scope.selection': 'Seleção',
+
+  'bulk.discardConfirm': 'Descartar a lista? Os leads já criados são mantidos.',
+
+  'undo.edit': 'Alterações em {company}',
+  'undo.deleteOne': 'Eliminar {company}',
+  'undo.deleteMany': 'Eliminar {count} leads',
+  'undo.add': 'Adicionar {company}',
+
+  'filters.search': 'Pesquisar empresa, contacto, email...',
+  'filters.any': '{label}: todos',
+  'filters.yes': '{label}: sim',
+  'filters.no': '{label}: não',
+  'filters.chatbotAny': 'Chatbot: todos',
+  'filters.noChatbot': 'Sem chatbot',
+  'filters.withChatbot': 'Com chatbot',
+  'filters.score': 'Score',
+  'filters.decisionMaker': 'Decisor',
+  'filters.originAny': 'Origem: todas',
+  'filters.campaignAny': 'Campanha: todas',
+  'filters.countryAny': 'País: todos',
+  'filters.noCountry': 'Sem país',
+  'filters.clear': 'Limpar',
+
+  'table.selected': '{count} selecionados',
+  'table.export': 'Exportar',
+  'table.delete': 'Eliminar',
+  'table.deselect': 'Desmarcar',
+  'table.selectAll': 'Selecionar todos os resultados filtrados',
+  'table.company': 'Empresa',
+  'table.decisionMaker': 'Decisor & Cargo',
+  'table.contact': 'Contacto Digital',
+  'table.needScore': 'Need Score',
+  'table.reason': 'Motivo / Análise',
+  'table.status': 'Estado',
+  'table.date': 'Data',
+  'table.noMatches': 'Nenhum lead corresponde aos filtros.',
+  'table.noName': 'Nome não disponível',
+  'table.unknownRole': 'Cargo Desconhecido',
+  'table.contacts': '{count} contactos',
+  'table.notes': 'Notas e histórico',
+  'table.sources': 'Fontes e proveniência',
+  'table.edit': 'Editar',
+  'table.enrich': 'Enriquecer: voltar a investigar esta empresa',
+  'table.saveChanges': 'Guardar alterações',
+  'table.unnamed': 'Sem nome',
+  'table.range': '{from}–{to} de {total}',
+  'table.filteredFrom': ' (filtrados de {total})',
+  'table.perPage': '{size} / pág.',
+  'table.market': 'Mercado: {country}',
+
+  'email.learnedPattern': 'Padrão aprendido de {count} email(s) pessoais do domínio',
+  'email.defaultPattern': 'Padrão por omissão (sem emails pessoais conhecidos do domínio)',
+  'email.inferred': 'inferido {confidence}%',
+
+  'chatbot.rules': 'Detetado no HTML',
+  'chatbot.llm': 'Critério da IA',
+  'chatbot.rulesAndLlm': 'HTML e IA coincidem',
+  'chatbot.verdict': '{verdict} (IA: {status})',
+  'chatbot.unverified': 'Critério da IA (HTML não verificado)',
+  'chatbot.yes': 'Chatbot',
+  'chatbot.no': 'Sem chatbot',
+
+  'score.noBreakdown': 'Pontuação da IA (sem detalhe)',
+  'score.override': 'Definido manualmente: {score}',
+  'score.total': 'Need Score {score} / 5 (base 1)',
+  'score.contribution': '+{points} {factor} (peso {weight}): {detail}',
+
+  'pipeline.new': 'Novo',
+  'pipeline.contacted': 'Contactado',
+  'pipeline.replied': 'Respondeu',
+  'pipeline.meeting': 'Reunião',
+  'pipeline.won': 'Ganho',
+  'pipeline.lost': 'Perdido',
+  'pipeline.do-not-contact': 'Não contactar',
+
+  'addLead.submit': 'Adicionar lead',
+
+  'board.score': 'Score {score}',
+
+  'common.cancel': 'Cancelar',
+  'common.close': 'Fechar',
+  'common.retry': 'Tentar de novo',
+
+  'leadForm.website': 'Site',
+  'leadForm.websitePlaceholder': 'empresa.pt',
+  'leadForm.sector': 'Setor',
+  'leadForm.country': 'País',
+  'leadForm.detect': 'Detetar',
+  'leadForm.chatbot': 'Chatbot',
+  'leadForm.no': 'Não',
+  'leadForm.yes': 'Sim',
+  'leadForm.auto': 'Auto',
+  'leadForm.socialLinks': 'Redes sociais (uma por linha)',
+  'leadForm.contacts': 'Contactos',
+  'leadForm.addContact': 'Adicionar contacto',
+  'leadForm.name': 'Nome',
+  'leadForm.role': 'Cargo',
+  'leadForm.email': 'Email',
+  'leadForm.seniority': 'Nível',
+  'leadForm.removeContact': 'Remover contacto',
+  'leadForm.companyRequired': 'O nome da empresa é obrigatório',
+  'leadForm.invalidDomain': 'Domínio inválido (ex.: empresa.pt)',
+  'leadForm.invalidLink': 'Ligação inválida: {link}',
+  'leadForm.nameOrEmail': 'Indique pelo menos nome ou email',
+  'leadForm.invalidEmail': 'Email inválido',
+
+  'seniority.c-level': 'Direção Geral',
+  'seniority.director': 'Diretor',
+  'seniority.manager': 'Responsável',
+  'seniority.staff': 'Colaborador',
+  'seniority.department': 'Departamento',
+  'seniority.unknown': 'Desconhecido',
+
+  'enrich.title': 'Enriquecer {company}',
+  'enrich.subtitle': 'Nova pesquisa de decisores, chatbot e redes sociais. Escolha que alterações aplicar.',
+  'enrich.researching': 'A pesquisar a empresa...',
+  'enrich.nothingNew': 'A pesquisa não encontrou nada de novo.',
+  'enrich.reject': 'Rejeitar',
+  'enrich.apply': 'Aplicar {count} alterações',
+  'enrich.hasChatbot': 'Tem chatbot',
+  'enrich.emptyContact': 'Contacto sem dados',
+  'enrich.newContact': 'Novo contacto',
+  'enrich.completedContact': 'Contacto completado',
+  'enrich.newSocialLink': 'Nova rede social',
+  'enrich.websiteAgeHints': 'Indícios de antiguidade do site',
+
+  'notes.history': 'Histórico',
+  'notes.title': 'Notas',
+  'notes.empty': 'Ainda sem notas.',
+  'notes.placeholder': 'Adicionar nota (ex.: Liguei, pede proposta por email)...',
+  'notes.save': 'Guardar Nota',
+
+  'sources.noOrigin': 'Este lead foi guardado antes de se registar a sua proveniência.',
+  'sources.query': 'Pesquisa',
+  'sources.cycleAt': 'Ciclo de {date}',
+  'sources.sources': 'Fontes ({count})',
+  'sources.noSources': 'Sem fontes web registadas.',
+  'sources.cycleSource': 'Fonte do ciclo, não menciona a empresa',
+  'sources.excerpt': 'Texto original',
+
+  'merge.title': 'Possíveis Duplicados',
+  'merge.empty': 'Não há fusões pendentes.',
+  'merge.similarity': 'Semelhança {percent}%',
+  'merge.existing': 'Em memória',
+  'merge.missing': 'O registo original já não existe.',
+  'merge.incoming': 'Novo',
+  'merge.keepSeparate': 'Manter separados',
+  'merge.merge': 'Fundir',
+
+  'runs.summary': '{count} ciclos · {failed} falhados ou interrompidos',
+  'runs.empty': 'O agente ainda não executou nenhum ciclo.',
+  'runs.retryOf': 'Nova tentativa',
+  'runs.noStrategy': 'Sem estratégia',
+  'runs.outcome': '{found} encontrados · {inserted} novos · {merged} fundidos',
+  'runs.profile': 'Perfil: {name}',
+  'runs.waitForCycle': 'Aguarde que o ciclo em curso termine',
+  'runs.retrySameStrategy': 'Tentar de novo com a mesma estratégia',
+
+  'runStatus.running': 'Em curso',
+  'runStatus.succeeded': 'Concluído',
+  'runStatus.failed': 'Falhado',
+  'runStatus.interrupted': 'Interrompido',
+
+  'runPhase.planning': 'Estratégia',
+  'runPhase.searching': 'Pesquisa',
+  'runPhase.ingesting': 'Gravação',
+
+  'searches.summary': '{count} pesquisas · {pinned} fixadas · {blocked} bloqueadas. As queries parecidas com uma anterior ou bloqueada são descartadas antes de pesquisar.',
+  'searches.blockPlaceholder': 'Bloquear uma pesquisa (ex.: ginásios Lisboa)',
+  'searches.block': 'Bloquear',
+  'searches.filterPlaceholder': 'Filtrar por query, nicho ou zona',
+  'searches.all': 'Todas',
+  'searches.empty': 'Ainda não há pesquisas. São registadas ao concluir cada ciclo do agente.',
+  'searches.noMatches': 'Nenhuma pesquisa corresponde ao filtro.',
+  'searches.statsOne': '{runs} execução · {found} leads · {inserted} novos',
+  'searches.statsMany': '{runs} execuções · {found} leads · {inserted} novos',
+  'searches.unpin': 'Desafixar',
+  'searches.pin': 'Fixar: pode repetir-se e é sempre mostrada ao estratega',
+  'searches.unblock': 'Desbloquear',
+  'searches.blockHint': 'Bloquear: nunca pesquisar nada parecido',
+  'searches.delete': 'Eliminar do histórico: o agente poderá voltar a pesquisá-la',
+
+  'searchStatus.normal': 'Normal',
+  'searchStatus.pinned': 'Fixada',
+  'searchStatus.blacklisted': 'Bloqueada',
+
+  'coverage.summary': '{count} segmentos · {cycles} ciclos. O estratega usa este rendimento para escolher o próximo segmento.',
+  'coverage.empty': 'Ainda não há ciclos concluídos. O mapa preenche-se à medida que o agente explora nichos e zonas.',
+  'coverage.heatmap': 'Mapa de calor',
+  'coverage.table': 'Tabela',
+  'coverage.unexplored': 'Por explorar',
+  'coverage.legend': 'Cada célula mostra leads por ciclo; a cor, o seu rendimento ponderado pelo need score face ao melhor segmento. Vermelho: sem leads. Vazio: por explorar.',
+  'coverage.segment': 'Nicho · Zona',
+  'coverage.leads': 'Leads',
+  'coverage.leadsPerCycle': 'Leads/ciclo',
+  'coverage.cellTotals': '{cycles} ciclos · {candidates} candidatas · {leads} leads ({inserted} novos)',
+  'coverage.cellQuality': 'Need score médio {score} · {chatbot}% com chatbot',
+
+  'bulk.companies': '{count} empresas',
+  'bulk.placeholder': 'Um site ou nome de empresa por linha:\nempresa.pt\nhttps://www.outra-empresa.com\nClínica Dentária Sorriso',
+  'bulk.concurrency': 'Em paralelo',
+  'bulk.create': 'Criar fila',
+  'bulk.progress': '{finished}/{total} processadas · {done} concluídas · {notFound} sem dados · {failed} com erro',
+  'bulk.pause': 'Pausar',
+  'bulk.resume': 'Retomar',
+  'bulk.start': 'Iniciar',
+  'bulk.retryFailed': 'Tentar de novo todas as falhadas',
+  'bulk.discard': 'Descartar lista',
+
+  'bulkStatus.pending': 'Pendente',
+  'bulkStatus.running': 'Em curso',
+  'bulkStatus.done': 'Concluída',
+  'bulkStatus.notFound': 'Sem dados',
+  'bulkStatus.failed': 'Erro',
+
+  'icp.title': 'Perfil de Cliente Ideal',
+  'icp.deleteConfirm': 'Eliminar o perfil "{name}"?',
+  'icp.copyName': '{name} (cópia)',
+  'icp.duplicate': 'Duplicar perfil',
+  'icp.new': 'Novo perfil',
+  'icp.delete': 'Eliminar perfil',
+  'icp.name': 'Nome',
+  'icp.market': 'Mercado',
+  'icp.countries': 'Países',
+  'icp.countriesPlaceholder': 'Portugal, Espanha',
+  'icp.regions': 'Regiões / cidades preferidas',
+  'icp.regionsPlaceholder': 'Lisboa, Porto',
+  'icp.includeSectors': 'Setores-alvo',
+  'icp.excludeSectors': 'Setores excluídos',
+  'icp.excludeSectorsPlaceholder': 'Hotelaria, Imobiliárias',
+  'icp.companySize': 'Dimensão da empresa',
+  'icp.decisionMakers': 'Decisores',
+  'icp.targetRoles': 'Cargos-alvo',
+  'icp.requireTargetRole': 'Descartar empresas sem um contacto com cargo-alvo',
+  'icp.disqualifyingTech': 'Tecnologias desqualificantes',
+  'icp.anyChatbot': 'Qualquer chatbot',
+  'icp.scoring': 'Critério de Need Score',
+  'icp.scoringHigh': '5 · Necessidade alta',
+  'icp.scoringLow': '1 · Necessidade baixa',
+
+  'campaigns.title': 'Campanhas',
+  'campaigns.newName': 'Nova campanha',
+  'campaigns.deleteConfirm': 'Eliminar a campanha "{name}"? Os leads são mantidos.',
+  'campaigns.stopToSwitch': 'Pare o ciclo para mudar de campanha',
+  'campaigns.new': 'Nova campanha',
+  'campaigns.delete': 'Eliminar campanha',
+  'campaigns.none': 'Sem campanha, o agente explora sem limite com o perfil ativo. Crie uma campanha para fixar um objetivo, restringir nichos e regiões, e para que o ciclo pare sozinho ao cumpri-lo.',
+  'campaigns.reopen': 'Reativar',
+  'campaigns.qualified': 'Leads qualificados',
+  'campaigns.apiCalls': 'Chamadas à API',
+  'campaigns.objective': 'Objetivo',
+  'campaigns.objectivePlaceholder': '50 clínicas dentárias qualificadas no Algarve',
+  'campaigns.constraints': 'Restrições',
+  'campaigns.niches': 'Nichos',
+  'campaigns.nichesPlaceholder': 'Vazio: os setores do perfil',
+  'campaigns.regions': 'Regiões / cidades',
+  'campaigns.regionsPlaceholder': 'Vazio: as regiões do perfil',
+  'campaigns.limits': 'Meta e limites',
+  'campaigns.leadTarget': 'Leads-alvo',
+  'campaigns.minNeedScore': 'Need score mínimo',
+  'campaigns.maxCycles': 'Máx. ciclos',
+  'campaigns.maxApiCalls': 'Máx. chamadas API',
+  'campaigns.cycleDelay': 'Pausa entre ciclos (s)',
+  'campaigns.qualifiedHint': 'Contam para o objetivo os leads sem chatbot desta campanha com o need score mínimo.',
+
+  'campaignStatus.active': 'Ativa',
+  'campaignStatus.completed': 'Objetivo cumprido',
+  'campaignStatus.stopped': 'Parada por limite',
+
+  'export.title': 'Exportar leads',
+  'export.summary': '{scope}: {count} empresas · {rows} linhas',
+  'export.file': 'Ficheiro',
+  'export.crm': 'CRM',
+  'export.crmColumns': 'Colunas com os nomes de campo de {crm}.',
+  'export.crmZip': 'Colunas com os nomes de campo de {crm}: um ZIP com {sheets}, para importar por essa ordem.',
+  'export.skipSynced': 'Omitir leads já sincronizados com {crm} ({count})',
+  'export.format': 'Formato',
+  'export.formatCsv': 'CSV',
+  'export.formatXlsx': 'Excel (XLSX)',
+  'export.formatJson': 'JSON (registo completo)',
+  'export.delimiter': 'Separador',
+  'export.semicolon': 'Ponto e vírgula (;)',
+  'export.comma': 'Vírgula (,)',
+  'export.tab': 'Tabulação',
+  'export.columns': 'Colunas',
+  'export.splitByCountryOne': 'Um ficheiro por mercado ({count} país), num ZIP',
+  'export.splitByCountryMany': 'Um ficheiro por mercado ({count} países), num ZIP',
+  'export.noColumns': 'Selecione pelo menos uma coluna.',
+  'export.pushFailed': 'Envio interrompido após {synced} de {total} leads: {error}',
+  'export.toSync': '{count} leads a sincronizar',
+  'export.noEndpoint': 'Configure o endpoint nas Definições',
+  'export.sending': 'A enviar {done}/{total}',
+  'export.send': 'Enviar',
+  'export.download': 'Transferir',
+
+  'import.title': 'Importar leads',
+  'import.subtitle': 'CSV, Excel (XLSX) ou JSON. Os duplicados são fundidos com a base existente.',
+  'import.readFailed': 'Não foi possível ler {file}: {error}',
+  'import.failed': 'Erro ao importar: {error}',
+  'import.result': '{inserted} novos · {merged} fundidos · {pending} pendentes de revisão',
+  'import.queued': '{count} empresas na fila de enriquecimento IA.',
+  'import.stepFile': '1. Ficheiro',
+  'import.records': '{count} registos completos de leads. São importados tal como estão, sem mapeamento de colunas.',
+  'import.noName': '(sem nome)',
+  'import.rejected': '{count} registos descartados por dados inválidos.',
+  'import.stepColumns': '2. Colunas ({rows} linhas)',
+  'import.column': 'Coluna {index}',
+  'import.needIdentity': 'Atribua pelo menos a coluna de Empresa ou de Site.',
+  'import.stepEnrich': '{step}. Enriquecimento',
+  'import.enrich': 'Colocar na fila de enriquecimento IA',
+  'import.enrichHint': 'Procura decisores e emails e verifica o chatbot de cada empresa, uma a uma em segundo plano.',
+  'import.toImport': '{count} empresas a importar',
+  'import.noFile': 'Nenhum ficheiro selecionado',
+  'import.import': 'Importar',
+
+  'importField.ignore': '— Ignorar —',
+  'importField.companyName': 'Empresa',
+  'importField.website': 'Site',
+  'importField.contactName': 'Nome do contacto',
+  'importField.role': 'Cargo',
+  'importField.email': 'Email',
+  'importField.sector': 'Setor',
+  'importField.reason': 'Motivo / notas',
+  'importField.socialLinks': 'Redes sociais',
+  'importField.needScore': 'Need Score',
+  'importField.chatbotStatus': 'Chatbot',
+  'importField.country': 'País',
+
+  'settings.language': 'Idioma da interface',
+  'settings.languageHint': 'Traduz toda a interface e a consola do agente. O idioma de pesquisa é definido pelo mercado de cada perfil.',
+  'settings.emailQuality': 'Qualidade de Email (Agente)',
+  'settings.minConfidence': 'Confiança mínima:',
+  'settings.allowGeneric': 'Aceitar caixas genéricas (info@, geral@)',
+  'settings.allowFreeMail': 'Aceitar correio gratuito (gmail, sapo)',
+  'settings.requireDomainMatch': 'Exigir que o domínio coincida com o site',
+  'settings.weights': 'Ponderação do Need Score',
+  'settings.reset': 'Repor',
+  'settings.weightsHint': 'Ao alterar os pesos, a pontuação de toda a base de dados é recalculada.',
+  'settings.crm': 'Envio para CRM',
+  'settings.crmHint': 'Endpoint REST que recebe os leads no formato do CRM escolhido ao exportar. Vazio desativa o envio.',
+  'settings.endpoint': 'URL do endpoint',
+  'settings.token': 'Token (opcional)',
+
+  'scoreFactor.noChatWidget': 'Sem chat no site',
+  'scoreFactor.noCorporateLinkedin': 'Sem LinkedIn corporativo',
+  'scoreFactor.contactChannel': 'Canal de contacto',
+  'scoreFactor.decisionMaker': 'Decisor identificado',
+  'scoreFactor.emailQuality': 'Qualidade do email',
+  'scoreFactor.websiteAge': 'Site desatualizado',
+  'scoreFactor.modelAssessment': 'Critério da IA',
+
+  'usage.subtitle': 'Pedidos, tokens e custo estimado por modelo. Os limites aplicam-se a todas as chamadas.',
+  'usage.lastMinute': 'Último minuto',
+  'usage.queued': '{count} em espera',
+  'usage.requestsOf': '{count}/{max} pedidos',
+  'usage.today': 'Hoje · {count} pedidos',
+  'usage.rateLimited': '{count} rejeitados (429)',
+  'usage.tokensOf': '{count}/{max} tokens',
+  'usage.costToday': 'Custo estimado hoje:',
+  'usage.remaining': 'restam ≈ {count} pedidos ao ritmo atual',
+  'usage.estimated': '{count} sem dados de uso (estimados)',
+  'usage.rpm': 'Pedidos por minuto',
+  'usage.tokensPerDay': 'Tokens por dia',
+  'usage.inputPrice': '$ / M tokens de entrada',
+  'usage.outputPrice': '$ / M tokens de saída',
+  'usage.zeroDisables': '0 desativa o limite.',
+  'usage.lastDays': 'Últimos {count} dias',
+  'usage.resetConfirm': 'Repor os contadores de consumo?',
+  'usage.reset': 'Repor',
+  'usage.day': 'Dia',
+  'usage.requests': 'Pedidos',
+  'usage.tokens': 'Tokens',
+  'usage.cost': 'Custo',
+
+  'emailKind.personal': 'Pessoal',
+  'emailKind.departmental': 'Departamental',
+  'emailKind.generic': 'Genérico',
+  'emailKind.no-reply': 'No-reply',
+  'emailKind.free-mail': 'Correio gratuito',
+  'emailKind.invalid': 'Inválido',
+
+  'origin.unknown': 'Origem desconhecida',
+  'origin.manual': 'Entrada manual',
+  'origin.import': 'Importado',
+  'origin.agent': 'Agente',
+
+  'exportColumn.companyName': 'Nome da Empresa',
+  'exportColumn.contactName': 'Nome do Contacto',
+  'exportColumn.role': 'Cargo',
+  'exportColumn.seniority': 'Nível',
+  'exportColumn.email': 'Email',
+  'exportColumn.emailConfidence': 'Confiança do Email',
+  'exportColumn.inferredEmail': 'Email Inferido (não verificado)',
+  'exportColumn.inferredPattern': 'Padrão Inferido',
+  'exportColumn.website': 'Site',
+  'exportColumn.sector': 'Setor',
+  'exportColumn.country': 'País',
+  'exportColumn.needScore': 'Nível de Necessidade',
+  'exportColumn.chatbotStatus': 'Chatbot',
+  'exportColumn.reason': 'Motivo',
+  'exportColumn.socialLinks': 'Redes Sociais',
+  'exportColumn.pipelineStatus': 'Estado',
+  'exportColumn.createdAt': 'Data de Criação',
+  'exportColumn.origin': 'Origem',
+  'exportColumn.sources': 'Fontes',
+
+  'approach.exploit': 'Explorar a fundo',
+  'approach.explore': 'Explorar',
+
+  'history.similarToBlocked': 'parece-se com a pesquisa bloqueada "{query}" ({percent}%)',
+  'history.alreadySearched': 'já se pesquisou "{query}" ({percent}% semelhante)',
+
+  'campaignStop.target': '{qualified} leads qualificados de {target}',
+  'campaignStop.cycles': 'Limite de {max} ciclos atingido',
+  'campaignStop.apiCalls': 'Limite de {max} chamadas à API atingido',
+
+  'enrich.failed': 'Não foi possível pesquisar a empresa: {error}',
+
+  'log.enriched': '✅ {company} enriquecida: {count} contactos encontrados.',
+  'log.enrichFailed': '❌ Não foi possível enriquecer {company}: {error}',
+  'log.quotaPause': '⏳ {error}. Pausa de {duration}...',
+  'log.resuming': '🔁 A retomar o ciclo interrompido pelo recarregamento...',
+  'log.cooldownOver': '🟢 Arrefecimento concluído. A retomar operações...',
+  'log.queryRejected': '🚫 Query rejeitada, {reason}: "{query}"',
+  'log.repeatedPlans': 'O estratega repetiu pesquisas anteriores {count} vezes seguidas',
+  'log.retryingStrategy': '🔁 A repetir a estratégia: {niche} em {location}',
+  'log.planning': '🔵 [FASE 1] A iniciar o estudo de mercado...',
+  'log.strategy': '💡 ESTRATÉGIA DEFINIDA ({approach}): {niche} em {location}',
+  'log.reasoning': '⚖️ Motivo: {reasoning}',
+  'log.searching': '🔵 [FASE 2] A executar o agente de pesquisa...',
+  'log.merged': '♻️ Foram fundidos {count} duplicados já existentes na memória.',
+  'log.pendingReview': '🔀 {count} possíveis duplicados por rever.',
+  'log.cycleFailed': '❌ Erro no ciclo: {error}... A tentar novamente em breve.',
+  'log.campaignFinished': '🏁 Campanha "{name}" terminada: {reason}. Ciclo parado.',
+  'log.campaignOver': '⛔ A campanha "{name}" já terminou. Reative-a ou escolha outra para continuar.',
+
+  'log.repaired': '🩹 {count} leads com dados corrigidos: {details}.',
+  'log.dropped': '🗑️ {count} leads descartados por dados inválidos: {details}.',
+  'log.checkingWidgets': '🕵️ A verificar widgets de chat em {count} sites...',
+  'log.htmlUnavailable': '⚠️ Não foi possível descarregar {website}. Mantém-se o critério da IA.',
+  'log.workerStart': '🤖 [WORKER: {model}] A iniciar a pesquisa de executivos (headhunting)...',
+  'log.webSearch': '🔍 A executar o Google Search à procura de perfis de direção...',
+  'log.searchDone': '✅ Pesquisa concluída. A analisar perfis...',
+  'log.sources': '🌐 Fontes consultadas: {count} sites.',
+  'log.searchFailed': '❌ Erro na pesquisa com {model}. A verificar a quota...',
+  'log.applyingProfile': '🧠 [SUPORTE] A aplicar o perfil "{profile}" e a validar cargos...',
+  'log.companyRejected': '🚫 {company} rejeitada: {reason}.',
+  'log.untrustedEmails': '📭 Foram descartadas {count} empresas sem um email suficientemente fiável.',
+  'log.noneQualified': '⚠️ Foram encontrados {count} candidatos, mas nenhum passou os filtros de qualidade.',
+  'log.qualified': '✨ Sucesso: {count} leads qualificados.',
+  'log.structuringFailed': '❌ Erro durante a estruturação dos dados.',
+  'log.enriching': '🧩 A enriquecer {company}...',
+  'log.nothingNew': '🤷 Não foram encontrados dados novos de {company}.',
+
+  'icpRejection.chatbot': 'Tem chatbot',
+  'icpRejection.vendor': 'Usa {vendor}',
+  'icpRejection.sector': 'Setor excluído ({sector})',
+  'icpRejection.noTargetRole': 'Sem decisor com cargo-alvo',
+
+  'crm.unknownName': 'Desconhecido',
+  'export.doNotContactExcluded': '{count} leads marcados como «Não contactar» não são enviados',
+
+  'text.asWritten': '{text}',
+
+  'scoreDetail.chatDetected': 'Chat detetado ({vendors})',
+  'scoreDetail.aiChatbot': 'A IA detetou um chatbot',
+  'scoreDetail.whatsappOnly': 'Apenas ligação de WhatsApp',
+  'scoreDetail.noWidgets': 'HTML verificado, sem widgets de chat',
+  'scoreDetail.aiNoChatbot': 'Sem chatbot segundo a IA',
+  'scoreDetail.linkedinCompany': 'Tem página de empresa no LinkedIn',
+  'scoreDetail.linkedinPersonal': 'Apenas perfis pessoais no LinkedIn',
+  'scoreDetail.noLinkedin': 'Sem presença no LinkedIn',
+  'scoreDetail.personalEmail': 'Email pessoal',
+  'scoreDetail.departmentEmail': 'Email de departamento',
+  'scoreDetail.freeEmail': 'Email gratuito',
+  'scoreDetail.genericMailbox': 'Caixa de correio genérica',
+  'scoreDetail.noUsableEmail': 'Sem email utilizável',
+  'scoreDetail.noNamedContact': 'Nenhum contacto com nome',
+  'scoreDetail.decisionMaker': '{name} ({seniority})',
+  'scoreDetail.bestConfidence': 'Melhor confiança {confidence}%',
+  'scoreDetail.noWebsite': 'Sem site próprio',
+  'scoreDetail.noAgeHints': 'Sem indícios de site antigo',
+  'scoreDetail.modelScore': 'A IA pontuou {score}/5',
+
+  'emailIssue.invalidSyntax': 'Sintaxe inválida',
+  'emailIssue.noReply': 'Endereço no-reply',
+  'emailIssue.freeMail': 'Email gratuito, não corporativo',
+  'emailIssue.generic': 'Caixa de correio genérica',
+  'emailIssue.domainMismatch': 'O domínio não coincide com o site',
+  'emailIssue.disposable': 'Domínio de email descartável',
+
+  'matchReason.sameEmail': 'Mesmo email ({email})',
+  'matchReason.sameWebsite': 'Mesmo domínio web ({domain})',
+  'matchReason.sameEmailDomain': 'Mesmo domínio de email ({domain})',
+  'matchReason.emailMatchesWebsite': 'Domínio de email coincide com o site',
+  'matchReason.sameName': 'Nome equivalente',
+  'matchReason.similarName': 'Nome semelhante ({percent}%)',
+
+  'runs.interrupted': 'O separador foi fechado ou recarregado durante o ciclo.',
+  'bulk.jobName': 'Lista {date}',
+
+  'aiError.dailyBudget': 'Orçamento diário de {tokens} tokens esgotado para {model}',
+  'aiError.tooManyRequests': 'Limite de pedidos de {model} excedido (429)',
+  'aiError.safetyBlocked': 'Resposta bloqueada pelo filtro de segurança do modelo ({reason})',
+  'aiError.emptyResponse': 'O modelo devolveu uma resposta vazia',
+  'aiError.emptySearch': 'O modelo devolveu uma pesquisa vazia',
+  'aiError.invalidJson': 'O modelo devolveu JSON inválido: {excerpt}',
+  'aiError.schemaViolation': 'Resposta do modelo com formato inesperado: {issues}',
+  'aiError.network': 'Erro de rede ao contactar o modelo: {cause}',
+
+  'validation.notAList': 'esperava-se uma lista de empresas',
+  'validation.strategyNotObject': 'a estratégia não é um objeto',
+  'validation.missingField': 'falta {field}',
+  'validation.notObject': 'não é um objeto',
+  'validation.noCompanyName': 'sem nome de empresa',
+  'validation.unknownChatbotStatus': 'chatbotStatus "{value}" desconhecido',
+  'validation.invalidContactDropped': 'contacto inválido descartado',
+  'validation.invalidEmail': 'email "{email}" inválido',
+  'validation.emptyContactDropped': 'contacto vazio descartado',
+  'validation.unknownSeniority': 'seniority "{value}" → unknown',
+  'validation.invalidWebsite': 'site "{website}" inválido',
+  'validation.needScore': 'needScore {from} → {to}',
+  'validation.invalidSocialLinks': '{count} ligações sociais inválidas',
+  'validation.contactsNotList': 'contacts não é uma lista',
+  'validation.unknownCountry': 'país "{country}" desconhecido',
+
+  'import.noLeadList': 'O JSON não contém uma lista de leads',
+  'import.emptyFile': 'O ficheiro está vazio',
+  'import.invalidXlsx': 'O ficheiro não é um XLSX válido',
+  'import.noSheets': 'O XLSX não contém folhas',
+};
+
+const fr: Messages = {
+  'header.usage': "Consommation de l'API",
+  'header.settings': 'Paramètres',
+  'intro.title': 'Agent de Prospection B2B',
+  'intro.lead': 'Une Intelligence Artificielle autonome qui trouve les',
+  'intro.decisionMakers': 'Décideurs',
+  'intro.tail': 'et écarte les chatbots.',
+
+  'mode.manual': 'Mode Manuel',
+  'mode.agent': 'Agent Autonome',
+  'mode.bulk': 'Liste de Sites',
+
+  'manual.title': 'Coller du Texte Brut',
+  'manual.sample': 'Charger un Exemple',
+  'manual.placeholder': 'Collez ici le contenu des sites web...',
+  'manual.clear': 'Effacer',
+  'manual.analyze': 'Analyser le Texte',
+  'manual.empty': 'Veuillez saisir du texte à analyser.',
+  'manual.error': 'Une erreur est survenue lors du traitement du texte.',
+
+  'agent.title': 'Pilote Automatique',
+  'agent.editProfile': 'Modifier le profil client idéal',
+  'agent.searchHistory': 'Historique des recherches',
+  'agent.coverage': 'Carte de couverture',
+  'agent.runHistory': 'Historique des cycles',
+  'agent.looping': 'Boucle Active',
+  'agent.cooling': 'Refroidissement ({time})',
+  'agent.manageCampaigns': 'Gérer les campagnes',
+  'agent.noCampaign': 'Exploration libre (sans campagne)',
+  'agent.qualified': 'Qualifiés',
+  'agent.cycles': 'Cycles',
+  'agent.calls': 'Appels',
+  'agent.target': 'Cible',
+  'agent.zone': 'Zone',
+  'agent.waiting': "En attente de l'étude de marché...",
+  'agent.idle': 'Système en attente. Appuyez sur START.',
+  'agent.stop': 'ARRÊTER LA BOUCLE',
+  'agent.start': 'LANCER LA DÉCOUVERTE AUTO',
+  'agent.cycleRunning': 'Cycle en cours...',
+
+  'stats.campaign': 'Campagne · {name}',
+  'stats.database': 'Base de Données (Mémoire)',
+  'stats.opportunities': 'Opportunités',
+  'stats.highPriority': 'Priorité Haute',
+
+  'results.title': 'Résultats Globaux',
+  'results.clearQueueConfirm': "Vider la file d'enrichissement IA ?",
+  'results.queuePaused': "Enrichissement en pause pendant que l'agent cherche. Cliquez pour vider la file.",
+  'results.queuePending': "Entreprises en attente d'enrichissement IA. Cliquez pour vider la file.",
+  'results.mergeReviews': 'Examiner les doublons possibles',
+  'results.undo': 'Annuler : {label}',
+  'results.nothingToUndo': 'Rien à annuler',
+  'results.addLead': 'Ajouter un lead à la main',
+  'results.import': 'Importer CSV, Excel ou JSON',
+  'results.tableView': 'Vue Tableau',
+  'results.boardView': 'Vue Pipeline',
+  'results.clearMemory': 'Effacer la Mémoire',
+  'results.clearMemoryConfirm': 'Voulez-vous vraiment effacer toute la mémoire et les leads extraits ?',
+  'results.export': 'Exporter',
+  'results.researching': 'Étude du marché...',
+  'results.analyzing': 'Analyse...',
+  'results.searchingFor': 'Recherche de {niche} à {location}',
+  'results.thinking': "L'agent réfléchit.",
+  'results.emptyTitle': 'Mémoire Vide',
+  'results.emptyHint': "Activez le mode « Agent Autonome » pour que l'IA trouve des clients pour vous automatiquement.",
+
+  'scope.filtered': 'Vue filtrée',
+  'scope.all': 'Toute la base',
+  'scope.selection': 'Sélection',
+
+  'bulk.discardConfirm': 'Abandonner la liste ? Les leads déjà créés sont conservés.',
+
+  'undo.edit': 'Modifications de {company}',
+  'undo.deleteOne': 'Supprimer {company}',
+  'undo.deleteMany': 'Supprimer {count} leads',
+  'undo.add': 'Ajouter {company}',
+
+  'filters.search': 'Rechercher entreprise, contact, email...',
+  'filters.any': '{label} : tous',
+  'filters.yes': '{label} : oui',
+  'filters.no': '{label} : non',
+  'filters.chatbotAny': 'Chatbot : tous',
+  'filters.noChatbot': 'Sans chatbot',
+  'filters.withChatbot': 'Avec chatbot',
+  'filters.score': 'Score',
+  'filters.decisionMaker': 'Décideur',
+  'filters.originAny': 'Origine : toutes',
+  'filters.campaignAny': 'Campagne : toutes',
+  'filters.countryAny': 'Pays : tous',
+  'filters.noCountry': 'Sans pays',
+  'filters.clear': 'Effacer',
+
+  'table.selected': '{count} sélectionnés',
+  'table.export': 'Exporter',
+  'table.delete': 'Supprimer',
+  'table.deselect': 'Désélectionner',
+  'table.selectAll': 'Sélectionner tous les résultats filtrés',
+  'table.company': 'Entreprise',
+  'table.decisionMaker': 'Décideur & Rôle',
+  'table.contact': 'Contact Digital',
+  'table.needScore': 'Need Score',
+  'table.reason': 'Motif / Analyse',
+  'table.status': 'Statut',
+  'table.date': 'Date',
+  'table.noMatches': 'Aucun lead ne correspond aux filtres.',
+  'table.noName': 'Nom non disponible',
+  'table.unknownRole': 'Rôle Inconnu',
+  'table.contacts': '{count} contacts',
+  'table.notes': 'Notes et historique',
+  'table.sources': 'Sources et provenance',
+  'table.edit': 'Modifier',
+  'table.enrich': 'Enrichir : rechercher à nouveau cette entreprise',
+  'table.saveChanges': 'Enregistrer',
+  'table.unnamed': 'Sans nom',
+  'table.range': '{from}–{to} sur {total}',
+  'table.filteredFrom': ' (filtrés sur {total})',
+  'table.perPage': '{size} / page',
+  'table.market': 'Marché : {country}',
+
+  'email.learnedPattern': 'Format appris de {count} email(s) personnels du domaine',
+  'email.defaultPattern': 'Format par défaut (aucun email personnel connu du domaine)',
+  'email.inferred': 'déduit {confidence}%',
+
+  'chatbot.rules': 'Détecté dans le HTML',
+  'chatbot.llm': "Avis de l'IA",
+  'chatbot.rulesAndLlm': "HTML et IA d'accord",
+  'chatbot.verdict': '{verdict} (IA : {status})',
+  'chatbot.unverified': "Avis de l'IA (HTML non vérifié)",
+  'chatbot.yes': 'Chatbot',
+  'chatbot.no': 'Sans chatbot',
+
+  'score.noBreakdown': "Score de l'IA (sans détail)",
+  'score.override': 'Fixé à la main : {score}',
+  'score.total': 'Need Score {score} / 5 (base 1)',
+  'score.contribution': '+{points} {factor} (poids {weight}) : {detail}',
+
+  'pipeline.new': 'Nouveau',
+  'pipeline.contacted': 'Contacté',
+  'pipeline.replied': 'A répondu',
+  'pipeline.meeting': 'Rendez-vous',
+  'pipeline.won': 'Gagné',
+  'pipeline.lost': 'Perdu',
+  'pipeline.do-not-contact': 'Ne pas contacter',
+
+  'addLead.submit': 'Ajouter le lead',
+
+  'board.score': 'Score {score}',
+
+  'common.cancel': 'Annuler',
+  'common.close': 'Fermer',
+  'common.retry': 'Réessayer',
+
+  'leadForm.website': 'Site web',
+  'leadForm.websitePlaceholder': 'entreprise.fr',
+  'leadForm.sector': 'Secteur',
+  'leadForm.country': 'Pays',
+  'leadForm.detect': 'Détecter',
+  'leadForm.chatbot': 'Chatbot',
+  'leadForm.no': 'Non',
+  'leadForm.yes': 'Oui',
+  'leadForm.auto': 'Auto',
+  'leadForm.socialLinks': 'Réseaux sociaux (un par ligne)',
+  'leadForm.contacts': 'Contacts',
+  'leadForm.addContact': 'Ajouter un contact',
+  'leadForm.name': 'Nom',
+  'leadForm.role': 'Fonction',
+  'leadForm.email': 'E-mail',
+  'leadForm.seniority': 'Niveau',
+  'leadForm.removeContact': 'Retirer le contact',
+  'leadForm.companyRequired': "Le nom de l'entreprise est obligatoire",
+  'leadForm.invalidDomain': 'Domaine non valide (ex. : entreprise.fr)',
+  'leadForm.invalidLink': 'Lien non valide : {link}',
+  'leadForm.nameOrEmail': 'Indiquez au moins un nom ou un e-mail',
+  'leadForm.invalidEmail': 'E-mail non valide',
+
+  'seniority.c-level': 'Direction générale',
+  'seniority.director': 'Directeur',
+  'seniority.manager': 'Responsable',
+  'seniority.staff': 'Employé',
+  'seniority.department': 'Service',
+  'seniority.unknown': 'Inconnu',
+
+  'enrich.title': 'Enrichir {company}',
+  'enrich.subtitle': 'Nouvelle recherche des décideurs, du chatbot et des réseaux sociaux. Choisissez les changements à appliquer.',
+  'enrich.researching': "Recherche sur l'entreprise...",
+  'enrich.nothingNew': "La recherche n'a rien trouvé de nouveau.",
+  'enrich.reject': 'Refuser',
+  'enrich.apply': 'Appliquer {count} changements',
+  'enrich.hasChatbot': 'A un chatbot',
+  'enrich.emptyContact': 'Contact sans données',
+  'enrich.newContact': 'Nouveau contact',
+  'enrich.completedContact': 'Contact complété',
+  'enrich.newSocialLink': 'Nouveau réseau social',
+  'enrich.websiteAgeHints': "Indices d'ancienneté du site",
+
+  'notes.history': 'Historique',
+  'notes.title': 'Notes',
+  'notes.empty': 'Pas encore de notes.',
+  'notes.placeholder': 'Ajouter une note (ex. : Appelé, demande une proposition par e-mail)...',
+  'notes.save': 'Enregistrer la note',
+
+  'sources.noOrigin': 'Ce lead a été enregistré avant que sa provenance ne soit suivie.',
+  'sources.query': 'Recherche',
+  'sources.cycleAt': 'Cycle du {date}',
+  'sources.sources': 'Sources ({count})',
+  'sources.noSources': 'Aucune source web enregistrée.',
+  'sources.cycleSource': "Source du cycle, ne mentionne pas l'entreprise",
+  'sources.excerpt': "Texte d'origine",
+
+  'merge.title': 'Doublons possibles',
+  'merge.empty': 'Aucune fusion en attente.',
+  'merge.similarity': 'Similarité {percent} %',
+  'merge.existing': 'En mémoire',
+  'merge.missing': "L'enregistrement d'origine n'existe plus.",
+  'merge.incoming': 'Nouveau',
+  'merge.keepSeparate': 'Garder séparés',
+  'merge.merge': 'Fusionner',
+
+  'runs.summary': '{count} cycles · {failed} en échec ou interrompus',
+  'runs.empty': "L'agent n'a encore exécuté aucun cycle.",
+  'runs.retryOf': 'Nouvelle tentative',
+  'runs.noStrategy': 'Sans stratégie',
+  'runs.outcome': '{found} trouvés · {inserted} nouveaux · {merged} fusionnés',
+  'runs.profile': 'Profil : {name}',
+  'runs.waitForCycle': 'Attendez la fin du cycle en cours',
+  'runs.retrySameStrategy': 'Réessayer avec la même stratégie',
+
+  'runStatus.running': 'En cours',
+  'runStatus.succeeded': 'Terminé',
+  'runStatus.failed': 'Échoué',
+  'runStatus.interrupted': 'Interrompu',
+
+  'runPhase.planning': 'Stratégie',
+  'runPhase.searching': 'Recherche',
+  'runPhase.ingesting': 'Enregistrement',
+
+  'searches.summary': "{count} recherches · {pinned} épinglées · {blocked} bloquées. Les requêtes proches d'une précédente ou d'une bloquée sont écartées avant la recherche.",
+  'searches.blockPlaceholder': 'Bloquer une recherche (ex. : salles de sport Lyon)',
+  'searches.block': 'Bloquer',
+  'searches.filterPlaceholder': 'Filtrer par requête, niche ou zone',
+  'searches.all': 'Toutes',
+  'searches.empty': "Aucune recherche pour l'instant. Elles sont enregistrées à la fin de chaque cycle de l'agent.",
+  'searches.noMatches': 'Aucune recherche ne correspond au filtre.',
+  'searches.statsOne': '{runs} exécution · {found} leads · {inserted} nouveaux',
+  'searches.statsMany': '{runs} exécutions · {found} leads · {inserted} nouveaux',
+  'searches.unpin': 'Désépingler',
+  'searches.pin': 'Épingler : elle peut être répétée et est toujours montrée au stratège',
+  'searches.unblock': 'Débloquer',
+  'searches.blockHint': 'Bloquer : ne jamais rechercher rien de semblable',
+  'searches.delete': "Retirer de l'historique : l'agent pourra la relancer",
+
+  'searchStatus.normal': 'Normale',
+  'searchStatus.pinned': 'Épinglée',
+  'searchStatus.blacklisted': 'Bloquée',
+
+  'coverage.summary': '{count} segments · {cycles} cycles. Le stratège utilise ce rendement pour choisir le segment suivant.',
+  'coverage.empty': "Aucun cycle terminé pour l'instant. La carte se remplit à mesure que l'agent explore niches et zones.",
+  'coverage.heatmap': 'Carte de chaleur',
+  'coverage.table': 'Tableau',
+  'coverage.unexplored': 'Inexploré',
+  'coverage.legend': 'Chaque cellule indique les leads par cycle ; la couleur, son rendement pondéré par le need score face au meilleur segment. Rouge : aucun lead. Vide : inexploré.',
+  'coverage.segment': 'Niche · Zone',
+  'coverage.leads': 'Leads',
+  'coverage.leadsPerCycle': 'Leads/cycle',
+  'coverage.cellTotals': '{cycles} cycles · {candidates} candidates · {leads} leads ({inserted} nouveaux)',
+  'coverage.cellQuality': 'Need score moyen {score} · {chatbot} % avec chatbot',
+
+  'bulk.companies': '{count} entreprises',
+  'bulk.placeholder': "Un site ou nom d'entreprise par ligne :\nentreprise.fr\nhttps://www.autre-entreprise.com\nCabinet Dentaire Sourire",
+  'bulk.concurrency': 'En parallèle',
+  'bulk.create': 'Créer la file',
+  'bulk.progress': '{finished}/{total} traitées · {done} terminées · {notFound} sans données · {failed} en erreur',
+  'bulk.pause': 'Pause',
+  'bulk.resume': 'Reprendre',
+  'bulk.start': 'Démarrer',
+  'bulk.retryFailed': 'Réessayer tous les échecs',
+  'bulk.discard': 'Abandonner la liste',
+
+  'bulkStatus.pending': 'En attente',
+  'bulkStatus.running': 'En cours',
+  'bulkStatus.done': 'Terminée',
+  'bulkStatus.notFound': 'Sans données',
+  'bulkStatus.failed': 'Erreur',
+
+  'icp.title': 'Profil de client idéal',
+  'icp.deleteConfirm': 'Supprimer le profil « {name} » ?',
+  'icp.copyName': '{name} (copie)',
+  'icp.duplicate': 'Dupliquer le profil',
+  'icp.new': 'Nouveau profil',
+  'icp.delete': 'Supprimer le profil',
+  'icp.name': 'Nom',
+  'icp.market': 'Marché',
+  'icp.countries': 'Pays',
+  'icp.countriesPlaceholder': 'France, Espagne',
+  'icp.regions': 'Régions / villes préférées',
+  'icp.regionsPlaceholder': 'Île-de-France, Lyon',
+  'icp.includeSectors': 'Secteurs cibles',
+  'icp.excludeSectors': 'Secteurs exclus',
+  'icp.excludeSectorsPlaceholder': 'Hôtellerie, Agences immobilières',
+  'icp.companySize': "Taille d'entreprise",
+  'icp.decisionMakers': 'Décideurs',
+  'icp.targetRoles': 'Fonctions cibles',
+  'icp.requireTargetRole': 'Écarter les entreprises sans contact à une fonction cible',
+  'icp.disqualifyingTech': 'Technologies disqualifiantes',
+  'icp.anyChatbot': "N'importe quel chatbot",
+  'icp.scoring': 'Critères du Need Score',
+  'icp.scoringHigh': '5 · Besoin élevé',
+  'icp.scoringLow': '1 · Besoin faible',
+
+  'campaigns.title': 'Campagnes',
+  'campaigns.newName': 'Nouvelle campagne',
+  'campaigns.deleteConfirm': 'Supprimer la campagne « {name} » ? Les leads sont conservés.',
+  'campaigns.stopToSwitch': 'Arrêtez la boucle pour changer de campagne',
+  'campaigns.new': 'Nouvelle campagne',
+  'campaigns.delete': 'Supprimer la campagne',
+  'campaigns.none': "Sans campagne, l'agent explore sans limite avec le profil actif. Créez une campagne pour fixer un objectif, restreindre niches et régions, et arrêter la boucle d'elle-même une fois l'objectif atteint.",
+  'campaigns.reopen': 'Réactiver',
+  'campaigns.qualified': 'Leads qualifiés',
+  'campaigns.apiCalls': "Appels à l'API",
+  'campaigns.objective': 'Objectif',
+  'campaigns.objectivePlaceholder': '50 cabinets dentaires qualifiés en Occitanie',
+  'campaigns.constraints': 'Restrictions',
+  'campaigns.niches': 'Niches',
+  'campaigns.nichesPlaceholder': 'Vide : les secteurs du profil',
+  'campaigns.regions': 'Régions / villes',
+  'campaigns.regionsPlaceholder': 'Vide : les régions du profil',
+  'campaigns.limits': 'Objectif et limites',
+  'campaigns.leadTarget': 'Leads visés',
+  'campaigns.minNeedScore': 'Need score minimum',
+  'campaigns.maxCycles': 'Cycles max.',
+  'campaigns.maxApiCalls': 'Appels API max.',
+  'campaigns.cycleDelay': 'Pause entre cycles (s)',
+  'campaigns.qualifiedHint': "Comptent pour l'objectif les leads de cette campagne sans chatbot ayant le need score minimum.",
+
+  'campaignStatus.active': 'Active',
+  'campaignStatus.completed': 'Objectif atteint',
+  'campaignStatus.stopped': 'Arrêtée par une limite',
+
+  'export.title': 'Exporter les leads',
+  'export.summary': '{scope} : {count} entreprises · {rows} lignes',
+  'export.file': 'Fichier',
+  'export.crm': 'CRM',
+  'export.crmColumns': "Colonnes nommées d'après les champs de {crm}.",
+  'export.crmZip': "Colonnes nommées d'après les champs de {crm} : un ZIP avec {sheets}, à importer dans cet ordre.",
+  'export.skipSynced': 'Ignorer les leads déjà synchronisés avec {crm} ({count})',
+  'export.format': 'Format',
+  'export.formatCsv': 'CSV',
+  'export.formatXlsx': 'Excel (XLSX)',
+  'export.formatJson': 'JSON (enregistrement complet)',
+  'export.delimiter': 'Séparateur',
+  'export.semicolon': 'Point-virgule (;)',
+  'export.comma': 'Virgule (,)',
+  'export.tab': 'Tabulation',
+  'export.columns': 'Colonnes',
+  'export.splitByCountryOne': 'Un fichier par marché ({count} pays), dans un ZIP',
+  'export.splitByCountryMany': 'Un fichier par marché ({count} pays), dans un ZIP',
+  'export.noColumns': 'Sélectionnez au moins une colonne.',
+  'export.pushFailed': 'Envoi interrompu après {synced} leads sur {total} : {error}',
+  'export.toSync': '{count} leads à synchroniser',
+  'export.noEndpoint': "Configurez l'endpoint dans les Paramètres",
+  'export.sending': 'Envoi {done}/{total}',
+  'export.send': 'Envoyer',
+  'export.download': 'Télécharger',
+
+  'import.title': 'Importer des leads',
+  'import.subtitle': 'CSV, Excel (XLSX) ou JSON. Les doublons sont fusionnés avec la base existante.',
+  'import.readFailed': 'Impossible de lire {file} : {error}',
+  'import.failed': "Échec de l'import : {error}",
+  'import.result': '{inserted} nouveaux · {merged} fusionnés · {pending} à vérifier',
+  'import.queued': "{count} entreprises en file d'enrichissement IA.",
+  'import.stepFile': '1. Fichier',
+  'import.records': '{count} enregistrements complets de leads. Ils sont importés tels quels, sans correspondance de colonnes.',
+  'import.noName': '(sans nom)',
+  'import.rejected': '{count} enregistrements écartés pour données non valides.',
+  'import.stepColumns': '2. Colonnes ({rows} lignes)',
+  'import.column': 'Colonne {index}',
+  'import.needIdentity': 'Associez au moins la colonne Entreprise ou Site web.',
+  'import.stepEnrich': '{step}. Enrichissement',
+  'import.enrich': "Mettre en file pour l'enrichissement IA",
+  'import.enrichHint': 'Recherche les décideurs et e-mails et vérifie le chatbot de chaque entreprise, une par une en arrière-plan.',
+  'import.toImport': '{count} entreprises à importer',
+  'import.noFile': 'Aucun fichier sélectionné',
+  'import.import': 'Importer',
+
+  'importField.ignore': '— Ignorer —',
+  'importField.companyName': 'Entreprise',
+  'importField.website': 'Site web',
+  'importField.contactName': 'Nom du contact',
+  'importField.role': 'Fonction',
+  'importField.email': 'E-mail',
+  'importField.sector': 'Secteur',
+  'importField.reason': 'Motif / notes',
+  'importField.socialLinks': 'Réseaux sociaux',
+  'importField.needScore': 'Need Score',
+  'importField.chatbotStatus': 'Chatbot',
+  'importField.country': 'Pays',
+
+  'settings.language': "Langue de l'interface",
+  'settings.languageHint': "Traduit toute l'interface et la console de l'agent. La langue de recherche dépend du marché de chaque profil.",
+  'settings.emailQuality': 'Qualité des e-mails (agent)',
+  'settings.minConfidence': 'Confiance minimale :',
+  'settings.allowGeneric': 'Accepter les boîtes génériques (info@, contact@)',
+  'settings.allowFreeMail': 'Accepter les messageries gratuites (gmail, orange)',
+  'settings.requireDomainMatch': 'Exiger que le domaine corresponde au site',
+  'settings.weights': 'Pondération du Need Score',
+  'settings.reset': 'Réinitialiser',
+  'settings.weightsHint': 'Modifier les poids recalcule le score de toute la base.',
+  'settings.crm': 'Envoi vers le CRM',
+  'settings.crmHint': "Endpoint REST qui reçoit les leads au format du CRM choisi à l'export. Vide désactive l'envoi.",
+  'settings.endpoint': "URL de l'endpoint",
+  'settings.token': 'Jeton (facultatif)',
+
+  'scoreFactor.noChatWidget': 'Pas de chat sur le site',
+  'scoreFactor.noCorporateLinkedin': "Pas de LinkedIn d'entreprise",
+  'scoreFactor.contactChannel': 'Canal de contact',
+  'scoreFactor.decisionMaker': 'Décideur identifié',
+  'scoreFactor.emailQuality': "Qualité de l'e-mail",
+  'scoreFactor.websiteAge': 'Site vieillissant',
+  'scoreFactor.modelAssessment': "Avis de l'IA",
+
+  'usage.subtitle': "Requêtes, tokens et coût estimé par modèle. Les limites s'appliquent à tous les appels.",
+  'usage.lastMinute': 'Dernière minute',
+  'usage.queued': '{count} en attente',
+  'usage.requestsOf': '{count}/{max} requêtes',
+  'usage.today': "Aujourd'hui · {count} requêtes",
+  'usage.rateLimited': '{count} refusées (429)',
+  'usage.tokensOf': '{count}/{max} tokens',
+  'usage.costToday': "Coût estimé aujourd'hui :",
+  'usage.remaining': 'il reste ≈ {count} requêtes au rythme actuel',
+  'usage.estimated': "{count} sans données d'usage (estimées)",
+  'usage.rpm': 'Requêtes par minute',
+  'usage.tokensPerDay': 'Tokens par jour',
+  'usage.inputPrice': "$ / M tokens d'entrée",
+  'usage.outputPrice': '$ / M tokens de sortie',
+  'usage.zeroDisables': '0 désactive la limite.',
+  'usage.lastDays': '{count} derniers jours',
+  'usage.resetConfirm': 'Réinitialiser les compteurs de consommation ?',
+  'usage.reset': 'Réinitialiser',
+  'usage.day': 'Jour',
+  'usage.requests': 'Requêtes',
+  'usage.tokens': 'Tokens',
+  'usage.cost': 'Coût',
+
+  'emailKind.personal': 'Personnel',
+  'emailKind.departmental': 'Service',
+  'emailKind.generic': 'Générique',
+  'emailKind.no-reply': 'No-reply',
+  'emailKind.free-mail': 'Messagerie gratuite',
+  'emailKind.invalid': 'Non valide',
+
+  'origin.unknown': 'Origine inconnue',
+  'origin.manual': 'Saisie manuelle',
+  'origin.import': 'Importé',
+  'origin.agent': 'Agent',
+
+  'exportColumn.companyName': "Nom de l'entreprise",
+  'exportColumn.contactName': 'Nom du contact',
+  'exportColumn.role': 'Fonction',
+  'exportColumn.seniority': 'Niveau',
+  'exportColumn.email': 'E-mail',
+  'exportColumn.emailConfidence': 'Confiance e-mail',
+  'exportColumn.inferredEmail': 'E-mail déduit (non vérifié)',
+  'exportColumn.inferredPattern': 'Modèle déduit',
+  'exportColumn.website': 'Site web',
+  'exportColumn.sector': 'Secteur',
+  'exportColumn.country': 'Pays',
+  'exportColumn.needScore': 'Niveau de besoin',
+  'exportColumn.chatbotStatus': 'Chatbot',
+  'exportColumn.reason': 'Motif',
+  'exportColumn.socialLinks': 'Réseaux sociaux',
+  'exportColumn.pipelineStatus': 'Statut',
+  'exportColumn.createdAt': "Date d'ajout",
+  'exportColumn.origin': 'Origine',
+  'exportColumn.sources': 'Sources',
+
+  'approach.exploit': 'Exploiter',
+  'approach.explore': 'Explorer',
+
+  'history.similarToBlocked': 'elle ressemble à la recherche bloquée « {query} » ({percent} %)',
+  'history.alreadySearched': '« {query} » a déjà été recherché ({percent} % similaire)',
+
+  'campaignStop.target': '{qualified} leads qualifiés sur {target}',
+  'campaignStop.cycles': 'Limite de {max} cycles atteinte',
+  'campaignStop.apiCalls': "Limite de {max} appels à l'API atteinte",
+
+  'enrich.failed': "Impossible d'étudier l'entreprise : {error}",
+
+  'log.enriched': '✅ {company} enrichie : {count} contacts trouvés.',
+  'log.enrichFailed': "❌ Impossible d'enrichir {company} : {error}",
+  'log.quotaPause': '⏳ {error}. Pause de {duration}...',
+  'log.resuming': '🔁 Reprise du cycle interrompu par le rechargement...',
+  'log.cooldownOver': '🟢 Refroidissement terminé. Reprise des opérations...',
+  'log.queryRejected': '🚫 Requête écartée, {reason} : « {query} »',
+  'log.repeatedPlans': 'Le stratège a répété des recherches passées {count} fois de suite',
+  'log.retryingStrategy': '🔁 Nouvelle tentative de la stratégie : {niche} à {location}',
+  'log.planning': "🔵 [PHASE 1] Lancement de l'étude de marché...",
+  'log.strategy': '💡 STRATÉGIE DÉFINIE ({approach}) : {niche} à {location}',
+  'log.reasoning': '⚖️ Raison : {reasoning}',
+  'log.searching': "🔵 [PHASE 2] Exécution de l'agent de recherche...",
+  'log.merged': '♻️ {count} doublons déjà en mémoire ont été fusionnés.',
+  'log.pendingReview': '🔀 {count} doublons possibles en attente de vérification.',
+  'log.cycleFailed': '❌ Erreur dans le cycle : {error}... Nouvelle tentative sous peu.',
+  'log.campaignFinished': '🏁 Campagne « {name} » terminée : {reason}. Boucle arrêtée.',
+  'log.campaignOver': '⛔ La campagne « {name} » est déjà terminée. Réactivez-la ou choisissez-en une autre pour continuer.',
+
+  'log.repaired': '🩹 {count} leads aux données corrigées : {details}.',
+  'log.dropped': '🗑️ {count} leads écartés pour données non valides : {details}.',
+  'log.checkingWidgets': '🕵️ Vérification des widgets de chat sur {count} sites...',
+  'log.htmlUnavailable': "⚠️ Impossible de télécharger {website}. L'avis de l'IA est conservé.",
+  'log.workerStart': '🤖 [WORKER : {model}] Lancement de la recherche de dirigeants (headhunting)...',
+  'log.webSearch': '🔍 Recherche Google de profils de dirigeants...',
+  'log.searchDone': '✅ Recherche terminée. Analyse des profils...',
+  'log.sources': '🌐 Sources consultées : {count} sites web.',
+  'log.searchFailed': '❌ Échec de la recherche avec {model}. Vérification du quota...',
+  'log.applyingProfile': '🧠 [SUPPORT] Application du profil « {profile} » et vérification des postes...',
+  'log.companyRejected': '🚫 {company} écartée : {reason}.',
+  'log.untrustedEmails': '📭 {count} entreprises sans email suffisamment fiable ont été écartées.',
+  'log.noneQualified': "⚠️ {count} candidats trouvés, mais aucun n'a passé les filtres de qualité.",
+  'log.qualified': '✨ Succès : {count} leads qualifiés.',
+  'log.structuringFailed': '❌ Erreur lors de la structuration des données.',
+  'log.enriching': '🧩 Enrichissement de {company}...',
+  'log.nothingNew': '🤷 Aucune donnée nouvelle trouvée pour {company}.',
+
+  'icpRejection.chatbot': 'A un chatbot',
+  'icpRejection.vendor': 'Utilise {vendor}',
+  'icpRejection.sector': 'Secteur exclu ({sector})',
+  'icpRejection.noTargetRole': 'Aucun décideur au poste ciblé',
+
+  'crm.unknownName': 'Inconnu',
+  'export.doNotContactExcluded': '{count} leads marqués « Ne pas contacter » sont exclus',
+
+  'text.asWritten': '{text}',
+
+  'scoreDetail.chatDetected': 'Chat détecté ({vendors})',
+  'scoreDetail.aiChatbot': "L'IA a détecté un chatbot",
+  'scoreDetail.whatsappOnly': 'Lien WhatsApp uniquement',
+  'scoreDetail.noWidgets': 'HTML vérifié, aucun widget de chat',
+  'scoreDetail.aiNoChatbot': "Pas de chatbot selon l'IA",
+  'scoreDetail.linkedinCompany': 'A une page entreprise sur LinkedIn',
+  'scoreDetail.linkedinPersonal': 'Seulement des profils LinkedIn personnels',
+  'scoreDetail.noLinkedin': 'Absent de LinkedIn',
+  'scoreDetail.personalEmail': 'E-mail personnel',
+  'scoreDetail.departmentEmail': 'E-mail de service',
+  'scoreDetail.freeEmail': 'E-mail gratuit',
+  'scoreDetail.genericMailbox': 'Boîte générique',
+  'scoreDetail.noUsableEmail': 'Aucun e-mail exploitable',
+  'scoreDetail.noNamedContact': 'Aucun contact nommé',
+  'scoreDetail.decisionMaker': '{name} ({seniority})',
+  'scoreDetail.bestConfidence': 'Meilleure confiance {confidence} %',
+  'scoreDetail.noWebsite': 'Pas de site propre',
+  'scoreDetail.noAgeHints': 'Aucun indice de site ancien',
+  'scoreDetail.modelScore': "L'IA a noté {score}/5",
+
+  'emailIssue.invalidSyntax': 'Syntaxe invalide',
+  'emailIssue.noReply': 'Adresse no-reply',
+  'emailIssue.freeMail': 'Messagerie gratuite, pas professionnelle',
+  'emailIssue.generic': 'Boîte générique',
+  'emailIssue.domainMismatch': 'Le domaine ne correspond pas au site',
+  'emailIssue.disposable': 'Domaine de messagerie jetable',
+
+  'matchReason.sameEmail': 'Même e-mail ({email})',
+  'matchReason.sameWebsite': 'Même domaine web ({domain})',
+  'matchReason.sameEmailDomain': "Même domaine d'e-mail ({domain})",
+  'matchReason.emailMatchesWebsite': "Le domaine de l'e-mail correspond au site",
+  'matchReason.sameName': 'Nom équivalent',
+  'matchReason.similarName': 'Nom similaire ({percent} %)',
+
+  'runs.interrupted': "L'onglet a été fermé ou rechargé pendant le cycle.",
+  'bulk.jobName': 'Liste {date}',
+
+  'aiError.dailyBudget': 'Budget quotidien de {tokens} tokens épuisé pour {model}',
+  'aiError.tooManyRequests': 'Limite de requêtes de {model} dépassée (429)',
+  'aiError.safetyBlocked': 'Réponse bloquée par le filtre de sécurité du modèle ({reason})',
+  'aiError.emptyResponse': 'Le modèle a renvoyé une réponse vide',
+  'aiError.emptySearch': 'Le modèle a renvoyé une recherche vide',
+  'aiError.invalidJson': 'Le modèle a renvoyé un JSON invalide : {excerpt}',
+  'aiError.schemaViolation': 'Réponse du modèle au format inattendu : {issues}',
+  'aiError.network': 'Erreur réseau en contactant le modèle : {cause}',
+
+  'validation.notAList': "une liste d'entreprises était attendue",
+  'validation.strategyNotObject': "la stratégie n'est pas un objet",
+  'validation.missingField': '{field} manquant',
+  'validation.notObject': "n'est pas un objet",
+  'validation.noCompanyName': "sans nom d'entreprise",
+  'validation.unknownChatbotStatus': 'chatbotStatus « {value} » inconnu',
+  'validation.invalidContactDropped': 'contact invalide écarté',
+  'validation.invalidEmail': 'e-mail « {email} » invalide',
+  'validation.emptyContactDropped': 'contact vide écarté',
+  'validation.unknownSeniority': 'seniority « {value} » → unknown',
+  'validation.invalidWebsite': 'site « {website} » invalide',
+  'validation.needScore': 'needScore {from} → {to}',
+  'validation.invalidSocialLinks': '{count} liens sociaux invalides',
+  'validation.contactsNotList': "contacts n'est pas une liste",
+  'validation.unknownCountry': 'pays « {country} » inconnu',
+
+  'import.noLeadList': 'Le JSON ne contient pas de liste de leads',
+  'import.emptyFile': 'Le fichier est vide',
+  'import.invalidXlsx': "Le fichier n'est pas un XLSX valide",
+  'import.noSheets': 'Le XLSX ne contient aucune feuille',
+};
+
+const MESSAGES: Record<UiLanguage, Messages> = { es, en, pt, fr };
+
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+/**
+ * Looks up a message and fills its {placeholders}.
+ */
+export const translator = (language: UiLanguage): Translate => (key, params) => {
+  const template = (MESSAGES[language] || es)[key];
+  return params ? template.replace(/\{(\w+)\}/g, (match, name) => name in params ? String(params[name]) : match) : template;
+};
+
+/**
+ * Text a service produces for the interface, kept as a key and its parameters
+ * so saved records are shown in whatever language is current. A parameter can
+ * itself be a message, or a list of them.
+ */
+export interface Message {
+  key: MessageKey;
+  params?: Record<string, string | number | Message | Message[]>;
+}
+
+// Text that has no key: a vendor's error, or one saved before messages were stored as keys
+export const asWritten = (text: string): Message => ({ key: 'text.asWritten', params: { text } });
+
+export const formatMessage = (t: Translate, { key, params }: Message): string => {
+  if (!params) return t(key);
+  const format = (value: string | number | Message | Message[]): string | number =>
+    Array.isArray(value) ? value.map(item => formatMessage(t, item)).join('; ')
+      : typeof value === 'object' ? formatMessage(t, value) : value;
+  return t(key, Object.fromEntries(Object.entries(params).map(([name, value]) => [name, format(value)])));
+};
+
+/**
+ * An error whose text is a message; its `message` is the Spanish wording, for the console.
+ */
+export class MessageError extends Error {
+  constructor(public text: Message) {
+    super(formatMessage(translator('es'), text));
+    this.name = 'MessageError';
+  }
+}
@@ -0,0 +1,63 @@
+import { Company, Contact, IdealCustomerProfile } from "../types";
+import { stripAccents } from "./dedup";
+import { Translate } from "./i18n";
+
+// Matches "any automated chat" in disqualifyingTechnologies
+export const ANY_CHATBOT = 'chatbot';
+
+export const DISQUALIFYING_TECH_OPTIONS: string[] = [
+  ANY_CHATBOT, 'Intercom', 'Zendesk', 'Drift', 'Tidio', 'HubSpot Chat', 'Crisp', 'Tawk.to', 'LiveChat', 'WhatsApp',
+];
+
+// The targeting rules the agent shipped with, kept as the built-in profile
+export const DEFAULT_ICP: IdealCustomerProfile = {
+  id: 'default',
+  name: 'PYMEs de servicios · España',
+  countries: ['España'],
+  regions: [],
+  includeSectors: ['Clínicas', 'Despachos', 'Reformas', 'Agencias locales'],
+  excludeSectors: [],
+  targetRoles: ['CEO', 'Fundador', 'Dueño', 'Director', 'Gerente', 'Marketing', 'Operaciones'],
+  companySize: 'PYMEs donde el contacto con el dueño/gerente es factible. Evita grandes corporaciones.',
+  disqualifyingTechnologies: [ANY_CHATBOT],
+  scoring: {
+    high: 'Web antigua, solo teléfono/fax, sin LinkedIn corporativo.',
+    low: 'Empresa tech, con chatbot y procesos modernos.',
+  },
+  requireTargetRole: false,
+};
+
+export const createProfile = (base: IdealCustomerProfile, name: string): IdealCustomerProfile => ({
+  ...base,
+  id: crypto.randomUUID(),
+  name,
+});
+
+export const formatList = (items: string[], fallback: string) => items.length > 0 ? items.join(', ') : fallback;
+
+const normalize = (value: string) => stripAccents(value.toLowerCase()).trim();
+
+const mentions = (text: string | undefined, terms: string[]) => {
+  if (!text) return false;
+  const haystack = normalize(text);
+  return terms.some(term => term.trim() && haystack.includes(normalize(term)));
+};
+
+/**
+ * Why a lead falls outside the profile, or null if it fits.
+ */
+export const icpRejection = (lead: Company & { contacts: Pick<Contact, 'role'>[] }, profile: IdealCustomerProfile, t: Translate): string | null => {
+  const disqualifying = profile.disqualifyingTechnologies;
+  if (disqualifying.includes(ANY_CHATBOT) && lead.chatbotStatus === 'TIENE_CHATBOT') {
+    return t('icpRejection.chatbot');
+  }
+  const vendor = lead.chatbotEvidence?.vendors.find(v => disqualifying.includes(v));
+  if (vendor) return t('icpRejection.vendor', { vendor });
+
+  if (mentions(lead.sector, profile.excludeSectors)) return t('icpRejection.sector', { sector: lead.sector });
+
+  if (profile.requireTargetRole && !lead.contacts.some(c => mentions(c.role, profile.targetRoles))) {
+    return t('icpRejection.noTargetRole');
+  }
+  return null;
+};
@@ -0,0 +1,138 @@
+import { Contact, ExtractedLead, Lead, Seniority } from "../types";
+import { createContact, inferSeniority } from "./contacts";
+import { normalizeDomain } from "./dedup";
+import { isValidEmailSyntax, withEmailQuality } from "./emailQuality";
+import { Translate } from "./i18n";
+
+// --- MANUAL EDITING ---
+// Form model for editing a lead by hand (or creating one), with its validation.
+
+export interface ContactDraft {
+  id?: string; // absent for contacts added in the form
+  name: string;
+  role: string;
+  email: string;
+  seniority: Seniority;
+}
+
+export interface LeadDraft {
+  companyName: string;
+  website: string;
+  sector: string;
+  country: string; // ISO code; empty = unknown
+  chatbotStatus: Lead['chatbotStatus'];
+  needScoreOverride: number | null; // null = computed
+  reason: string;
+  socialLinks: string; // one URL per line
+  contacts: ContactDraft[];
+}
+
+// Field path -> message. Contact fields use `contacts.<index>.<field>`.
+export type DraftErrors = Record<string, string>;
+
+export const EMPTY_CONTACT: ContactDraft = { name: '', role: '', email: '', seniority: 'unknown' };
+
+export const EMPTY_DRAFT: LeadDraft = {
+  companyName: '',
+  website: '',
+  sector: '',
+  country: '',
+  chatbotStatus: 'OPORTUNIDAD',
+  needScoreOverride: null,
+  reason: '',
+  socialLinks: '',
+  contacts: [EMPTY_CONTACT],
+};
+
+const isBlank = (value: string) => !value.trim() || value.trim().toUpperCase() === 'N/A';
+
+export const toDraft = (lead: Lead): LeadDraft => ({
+  companyName: lead.companyName,
+  website: lead.website === 'N/A' ? '' : lead.website,
+  sector: lead.sector || '',
+  country: lead.country || '',
+  chatbotStatus: lead.chatbotStatus,
+  needScoreOverride: lead.needScoreOverride ?? null,
+  reason: lead.reason,
+  socialLinks: lead.socialLinks.join('\n'),
+  contacts: lead.contacts.map(contact => ({
+    id: contact.id,
+    name: contact.name || '',
+    role: contact.role || '',
+    email: contact.email === 'N/A' ? '' : contact.email,
+    seniority: contact.seniority,
+  })),
+});
+
+const parseLinks = (value: string) => value.split(/\n|,/).map(link => link.trim()).filter(Boolean);
+
+export const validateDraft = (draft: LeadDraft, t: Translate): DraftErrors => {
+  const errors: DraftErrors = {};
+  if (!draft.companyName.trim()) errors.companyName = t('leadForm.companyRequired');
+  if (!isBlank(draft.website) && !/^[a-z0-9-]+(\.[a-z0-9-]+)+$/i.test(normalizeDomain(draft.website))) {
+    errors.website = t('leadForm.invalidDomain');
+  }
+  const badLink = parseLinks(draft.socialLinks).find(link => !/^https?:\/\/\S+\.\S+/i.test(link));
+  if (badLink) errors.socialLinks = t('leadForm.invalidLink', { link: badLink });
+
+  draft.contacts.forEach((contact, i) => {
+    if (!contact.name.trim() && isBlank(contact.email)) {
+      errors[`contacts.${i}.name`] = t('leadForm.nameOrEmail');
+    }
+    if (!isBlank(contact.email) && !isValidEmailSyntax(contact.email)) {
+      errors[`contacts.${i}.email`] = t('leadForm.invalidEmail');
+    }
+  });
+  return errors;
+};
+
+const toContactFields = (contact: ContactDraft) => ({
+  name: contact.name.trim() || undefined,
+  role: contact.role.trim() || undefined,
+  email: isBlank(contact.email) ? 'N/A' : contact.email.trim(),
+  seniority: contact.seniority !== 'unknown' ? contact.seniority : inferSeniority(contact.role),
+});
+
+const companyFields = (draft: LeadDraft) => ({
+  companyName: draft.companyName.trim(),
+  website: isBlank(draft.website) ? 'N/A' : draft.website.trim(),
+  sector: draft.sector.trim() || undefined,
+  country: draft.country || undefined,
+  chatbotStatus: draft.chatbotStatus,
+  needScoreOverride: draft.needScoreOverride ?? undefined,
+  reason: draft.reason.trim(),
+  socialLinks: parseLinks(draft.socialLinks),
+});
+
+/**
+ * Writes a validated draft back onto the lead. Contacts keep their identity;
+ * a changed email gets a fresh quality assessment and loses stale guesses.
+ */
+export const applyDraft = (lead: Lead, draft: LeadDraft): Lead => {
+  const company = companyFields(draft);
+  const contacts: Contact[] = draft.contacts.map(contactDraft => {
+    const fields = toContactFields(contactDraft);
+    const existing = lead.contacts.find(c => c.id === contactDraft.id);
+    if (!existing) return withEmailQuality(createContact(fields, 'manual'), company.website);
+    const emailChanged = existing.email !== fields.email;
+    return withEmailQuality({
+      ...existing,
+      ...fields,
+      inferredEmails: emailChanged ? undefined : existing.inferredEmails,
+    }, company.website);
+  });
+  return { ...lead, ...company, contacts };
+};
+
+/**
+ * A lead typed in by hand, in the same shape the extractor produces.
+ */
+export const draftToExtracted = (draft: LeadDraft): ExtractedLead => {
+  const company = companyFields(draft);
+  return {
+    ...company,
+    needScore: company.needScoreOverride ?? 3,
+    contacts: draft.contacts.map(contact => withEmailQuality(toContactFields(contact), company.website)),
+    origin: { mode: 'manual' },
+  };
+};
@@ -0,0 +1,114 @@
+import { Contact, Lead } from "../types";
+import { mergeContacts } from "./contacts";
+import { mergeOrigins, normalizeDomain } from "./dedup";
+import { Translate } from "./i18n";
+
+// --- ENRICHMENT DIFF ---
+// What a re-research of one company would change, as individual changes
+// the user accepts or rejects before anything is written.
+
+export interface EnrichmentChange {
+  id: string;
+  label: string;
+  before?: string;
+  after: string;
+  apply: (lead: Lead) => Lead;
+}
+
+const hasWebsite = (website: string) => !!website && website !== 'N/A';
+
+const chatbotLabel = (lead: Lead, t: Translate) =>
+  lead.chatbotStatus === 'TIENE_CHATBOT'
+    ? `${t('enrich.hasChatbot')}${lead.chatbotEvidence?.vendors.length ? ` (${lead.chatbotEvidence.vendors.join(', ')})` : ''}`
+    : t('chatbot.no');
+
+const describeContact = (contact: Contact, t: Translate) =>
+  [contact.name, contact.role, contact.email !== 'N/A' ? contact.email : ''].filter(Boolean).join(' · ') || t('enrich.emptyContact');
+
+const contactChanges = (lead: Lead, found: Lead, t: Translate): EnrichmentChange[] =>
+  found.contacts.flatMap((contact, i): EnrichmentChange[] => {
+    const merged = mergeContacts(lead.contacts, [contact]);
+    if (merged.length > lead.contacts.length) {
+      return [{
+        id: `contact-${i}`,
+        label: t('enrich.newContact'),
+        after: describeContact(contact, t),
+        apply: l => ({ ...l, contacts: mergeContacts(l.contacts, [contact]) }),
+      }];
+    }
+    const index = merged.findIndex((c, j) => JSON.stringify(c) !== JSON.stringify(lead.contacts[j]));
+    if (index === -1) return [];
+    return [{
+      id: `contact-${i}`,
+      label: t('enrich.completedContact'),
+      before: describeContact(lead.contacts[index], t),
+      after: describeContact(merged[index], t),
+      apply: l => ({ ...l, contacts: mergeContacts(l.contacts, [contact]) }),
+    }];
+  });
+
+/**
+ * Changes between a stored lead and a fresh research result for the same company.
+ * Chatbot status is replaced rather than merged: the new check is the current truth.
+ */
+export const diffEnrichment = (lead: Lead, found: Lead, t: Translate): EnrichmentChange[] => {
+  const changes: EnrichmentChange[] = [];
+
+  if (hasWebsite(found.website) && normalizeDomain(found.website) !== normalizeDomain(lead.website)) {
+    changes.push({
+      id: 'website',
+      label: t('leadForm.website'),
+      before: hasWebsite(lead.website) ? lead.website : undefined,
+      after: found.website,
+      apply: l => ({ ...l, website: found.website }),
+    });
+  }
+  if (found.sector && found.sector !== lead.sector) {
+    changes.push({ id: 'sector', label: t('leadForm.sector'), before: lead.sector, after: found.sector, apply: l => ({ ...l, sector: found.sector }) });
+  }
+  if (found.country && found.country !== lead.country) {
+    changes.push({ id: 'country', label: t('leadForm.country'), before: lead.country, after: found.country, apply: l => ({ ...l, country: found.country }) });
+  }
+  if (found.chatbotStatus !== lead.chatbotStatus) {
+    changes.push({
+      id: 'chatbotStatus',
+      label: t('leadForm.chatbot'),
+      before: chatbotLabel(lead, t),
+      after: chatbotLabel(found, t),
+      apply: l => ({ ...l, chatbotStatus: found.chatbotStatus, chatbotEvidence: found.chatbotEvidence }),
+    });
+  }
+
+  found.socialLinks
+    .filter(link => !lead.socialLinks.includes(link))
+    .forEach(link => changes.push({
+      id: `social-${link}`,
+      label: t('enrich.newSocialLink'),
+      after: link,
+      apply: l => ({ ...l, socialLinks: Array.from(new Set([...l.socialLinks, link])) }),
+    }));
+
+  changes.push(...contactChanges(lead, found, t));
+
+  const newHints = (found.websiteAgeHints || []).filter(hint => !(lead.websiteAgeHints || []).includes(hint));
+  if (newHints.length > 0) {
+    changes.push({
+      id: 'websiteAgeHints',
+      label: t('enrich.websiteAgeHints'),
+      before: lead.websiteAgeHints?.join(', '),
+      after: newHints.join(', '),
+      apply: l => ({ ...l, websiteAgeHints: Array.from(new Set([...(l.websiteAgeHints || []), ...newHints])) }),
+    });
+  }
+  return changes;
+};
+
+/**
+ * The lead with the accepted changes. The research evidence is kept whenever
+ * anything is accepted, so the new facts can be checked later.
+ */
+export const applyEnrichment = (lead: Lead, found: Lead, accepted: EnrichmentChange[]): Lead => {
+  if (accepted.length === 0) return lead;
+  const updated = accepted.reduce((current, change) => change.apply(current), lead);
+  return { ...updated, origin: mergeOrigins(lead.origin, found.origin) };
+};
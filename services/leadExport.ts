@@ -0,0 +1,150 @@
+import { Contact, Lead } from "../types";
+import { stripAccents } from "./dedup";
+import { Translate } from "./i18n";
+import { NO_COUNTRY, originKey, originLabel } from "./leadFilters";
+import { CellValue, buildXlsx, zipStore } from "./xlsx";
+
+// --- EXPORT ---
+// One row per contact (so every decision maker can be imported into a CRM),
+// with the columns, delimiter and format chosen by the user.
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+export type CsvDelimiter = ';' | ',' | '\t';
+
+export type ExportColumnId =
+  | 'companyName' | 'contactName' | 'role' | 'seniority' | 'email' | 'emailConfidence'
+  | 'inferredEmail' | 'inferredPattern' | 'website' | 'sector' | 'needScore' | 'chatbotStatus'
+  | 'reason' | 'socialLinks' | 'pipelineStatus' | 'createdAt' | 'origin' | 'sources' | 'country';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  delimiter: CsvDelimiter;
+  columns: ExportColumnId[];
+  splitByCountry: boolean; // one file per market, zipped together
+}
+
+// Headers are the `exportColumn.<id>` messages, in the interface language
+interface ExportColumn {
+  id: ExportColumnId;
+  value: (lead: Lead, contact: Contact | undefined, t: Translate) => CellValue;
+}
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { id: 'companyName', value: lead => lead.companyName },
+  { id: 'contactName', value: (_, c) => c?.name || 'N/A' },
+  { id: 'role', value: (_, c) => c?.role || 'N/A' },
+  { id: 'seniority', value: (_, c, t) => c ? t(`seniority.${c.seniority}`) : '' },
+  { id: 'email', value: (_, c) => c?.email || 'N/A' },
+  { id: 'emailConfidence', value: (_, c) => c?.emailQuality?.confidence ?? '' },
+  { id: 'inferredEmail', value: (_, c) => c?.inferredEmails?.[0]?.email || '' },
+  {
+    id: 'inferredPattern',
+    value: (_, c) => {
+      const guess = c?.inferredEmails?.[0];
+      return guess ? `${guess.pattern} (${guess.confidence}%)` : '';
+    },
+  },
+  { id: 'website', value: lead => lead.website },
+  { id: 'sector', value: lead => lead.sector || '' },
+  { id: 'country', value: lead => lead.country || '' },
+  { id: 'needScore', value: lead => lead.needScore },
+  { id: 'chatbotStatus', value: (lead, _, t) => lead.chatbotStatus === 'TIENE_CHATBOT' ? t('leadForm.yes') : t('leadForm.no') },
+  { id: 'reason', value: lead => lead.reason },
+  { id: 'socialLinks', value: lead => lead.socialLinks.join(', ') },
+  { id: 'pipelineStatus', value: (lead, _, t) => t(`pipeline.${lead.pipelineStatus}`) },
+  { id: 'createdAt', value: lead => lead.createdAt.slice(0, 10) },
+  { id: 'origin', value: (lead, _, t) => originLabel(originKey(lead.origin), t) },
+  { id: 'sources', value: lead => (lead.origin?.sources || []).filter(s => s.matchesCompany).map(s => s.uri).join(' ') },
+];
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'csv',
+  delimiter: ';',
+  columns: ['companyName', 'contactName', 'role', 'email', 'inferredEmail', 'inferredPattern', 'website', 'needScore', 'reason', 'socialLinks'],
+  splitByCountry: false,
+};
+
+export const CSV_DELIMITERS: CsvDelimiter[] = [';', ',', '\t'];
+
+/**
+ * Header plus one row per contact; leads without contacts still get one row.
+ */
+export const buildRows = (leads: Lead[], columnIds: ExportColumnId[], t: Translate): CellValue[][] => {
+  const columns = columnIds
+    .map(id => EXPORT_COLUMNS.find(column => column.id === id))
+    .filter((column): column is ExportColumn => !!column);
+  const rows = leads.flatMap(lead =>
+    (lead.contacts.length > 0 ? lead.contacts : [undefined]).map(contact => columns.map(column => column.value(lead, contact, t)))
+  );
+  return [columns.map(column => t(`exportColumn.${column.id}`)), ...rows];
+};
+
+/**
+ * RFC 4180: fields holding the delimiter, a quote or a line break are quoted,
+ * inner quotes are doubled and records end in CRLF.
+ */
+export const toCsv = (rows: CellValue[][], delimiter: CsvDelimiter): string => {
+  const escape = (value: CellValue) => {
+    const text = String(value);
+    return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map(row => row.map(escape).join(delimiter)).join('\r\n') + '\r\n';
+};
+
+const slugify = (value: string) =>
+  stripAccents(value.toLowerCase()).replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+export const exportFilename = (options: ExportOptions, profileName: string, date = new Date()) =>
+  `leads_${slugify(profileName) || 'perfil'}_${date.toISOString().slice(0, 10)}.${options.splitByCountry ? 'zip' : options.format}`;
+
+/**
+ * Groups leads by market for a split export; leads of unknown country go to their own file.
+ */
+export const groupByCountry = (leads: Lead[]): Map<string, Lead[]> => {
+  const groups = new Map<string, Lead[]>();
+  leads.forEach(lead => {
+    const key = lead.country || NO_COUNTRY;
+    groups.set(key, [...(groups.get(key) || []), lead]);
+  });
+  return groups;
+};
+
+const serialize = (leads: Lead[], options: ExportOptions, t: Translate): { content: string | Uint8Array; type: string } => {
+  switch (options.format) {
+    case 'xlsx':
+      return { content: buildXlsx(buildRows(leads, options.columns, t)), type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' };
+    case 'json':
+      return { content: JSON.stringify(leads, null, 2), type: 'application/json' };
+    default:
+      // BOM so Excel opens the UTF-8 file with accents intact
+      return { content: '\uFEFF' + toCsv(buildRows(leads, options.columns, t), options.delimiter), type: 'text/csv;charset=utf-8;' };
+  }
+};
+
+/**
+ * Serialises the leads in the chosen format. JSON carries the full records
+ * (every field, not just the selected columns) so it can be imported back.
+ * Split by country, the result is a ZIP with one file per market.
+ */
+export const buildExport = (leads: Lead[], options: ExportOptions, t: Translate): Blob => {
+  if (options.splitByCountry) {
+    const files = Array.from(groupByCountry(leads).entries()).map(([country, group]) => ({
+      name: `leads_${country === NO_COUNTRY ? 'sin-pais' : country}.${options.format}`,
+      content: serialize(group, options, t).content,
+    }));
+    return new Blob([zipStore(files)], { type: 'application/zip' });
+  }
+  const { content, type } = serialize(leads, options, t);
+  return new Blob([content], { type });
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.setAttribute('download', filename);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
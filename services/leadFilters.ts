@@ -0,0 +1,152 @@
+import { Lead, LeadOrigin } from "../types";
+import { stripAccents } from "./dedup";
+import { Translate } from "./i18n";
+
+// --- TABLE QUERIES ---
+// Sorting, faceted filtering and free-text search over the in-memory lead list.
+
+export type SortKey = 'needScore' | 'companyName' | 'createdAt';
+export type SortDirection = 'asc' | 'desc';
+export type TriState = 'any' | 'yes' | 'no';
+
+export interface LeadSort {
+  key: SortKey;
+  direction: SortDirection;
+}
+
+export interface LeadFilters {
+  search: string;
+  chatbotStatus: Lead['chatbotStatus'] | 'any';
+  minScore: number;
+  maxScore: number;
+  hasNamedContact: TriState;
+  hasLinkedin: TriState;
+  origin: string; // originKey, or '' for any
+  campaign: string; // campaign id, or '' for any
+  country: string; // ISO code, NO_COUNTRY, or '' for any
+}
+
+// What the table is showing; exports follow it so they match what the user sees
+export interface LeadView {
+  filters: LeadFilters;
+  sort: LeadSort;
+}
+
+export const DEFAULT_SORT: LeadSort = { key: 'createdAt', direction: 'desc' };
+
+export const DEFAULT_FILTERS: LeadFilters = {
+  search: '',
+  chatbotStatus: 'any',
+  minScore: 1,
+  maxScore: 5,
+  hasNamedContact: 'any',
+  hasLinkedin: 'any',
+  origin: '',
+  campaign: '',
+  country: '',
+};
+
+export const DEFAULT_VIEW: LeadView = { filters: DEFAULT_FILTERS, sort: DEFAULT_SORT };
+
+export const PAGE_SIZES = [25, 50, 100];
+
+const UNKNOWN_ORIGIN = 'unknown';
+
+// Country filter value for leads whose market could not be told
+export const NO_COUNTRY = 'none';
+
+export const originKey = (origin?: LeadOrigin): string => {
+  if (!origin) return UNKNOWN_ORIGIN;
+  if (origin.mode === 'manual') return 'manual';
+  if (origin.mode === 'import') return `import|${origin.file || ''}`;
+  if (origin.mode === 'bulk') return `bulk|${origin.list || ''}`;
+  return `${origin.niche || ''}|${origin.location || ''}`;
+};
+
+export const originLabel = (key: string, t: Translate): string => {
+  if (key === UNKNOWN_ORIGIN) return t('origin.unknown');
+  if (key === 'manual') return t('origin.manual');
+  if (key.startsWith('import|')) return `${t('origin.import')}${key.length > 7 ? ` · ${key.slice(7)}` : ''}`;
+  if (key.startsWith('bulk|')) return key.length > 5 ? t('bulk.jobName', { date: key.slice(5) }) : t('mode.bulk');
+  const [niche, location] = key.split('|');
+  return [niche, location].filter(Boolean).join(' · ') || t('origin.agent');
+};
+
+export const hasNamedContact = (lead: Lead) => lead.contacts.some(contact => !!contact.name);
+
+export const hasLinkedin = (lead: Lead) => lead.socialLinks.some(link => /linkedin\.com/i.test(link));
+
+const normalize = (value: string) => stripAccents(value.toLowerCase());
+
+const searchableText = (lead: Lead) =>
+  normalize([
+    lead.companyName,
+    lead.website,
+    lead.reason,
+    lead.sector || '',
+    ...lead.contacts.flatMap(contact => [contact.name || '', contact.role || '', contact.email]),
+  ].join(' '));
+
+const matchesTriState = (state: TriState, value: boolean) => state === 'any' || (state === 'yes') === value;
+
+export const isFiltered = (filters: LeadFilters) => JSON.stringify(filters) !== JSON.stringify(DEFAULT_FILTERS);
+
+export const filterLeads = (leads: Lead[], filters: LeadFilters): Lead[] => {
+  const terms = normalize(filters.search).split(/\s+/).filter(Boolean);
+  return leads.filter(lead => {
+    if (filters.chatbotStatus !== 'any' && lead.chatbotStatus !== filters.chatbotStatus) return false;
+    if (lead.needScore < filters.minScore || lead.needScore > filters.maxScore) return false;
+    if (!matchesTriState(filters.hasNamedContact, hasNamedContact(lead))) return false;
+    if (!matchesTriState(filters.hasLinkedin, hasLinkedin(lead))) return false;
+    if (filters.origin && originKey(lead.origin) !== filters.origin) return false;
+    if (filters.campaign && !lead.campaignIds?.includes(filters.campaign)) return false;
+    if (filters.country && (lead.country || NO_COUNTRY) !== filters.country) return false;
+    if (terms.length > 0) {
+      const text = searchableText(lead);
+      if (!terms.every(term => text.includes(term))) return false;
+    }
+    return true;
+  });
+};
+
+export const sortLeads = (leads: Lead[], sort: LeadSort): Lead[] => {
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  const compare = (a: Lead, b: Lead): number => {
+    switch (sort.key) {
+      case 'needScore':
+        return (a.scoreBreakdown?.score ?? a.needScore) - (b.scoreBreakdown?.score ?? b.needScore);
+      case 'companyName':
+        return a.companyName.localeCompare(b.companyName, 'es', { sensitivity: 'base' });
+      default:
+        return a.createdAt.localeCompare(b.createdAt);
+    }
+  };
+  return [...leads].sort((a, b) => factor * compare(a, b));
+};
+
+/**
+ * Distinct origins present in the list with their counts, for the origin facet.
+ */
+export const originFacets = (leads: Lead[], t: Translate): { key: string; label: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  leads.forEach(lead => {
+    const key = originKey(lead.origin);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  return Array.from(counts.entries())
+    .map(([key, count]) => ({ key, label: originLabel(key, t), count }))
+    .sort((a, b) => b.count - a.count);
+};
+
+/**
+ * Countries present in the list with their counts, most common first, for the market facet.
+ */
+export const countryFacets = (leads: Lead[]): { key: string; count: number }[] => {
+  const counts = new Map<string, number>();
+  leads.forEach(lead => counts.set(lead.country || NO_COUNTRY, (counts.get(lead.country || NO_COUNTRY) || 0) + 1));
+  return Array.from(counts.entries())
+    .map(([key, count]) => ({ key, count }))
+    .sort((a, b) => b.count - a.count);
+};
+
+export const applyView = (leads: Lead[], view: LeadView): Lead[] => sortLeads(filterLeads(leads, view.filters), view.sort);
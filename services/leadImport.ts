@@ -0,0 +1,226 @@
+import { ExtractedContact, ExtractedLead } from "../types";
+import { inferSeniority } from "./contacts";
+import { normalizeCompanyName, normalizeDomain, stripAccents } from "./dedup";
+import { withEmailQuality } from "./emailQuality";
+import { Message, MessageError } from "./i18n";
+import { toCountryCode } from "./markets";
+import { validateExtractedLeads } from "./responseValidation";
+import { readXlsx } from "./xlsx";
+
+// --- IMPORT ---
+// Brings existing prospect lists in: files are read into a header + rows table,
+// the user maps columns onto lead fields, and rows become extracted leads
+// that go through the same deduplication as anything the agent finds.
+
+export type ImportField =
+  | 'ignore' | 'companyName' | 'website' | 'contactName' | 'role' | 'email'
+  | 'sector' | 'reason' | 'socialLinks' | 'needScore' | 'chatbotStatus' | 'country';
+
+export const IMPORT_FIELDS: ImportField[] = [
+  'ignore', 'companyName', 'website', 'contactName', 'role', 'email',
+  'sector', 'reason', 'socialLinks', 'needScore', 'chatbotStatus', 'country',
+];
+
+export interface ImportTable {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+  // JSON files holding full lead records skip column mapping
+  records?: ExtractedLead[];
+  // Full records dropped by validation, with the reasons
+  rejected?: { companyName?: string; issues: Message[] }[];
+}
+
+export interface ImportResult {
+  inserted: number;
+  merged: number;
+  pendingReview: number;
+  queued: number; // leads waiting for AI enrichment
+}
+
+// Header synonyms, normalised; the labels our own exporter writes are included
+const FIELD_SYNONYMS: [ImportField, string[]][] = [
+  ['companyName', ['empresa', 'nombre empresa', 'company', 'company name', 'companyname', 'cuenta', 'organizacion', 'account']],
+  ['website', ['web', 'sitio web', 'website', 'url', 'dominio', 'domain', 'pagina web']],
+  ['contactName', ['nombre contacto', 'contacto', 'nombre', 'contact', 'contact name', 'name', 'full name', 'persona']],
+  ['role', ['cargo', 'puesto', 'rol', 'role', 'title', 'job title', 'position']],
+  ['email', ['email', 'e mail', 'correo', 'correo electronico', 'mail']],
+  ['sector', ['sector', 'industria', 'industry', 'actividad']],
+  ['reason', ['motivo', 'notas', 'notes', 'comentarios', 'descripcion', 'reason']],
+  ['socialLinks', ['redes sociales', 'linkedin', 'social', 'social links', 'redes']],
+  ['needScore', ['nivel de necesidad', 'need score', 'needscore', 'score', 'puntuacion']],
+  ['chatbotStatus', ['chatbot', 'tiene chatbot', 'chatbot status']],
+  ['country', ['pais', 'country', 'pays', 'country region', 'mercado', 'market']],
+];
+
+const normalizeHeader = (header: string) => stripAccents(header.toLowerCase()).replace(/[^a-z0-9]+/g, ' ').trim();
+
+export const guessMapping = (headers: string[]): ImportField[] => {
+  const used = new Set<ImportField>();
+  return headers.map(header => {
+    const normalized = normalizeHeader(header);
+    const match = FIELD_SYNONYMS.find(([field, synonyms]) => !used.has(field) && synonyms.includes(normalized));
+    if (!match) return 'ignore';
+    used.add(match[0]);
+    return match[0];
+  });
+};
+
+/**
+ * The delimiter that splits the header line into the most columns.
+ */
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/)[0] || '';
+  return [';', ',', '\t', '|']
+    .map(delimiter => [delimiter, firstLine.split(delimiter).length] as const)
+    .sort((a, b) => b[1] - a[1])[0][0];
+};
+
+/**
+ * RFC 4180 parser: quoted fields may hold delimiters, doubled quotes and line breaks.
+ */
+export const parseCsv = (text: string, delimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+const isLeadRecord = (value: unknown): value is ExtractedLead =>
+  typeof value === 'object' && value !== null && 'companyName' in value && Array.isArray((value as ExtractedLead).contacts);
+
+const fromJson = (fileName: string, text: string): ImportTable => {
+  const data = JSON.parse(text);
+  const items: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.leads) ? data.leads : [];
+  if (items.length === 0) throw new MessageError({ key: 'import.noLeadList' });
+
+  if (items.every(isLeadRecord)) {
+    // Same checks as model answers: a hand-edited file can hold anything
+    const report = validateExtractedLeads(items);
+    const rejectedIndexes = new Set(report.rejected.map(r => r.index));
+    const kept = items.filter((_, i) => !rejectedIndexes.has(i));
+    const records = report.leads.map((lead, i) => {
+      // The only field validation drops that an exported lead should keep
+      const override = kept[i].needScoreOverride;
+      return Number.isInteger(override) && override! >= 1 && override! <= 5 ? { ...lead, needScoreOverride: override } : lead;
+    });
+    return {
+      fileName,
+      headers: [],
+      rows: [],
+      records,
+      rejected: report.rejected.map(({ companyName, issues }) => ({ companyName, issues })),
+    };
+  }
+  const objects = items.filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null);
+  const headers = Array.from(new Set(objects.flatMap(item => Object.keys(item))));
+  const rows = objects.map(item => headers.map(header => {
+    const value = item[header];
+    if (value === undefined || value === null) return '';
+    return Array.isArray(value) ? value.join(', ') : String(value);
+  }));
+  return { fileName, headers, rows };
+};
+
+export const readImportFile = async (file: File): Promise<ImportTable> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  if (extension === 'json') return fromJson(file.name, await file.text());
+
+  const table = extension === 'xlsx'
+    ? await readXlsx(await file.arrayBuffer())
+    : parseCsv((await file.text()).replace(/^\uFEFF/, ''));
+  const [headers = [], ...rows] = table;
+  if (headers.length === 0) throw new MessageError({ key: 'import.emptyFile' });
+  return { fileName: file.name, headers, rows };
+};
+
+const valueOf = (row: string[], mapping: ImportField[], field: ImportField) => {
+  const index = mapping.indexOf(field);
+  return index === -1 ? '' : (row[index] || '').trim();
+};
+
+const parseScore = (value: string) => {
+  const score = Math.round(Number(value.replace(',', '.')));
+  return score >= 1 && score <= 5 ? score : 3;
+};
+
+const parseChatbot = (value: string): ExtractedLead['chatbotStatus'] =>
+  /^(si|sí|yes|true|1|tiene_chatbot)$/i.test(value.trim()) ? 'TIENE_CHATBOT' : 'OPORTUNIDAD';
+
+/**
+ * Turns mapped rows into extracted leads. Rows of the same company (by name
+ * or website) become one lead with several contacts.
+ */
+export const rowsToLeads = (table: ImportTable, mapping: ImportField[]): ExtractedLead[] => {
+  const origin = { mode: 'import' as const, file: table.fileName };
+  if (table.records) {
+    return table.records.map(record => ({
+      ...record,
+      contacts: record.contacts.map(contact => withEmailQuality(contact, record.website)),
+      origin,
+    }));
+  }
+
+  const byCompany = new Map<string, ExtractedLead>();
+  for (const row of table.rows) {
+    const companyName = valueOf(row, mapping, 'companyName');
+    const website = valueOf(row, mapping, 'website');
+    if (!companyName && !website) continue;
+
+    const key = normalizeDomain(website) || normalizeCompanyName(companyName, toCountryCode(valueOf(row, mapping, 'country')));
+    const lead = byCompany.get(key) || {
+      companyName: companyName || normalizeDomain(website),
+      website: website || 'N/A',
+      chatbotStatus: parseChatbot(valueOf(row, mapping, 'chatbotStatus')),
+      needScore: parseScore(valueOf(row, mapping, 'needScore')),
+      reason: valueOf(row, mapping, 'reason'),
+      socialLinks: valueOf(row, mapping, 'socialLinks').split(/[\s,]+/).filter(link => /^https?:\/\//i.test(link)),
+      sector: valueOf(row, mapping, 'sector') || undefined,
+      country: toCountryCode(valueOf(row, mapping, 'country')),
+      contacts: [],
+      origin,
+    };
+
+    const name = valueOf(row, mapping, 'contactName');
+    const role = valueOf(row, mapping, 'role');
+    const email = valueOf(row, mapping, 'email');
+    if (name || email) {
+      const contact: ExtractedContact = {
+        name: name || undefined,
+        role: role || undefined,
+        email: email || 'N/A',
+        seniority: inferSeniority(role),
+      };
+      lead.contacts.push(withEmailQuality(contact, lead.website));
+    }
+    byCompany.set(key, lead);
+  }
+  return Array.from(byCompany.values());
+};
@@ -0,0 +1,185 @@
+import { ContactSource, ExtractedLead, Lead, MergeCandidate, PipelineStatus } from "../types";
+import { BulkJob } from "./bulkJobs";
+import { STORES, getMeta, requestToPromise, setMeta, withStore } from "./db";
+import { getEmailDomain } from "./dedup";
+import { createContact, fromLegacyLead } from "./contacts";
+import { SearchEntry, createSearchEntry } from "./searchHistory";
+import { detectMarket } from "./markets";
+
+// Legacy localStorage keys, read once by migrateFromLocalStorage
+const LEGACY_LEADS_KEY = 'b2b_leads_db';
+const LEGACY_HISTORY_KEY = 'b2b_search_history';
+const MIGRATION_FLAG = 'migratedFromLocalStorage';
+const ENRICHMENT_QUEUE_KEY = 'enrichmentQueue';
+const BULK_JOB_KEY = 'bulkJob';
+
+// Stored shape: the lead plus derived fields that back the indexes
+interface LeadRecord extends Lead {
+  emailDomains: string[];
+}
+
+const toRecord = (lead: Lead): LeadRecord => ({
+  ...lead,
+  emailDomains: Array.from(new Set(lead.contacts.map(c => getEmailDomain(c.email)).filter(Boolean))),
+});
+
+const fromRecord = ({ emailDomains, ...lead }: LeadRecord): Lead => lead;
+
+/**
+ * Gives an AI-extracted lead a stable identity and puts it at the start of the pipeline.
+ * Leads that arrive without a country get the one their website, emails or name point to.
+ */
+export const createLead = (extracted: ExtractedLead, source: ContactSource, createdAt = new Date().toISOString()): Lead => ({
+  ...extracted,
+  country: extracted.country || detectMarket(extracted, extracted.origin?.excerpt),
+  contacts: extracted.contacts.map(contact => createContact(contact, source)),
+  id: crypto.randomUUID(),
+  createdAt,
+  pipelineStatus: 'new',
+  statusHistory: [{ from: null, to: 'new', at: createdAt }],
+  notes: [],
+});
+
+const queryIndex = (indexName: string, range: IDBKeyRange | IDBValidKey): Promise<Lead[]> =>
+  withStore(STORES.leads, 'readonly', async tx => {
+    const records = await requestToPromise<LeadRecord[]>(tx.objectStore(STORES.leads).index(indexName).getAll(range));
+    return records.map(fromRecord);
+  });
+
+// --- LEADS ---
+
+export const listLeads = (): Promise<Lead[]> =>
+  withStore(STORES.leads, 'readonly', async tx => {
+    const records = await requestToPromise<LeadRecord[]>(tx.objectStore(STORES.leads).index('createdAt').getAll());
+    return records.map(fromRecord);
+  });
+
+export const findLeadsByEmailDomain = (domain: string) => queryIndex('emailDomains', domain.toLowerCase());
+
+export const findLeadsByNeedScore = (min: number, max = 5) => queryIndex('needScore', IDBKeyRange.bound(min, max));
+
+export const findLeadsByChatbotStatus = (status: Lead['chatbotStatus']) => queryIndex('chatbotStatus', status);
+
+export const findLeadsByPipelineStatus = (status: PipelineStatus) => queryIndex('pipelineStatus', status);
+
+export const findLeadsByCountry = (country: string) => queryIndex('country', country.toUpperCase());
+
+export const findLeadsCreatedBetween = (from: Date, to = new Date()) =>
+  queryIndex('createdAt', IDBKeyRange.bound(from.toISOString(), to.toISOString()));
+
+/**
+ * Inserts or updates only the given leads, never the whole table.
+ */
+export const saveLeads = (leads: Lead[]): Promise<void> =>
+  withStore(STORES.leads, 'readwrite', tx => {
+    const store = tx.objectStore(STORES.leads);
+    leads.forEach(lead => store.put(toRecord(lead)));
+  });
+
+export const deleteLeads = (ids: string[]): Promise<void> =>
+  withStore(STORES.leads, 'readwrite', tx => {
+    const store = tx.objectStore(STORES.leads);
+    ids.forEach(id => store.delete(id));
+  });
+
+// --- SEARCH HISTORY ---
+
+export const listSearchHistory = (): Promise<SearchEntry[]> =>
+  withStore(STORES.searchHistory, 'readonly', tx =>
+    requestToPromise<SearchEntry[]>(tx.objectStore(STORES.searchHistory).getAll())
+  );
+
+/**
+ * Inserts or updates an entry; resolves with it, id included.
+ */
+export const saveSearchEntry = (entry: SearchEntry): Promise<SearchEntry> =>
+  withStore(STORES.searchHistory, 'readwrite', async tx => {
+    const id = await requestToPromise(tx.objectStore(STORES.searchHistory).put(entry));
+    return { ...entry, id: id as number };
+  });
+
+export const deleteSearchEntries = (ids: number[]): Promise<void> =>
+  withStore(STORES.searchHistory, 'readwrite', tx => {
+    const store = tx.objectStore(STORES.searchHistory);
+    ids.forEach(id => store.delete(id));
+  });
+
+// --- MERGE REVIEWS ---
+
+export const listMergeReviews = (): Promise<MergeCandidate[]> =>
+  withStore(STORES.mergeReviews, 'readonly', tx => requestToPromise(tx.objectStore(STORES.mergeReviews).getAll()));
+
+export const saveMergeReviews = (reviews: MergeCandidate[]): Promise<void> =>
+  withStore(STORES.mergeReviews, 'readwrite', tx => {
+    const store = tx.objectStore(STORES.mergeReviews);
+    reviews.forEach(review => store.put(review));
+  });
+
+export const deleteMergeReview = (id: string): Promise<void> =>
+  withStore(STORES.mergeReviews, 'readwrite', tx => {
+    tx.objectStore(STORES.mergeReviews).delete(id);
+  });
+
+// --- ENRICHMENT QUEUE ---
+// Ids of imported leads still waiting for AI research; survives reloads.
+
+export const loadEnrichmentQueue = async (): Promise<string[]> =>
+  (await getMeta<string[]>(ENRICHMENT_QUEUE_KEY)) || [];
+
+export const saveEnrichmentQueue = (ids: string[]): Promise<void> => setMeta(ENRICHMENT_QUEUE_KEY, ids);
+
+// --- BULK LIST JOB ---
+// The current website list and each item's progress.
+
+export const loadBulkJob = async (): Promise<BulkJob | null> => (await getMeta<BulkJob>(BULK_JOB_KEY)) || null;
+
+export const saveBulkJob = (job: BulkJob | null): Promise<void> => setMeta(BULK_JOB_KEY, job);
+
+export const clearDatabase = (): Promise<void> =>
+  withStore([STORES.leads, STORES.searchHistory, STORES.mergeReviews, STORES.runs, STORES.campaigns, STORES.coverage], 'readwrite', tx => {
+    tx.objectStore(STORES.leads).clear();
+    tx.objectStore(STORES.searchHistory).clear();
+    tx.objectStore(STORES.mergeReviews).clear();
+    tx.objectStore(STORES.runs).clear();
+    tx.objectStore(STORES.campaigns).clear();
+    tx.objectStore(STORES.coverage).clear();
+  });
+
+// --- MIGRATION ---
+
+let migration: Promise<void> | null = null;
+
+/**
+ * One-time import of the old localStorage blobs. Legacy leads had no id,
+ * so they get one here; the keys are removed once the copy has committed.
+ * Memoized so concurrent callers (StrictMode double effects) share one run.
+ */
+export const migrateFromLocalStorage = (): Promise<void> => {
+  if (!migration) migration = runMigration();
+  return migration;
+};
+
+const runMigration = async (): Promise<void> => {
+  if (await getMeta<boolean>(MIGRATION_FLAG)) return;
+
+  const legacyLeads: (Omit<ExtractedLead, 'contacts'> & { contactName?: string; role?: string; email?: string })[] = JSON.parse(localStorage.getItem(LEGACY_LEADS_KEY) || '[]');
+  const legacyHistory: string[] = JSON.parse(localStorage.getItem(LEGACY_HISTORY_KEY) || '[]');
+  const migratedAt = Date.now();
+
+  // The flag commits with the data: a tab closed in between must not import everything twice
+  await withStore([STORES.leads, STORES.searchHistory, STORES.meta], 'readwrite', tx => {
+    const leadStore = tx.objectStore(STORES.leads);
+    // Offset each timestamp by its position so the createdAt index keeps the original order
+    legacyLeads.forEach((legacy, i) => {
+      const { contacts, ...company } = fromLegacyLead(legacy);
+      const lead = createLead({ ...company, contacts: [] }, 'agent', new Date(migratedAt + i).toISOString());
+      leadStore.put(toRecord({ ...lead, contacts }));
+    });
+    const historyStore = tx.objectStore(STORES.searchHistory);
+    legacyHistory.forEach((query, i) => historyStore.add(createSearchEntry(query, { runs: 1 }, new Date(migratedAt + i).toISOString())));
+    tx.objectStore(STORES.meta).put(true, MIGRATION_FLAG);
+  });
+
+  localStorage.removeItem(LEGACY_LEADS_KEY);
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+};
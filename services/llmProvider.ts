@@ -0,0 +1,95 @@
+import { Schema } from "@google/genai";
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createMockProvider } from "./providers/mockProvider";
+import { createOpenAiCompatibleProvider } from "./providers/openAiCompatibleProvider";
+
+// Role of the model inside the agent. Each provider maps it to a concrete model name.
+export type ModelTier = 'worker' | 'support';
+
+// What the call is for. Providers ignore it, the mock uses it to pick fixtures.
+export type LLMTask = 'extraction' | 'strategy' | 'search';
+
+export interface JsonGenerationRequest {
+  task: LLMTask;
+  tier: ModelTier;
+  prompt: string;
+  schema: Schema;
+  systemInstruction?: string;
+  temperature?: number;
+}
+
+export interface SearchGenerationRequest {
+  task: LLMTask;
+  tier: ModelTier;
+  prompt: string;
+}
+
+export interface GroundingSource {
+  uri: string;
+  title?: string;
+}
+
+// Token counts reported by the vendor for one call
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  model: string;
+  usage?: TokenUsage; // absent when the server reports none
+}
+
+export interface SearchResponse extends LLMResponse {
+  sources: GroundingSource[];
+}
+
+/**
+ * Minimal surface the agent needs from an LLM vendor:
+ * structured JSON output and free text backed by web search.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  modelFor(tier: ModelTier): string;
+  generateJson(request: JsonGenerationRequest): Promise<LLMResponse>;
+  generateWithSearch(request: SearchGenerationRequest): Promise<SearchResponse>;
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+const createProvider = (id: ProviderId): LLMProvider => {
+  switch (id) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai':
+      return createOpenAiCompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:1234/v1',
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.OPENAI_MODEL || 'local-model',
+      });
+    case 'gemini':
+    default:
+      return createGeminiProvider(process.env.API_KEY);
+  }
+};
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Returns the provider selected through LLM_PROVIDER (defaults to Gemini).
+ * Created lazily so the mock can run without any API key configured.
+ */
+export const getProvider = (): LLMProvider => {
+  if (!activeProvider) {
+    activeProvider = createProvider((process.env.LLM_PROVIDER as ProviderId) || 'gemini');
+  }
+  return activeProvider;
+};
+
+/**
+ * Swaps the provider at runtime (e.g. when the Gemini quota runs out).
+ */
+export const setProvider = (provider: LLMProvider | ProviderId) => {
+  activeProvider = typeof provider === 'string' ? createProvider(provider) : provider;
+};
@@ -0,0 +1,257 @@
+import { Company, Contact, IdealCustomerProfile } from "../types";
+
+// --- TARGET MARKETS ---
+// Country conventions the agent needs outside Spain: the language searches are
+// written in, legal forms, phone numbering and how mailboxes are usually named.
+// Leads carry the ISO code of their market so the table and exports can be split.
+
+export type MarketCode = 'ES' | 'PT' | 'FR' | 'GB' | 'MX' | 'AR' | 'CO' | 'CL';
+export type MarketLanguage = 'es' | 'pt' | 'fr' | 'en';
+
+export interface Market {
+  code: MarketCode;
+  name: string;
+  aliases: string[]; // how a profile may write the country, lowercase and without accents
+  language: MarketLanguage;
+  domains: string[]; // country TLDs
+  legalForms: string[]; // company name suffixes, lowercase and without dots ("S.L." -> "sl")
+  phone: { prefix: string; digits: number }; // country code and length of the national number
+  genericMailboxes: string[];
+  departmentMailboxes: string[];
+  freeMailDomains: string[]; // local ISPs and webmail, on top of the global ones
+  prompt: {
+    roles: string; // decision makers as local companies title them
+    queryExample: string;
+    sources: string; // directories and registries worth searching
+  };
+}
+
+export const MARKETS: Record<MarketCode, Market> = {
+  ES: {
+    code: 'ES',
+    name: 'España',
+    aliases: ['espana', 'spain', 'es'],
+    language: 'es',
+    domains: ['.es'],
+    legalForms: [
+      'sociedad limitada unipersonal', 'sociedad limitada', 'sociedad anonima', 'sociedad cooperativa',
+      'slu', 'sll', 'slp', 'sl', 'sau', 'sa', 'scoop', 'coop', 'cb', 'sc',
+    ],
+    phone: { prefix: '+34', digits: 9 },
+    genericMailboxes: ['info', 'informacion', 'contacto', 'hola', 'oficina', 'recepcion', 'reservas', 'citas', 'clinica', 'correo'],
+    departmentMailboxes: ['ventas', 'comercial', 'gerencia', 'direccion', 'rrhh', 'operaciones', 'administracion', 'soporte', 'atencion', 'clientes', 'compras', 'facturacion', 'prensa', 'comunicacion', 'proyectos', 'calidad', 'logistica'],
+    freeMailDomains: ['hotmail.es', 'outlook.es', 'yahoo.es', 'telefonica.net'],
+    prompt: {
+      roles: 'Dueño, Gerente, Director General',
+      queryExample: 'Clínicas dentales Madrid equipo directivo',
+      sources: 'eInforma, Axesor, Páginas Amarillas, LinkedIn',
+    },
+  },
+  PT: {
+    code: 'PT',
+    name: 'Portugal',
+    aliases: ['portugal', 'pt'],
+    language: 'pt',
+    domains: ['.pt'],
+    legalForms: ['sociedade unipessoal lda', 'unipessoal lda', 'unipessoal', 'lda', 'sa', 'crl'],
+    phone: { prefix: '+351', digits: 9 },
+    genericMailboxes: ['geral', 'info', 'contacto', 'contactos', 'ola', 'recepcao', 'marcacoes', 'reservas'],
+    departmentMailboxes: ['comercial', 'vendas', 'direcao', 'gerencia', 'rh', 'financeiro', 'faturacao', 'apoio', 'suporte', 'clientes'],
+    freeMailDomains: ['sapo.pt', 'hotmail.pt', 'outlook.pt', 'clix.pt', 'netcabo.pt', 'iol.pt'],
+    prompt: {
+      roles: 'Sócio-gerente, Diretor-geral, Administrador',
+      queryExample: 'Clínicas dentárias Porto sócio-gerente',
+      sources: 'Racius, Einforma.pt, Páginas Amarelas, LinkedIn',
+    },
+  },
+  FR: {
+    code: 'FR',
+    name: 'Francia',
+    aliases: ['francia', 'france', 'fr'],
+    language: 'fr',
+    domains: ['.fr'],
+    legalForms: ['sarl', 'sas', 'sasu', 'eurl', 'sa', 'sci', 'snc', 'selarl'],
+    phone: { prefix: '+33', digits: 9 },
+    genericMailboxes: ['contact', 'info', 'accueil', 'bonjour', 'secretariat', 'rdv', 'cabinet'],
+    departmentMailboxes: ['commercial', 'ventes', 'direction', 'rh', 'comptabilite', 'facturation', 'support', 'service', 'clients'],
+    freeMailDomains: ['orange.fr', 'wanadoo.fr', 'free.fr', 'laposte.net', 'sfr.fr', 'hotmail.fr', 'yahoo.fr', 'outlook.fr'],
+    prompt: {
+      roles: 'Gérant, Directeur général, Fondateur',
+      queryExample: 'Cabinets dentaires Lyon gérant',
+      sources: 'Societe.com, Pappers, PagesJaunes, LinkedIn',
+    },
+  },
+  GB: {
+    code: 'GB',
+    name: 'Reino Unido',
+    aliases: ['reino unido', 'uk', 'united kingdom', 'gb', 'great britain', 'gran bretana', 'inglaterra', 'england', 'escocia', 'scotland', 'gales', 'wales'],
+    language: 'en',
+    domains: ['.uk'],
+    legalForms: ['limited', 'ltd', 'plc', 'llp', 'cic'],
+    phone: { prefix: '+44', digits: 10 },
+    genericMailboxes: ['info', 'enquiries', 'enquiry', 'hello', 'office', 'admin', 'reception', 'contact', 'bookings'],
+    departmentMailboxes: ['sales', 'accounts', 'hr', 'marketing', 'support', 'operations', 'customerservice', 'billing', 'press'],
+    freeMailDomains: ['btinternet.com', 'yahoo.co.uk', 'hotmail.co.uk', 'sky.com', 'talktalk.net', 'virginmedia.com'],
+    prompt: {
+      roles: 'Owner, Managing Director, Director',
+      queryExample: 'Dental practices Manchester practice owner',
+      sources: 'Companies House, Yell, LinkedIn',
+    },
+  },
+  MX: {
+    code: 'MX',
+    name: 'México',
+    aliases: ['mexico', 'mx'],
+    language: 'es',
+    domains: ['.mx'],
+    legalForms: ['sapi de cv', 'sa de cv', 's de rl de cv', 's de rl', 'sa', 'sc'],
+    phone: { prefix: '+52', digits: 10 },
+    genericMailboxes: ['contacto', 'info', 'informes', 'hola', 'recepcion', 'citas'],
+    departmentMailboxes: ['ventas', 'comercial', 'direccion', 'gerencia', 'rh', 'administracion', 'facturacion'],
+    freeMailDomains: ['prodigy.net.mx', 'yahoo.com.mx', 'hotmail.com.mx'],
+    prompt: {
+      roles: 'Dueño, Director General, Gerente',
+      queryExample: 'Clínicas dentales Monterrey director general',
+      sources: 'DENUE (INEGI), Sección Amarilla, LinkedIn',
+    },
+  },
+  AR: {
+    code: 'AR',
+    name: 'Argentina',
+    aliases: ['argentina', 'ar'],
+    language: 'es',
+    domains: ['.ar'],
+    legalForms: ['sociedad de responsabilidad limitada', 'srl', 'sas', 'sa'],
+    phone: { prefix: '+54', digits: 10 },
+    genericMailboxes: ['contacto', 'info', 'consultas', 'hola', 'recepcion', 'turnos'],
+    departmentMailboxes: ['ventas', 'comercial', 'administracion', 'gerencia', 'rrhh'],
+    freeMailDomains: ['hotmail.com.ar', 'yahoo.com.ar', 'fibertel.com.ar', 'speedy.com.ar', 'arnet.com.ar'],
+    prompt: {
+      roles: 'Dueño, Socio gerente, Director',
+      queryExample: 'Estudios jurídicos Córdoba socio',
+      sources: 'Páginas Amarillas, Boletín Oficial, LinkedIn',
+    },
+  },
+  CO: {
+    code: 'CO',
+    name: 'Colombia',
+    aliases: ['colombia', 'co'],
+    language: 'es',
+    domains: ['.com.co', '.net.co', '.org.co'], // bare .co is mostly used as a generic TLD
+    legalForms: ['sas', 'ltda', 'sa', 'sca'],
+    phone: { prefix: '+57', digits: 10 },
+    genericMailboxes: ['contacto', 'info', 'hola', 'recepcion', 'citas', 'servicioalcliente'],
+    departmentMailboxes: ['ventas', 'comercial', 'gerencia', 'administracion', 'talentohumano', 'facturacion'],
+    freeMailDomains: ['une.net.co', 'etb.net.co'],
+    prompt: {
+      roles: 'Gerente general, Dueño, Director',
+      queryExample: 'Clínicas odontológicas Medellín gerente general',
+      sources: 'RUES, Páginas Amarillas, LinkedIn',
+    },
+  },
+  CL: {
+    code: 'CL',
+    name: 'Chile',
+    aliases: ['chile', 'cl'],
+    language: 'es',
+    domains: ['.cl'],
+    legalForms: ['spa', 'ltda', 'eirl', 'sa'],
+    phone: { prefix: '+56', digits: 9 },
+    genericMailboxes: ['contacto', 'info', 'hola', 'recepcion', 'reservas'],
+    departmentMailboxes: ['ventas', 'comercial', 'gerencia', 'administracion', 'rrhh'],
+    freeMailDomains: ['vtr.net', 'entelchile.net'],
+    prompt: {
+      roles: 'Gerente general, Dueño, Socio',
+      queryExample: 'Clínicas dentales Santiago gerente general',
+      sources: 'Registro de Empresas y Sociedades, Páginas Amarillas, LinkedIn',
+    },
+  },
+};
+
+export const MARKET_LIST: Market[] = Object.values(MARKETS);
+
+// Kept local: dedup builds its suffix list from this module
+const fold = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+export const isMarketCode = (value: string): value is MarketCode => value in MARKETS;
+
+/**
+ * "Portugal", "UK", "España" or an ISO code -> the market, or null for countries without conventions here.
+ */
+export const resolveMarket = (country: string): Market | null => {
+  const folded = fold(country);
+  return MARKET_LIST.find(market => fold(market.name) === folded || market.aliases.includes(folded)) || null;
+};
+
+/**
+ * Markets of the profile's countries that have conventions defined.
+ */
+export const profileMarkets = (profile: IdealCustomerProfile): Market[] =>
+  Array.from(new Set(profile.countries.map(resolveMarket).filter((market): market is Market => !!market)));
+
+/**
+ * Display name of an ISO country code in the UI language; the code itself if the browser cannot name it.
+ */
+export const countryName = (code: string, locale: string): string => {
+  try {
+    return new Intl.DisplayNames([locale], { type: 'region' }).of(code) || code;
+  } catch {
+    return code;
+  }
+};
+
+const marketOfHost = (host: string) =>
+  MARKET_LIST.find(market => market.domains.some(tld => host.endsWith(tld)));
+
+// Legal forms that only one market uses ("lda", "sarl", "ltd"); shared ones like "sa" say nothing
+const DISTINCTIVE_FORMS = new Map<string, Market>(
+  MARKET_LIST.flatMap(market => market.legalForms.map(form => [form, market] as const))
+    .filter(([form]) => MARKET_LIST.filter(market => market.legalForms.includes(form)).length === 1)
+);
+
+const marketOfName = (companyName: string) => {
+  const words = ` ${fold(companyName).replace(/[.,]/g, '').replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ')} `;
+  for (const [form, market] of DISTINCTIVE_FORMS) {
+    if (words.endsWith(` ${form} `)) return market;
+  }
+  return undefined;
+};
+
+const marketOfPhone = (text: string) => {
+  const compact = text.replace(/[\s().-]/g, '');
+  // Longest prefixes first, so +351 is not read as +35...
+  return [...MARKET_LIST]
+    .sort((a, b) => b.phone.prefix.length - a.phone.prefix.length)
+    .find(market => new RegExp(`(\\+|00)${market.phone.prefix.slice(1)}\\d{${market.phone.digits}}(?!\\d)`).test(compact));
+};
+
+/**
+ * Best guess at a company's market from its own traces: website and email
+ * TLDs first, then a legal form only one country uses, then international
+ * phone numbers in the text it was found in.
+ */
+export const detectMarket = (
+  lead: Pick<Company, 'companyName' | 'website'> & { contacts: Pick<Contact, 'email'>[] },
+  text = ''
+): MarketCode | undefined => {
+  const hosts = [
+    lead.website.toLowerCase().replace(/^[a-z]+:\/\//, '').split(/[/?#:]/)[0],
+    ...lead.contacts.map(contact => contact.email.toLowerCase().split('@')[1] || ''),
+  ].filter(Boolean);
+  for (const host of hosts) {
+    const market = marketOfHost(host);
+    if (market) return market.code;
+  }
+  return (marketOfName(lead.companyName) || (text ? marketOfPhone(text) : undefined))?.code;
+};
+
+/**
+ * A country as typed in an import or returned by the model -> ISO code, or undefined.
+ */
+export const toCountryCode = (value: string | undefined): string | undefined => {
+  const trimmed = (value || '').trim();
+  if (!trimmed) return undefined;
+  const market = resolveMarket(trimmed);
+  if (market) return market.code;
+  return /^[a-z]{2}$/i.test(trimmed) ? trimmed.toUpperCase() : undefined;
+};
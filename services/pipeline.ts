@@ -0,0 +1,30 @@
+import { Lead, PipelineStatus } from "../types";
+
+export const PIPELINE_STATUSES: PipelineStatus[] = ['new', 'contacted', 'replied', 'meeting', 'won', 'lost', 'do-not-contact'];
+
+export const PIPELINE_COLORS: Record<PipelineStatus, string> = {
+  'new': 'bg-gray-100 text-gray-700 border-gray-200',
+  'contacted': 'bg-blue-50 text-blue-700 border-blue-200',
+  'replied': 'bg-indigo-50 text-indigo-700 border-indigo-200',
+  'meeting': 'bg-purple-50 text-purple-700 border-purple-200',
+  'won': 'bg-green-50 text-green-700 border-green-200',
+  'lost': 'bg-red-50 text-red-700 border-red-200',
+  'do-not-contact': 'bg-gray-800 text-white border-gray-800',
+};
+
+/**
+ * Moves a lead to a new stage, recording the transition. No-op if the stage is unchanged.
+ */
+export const transitionLead = (lead: Lead, to: PipelineStatus): Lead => {
+  if (lead.pipelineStatus === to) return lead;
+  return {
+    ...lead,
+    pipelineStatus: to,
+    statusHistory: [...lead.statusHistory, { from: lead.pipelineStatus, to, at: new Date().toISOString() }],
+  };
+};
+
+export const addLeadNote = (lead: Lead, text: string): Lead => ({
+  ...lead,
+  notes: [...lead.notes, { id: crypto.randomUUID(), text, createdAt: new Date().toISOString() }],
+});
@@ -0,0 +1,686 @@
+import { Campaign, IdealCustomerProfile } from "../types";
+import { CoverageCell, CoverageSummary, PlanningApproach, avgNeedScore, chatbotRate, leadsPerCycle } from "./coverage";
+import { ANY_CHATBOT, formatList } from "./icpProfiles";
+import { MARKETS, Market, MarketLanguage, countryName, profileMarkets } from "./markets";
+import { HistorySummary } from "./searchHistory";
+
+// --- PROMPT TEMPLATES ---
+// The strategist, search, enrichment and extraction prompts, one template per market language,
+// so a search for Lyon is briefed and written in French rather than translated from Spanish.
+// Values the code reads back (chatbot status, seniority) keep their fixed spelling in every language.
+
+export interface StrategyPromptContext {
+  profile: IdealCustomerProfile;
+  campaign?: Campaign | null;
+  markets: Market[]; // markets of the profile's countries, empty when none has conventions here
+  history: HistorySummary | null; // null before the first search
+  rejectedQueries: string[]; // proposals turned down earlier in this cycle
+  coverage: CoverageSummary | null; // null before the first cycle
+  approach: PlanningApproach;
+}
+
+export interface CompanyPromptContext {
+  query: string; // the search query, or the company name (and website) to research
+  profile: IdealCustomerProfile;
+  market?: Market;
+}
+
+export interface ExtractionPromptContext {
+  profile: IdealCustomerProfile;
+  market?: Market; // the market searched, when there is one
+}
+
+interface PromptTemplate {
+  locale: string; // for country names
+  languageNames: Record<MarketLanguage, string>;
+  market: (market: Market, template: PromptTemplate) => string;
+  strategy: (context: StrategyPromptContext, template: PromptTemplate) => string;
+  search: (context: CompanyPromptContext, template: PromptTemplate) => string;
+  enrich: (context: CompanyPromptContext, template: PromptTemplate) => string;
+  extraction: (context: ExtractionPromptContext) => string;
+}
+
+const legalForms = (market: Market) => market.legalForms.slice(0, 4).map(form => form.toUpperCase()).join(', ');
+const mailboxes = (market: Market) => market.genericMailboxes.slice(0, 3).map(box => `${box}@`).join(', ');
+const quoted = (queries: string[]) => queries.map(query => `"${query}"`).join(', ');
+const bullets = (lines: string[]) => lines.map(line => `- ${line}`).join('\n    ');
+
+// The JSON examples name the profile's markets, or Spain when it has none
+const exampleMarkets = (markets: Market[]) => markets.length > 0 ? markets : [MARKETS.ES];
+const countryCodes = (markets: Market[]) => exampleMarkets(markets).map(m => m.code).join(', ');
+const queryExamples = (markets: Market[], or: string) =>
+  exampleMarkets(markets).slice(0, 2).map(m => `'${m.prompt.queryExample}'`).join(` ${or} `);
+
+// Mailboxes the extraction should avoid: the searched market's, else those of the profile's markets or Spain's
+const genericMailboxes = (profile: IdealCustomerProfile, market?: Market) => {
+  const markets = market ? [market] : profileMarkets(profile).length > 0 ? profileMarkets(profile) : [MARKETS.ES];
+  return Array.from(new Set(markets.flatMap(m => m.genericMailboxes.slice(0, 2)))).map(box => `'${box}@'`).join(', ');
+};
+
+const disqualifiers = (profile: IdealCustomerProfile, anyChatbot: string) =>
+  profile.disqualifyingTechnologies.map(tech => tech === ANY_CHATBOT ? anyChatbot : tech).join(', ');
+
+const es: PromptTemplate = {
+  locale: 'es-ES',
+  languageNames: { es: 'español', pt: 'portugués', fr: 'francés', en: 'inglés' },
+  market: (market, { locale, languageNames }) =>
+    `${countryName(market.code, locale)} (${market.code}): escribe en ${languageNames[market.language]} (ej: "${market.prompt.queryExample}"). ` +
+    `Cargos locales: ${market.prompt.roles}. Formas jurídicas: ${legalForms(market)}. ` +
+    `Teléfonos ${market.phone.prefix}. Buzones genéricos típicos: ${mailboxes(market)}. ` +
+    `Fuentes útiles: ${market.prompt.sources}.`,
+  strategy: ({ profile, campaign, markets, history, rejectedQueries, coverage, approach }, template) => {
+    const countries = formatList(profile.countries, 'España');
+    const historyLines = !history ? ['No hay historial previo.'] : [
+      history.recent.length > 0 && `Búsquedas recientes (EVITAR REPETIR): ${quoted(history.recent)}.`,
+      history.older.length > 0 && `Búsquedas anteriores por nicho (zonas ya cubiertas): ${history.older.join('; ')}.`,
+      history.pinned.length > 0 && `Búsquedas fijadas por el usuario (productivas, se pueden repetir): ${quoted(history.pinned)}.`,
+      history.blacklisted.length > 0 && `Búsquedas PROHIBIDAS (ni parecidas): ${quoted(history.blacklisted)}.`,
+    ];
+    if (rejectedQueries.length > 0) {
+      historyLines.push(`Queries descartadas en este ciclo por repetir búsquedas anteriores (propón algo claramente distinto): ${quoted(rejectedQueries)}.`);
+    }
+    const cell = (c: CoverageCell) =>
+      `${c.niche} · ${c.location}: ${c.cycles} ciclos, ` +
+      (c.leads > 0 ? `${leadsPerCycle(c).toFixed(1)} leads/ciclo, need score medio ${avgNeedScore(c).toFixed(1)}` : 'sin leads') +
+      `, ${Math.round(chatbotRate(c) * 100)}% con chatbot`;
+    const coverageContext = !coverage ? 'Aún no se ha explorado ningún segmento.' : `
+    Segmentos más productivos:
+    ${bullets(coverage.best.map(cell)) || '- (ninguno ha dado leads todavía)'}
+    Segmentos de bajo rendimiento (EVITAR):
+    ${bullets(coverage.worst.map(cell)) || '- (ninguno)'}
+    Nichos ya probados: ${coverage.niches.join(', ')}.
+    Zonas ya probadas: ${coverage.locations.join(', ')}.${coverage.omitted > 0 ? `
+    (${coverage.omitted} segmentos menos productivos y más antiguos no se listan.)` : ''}`;
+    const marketContext = markets.length > 0
+      ? `\n    MERCADOS (convenciones locales):\n    ${bullets(markets.map(market => template.market(market, template)))}\n`
+      : '';
+    // A campaign narrows the profile's niches and regions to its own lists
+    const regionHint = campaign?.regions.length
+      ? ` (SOLO una de estas: ${campaign.regions.join(', ')})`
+      : profile.regions.length > 0 ? ` (preferiblemente: ${profile.regions.join(', ')})` : '';
+    const sectors = campaign?.niches.length
+      ? `SOLO uno de estos nichos: ${campaign.niches.join(', ')}`
+      : `sectores como: ${formatList(profile.includeSectors, 'cualquier sector de servicios')}`;
+    const objective = campaign?.objective ? `\n    Objetivo de la campaña "${campaign.name}": ${campaign.objective}` : '';
+    const excluded = profile.excludeSectors.length > 0 ? ` NUNCA elijas: ${profile.excludeSectors.join(', ')}.` : '';
+    const approachInstruction = approach === 'exploit'
+      ? 'MODO EXPLOTAR: quédate cerca de uno de los segmentos más productivos (mismo nicho en una zona cercana, o un nicho afín en la misma zona), con una query distinta a las del historial.'
+      : 'MODO EXPLORAR: elige una combinación de nicho y zona que NO aparezca en el mapa de cobertura.';
+    return `
+    Actúa como un Director de Estrategia Comercial B2B.
+
+    TU MISIÓN:
+    Identificar un nicho de mercado y una ubicación en ${countries} con alta probabilidad de encajar con este perfil de cliente: "${profile.name}".
+    Perfil de necesidad alta: ${profile.scoring.high}${objective}
+
+    CONTEXTO:
+    ${historyLines.filter(Boolean).join('\n    ')}
+
+    MAPA DE COBERTURA (nicho · zona: rendimiento):
+    ${coverageContext}
+    ${marketContext}
+    INSTRUCCIONES:
+    0. ${approachInstruction}
+    1. Elige ${sectors}.${excluded} Tamaño: ${profile.companySize}
+    2. Elige una ciudad o región específica de ${countries}${regionHint}.
+    3. Genera una query diseñada para encontrar a las personas (${formatList(profile.targetRoles, 'Dueño, Gerente')}, "Equipo").${markets.length > 0 ? ' Escríbela en el idioma local del país elegido y con los cargos locales.' : ''}
+
+    FORMATO DE RESPUESTA JSON:
+    {
+      "targetNiche": "Nombre del nicho",
+      "location": "Ciudad/Región",
+      "country": "Código ISO de 2 letras del país elegido (ej: ${countryCodes(markets)})",
+      "searchQuery": "Query optimizada para Google (ej: ${queryExamples(markets, 'o')})",
+      "reasoning": "Breve explicación estratégica."
+    }
+  `;
+  },
+  search: ({ query, profile, market }, template) => `
+    Realiza una investigación profunda para la búsqueda: "${query}".
+    Objetivo: Encontrar 5-8 empresas candidatas y sus TOMADORES DE DECISIONES.
+
+    Para cada empresa:
+    1. Extrae Nombre y Web.
+    2. INVESTIGA PROFUNDAMENTE para encontrar nombres de personas clave:
+       ${formatList(profile.targetRoles, market?.prompt.roles || 'Dueño / Gerente')}
+    3. Busca emails directos de estas personas o de sus departamentos.
+    4. Verifica sus redes sociales (especialmente LinkedIn).
+    5. Indica a qué sector pertenece cada empresa.${profile.disqualifyingTechnologies.length > 0 ? `
+    6. Revisa si usan ${disqualifiers(profile, 'CHATBOTS o automatización avanzada')} (para descartarlas luego).` : ''}
+    ${market ? `
+    Mercado: ${template.market(market, template)}
+    Busca en fuentes locales y usa los cargos locales.
+    ` : ''}
+    Genera un informe detallado con estos datos.
+  `,
+  enrich: ({ query, profile, market }, template) => `
+    Investiga la empresa "${query}".
+
+    1. Confirma su web oficial y el sector al que pertenece.
+    2. Encuentra nombres de personas clave:
+       ${formatList(profile.targetRoles, market?.prompt.roles || 'Dueño / Gerente')}
+    3. Busca emails directos de estas personas o de sus departamentos.
+    4. Verifica sus redes sociales (especialmente LinkedIn).
+    5. Revisa si su web tiene un chatbot o widget de chat en vivo.
+    ${market ? `
+    Mercado: ${template.market(market, template)}
+    ` : ''}
+    Genera un informe detallado solo sobre esta empresa.
+  `,
+  extraction: ({ profile, market }) => `
+Eres un Analista de Datos experto en cualificación de leads B2B (Headhunter digital).
+
+OBJETIVO PRINCIPAL:
+1. ${profile.disqualifyingTechnologies.length > 0 ? `Descartar empresas con ${disqualifiers(profile, 'CHATBOTS o automatización avanzada')}.` : 'Identificar la tecnología de atención al cliente de cada empresa.'}
+2. Encontrar al TOMADOR DE DECISIONES (${formatList(profile.targetRoles, market?.prompt.roles || 'Dueño, Gerente')}).
+
+REGLAS DE EXTRACCIÓN (STRICT):
+1. Detección de Rol (CRÍTICO):
+   - Busca nombres propios asociados a cargos: ${formatList(profile.targetRoles, market?.prompt.roles || 'Dueño, Gerente')}.
+   - Cada persona encontrada es un elemento de "contacts" con "name", "role", "email" y "seniority".
+   - Incluye a TODOS los decisores de la empresa (CEO, CMO, COO...), no solo al primero.
+   - Si no hay nombre, añade un contacto sin "name" e infiere el departamento del email (ej: marketing@ -> "Dpto. Marketing", seniority "department").
+   - Seniority: "c-level" (CEO, dueño, fundador), "director", "manager", "staff", "department" o "unknown".
+
+2. Email:
+   - PRIORIDAD: Emails directos de personas (juan.perez@empresa.com).
+   - SECUNDARIO: Emails departamentales específicos (marketing@, gerencia@, operaciones@).
+   - EVITAR: Emails genéricos (${genericMailboxes(profile, market)}) SALVO que sea una empresa pequeña donde el dueño lo lee.
+   - NUNCA: Emails 'no-reply' o personales (gmail/hotmail) a menos que sea un autónomo claro.
+   - Tamaño de empresa objetivo: ${profile.companySize}
+
+3. Redes Sociales: Busca enlaces a LinkedIn (prioridad para ver empleados), Instagram, etc.
+
+4. Status Chatbot:
+   - "TIENE_CHATBOT": Si ves burbujas de chat automáticas, Zendesk, Intercom, bots.
+   - "OPORTUNIDAD": Si es formulario simple, mailto, o teléfono.
+
+5. Need Score (1-5):
+   - 5: ${profile.scoring.high}
+   - 1: ${profile.scoring.low}
+
+6. Sector: indica en "sector" la actividad principal de la empresa (ej: "Clínica dental", "Despacho de abogados").
+
+7. Indicios de web antigua: lista en "websiteAgeHints" lo que observes (ej: "Copyright 2013", "Sin versión móvil", "Diseño de los 2000"). Vacío si no hay indicios.
+
+8. País: indica en "country" el código ISO de 2 letras del país de la empresa (ES, PT, FR, GB, MX, AR, CO, CL...), deducido de la web, el prefijo telefónico, la forma jurídica o la dirección. Vacío si no está claro.
+`,
+};
+
+const pt: PromptTemplate = {
+  locale: 'pt-PT',
+  languageNames: { es: 'espanhol', pt: 'português', fr: 'francês', en: 'inglês' },
+  market: (market, { locale, languageNames }) =>
+    `${countryName(market.code, locale)} (${market.code}): escreve em ${languageNames[market.language]} (ex.: "${market.prompt.queryExample}"). ` +
+    `Cargos locais: ${market.prompt.roles}. Formas jurídicas: ${legalForms(market)}. ` +
+    `Telefones ${market.phone.prefix}. Caixas de correio genéricas típicas: ${mailboxes(market)}. ` +
+    `Fontes úteis: ${market.prompt.sources}.`,
+  strategy: ({ profile, campaign, markets, history, rejectedQueries, coverage, approach }, template) => {
+    const countries = formatList(profile.countries, 'Portugal');
+    const historyLines = !history ? ['Não há histórico anterior.'] : [
+      history.recent.length > 0 && `Pesquisas recentes (EVITAR REPETIR): ${quoted(history.recent)}.`,
+      history.older.length > 0 && `Pesquisas anteriores por nicho (zonas já cobertas): ${history.older.join('; ')}.`,
+      history.pinned.length > 0 && `Pesquisas fixadas pelo utilizador (produtivas, podem repetir-se): ${quoted(history.pinned)}.`,
+      history.blacklisted.length > 0 && `Pesquisas PROIBIDAS (nem parecidas): ${quoted(history.blacklisted)}.`,
+    ];
+    if (rejectedQueries.length > 0) {
+      historyLines.push(`Queries rejeitadas neste ciclo por repetirem pesquisas anteriores (propõe algo claramente diferente): ${quoted(rejectedQueries)}.`);
+    }
+    const cell = (c: CoverageCell) =>
+      `${c.niche} · ${c.location}: ${c.cycles} ciclos, ` +
+      (c.leads > 0 ? `${leadsPerCycle(c).toFixed(1)} leads/ciclo, need score médio ${avgNeedScore(c).toFixed(1)}` : 'sem leads') +
+      `, ${Math.round(chatbotRate(c) * 100)}% com chatbot`;
+    const coverageContext = !coverage ? 'Ainda não foi explorado nenhum segmento.' : `
+    Segmentos mais produtivos:
+    ${bullets(coverage.best.map(cell)) || '- (nenhum deu leads ainda)'}
+    Segmentos de baixo rendimento (EVITAR):
+    ${bullets(coverage.worst.map(cell)) || '- (nenhum)'}
+    Nichos já testados: ${coverage.niches.join(', ')}.
+    Zonas já testadas: ${coverage.locations.join(', ')}.${coverage.omitted > 0 ? `
+    (${coverage.omitted} segmentos menos produtivos e mais antigos não são listados.)` : ''}`;
+    const marketContext = markets.length > 0
+      ? `\n    MERCADOS (convenções locais):\n    ${bullets(markets.map(market => template.market(market, template)))}\n`
+      : '';
+    const regionHint = campaign?.regions.length
+      ? ` (APENAS uma destas: ${campaign.regions.join(', ')})`
+      : profile.regions.length > 0 ? ` (de preferência: ${profile.regions.join(', ')})` : '';
+    const sectors = campaign?.niches.length
+      ? `APENAS um destes nichos: ${campaign.niches.join(', ')}`
+      : `setores como: ${formatList(profile.includeSectors, 'qualquer setor de serviços')}`;
+    const objective = campaign?.objective ? `\n    Objetivo da campanha "${campaign.name}": ${campaign.objective}` : '';
+    const excluded = profile.excludeSectors.length > 0 ? ` NUNCA escolhas: ${profile.excludeSectors.join(', ')}.` : '';
+    const approachInstruction = approach === 'exploit'
+      ? 'MODO EXPLORAR A FUNDO: fica perto de um dos segmentos mais produtivos (o mesmo nicho numa zona próxima, ou um nicho afim na mesma zona), com uma query diferente das do histórico.'
+      : 'MODO EXPLORAR: escolhe uma combinação de nicho e zona que NÃO apareça no mapa de cobertura.';
+    return `
+    Atua como Diretor de Estratégia Comercial B2B.
+
+    A TUA MISSÃO:
+    Identificar um nicho de mercado e uma localização em ${countries} com alta probabilidade de corresponder a este perfil de cliente: "${profile.name}".
+    Perfil de necessidade alta: ${profile.scoring.high}${objective}
+
+    CONTEXTO:
+    ${historyLines.filter(Boolean).join('\n    ')}
+
+    MAPA DE COBERTURA (nicho · zona: rendimento):
+    ${coverageContext}
+    ${marketContext}
+    INSTRUÇÕES:
+    0. ${approachInstruction}
+    1. Escolhe ${sectors}.${excluded} Dimensão: ${profile.companySize}
+    2. Escolhe uma cidade ou região específica de ${countries}${regionHint}.
+    3. Gera uma query pensada para encontrar as pessoas (${formatList(profile.targetRoles, 'Sócio-gerente, Diretor-geral')}, "Equipa").${markets.length > 0 ? ' Escreve-a na língua local do país escolhido e com os cargos locais.' : ''}
+
+    FORMATO DE RESPOSTA JSON:
+    {
+      "targetNiche": "Nome do nicho",
+      "location": "Cidade/Região",
+      "country": "Código ISO de 2 letras do país escolhido (ex.: ${countryCodes(markets)})",
+      "searchQuery": "Query otimizada para o Google (ex.: ${queryExamples(markets, 'ou')})",
+      "reasoning": "Breve explicação estratégica."
+    }
+  `;
+  },
+  search: ({ query, profile, market }, template) => `
+    Faz uma pesquisa aprofundada para a consulta: "${query}".
+    Objetivo: Encontrar 5-8 empresas candidatas e os seus DECISORES.
+
+    Para cada empresa:
+    1. Extrai o Nome e o Site.
+    2. PESQUISA A FUNDO para encontrar nomes de pessoas-chave:
+       ${formatList(profile.targetRoles, market?.prompt.roles || 'Sócio-gerente / Diretor-geral')}
+    3. Procura emails diretos destas pessoas ou dos seus departamentos.
+    4. Verifica as suas redes sociais (sobretudo o LinkedIn).
+    5. Indica o setor a que pertence cada empresa.${profile.disqualifyingTechnologies.length > 0 ? `
+    6. Verifica se usam ${disqualifiers(profile, 'CHATBOTS ou automação avançada')} (para as descartar depois).` : ''}
+    ${market ? `
+    Mercado: ${template.market(market, template)}
+    Pesquisa em fontes locais e usa os cargos locais.
+    ` : ''}
+    Gera um relatório detalhado com estes dados.
+  `,
+  enrich: ({ query, profile, market }, template) => `
+    Pesquisa a empresa "${query}".
+
+    1. Confirma o site oficial e o setor a que pertence.
+    2. Encontra nomes de pessoas-chave:
+       ${formatList(profile.targetRoles, market?.prompt.roles || 'Sócio-gerente / Diretor-geral')}
+    3. Procura emails diretos destas pessoas ou dos seus departamentos.
+    4. Verifica as suas redes sociais (sobretudo o LinkedIn).
+    5. Verifica se o site tem um chatbot ou widget de chat ao vivo.
+    ${market ? `
+    Mercado: ${template.market(market, template)}
+    ` : ''}
+    Gera um relatório detalhado apenas sobre esta empresa.
+  `,
+  extraction: ({ profile, market }) => `
+És um Analista de Dados especialista em qualificação de leads B2B (Headhunter digital).
+
+OBJETIVO PRINCIPAL:
+1. ${profile.disqualifyingTechnologies.length > 0 ? `Descartar empresas com ${disqualifiers(profile, 'CHATBOTS ou automação avançada')}.` : 'Identificar a tecnologia de apoio ao cliente de cada empresa.'}
+2. Encontrar o DECISOR (${formatList(profile.targetRoles, market?.prompt.roles || 'Sócio-gerente, Diretor-geral')}).
+
+REGRAS DE EXTRAÇÃO (STRICT):
+1. Deteção de Cargo (CRÍTICO):
+   - Procura nomes próprios associados a cargos: ${formatList(profile.targetRoles, market?.prompt.roles || 'Sócio-gerente, Diretor-geral')}.
+   - Cada pessoa encontrada é um elemento de "contacts" com "name", "role", "email" e "seniority".
+   - Inclui TODOS os decisores da empresa (CEO, CMO, COO...), não apenas o primeiro.
+   - Se não houver nome, adiciona um contacto sem "name" e deduz o departamento a partir do email (ex.: marketing@ -> "Dep. Marketing", seniority "department").
+   - Seniority: "c-level" (CEO, sócio-gerente, fundador), "director", "manager", "staff", "department" ou "unknown".
+
+2. Email:
+   - PRIORIDADE: Emails diretos de pessoas (joao.silva@empresa.pt).
+   - SECUNDÁRIO: Emails de departamentos específicos (marketing@, direcao@, comercial@).
+   - EVITAR: Emails genéricos (${genericMailboxes(profile, market)}) EXCETO numa empresa pequena onde o dono os lê.
+   - NUNCA: Emails 'no-reply' ou pessoais (gmail/hotmail), a não ser que seja claramente um trabalhador independente.
+   - Dimensão de empresa alvo: ${profile.companySize}
+
+3. Redes Sociais: Procura ligações para o LinkedIn (prioritário para ver colaboradores), Instagram, etc.
+
+4. Status Chatbot:
+   - "TIENE_CHATBOT": Se vires bolhas de chat automáticas, Zendesk, Intercom, bots.
+   - "OPORTUNIDAD": Se for um formulário simples, mailto ou telefone.
+
+5. Need Score (1-5):
+   - 5: ${profile.scoring.high}
+   - 1: ${profile.scoring.low}
+
+6. Setor: indica em "sector" a atividade principal da empresa (ex.: "Clínica dentária", "Escritório de advogados").
+
+7. Indícios de site antigo: lista em "websiteAgeHints" o que observares (ex.: "Copyright 2013", "Sem versão móvel", "Design dos anos 2000"). Vazio se não houver indícios.
+
+8. País: indica em "country" o código ISO de 2 letras do país da empresa (ES, PT, FR, GB, MX, AR, CO, CL...), deduzido do site, do indicativo telefónico, da forma jurídica ou da morada. Vazio se não for claro.
+`,
+};
+
+const fr: PromptTemplate = {
+  locale: 'fr-FR',
+  languageNames: { es: 'espagnol', pt: 'portugais', fr: 'français', en: 'anglais' },
+  market: (market, { locale, languageNames }) =>
+    `${countryName(market.code, locale)} (${market.code}) : écris en ${languageNames[market.language]} (ex. : « ${market.prompt.queryExample} »). ` +
+    `Postes locaux : ${market.prompt.roles}. Formes juridiques : ${legalForms(market)}. ` +
+    `Téléphones ${market.phone.prefix}. Adresses génériques courantes : ${mailboxes(market)}. ` +
+    `Sources utiles : ${market.prompt.sources}.`,
+  strategy: ({ profile, campaign, markets, history, rejectedQueries, coverage, approach }, template) => {
+    const countries = formatList(profile.countries, 'France');
+    const historyLines = !history ? ['Aucun historique.'] : [
+      history.recent.length > 0 && `Recherches récentes (NE PAS RÉPÉTER) : ${quoted(history.recent)}.`,
+      history.older.length > 0 && `Recherches précédentes par niche (zones déjà couvertes) : ${history.older.join('; ')}.`,
+      history.pinned.length > 0 && `Recherches épinglées par l'utilisateur (productives, peuvent être répétées) : ${quoted(history.pinned)}.`,
+      history.blacklisted.length > 0 && `Recherches INTERDITES (même approchantes) : ${quoted(history.blacklisted)}.`,
+    ];
+    if (rejectedQueries.length > 0) {
+      historyLines.push(`Requêtes écartées dans ce cycle car elles répètent des recherches passées (propose quelque chose de nettement différent) : ${quoted(rejectedQueries)}.`);
+    }
+    const cell = (c: CoverageCell) =>
+      `${c.niche} · ${c.location} : ${c.cycles} cycles, ` +
+      (c.leads > 0 ? `${leadsPerCycle(c).toFixed(1)} leads/cycle, need score moyen ${avgNeedScore(c).toFixed(1)}` : 'aucun lead') +
+      `, ${Math.round(chatbotRate(c) * 100)} % avec chatbot`;
+    const coverageContext = !coverage ? "Aucun segment n'a encore été exploré." : `
+    Segments les plus productifs :
+    ${bullets(coverage.best.map(cell)) || "- (aucun n'a encore donné de leads)"}
+    Segments peu rentables (À ÉVITER) :
+    ${bullets(coverage.worst.map(cell)) || '- (aucun)'}
+    Niches déjà essayées : ${coverage.niches.join(', ')}.
+    Zones déjà essayées : ${coverage.locations.join(', ')}.${coverage.omitted > 0 ? `
+    (${coverage.omitted} segments moins productifs et plus anciens ne sont pas listés.)` : ''}`;
+    const marketContext = markets.length > 0
+      ? `\n    MARCHÉS (conventions locales) :\n    ${bullets(markets.map(market => template.market(market, template)))}\n`
+      : '';
+    const regionHint = campaign?.regions.length
+      ? ` (UNIQUEMENT l'une de celles-ci : ${campaign.regions.join(', ')})`
+      : profile.regions.length > 0 ? ` (de préférence : ${profile.regions.join(', ')})` : '';
+    const sectors = campaign?.niches.length
+      ? `UNIQUEMENT l'une de ces niches : ${campaign.niches.join(', ')}`
+      : `des secteurs comme : ${formatList(profile.includeSectors, "n'importe quel secteur de services")}`;
+    const objective = campaign?.objective ? `\n    Objectif de la campagne « ${campaign.name} » : ${campaign.objective}` : '';
+    const excluded = profile.excludeSectors.length > 0 ? ` NE CHOISIS JAMAIS : ${profile.excludeSectors.join(', ')}.` : '';
+    const approachInstruction = approach === 'exploit'
+      ? "MODE EXPLOITER : reste proche de l'un des segments les plus productifs (même niche dans une zone voisine, ou niche proche dans la même zone), avec une requête différente de celles de l'historique."
+      : "MODE EXPLORER : choisis une combinaison de niche et de zone qui N'APPARAÎT PAS dans la carte de couverture.";
+    return `
+    Agis comme un Directeur de la Stratégie Commerciale B2B.
+
+    TA MISSION :
+    Identifier une niche de marché et une localisation en ${countries} ayant une forte probabilité de correspondre à ce profil de client : « ${profile.name} ».
+    Profil à fort besoin : ${profile.scoring.high}${objective}
+
+    CONTEXTE :
+    ${historyLines.filter(Boolean).join('\n    ')}
+
+    CARTE DE COUVERTURE (niche · zone : rendement) :
+    ${coverageContext}
+    ${marketContext}
+    INSTRUCTIONS :
+    0. ${approachInstruction}
+    1. Choisis ${sectors}.${excluded} Taille : ${profile.companySize}
+    2. Choisis une ville ou une région précise de ${countries}${regionHint}.
+    3. Génère une requête conçue pour trouver les personnes (${formatList(profile.targetRoles, 'Gérant, Directeur général')}, « Équipe »).${markets.length > 0 ? ' Écris-la dans la langue locale du pays choisi, avec les intitulés de poste locaux.' : ''}
+
+    FORMAT DE RÉPONSE JSON :
+    {
+      "targetNiche": "Nom de la niche",
+      "location": "Ville/Région",
+      "country": "Code ISO à 2 lettres du pays choisi (ex. : ${countryCodes(markets)})",
+      "searchQuery": "Requête optimisée pour Google (ex. : ${queryExamples(markets, 'ou')})",
+      "reasoning": "Brève explication stratégique."
+    }
+  `;
+  },
+  search: ({ query, profile, market }, template) => `
+    Mène une recherche approfondie pour la requête : « ${query} ».
+    Objectif : Trouver 5 à 8 entreprises candidates et leurs DÉCIDEURS.
+
+    Pour chaque entreprise :
+    1. Relève le Nom et le Site web.
+    2. CHERCHE EN PROFONDEUR les noms des personnes clés :
+       ${formatList(profile.targetRoles, market?.prompt.roles || 'Gérant / Directeur général')}
+    3. Cherche les emails directs de ces personnes ou de leurs services.
+    4. Vérifie leurs réseaux sociaux (surtout LinkedIn).
+    5. Indique le secteur de chaque entreprise.${profile.disqualifyingTechnologies.length > 0 ? `
+    6. Vérifie si elles utilisent ${disqualifiers(profile, 'des CHATBOTS ou une automatisation avancée')} (pour les écarter ensuite).` : ''}
+    ${market ? `
+    Marché : ${template.market(market, template)}
+    Cherche dans les sources locales et utilise les intitulés de poste locaux.
+    ` : ''}
+    Rédige un rapport détaillé avec ces données.
+  `,
+  enrich: ({ query, profile, market }, template) => `
+    Étudie l'entreprise « ${query} ».
+
+    1. Confirme son site officiel et son secteur.
+    2. Trouve les noms des personnes clés :
+       ${formatList(profile.targetRoles, market?.prompt.roles || 'Gérant / Directeur général')}
+    3. Cherche les emails directs de ces personnes ou de leurs services.
+    4. Vérifie leurs réseaux sociaux (surtout LinkedIn).
+    5. Vérifie si son site a un chatbot ou un widget de chat en direct.
+    ${market ? `
+    Marché : ${template.market(market, template)}
+    ` : ''}
+    Rédige un rapport détaillé uniquement sur cette entreprise.
+  `,
+  extraction: ({ profile, market }) => `
+Tu es un Analyste de Données expert en qualification de leads B2B (chasseur de têtes numérique).
+
+OBJECTIF PRINCIPAL :
+1. ${profile.disqualifyingTechnologies.length > 0 ? `Écarter les entreprises avec ${disqualifiers(profile, 'des CHATBOTS ou une automatisation avancée')}.` : "Identifier la technologie de service client de chaque entreprise."}
+2. Trouver le DÉCIDEUR (${formatList(profile.targetRoles, market?.prompt.roles || 'Gérant, Directeur général')}).
+
+RÈGLES D'EXTRACTION (STRICT) :
+1. Détection du poste (CRITIQUE) :
+   - Cherche des noms propres associés à des postes : ${formatList(profile.targetRoles, market?.prompt.roles || 'Gérant, Directeur général')}.
+   - Chaque personne trouvée est un élément de "contacts" avec "name", "role", "email" et "seniority".
+   - Inclus TOUS les décideurs de l'entreprise (CEO, CMO, COO...), pas seulement le premier.
+   - S'il n'y a pas de nom, ajoute un contact sans "name" et déduis le service à partir de l'email (ex. : marketing@ -> "Service Marketing", seniority "department").
+   - Seniority : "c-level" (CEO, gérant, fondateur), "director", "manager", "staff", "department" ou "unknown".
+
+2. Email :
+   - PRIORITÉ : Emails directs de personnes (jean.dupont@entreprise.fr).
+   - SECONDAIRE : Emails de services précis (marketing@, direction@, commercial@).
+   - À ÉVITER : Emails génériques (${genericMailboxes(profile, market)}) SAUF dans une petite entreprise où le dirigeant les lit.
+   - JAMAIS : Emails 'no-reply' ou personnels (gmail/hotmail), sauf pour un indépendant évident.
+   - Taille d'entreprise ciblée : ${profile.companySize}
+
+3. Réseaux sociaux : Cherche les liens LinkedIn (prioritaires pour voir les salariés), Instagram, etc.
+
+4. Status Chatbot :
+   - "TIENE_CHATBOT" : Si tu vois des bulles de chat automatiques, Zendesk, Intercom, des bots.
+   - "OPORTUNIDAD" : S'il s'agit d'un simple formulaire, d'un mailto ou d'un téléphone.
+
+5. Need Score (1-5) :
+   - 5 : ${profile.scoring.high}
+   - 1 : ${profile.scoring.low}
+
+6. Secteur : indique dans "sector" l'activité principale de l'entreprise (ex. : "Cabinet dentaire", "Cabinet d'avocats").
+
+7. Indices de site ancien : liste dans "websiteAgeHints" ce que tu observes (ex. : "Copyright 2013", "Pas de version mobile", "Design des années 2000"). Vide s'il n'y en a pas.
+
+8. Pays : indique dans "country" le code ISO à 2 lettres du pays de l'entreprise (ES, PT, FR, GB, MX, AR, CO, CL...), déduit du site, de l'indicatif téléphonique, de la forme juridique ou de l'adresse. Vide si ce n'est pas clair.
+`,
+};
+
+const en: PromptTemplate = {
+  locale: 'en-GB',
+  languageNames: { es: 'Spanish', pt: 'Portuguese', fr: 'French', en: 'English' },
+  market: (market, { locale, languageNames }) =>
+    `${countryName(market.code, locale)} (${market.code}): write in ${languageNames[market.language]} (e.g. "${market.prompt.queryExample}"). ` +
+    `Local job titles: ${market.prompt.roles}. Legal forms: ${legalForms(market)}. ` +
+    `Phones ${market.phone.prefix}. Typical generic mailboxes: ${mailboxes(market)}. ` +
+    `Useful sources: ${market.prompt.sources}.`,
+  strategy: ({ profile, campaign, markets, history, rejectedQueries, coverage, approach }, template) => {
+    const countries = formatList(profile.countries, 'the United Kingdom');
+    const historyLines = !history ? ['No previous history.'] : [
+      history.recent.length > 0 && `Recent searches (DO NOT REPEAT): ${quoted(history.recent)}.`,
+      history.older.length > 0 && `Earlier searches by niche (areas already covered): ${history.older.join('; ')}.`,
+      history.pinned.length > 0 && `Searches pinned by the user (productive, may be repeated): ${quoted(history.pinned)}.`,
+      history.blacklisted.length > 0 && `FORBIDDEN searches (nor anything similar): ${quoted(history.blacklisted)}.`,
+    ];
+    if (rejectedQueries.length > 0) {
+      historyLines.push(`Queries rejected this cycle for repeating past searches (propose something clearly different): ${quoted(rejectedQueries)}.`);
+    }
+    const cell = (c: CoverageCell) =>
+      `${c.niche} · ${c.location}: ${c.cycles} cycles, ` +
+      (c.leads > 0 ? `${leadsPerCycle(c).toFixed(1)} leads/cycle, average need score ${avgNeedScore(c).toFixed(1)}` : 'no leads') +
+      `, ${Math.round(chatbotRate(c) * 100)}% with a chatbot`;
+    const coverageContext = !coverage ? 'No segment has been explored yet.' : `
+    Most productive segments:
+    ${bullets(coverage.best.map(cell)) || '- (none has produced leads yet)'}
+    Low-yield segments (AVOID):
+    ${bullets(coverage.worst.map(cell)) || '- (none)'}
+    Niches already tried: ${coverage.niches.join(', ')}.
+    Areas already tried: ${coverage.locations.join(', ')}.${coverage.omitted > 0 ? `
+    (${coverage.omitted} less productive and older segments are not listed.)` : ''}`;
+    const marketContext = markets.length > 0
+      ? `\n    MARKETS (local conventions):\n    ${bullets(markets.map(market => template.market(market, template)))}\n`
+      : '';
+    const regionHint = campaign?.regions.length
+      ? ` (ONLY one of these: ${campaign.regions.join(', ')})`
+      : profile.regions.length > 0 ? ` (preferably: ${profile.regions.join(', ')})` : '';
+    const sectors = campaign?.niches.length
+      ? `ONLY one of these niches: ${campaign.niches.join(', ')}`
+      : `sectors such as: ${formatList(profile.includeSectors, 'any service sector')}`;
+    const objective = campaign?.objective ? `\n    Goal of the "${campaign.name}" campaign: ${campaign.objective}` : '';
+    const excluded = profile.excludeSectors.length > 0 ? ` NEVER pick: ${profile.excludeSectors.join(', ')}.` : '';
+    const approachInstruction = approach === 'exploit'
+      ? 'EXPLOIT MODE: stay close to one of the most productive segments (the same niche in a nearby area, or a related niche in the same area), with a query unlike those in the history.'
+      : 'EXPLORE MODE: pick a niche and area combination that does NOT appear in the coverage map.';
+    return `
+    Act as a B2B Sales Strategy Director.
+
+    YOUR MISSION:
+    Identify a market niche and a location in ${countries} likely to match this customer profile: "${profile.name}".
+    High-need profile: ${profile.scoring.high}${objective}
+
+    CONTEXT:
+    ${historyLines.filter(Boolean).join('\n    ')}
+
+    COVERAGE MAP (niche · area: yield):
+    ${coverageContext}
+    ${marketContext}
+    INSTRUCTIONS:
+    0. ${approachInstruction}
+    1. Pick ${sectors}.${excluded} Size: ${profile.companySize}
+    2. Pick a specific city or region of ${countries}${regionHint}.
+    3. Write a query designed to find the people (${formatList(profile.targetRoles, 'Owner, Managing Director')}, "Team").${markets.length > 0 ? ' Write it in the local language of the chosen country, with local job titles.' : ''}
+
+    JSON RESPONSE FORMAT:
+    {
+      "targetNiche": "Niche name",
+      "location": "City/Region",
+      "country": "2-letter ISO code of the chosen country (e.g. ${countryCodes(markets)})",
+      "searchQuery": "Query optimised for Google (e.g. ${queryExamples(markets, 'or')})",
+      "reasoning": "Short strategic explanation."
+    }
+  `;
+  },
+  search: ({ query, profile, market }, template) => `
+    Research the following search in depth: "${query}".
+    Goal: Find 5-8 candidate companies and their DECISION MAKERS.
+
+    For each company:
+    1. Extract the Name and Website.
+    2. RESEARCH THOROUGHLY to find the names of key people:
+       ${formatList(profile.targetRoles, market?.prompt.roles || 'Owner / Managing Director')}
+    3. Look for direct emails of these people or of their departments.
+    4. Check their social profiles (especially LinkedIn).
+    5. State the sector each company belongs to.${profile.disqualifyingTechnologies.length > 0 ? `
+    6. Check whether they use ${disqualifiers(profile, 'CHATBOTS or advanced automation')} (to rule them out later).` : ''}
+    ${market ? `
+    Market: ${template.market(market, template)}
+    Search local sources and use local job titles.
+    ` : ''}
+    Write a detailed report with this data.
+  `,
+  enrich: ({ query, profile, market }, template) => `
+    Research the company "${query}".
+
+    1. Confirm its official website and the sector it belongs to.
+    2. Find the names of key people:
+       ${formatList(profile.targetRoles, market?.prompt.roles || 'Owner / Managing Director')}
+    3. Look for direct emails of these people or of their departments.
+    4. Check their social profiles (especially LinkedIn).
+    5. Check whether its website has a chatbot or live chat widget.
+    ${market ? `
+    Market: ${template.market(market, template)}
+    ` : ''}
+    Write a detailed report on this company only.
+  `,
+  extraction: ({ profile, market }) => `
+You are a Data Analyst expert in B2B lead qualification (a digital headhunter).
+
+MAIN GOAL:
+1. ${profile.disqualifyingTechnologies.length > 0 ? `Rule out companies with ${disqualifiers(profile, 'CHATBOTS or advanced automation')}.` : "Identify each company's customer service technology."}
+2. Find the DECISION MAKER (${formatList(profile.targetRoles, market?.prompt.roles || 'Owner, Managing Director')}).
+
+EXTRACTION RULES (STRICT):
+1. Role detection (CRITICAL):
+   - Look for personal names tied to job titles: ${formatList(profile.targetRoles, market?.prompt.roles || 'Owner, Managing Director')}.
+   - Each person found is an item of "contacts" with "name", "role", "email" and "seniority".
+   - Include ALL the company's decision makers (CEO, CMO, COO...), not just the first one.
+   - If there is no name, add a contact without "name" and infer the department from the email (e.g. marketing@ -> "Marketing Dept.", seniority "department").
+   - Seniority: "c-level" (CEO, owner, founder), "director", "manager", "staff", "department" or "unknown".
+
+2. Email:
+   - PRIORITY: Direct personal emails (john.smith@company.co.uk).
+   - SECONDARY: Specific department emails (marketing@, sales@, operations@).
+   - AVOID: Generic emails (${genericMailboxes(profile, market)}) UNLESS it is a small company where the owner reads them.
+   - NEVER: 'no-reply' or personal emails (gmail/hotmail) unless it is clearly a sole trader.
+   - Target company size: ${profile.companySize}
+
+3. Social profiles: Look for LinkedIn links (preferred, to see employees), Instagram, etc.
+
+4. Chatbot status:
+   - "TIENE_CHATBOT": If you see automated chat bubbles, Zendesk, Intercom, bots.
+   - "OPORTUNIDAD": If it is a simple form, mailto or phone.
+
+5. Need Score (1-5):
+   - 5: ${profile.scoring.high}
+   - 1: ${profile.scoring.low}
+
+6. Sector: put the company's main activity in "sector" (e.g. "Dental practice", "Law firm").
+
+7. Signs of an old website: list what you notice in "websiteAgeHints" (e.g. "Copyright 2013", "No mobile version", "2000s design"). Empty if there are none.
+
+8. Country: put the 2-letter ISO code of the company's country in "country" (ES, PT, FR, GB, MX, AR, CO, CL...), inferred from the website, phone prefix, legal form or address. Empty if unclear.
+`,
+};
+
+const PROMPT_TEMPLATES: Record<MarketLanguage, PromptTemplate> = { es, pt, fr, en };
+
+// The language all the markets share; Spanish when they mix languages or there are none
+const languageOf = (markets: Market[]): MarketLanguage => {
+  const languages = new Set(markets.map(market => market.language));
+  return languages.size === 1 ? markets[0].language : 'es';
+};
+
+/**
+ * The strategist prompt, in the language of the profile's markets. With markets
+ * in several languages it is written in Spanish and asks for each query in the local language.
+ */
+export const buildStrategyPrompt = (context: StrategyPromptContext): string => {
+  const template = PROMPT_TEMPLATES[languageOf(context.markets)];
+  return template.strategy(context, template);
+};
+
+/**
+ * The worker's search prompt, in the target market's language (Spanish without one).
+ */
+export const buildSearchPrompt = (context: CompanyPromptContext): string => {
+  const template = PROMPT_TEMPLATES[context.market?.language || 'es'];
+  return template.search(context, template);
+};
+
+/**
+ * The research prompt for one known company, in its market's language (Spanish without one).
+ */
+export const buildEnrichmentPrompt = (context: CompanyPromptContext): string => {
+  const template = PROMPT_TEMPLATES[context.market?.language || 'es'];
+  return template.enrich(context, template);
+};
+
+/**
+ * The extraction system prompt, in the searched market's language, or the one
+ * the profile's markets share when there is no single market (manual input).
+ */
+export const buildExtractionPrompt = (context: ExtractionPromptContext): string =>
+  PROMPT_TEMPLATES[context.market?.language || languageOf(profileMarkets(context.profile))].extraction(context);
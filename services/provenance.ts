@@ -0,0 +1,47 @@
+import { Company, LeadOrigin, ProvenanceSource } from "../types";
+import { normalizeCompanyName, normalizeDomain, stripAccents } from "./dedup";
+import { GroundingSource } from "./llmProvider";
+
+// --- PROVENANCE ---
+// Ties each lead to the search evidence it was extracted from, so names and
+// emails can be checked against the original pages before outreach.
+
+const MAX_EXCERPT_LENGTH = 1500;
+
+const normalizeText = (text: string) =>
+  stripAccents(text.toLowerCase()).replace(/[.,]/g, '').replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ');
+
+const mentionsCompany = (text: string, company: Pick<Company, 'companyName' | 'website' | 'country'>) => {
+  const domain = normalizeDomain(company.website);
+  const name = normalizeCompanyName(company.companyName, company.country);
+  return (!!domain && text.toLowerCase().includes(domain)) || (!!name && normalizeText(text).includes(name));
+};
+
+/**
+ * The paragraphs of the raw search text that talk about the company.
+ */
+export const excerptFor = (company: Pick<Company, 'companyName' | 'website' | 'country'>, text: string): string | undefined => {
+  const paragraphs = text.split(/\n(?:\s*\n|\s*-{3,}\s*\n)+/).map(p => p.trim()).filter(Boolean);
+  const excerpt = paragraphs.filter(p => mentionsCompany(p, company)).join('\n…\n');
+  if (!excerpt) return undefined;
+  return excerpt.length > MAX_EXCERPT_LENGTH ? `${excerpt.slice(0, MAX_EXCERPT_LENGTH)}…` : excerpt;
+};
+
+/**
+ * Every grounding source of the cycle, the ones about this company first.
+ */
+export const sourcesFor = (company: Pick<Company, 'companyName' | 'website' | 'country'>, sources: GroundingSource[]): ProvenanceSource[] =>
+  sources
+    .map(source => ({ uri: source.uri, title: source.title, matchesCompany: mentionsCompany(`${source.uri} ${source.title || ''}`, company) }))
+    .sort((a, b) => Number(b.matchesCompany) - Number(a.matchesCompany));
+
+export const buildAgentOrigin = (
+  company: Pick<Company, 'companyName' | 'website' | 'country'>,
+  search: { query: string; text: string; sources: GroundingSource[]; cycleAt: string }
+): LeadOrigin => ({
+  mode: 'agent',
+  query: search.query,
+  cycleAt: search.cycleAt,
+  sources: sourcesFor(company, search.sources),
+  excerpt: excerptFor(company, search.text),
+});
@@ -0,0 +1,73 @@
+import { GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { LLMProvider, ModelTier, GroundingSource, TokenUsage } from "../llmProvider";
+import { SafetyBlockedError } from "../aiErrors";
+
+// Switched to Flash for both to ensure high quota availability and prevent 429 errors
+const MODELS: Record<ModelTier, string> = {
+  worker: 'gemini-2.5-flash',
+  support: 'gemini-2.5-flash',
+};
+
+const usageOf = (response: GenerateContentResponse): TokenUsage | undefined => {
+  const metadata = response.usageMetadata;
+  if (!metadata) return undefined;
+  return {
+    promptTokens: metadata.promptTokenCount || 0,
+    // Thinking tokens are billed as output
+    outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0),
+  };
+};
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII'];
+
+// A blocked prompt or answer comes back as a normal response with no text
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new SafetyBlockedError(blockReason);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) throw new SafetyBlockedError(finishReason);
+};
+
+export const createGeminiProvider = (apiKey?: string): LLMProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: 'gemini',
+    modelFor: (tier) => MODELS[tier],
+
+    async generateJson({ tier, prompt, schema, systemInstruction, temperature }) {
+      const model = MODELS[tier];
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          systemInstruction,
+          responseMimeType: "application/json",
+          responseSchema: schema,
+          temperature,
+        },
+      });
+      assertNotBlocked(response);
+      return { text: response.text || '', model, usage: usageOf(response) };
+    },
+
+    async generateWithSearch({ tier, prompt }) {
+      const model = MODELS[tier];
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          tools: [{ googleSearch: {} }],
+        },
+      });
+      assertNotBlocked(response);
+
+      const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+      const sources: GroundingSource[] = chunks
+        .filter(chunk => chunk.web?.uri)
+        .map(chunk => ({ uri: chunk.web!.uri!, title: chunk.web?.title }));
+
+      return { text: response.text || '', model, sources, usage: usageOf(response) };
+    },
+  };
+};
@@ -0,0 +1,85 @@
+import { LLMTask } from "../llmProvider";
+
+// Canned answers for the mock provider. Shapes mirror what the real models return.
+
+export const MOCK_STRATEGIES = [
+  {
+    targetNiche: "Clínicas dentales",
+    location: "Sevilla",
+    searchQuery: "Clínicas dentales Sevilla equipo directivo",
+    reasoning: "Negocios locales con agenda por teléfono y dueños accesibles.",
+  },
+  {
+    targetNiche: "Despachos de abogados",
+    location: "Valencia",
+    searchQuery: "Despacho abogados Valencia socios",
+    reasoning: "Atención al cliente por formulario y correo, sin automatizar.",
+  },
+  {
+    targetNiche: "Empresas de reformas",
+    location: "Zaragoza",
+    searchQuery: "Empresa reformas Zaragoza gerente",
+    reasoning: "Alto volumen de consultas repetitivas y webs antiguas.",
+  },
+];
+
+// Cities the mock strategist moves through, so later cycles do not repeat a past query
+export const MOCK_LOCATIONS = ["Sevilla", "Valencia", "Zaragoza", "Málaga", "Bilbao", "Murcia", "Alicante", "Valladolid", "Córdoba", "Vigo", "Granada"];
+
+export const MOCK_SEARCH_TEXT = `
+Clínica Dental Giralda (clinicagiralda.es). Directora: Marta López, marta.lopez@clinicagiralda.es. Responsable de Marketing: Luis Romero.
+Citas por teléfono o formulario. LinkedIn: https://www.linkedin.com/company/clinica-giralda
+---
+Ortodoncia Triana S.L. (ortodonciatriana.com). Gerente: Pablo Ruiz. Contacto: gerencia@ortodonciatriana.com.
+Web antigua, solo teléfono y correo.
+---
+Dental Smart Sevilla (dentalsmart.es). Chat en vivo con Intercom y reservas online automatizadas.
+Contacto: hola@dentalsmart.es
+`;
+
+export const MOCK_SEARCH_SOURCES = [
+  { uri: "https://clinicagiralda.es/equipo", title: "Equipo - Clínica Dental Giralda" },
+  { uri: "https://ortodonciatriana.com/contacto", title: "Contacto - Ortodoncia Triana" },
+  { uri: "https://dentalsmart.es", title: "Dental Smart Sevilla" },
+];
+
+export const MOCK_EXTRACTED_LEADS = [
+  {
+    companyName: "Clínica Dental Giralda",
+    website: "clinicagiralda.es",
+    chatbotStatus: "OPORTUNIDAD",
+    needScore: 4,
+    reason: "Citas solo por teléfono y formulario.",
+    socialLinks: ["https://www.linkedin.com/company/clinica-giralda"],
+    contacts: [
+      { name: "Marta López", role: "Directora", email: "marta.lopez@clinicagiralda.es", seniority: "c-level" },
+      { name: "Luis Romero", role: "Responsable de Marketing", email: "N/A", seniority: "manager" },
+    ],
+  },
+  {
+    companyName: "Ortodoncia Triana S.L.",
+    website: "ortodonciatriana.com",
+    chatbotStatus: "OPORTUNIDAD",
+    needScore: 5,
+    reason: "Web antigua sin canales digitales.",
+    socialLinks: [],
+    contacts: [
+      { name: "Pablo Ruiz", role: "Gerente", email: "gerencia@ortodonciatriana.com", seniority: "c-level" },
+    ],
+  },
+  {
+    companyName: "Dental Smart Sevilla",
+    website: "dentalsmart.es",
+    chatbotStatus: "TIENE_CHATBOT",
+    needScore: 1,
+    reason: "Usa Intercom y reservas automatizadas.",
+    socialLinks: [],
+    contacts: [
+      { email: "hola@dentalsmart.es", seniority: "unknown" },
+    ],
+  },
+];
+
+export const MOCK_JSON_FIXTURES: Partial<Record<LLMTask, unknown>> = {
+  extraction: MOCK_EXTRACTED_LEADS,
+};
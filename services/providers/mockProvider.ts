@@ -0,0 +1,80 @@
+import { Schema, Type } from "@google/genai";
+import { LLMProvider } from "../llmProvider";
+import { MOCK_JSON_FIXTURES, MOCK_LOCATIONS, MOCK_SEARCH_SOURCES, MOCK_SEARCH_TEXT, MOCK_STRATEGIES } from "./mockFixtures";
+
+export interface MockProviderOptions {
+  latencyMs?: number;
+  fixtures?: typeof MOCK_JSON_FIXTURES;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Proposals tried per strategy call before giving up on finding one the history does not list
+const MAX_MOCK_PROPOSALS = 100;
+
+/**
+ * The n-th mock plan: the fixtures in turn, each round in another city.
+ * Once every niche has run in every city, the location gets a zone number.
+ */
+const mockStrategy = (n: number) => {
+  const base = MOCK_STRATEGIES[n % MOCK_STRATEGIES.length];
+  const combinations = MOCK_STRATEGIES.length * MOCK_LOCATIONS.length;
+  const city = MOCK_LOCATIONS[n % MOCK_LOCATIONS.length];
+  const round = Math.floor(n / combinations);
+  const location = round === 0 ? city : `${city} zona ${round + 1}`;
+  return { ...base, location, searchQuery: base.searchQuery.replace(base.location, location) };
+};
+
+/**
+ * Builds a placeholder value that satisfies the schema, for tasks without a fixture.
+ */
+const sampleFromSchema = (schema: Schema): unknown => {
+  switch (schema.type) {
+    case Type.ARRAY:
+      return schema.items ? [sampleFromSchema(schema.items)] : [];
+    case Type.OBJECT:
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, value]) => [key, sampleFromSchema(value)])
+      );
+    case Type.INTEGER:
+    case Type.NUMBER:
+      return 1;
+    case Type.BOOLEAN:
+      return false;
+    default:
+      return schema.enum?.[0] ?? 'mock';
+  }
+};
+
+/**
+ * Deterministic offline provider, so the full agent loop can be exercised without
+ * network or API key. Strategies advance with every call; other tasks always get the same answer.
+ */
+export const createMockProvider = ({ latencyMs = 300, fixtures = MOCK_JSON_FIXTURES }: MockProviderOptions = {}): LLMProvider => {
+  let strategyCalls = 0;
+  return {
+    name: 'mock',
+    modelFor: (tier) => `mock-${tier}`,
+
+    async generateJson({ task, tier, prompt, schema }) {
+      await wait(latencyMs);
+      let value: unknown;
+      if (task === 'strategy') {
+        // Move on to the next plan, skipping queries already listed in the history context
+        let strategy = mockStrategy(strategyCalls++);
+        for (let tries = 1; prompt.includes(strategy.searchQuery) && tries < MAX_MOCK_PROPOSALS; tries++) {
+          strategy = mockStrategy(strategyCalls++);
+        }
+        value = strategy;
+      } else {
+        value = fixtures[task] ?? sampleFromSchema(schema);
+      }
+      return { text: JSON.stringify(value), model: `mock-${tier}` };
+    },
+
+    async generateWithSearch({ tier }) {
+      await wait(latencyMs);
+      return { text: MOCK_SEARCH_TEXT, model: `mock-${tier}`, sources: MOCK_SEARCH_SOURCES };
+    },
+  };
+};
@@ -0,0 +1,106 @@
+import { Schema } from "@google/genai";
+import { LLMProvider, TokenUsage } from "../llmProvider";
+import { SafetyBlockedError } from "../aiErrors";
+
+export interface OpenAiCompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}
+
+/**
+ * Error carrying the HTTP status so the retry logic can spot 429s
+ * the same way it does for the Gemini SDK, plus the server's Retry-After.
+ */
+export class ProviderHttpError extends Error {
+  constructor(public status: number, message: string, public retryAfterMs?: number) {
+    super(`${status}: ${message}`);
+    this.name = 'ProviderHttpError';
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Gemini schemas use upper-case OpenAPI types (STRING, OBJECT...).
+ * OpenAI-style servers expect plain JSON Schema.
+ */
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const out: Record<string, unknown> = {};
+  if (schema.type) out.type = schema.type.toLowerCase();
+  if (schema.enum) out.enum = schema.enum;
+  if (schema.description) out.description = schema.description;
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) out.required = schema.required;
+  return out;
+};
+
+/**
+ * Adapter for any server speaking the OpenAI chat completions API
+ * (OpenAI itself, LM Studio, llama.cpp, Ollama, vLLM...).
+ * These servers have no search grounding, so generateWithSearch answers
+ * from the model's own knowledge and returns no sources.
+ */
+export const createOpenAiCompatibleProvider = ({ baseUrl, apiKey, model }: OpenAiCompatibleConfig): LLMProvider => {
+  const complete = async (body: Record<string, unknown>): Promise<{ text: string; usage?: TokenUsage }> => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model, ...body }),
+    });
+
+    if (!response.ok) {
+      throw new ProviderHttpError(response.status, await response.text(), parseRetryAfter(response.headers.get('retry-after')));
+    }
+
+    const data = await response.json();
+    if (data?.choices?.[0]?.finish_reason === 'content_filter') throw new SafetyBlockedError('content_filter');
+    return {
+      text: data?.choices?.[0]?.message?.content || '',
+      usage: data?.usage ? { promptTokens: data.usage.prompt_tokens || 0, outputTokens: data.usage.completion_tokens || 0 } : undefined,
+    };
+  };
+
+  return {
+    name: 'openai',
+    modelFor: () => model,
+
+    async generateJson({ task, prompt, schema, systemInstruction, temperature }) {
+      const messages = [
+        ...(systemInstruction ? [{ role: 'system', content: systemInstruction }] : []),
+        { role: 'user', content: prompt },
+      ];
+      const { text, usage } = await complete({
+        messages,
+        temperature,
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: task, schema: toJsonSchema(schema) },
+        },
+      });
+      return { text, model, usage };
+    },
+
+    async generateWithSearch({ prompt }) {
+      const { text, usage } = await complete({
+        messages: [{ role: 'user', content: prompt }],
+      });
+      return { text, model, sources: [], usage };
+    },
+  };
+};
@@ -0,0 +1,234 @@
+import { LLMResponse, ModelTier, TokenUsage, getProvider } from "./llmProvider";
+import { RateLimitedError, classifyProviderError, errorDump, errorMessage, isRateLimitResponse } from "./aiErrors";
+
+// --- RATE LIMITER ---
+// Every provider call goes through `scheduleRequest`: it paces requests to each
+// model's requests-per-minute budget, refuses calls once the daily token budget
+// is spent, retries 429s (honoring the server's retry hint) and records usage.
+
+export interface ModelBudget {
+  rpm: number; // requests per minute, 0 = no limit
+  tokensPerDay: number; // 0 = no limit
+  inputPricePerMillion: number; // USD per million prompt tokens
+  outputPricePerMillion: number; // USD per million output tokens
+}
+
+export interface RateLimitSettings {
+  budgets: Record<string, ModelBudget>; // by model name; missing models use the default
+}
+
+// Gemini 2.5 Flash free-tier pace and paid-tier prices
+export const DEFAULT_MODEL_BUDGET: ModelBudget = {
+  rpm: 10,
+  tokensPerDay: 1_000_000,
+  inputPricePerMillion: 0.3,
+  outputPricePerMillion: 2.5,
+};
+
+export const DEFAULT_RATE_LIMIT_SETTINGS: RateLimitSettings = { budgets: {} };
+
+export const budgetFor = (settings: RateLimitSettings, model: string): ModelBudget =>
+  ({ ...DEFAULT_MODEL_BUDGET, ...settings.budgets[model] });
+
+// --- USAGE LEDGER ---
+// Per-day, per-model counters. Kept in localStorage next to the settings: small and read synchronously.
+
+const USAGE_KEY = 'b2b_usage';
+const USAGE_DAYS_KEPT = 30;
+
+export interface ModelUsage {
+  requests: number;
+  promptTokens: number;
+  outputTokens: number;
+  rateLimited: number; // 429s received
+  estimated: number; // requests whose tokens were estimated (no usage metadata)
+}
+
+export interface UsageDay {
+  date: string; // YYYY-MM-DD, local time
+  models: Record<string, ModelUsage>;
+}
+
+const EMPTY_USAGE: ModelUsage = { requests: 0, promptTokens: 0, outputTokens: 0, rateLimited: 0, estimated: 0 };
+
+export const localDate = (date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const loadUsage = (): UsageDay[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(USAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch (e) {
+    console.error("Failed to load usage", e);
+    return [];
+  }
+};
+
+const saveUsage = (days: UsageDay[]) => {
+  localStorage.setItem(USAGE_KEY, JSON.stringify(days.slice(-USAGE_DAYS_KEPT)));
+};
+
+export const usageToday = (model: string, days = loadUsage()): ModelUsage =>
+  ({ ...EMPTY_USAGE, ...days.find(day => day.date === localDate())?.models[model] });
+
+export const totalTokens = (usage: ModelUsage) => usage.promptTokens + usage.outputTokens;
+
+export const usageCost = (usage: ModelUsage, budget: ModelBudget) =>
+  (usage.promptTokens * budget.inputPricePerMillion + usage.outputTokens * budget.outputPricePerMillion) / 1_000_000;
+
+const recordUsage = (model: string, patch: Partial<ModelUsage>) => {
+  const days = loadUsage();
+  const date = localDate();
+  let today = days.find(day => day.date === date);
+  if (!today) {
+    today = { date, models: {} };
+    days.push(today);
+  }
+  const current = { ...EMPTY_USAGE, ...today.models[model] };
+  today.models[model] = {
+    requests: current.requests + (patch.requests || 0),
+    promptTokens: current.promptTokens + (patch.promptTokens || 0),
+    outputTokens: current.outputTokens + (patch.outputTokens || 0),
+    rateLimited: current.rateLimited + (patch.rateLimited || 0),
+    estimated: current.estimated + (patch.estimated || 0),
+  };
+  saveUsage(days);
+  notify();
+};
+
+export const clearUsage = () => {
+  localStorage.removeItem(USAGE_KEY);
+  notify();
+};
+
+// --- LIVE UPDATES ---
+
+const listeners = new Set<() => void>();
+const notify = () => listeners.forEach(listener => listener());
+
+export const subscribeUsage = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+// --- SCHEDULER ---
+
+const MINUTE_MS = 60_000;
+// Backoff when a 429 carries no retry hint: 15s, 30s, 60s
+const BASE_BACKOFF_MS = 15_000;
+
+let settings: RateLimitSettings = DEFAULT_RATE_LIMIT_SETTINGS;
+let apiCallCount = 0;
+const startTimes = new Map<string, number[]>(); // request starts within the last minute, per model
+const gates = new Map<string, Promise<void>>(); // per-model queue, so concurrent callers take turns
+const waiting = new Map<string, number>();
+
+export const configureRateLimits = (next: RateLimitSettings) => {
+  settings = next;
+};
+
+// Provider calls made since the page loaded, retries included (campaign budgets read the difference)
+export const apiCallsMade = () => apiCallCount;
+
+export const requestsLastMinute = (model: string) =>
+  (startTimes.get(model) || []).filter(t => Date.now() - t < MINUTE_MS).length;
+
+export const queuedRequests = (model: string) => waiting.get(model) || 0;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Rough size of a text in tokens, for budget checks and providers that report no usage
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const msUntilMidnight = () => {
+  const midnight = new Date();
+  midnight.setHours(24, 0, 0, 0);
+  return midnight.getTime() - Date.now();
+};
+
+/**
+ * Waits for a free slot in the model's per-minute window.
+ */
+const acquireSlot = (model: string): Promise<void> => {
+  waiting.set(model, queuedRequests(model) + 1);
+  notify();
+  const slot = (gates.get(model) || Promise.resolve()).then(async () => {
+    const { rpm } = budgetFor(settings, model);
+    let recent = (startTimes.get(model) || []).filter(t => Date.now() - t < MINUTE_MS);
+    if (rpm > 0 && recent.length >= rpm) {
+      await wait(recent[recent.length - rpm] + MINUTE_MS - Date.now());
+      recent = recent.filter(t => Date.now() - t < MINUTE_MS);
+    }
+    startTimes.set(model, [...recent, Date.now()]);
+    waiting.set(model, queuedRequests(model) - 1);
+    notify();
+  });
+  gates.set(model, slot);
+  return slot;
+};
+
+/**
+ * The server's own wait hint: a Retry-After header (OpenAI-style servers)
+ * or Gemini's RetryInfo `retryDelay` / "Please retry in 37.5s".
+ */
+export const retryAfterHint = (error: unknown): number | null => {
+  if (typeof error === 'object' && error !== null && 'retryAfterMs' in error && typeof error.retryAfterMs === 'number') {
+    return error.retryAfterMs;
+  }
+  const text = `${errorMessage(error)} ${errorDump(error)}`;
+  const match = text.match(/retryDelay\\?"\s*:\s*\\?"(\d+(?:\.\d+)?)s/) || text.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : null;
+};
+
+interface ScheduledRequest {
+  tier: ModelTier;
+  prompt: string;
+  systemInstruction?: string;
+}
+
+/**
+ * Runs a provider call within the model's budgets. Rate-limit errors are
+ * retried up to `retries` attempts in total, then surface as RateLimitedError.
+ */
+export const scheduleRequest = async <T extends LLMResponse>(
+  request: ScheduledRequest,
+  call: () => Promise<T>,
+  retries = 3
+): Promise<T> => {
+  const model = getProvider().modelFor(request.tier);
+  const promptEstimate = estimateTokens(request.prompt + (request.systemInstruction || ''));
+
+  for (let attempt = 1; attempt <= retries; attempt++) {
+    const { tokensPerDay } = budgetFor(settings, model);
+    if (tokensPerDay > 0 && totalTokens(usageToday(model)) + promptEstimate > tokensPerDay) {
+      throw new RateLimitedError({ key: 'aiError.dailyBudget', params: { tokens: tokensPerDay.toLocaleString(), model } }, model, msUntilMidnight());
+    }
+
+    await acquireSlot(model);
+    apiCallCount++;
+    try {
+      const response = await call();
+      recordUsage(model, usageRecord(response.usage, promptEstimate, response.text));
+      return response;
+    } catch (error) {
+      if (!isRateLimitResponse(error)) {
+        recordUsage(model, { requests: 1 });
+        throw classifyProviderError(error);
+      }
+      recordUsage(model, { requests: 1, rateLimited: 1 });
+      const delay = retryAfterHint(error) ?? BASE_BACKOFF_MS * Math.pow(2, attempt - 1);
+      if (attempt >= retries) {
+        console.error("❌ Rate limit exceeded after all retries.");
+        throw new RateLimitedError({ key: 'aiError.tooManyRequests', params: { model } }, model, Math.max(delay, MINUTE_MS));
+      }
+      console.warn(`⚠️ Rate limit hit (Attempt ${attempt}/${retries}). Cooling down for ${Math.round(delay / 1000)}s...`);
+      await wait(delay);
+    }
+  }
+  throw new Error("Retries must be at least 1");
+};
+
+const usageRecord = (usage: TokenUsage | undefined, promptEstimate: number, text: string): Partial<ModelUsage> =>
+  usage
+    ? { requests: 1, promptTokens: usage.promptTokens, outputTokens: usage.outputTokens }
+    : { requests: 1, promptTokens: promptEstimate, outputTokens: estimateTokens(text), estimated: 1 };
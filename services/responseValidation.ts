@@ -0,0 +1,187 @@
+import { Company, ExtractedContact, ExtractedLead, Seniority } from "../types";
+import { SENIORITIES } from "./contacts";
+import { isValidEmailSyntax } from "./emailQuality";
+import { EmptyResponseError, InvalidJsonError, SchemaViolationError } from "./aiErrors";
+import type { MarketStrategy } from "./geminiService";
+import { toCountryCode } from "./markets";
+import { Message } from "./i18n";
+
+// --- RESPONSE VALIDATION ---
+// Model output is checked at runtime before anything downstream trusts it.
+// Leads are repaired field by field where the intent is clear, and rejected
+// one by one otherwise, so one bad item does not sink the whole batch.
+
+/**
+ * Parses a model's JSON answer, tolerating a Markdown code fence around it.
+ */
+export const parseJsonResponse = (text: string | undefined): unknown => {
+  const trimmed = (text || '').trim();
+  if (!trimmed) throw new EmptyResponseError();
+  const unfenced = trimmed.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return JSON.parse(unfenced);
+  } catch {
+    throw new InvalidJsonError(trimmed);
+  }
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const cleanString = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+const DOMAIN_LIKE = /^(www\.)?[a-z0-9-]+(\.[a-z0-9-]+)+([/?#].*)?$/i;
+
+/**
+ * A usable http(s) URL, adding the scheme to bare domains; null when there is none.
+ */
+const normalizeUrl = (value: unknown): string | null => {
+  const raw = cleanString(value);
+  if (!raw) return null;
+  const candidate = /^https?:\/\//i.test(raw) ? raw : DOMAIN_LIKE.test(raw) ? `https://${raw}` : '';
+  if (!candidate) return null;
+  try {
+    const url = new URL(candidate);
+    return url.hostname.includes('.') ? candidate : null;
+  } catch {
+    return null;
+  }
+};
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(cleanString).filter(Boolean) : [];
+
+export interface LeadValidationReport {
+  leads: ExtractedLead[];
+  repaired: { companyName: string; fixes: Message[] }[];
+  rejected: { index: number; companyName?: string; issues: Message[] }[];
+}
+
+const validateContact = (value: unknown, fixes: Message[]): ExtractedContact | null => {
+  if (!isObject(value)) {
+    fixes.push({ key: 'validation.invalidContactDropped' });
+    return null;
+  }
+  const name = cleanString(value.name) || undefined;
+  const role = cleanString(value.role) || undefined;
+  let email = cleanString(value.email).replace(/^mailto:/i, '');
+  if (email && email.toUpperCase() !== 'N/A' && !isValidEmailSyntax(email)) {
+    fixes.push({ key: 'validation.invalidEmail', params: { email } });
+    email = 'N/A';
+  }
+  if (!email) email = 'N/A';
+  if (!name && !role && email === 'N/A') {
+    fixes.push({ key: 'validation.emptyContactDropped' });
+    return null;
+  }
+  let seniority = cleanString(value.seniority).toLowerCase() as Seniority;
+  if (!SENIORITIES.includes(seniority)) {
+    if (value.seniority !== undefined) fixes.push({ key: 'validation.unknownSeniority', params: { value: String(value.seniority) } });
+    seniority = 'unknown';
+  }
+  return { ...(name ? { name } : {}), ...(role ? { role } : {}), email, seniority };
+};
+
+const validateChatbotStatus = (value: unknown): Company['chatbotStatus'] | null => {
+  const status = cleanString(value).toUpperCase().replace(/[\s-]+/g, '_');
+  if (status === 'OPORTUNIDAD' || status === 'TIENE_CHATBOT') return status;
+  if (status.includes('CHATBOT')) return 'TIENE_CHATBOT';
+  if (status.includes('OPORTUN')) return 'OPORTUNIDAD';
+  return null;
+};
+
+/**
+ * Checks one lead against the ExtractedLead shape. Returns the repaired lead,
+ * or the reasons it cannot be used.
+ */
+const validateLead = (value: unknown, fixes: Message[]): ExtractedLead | Message[] => {
+  if (!isObject(value)) return [{ key: 'validation.notObject' }];
+
+  const companyName = cleanString(value.companyName);
+  const chatbotStatus = validateChatbotStatus(value.chatbotStatus);
+  const issues: Message[] = [];
+  if (!companyName) issues.push({ key: 'validation.noCompanyName' });
+  if (!chatbotStatus) issues.push({ key: 'validation.unknownChatbotStatus', params: { value: String(value.chatbotStatus) } });
+  if (issues.length > 0 || !chatbotStatus) return issues;
+
+  const rawWebsite = cleanString(value.website);
+  const website = normalizeUrl(rawWebsite);
+  if (!website && rawWebsite && rawWebsite.toUpperCase() !== 'N/A') fixes.push({ key: 'validation.invalidWebsite', params: { website: rawWebsite } });
+
+  // Scores come back as strings or out of range now and then; the scoring step recomputes them anyway
+  const rawScore = typeof value.needScore === 'number' ? value.needScore : parseFloat(cleanString(value.needScore));
+  const needScore = Number.isFinite(rawScore) ? Math.min(5, Math.max(1, Math.round(rawScore))) : 3;
+  if (needScore !== value.needScore) fixes.push({ key: 'validation.needScore', params: { from: JSON.stringify(value.needScore ?? null), to: needScore } });
+
+  const rawLinks = stringList(value.socialLinks);
+  const socialLinks = rawLinks.map(normalizeUrl).filter((link): link is string => !!link);
+  if (socialLinks.length < rawLinks.length) fixes.push({ key: 'validation.invalidSocialLinks', params: { count: rawLinks.length - socialLinks.length } });
+
+  if (!Array.isArray(value.contacts) && value.contacts !== undefined) fixes.push({ key: 'validation.contactsNotList' });
+  const contacts = (Array.isArray(value.contacts) ? value.contacts : [])
+    .map(contact => validateContact(contact, fixes))
+    .filter((contact): contact is ExtractedContact => !!contact);
+
+  const sector = cleanString(value.sector);
+  const websiteAgeHints = stringList(value.websiteAgeHints);
+  const rawCountry = cleanString(value.country);
+  const country = toCountryCode(rawCountry);
+  if (rawCountry && !country) fixes.push({ key: 'validation.unknownCountry', params: { country: rawCountry } });
+
+  return {
+    companyName,
+    website: website || 'N/A',
+    chatbotStatus,
+    needScore,
+    reason: cleanString(value.reason),
+    socialLinks,
+    contacts,
+    ...(sector ? { sector } : {}),
+    ...(country ? { country } : {}),
+    ...(websiteAgeHints.length > 0 ? { websiteAgeHints } : {}),
+  };
+};
+
+/**
+ * Validates the extraction answer. A single object or `{ leads: [...] }` is
+ * accepted in place of the array; anything else is a SchemaViolationError.
+ */
+export const validateExtractedLeads = (data: unknown): LeadValidationReport => {
+  const items = Array.isArray(data) ? data
+    : isObject(data) && Array.isArray(data.leads) ? data.leads
+    : isObject(data) && 'companyName' in data ? [data]
+    : null;
+  if (!items) throw new SchemaViolationError([{ key: 'validation.notAList' }]);
+
+  const report: LeadValidationReport = { leads: [], repaired: [], rejected: [] };
+  items.forEach((item, index) => {
+    const fixes: Message[] = [];
+    const result = validateLead(item, fixes);
+    if (Array.isArray(result)) {
+      report.rejected.push({ index, companyName: isObject(item) ? cleanString(item.companyName) || undefined : undefined, issues: result });
+      return;
+    }
+    report.leads.push(result);
+    if (fixes.length > 0) report.repaired.push({ companyName: result.companyName, fixes });
+  });
+  return report;
+};
+
+/**
+ * The strategist's answer: all four text fields must be non-empty strings;
+ * the country is kept only when it reads as one.
+ */
+export const validateStrategy = (data: unknown): MarketStrategy => {
+  if (!isObject(data)) throw new SchemaViolationError([{ key: 'validation.strategyNotObject' }]);
+  const strategy = {
+    targetNiche: cleanString(data.targetNiche),
+    location: cleanString(data.location),
+    searchQuery: cleanString(data.searchQuery),
+    reasoning: cleanString(data.reasoning),
+  };
+  const missing = Object.entries(strategy).filter(([, value]) => !value).map(([field]): Message => ({ key: 'validation.missingField', params: { field } }));
+  if (missing.length > 0) throw new SchemaViolationError(missing);
+  const country = toCountryCode(cleanString(data.country));
+  return { ...strategy, ...(country ? { country } : {}) };
+};
@@ -0,0 +1,45 @@
+import { AgentRun, RUN_HISTORY_LIMIT } from "./agentRuns";
+import { STORES, getMeta, setMeta, withStore } from "./db";
+
+const LOOP_ACTIVE_KEY = 'agentLoopActive';
+
+// --- RUNS ---
+
+/**
+ * The most recent runs, newest first.
+ */
+export const listRuns = (limit = RUN_HISTORY_LIMIT): Promise<AgentRun[]> =>
+  withStore(STORES.runs, 'readonly', tx => new Promise<AgentRun[]>((resolve, reject) => {
+    const runs: AgentRun[] = [];
+    const request = tx.objectStore(STORES.runs).index('startedAt').openCursor(null, 'prev');
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || runs.length >= limit) return resolve(runs);
+      runs.push(cursor.value);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  }));
+
+export const saveRuns = (runs: AgentRun[]): Promise<void> =>
+  withStore(STORES.runs, 'readwrite', tx => {
+    const store = tx.objectStore(STORES.runs);
+    runs.forEach(run => store.put(run));
+  });
+
+/**
+ * Drops everything but the newest `keep` runs.
+ */
+export const pruneRuns = (keep = RUN_HISTORY_LIMIT): Promise<void> =>
+  withStore(STORES.runs, 'readwrite', tx => {
+    const store = tx.objectStore(STORES.runs);
+    const request = store.index('startedAt').getAllKeys();
+    request.onsuccess = () => request.result.slice(0, Math.max(0, request.result.length - keep)).forEach(key => store.delete(key));
+  });
+
+// --- LOOP STATE ---
+// Whether the autonomous loop was on, so a reload picks it up again.
+
+export const loadLoopActive = async (): Promise<boolean> => (await getMeta<boolean>(LOOP_ACTIVE_KEY)) || false;
+
+export const saveLoopActive = (active: boolean): Promise<void> => setMeta(LOOP_ACTIVE_KEY, active);
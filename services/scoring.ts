@@ -0,0 +1,165 @@
+import { Company, Contact, ScoreBreakdown, ScoreContribution, ScoreFactor, Seniority } from "../types";
+import { assessEmail } from "./emailQuality";
+import { Message, asWritten } from "./i18n";
+
+// --- NEED SCORING ---
+// needScore is computed from explicit signals instead of taken from the model as-is.
+// Each factor yields a 0-1 value; weights decide how much of the 1-5 range it controls.
+
+export type ScoringWeights = Record<ScoreFactor, number>;
+
+export const SCORE_FACTORS: ScoreFactor[] = [
+  'noChatWidget', 'noCorporateLinkedin', 'contactChannel', 'decisionMaker', 'emailQuality', 'websiteAge', 'modelAssessment',
+];
+
+export const MAX_WEIGHT = 5;
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  noChatWidget: 3,
+  noCorporateLinkedin: 1,
+  contactChannel: 1,
+  decisionMaker: 2,
+  emailQuality: 1,
+  websiteAge: 2,
+  modelAssessment: 1,
+};
+
+type ScorableContact = Pick<Contact, 'name' | 'email' | 'emailQuality' | 'seniority'>;
+type Scorable = Company & { contacts: ScorableContact[] };
+
+const SENIORITY_VALUE: Record<Seniority, number> = {
+  'c-level': 1,
+  'director': 0.85,
+  'manager': 0.6,
+  'staff': 0.3,
+  'department': 0.2,
+  'unknown': 0.2,
+};
+
+const clamp = (value: number) => Math.max(0, Math.min(1, value));
+
+const YEAR_PATTERN = /\b(?:19|20)\d{2}\b/g;
+
+const signalNoChatWidget = (lead: Scorable): [number, Message] => {
+  if (lead.chatbotStatus === 'TIENE_CHATBOT') {
+    const vendors = lead.chatbotEvidence?.vendors.join(', ');
+    return [0, vendors ? { key: 'scoreDetail.chatDetected', params: { vendors } } : { key: 'scoreDetail.aiChatbot' }];
+  }
+  if (lead.chatbotEvidence?.vendors.includes('WhatsApp')) return [0.7, { key: 'scoreDetail.whatsappOnly' }];
+  return [1, { key: lead.chatbotEvidence ? 'scoreDetail.noWidgets' : 'scoreDetail.aiNoChatbot' }];
+};
+
+const signalNoCorporateLinkedin = (lead: Scorable): [number, Message] => {
+  const linkedin = lead.socialLinks.filter(link => /linkedin\.com/i.test(link));
+  if (linkedin.some(link => /linkedin\.com\/(company|school)\//i.test(link))) return [0, { key: 'scoreDetail.linkedinCompany' }];
+  if (linkedin.length > 0) return [0.6, { key: 'scoreDetail.linkedinPersonal' }];
+  return [1, { key: 'scoreDetail.noLinkedin' }];
+};
+
+const qualityOf = (contact: ScorableContact, website: string) =>
+  contact.emailQuality || assessEmail(contact.email, website, contact.name);
+
+const signalContactChannel = (lead: Scorable): [number, Message] => {
+  const kinds = new Set(lead.contacts.map(contact => qualityOf(contact, lead.website)).filter(q => q.valid).map(q => q.kind));
+  if (kinds.has('personal')) return [1, { key: 'scoreDetail.personalEmail' }];
+  if (kinds.has('departmental')) return [0.7, { key: 'scoreDetail.departmentEmail' }];
+  if (kinds.has('free-mail')) return [0.5, { key: 'scoreDetail.freeEmail' }];
+  if (kinds.has('generic')) return [0.4, { key: 'scoreDetail.genericMailbox' }];
+  return [0.1, { key: 'scoreDetail.noUsableEmail' }];
+};
+
+const signalDecisionMaker = (lead: Scorable): [number, Message] => {
+  const named = lead.contacts.filter(contact => contact.name);
+  if (named.length === 0) return [0, { key: 'scoreDetail.noNamedContact' }];
+  const best = named.reduce((a, b) => SENIORITY_VALUE[b.seniority] > SENIORITY_VALUE[a.seniority] ? b : a);
+  return [SENIORITY_VALUE[best.seniority], { key: 'scoreDetail.decisionMaker', params: { name: best.name!, seniority: { key: `seniority.${best.seniority}` } } }];
+};
+
+const signalEmailQuality = (lead: Scorable): [number, Message] => {
+  const best = Math.max(0, ...lead.contacts.map(contact => qualityOf(contact, lead.website).confidence));
+  return [best / 100, { key: 'scoreDetail.bestConfidence', params: { confidence: best } }];
+};
+
+// The hints are the model's or the page's own wording
+const signalWebsiteAge = (lead: Scorable): [number, Message] => {
+  if (!lead.website || lead.website === 'N/A') return [1, { key: 'scoreDetail.noWebsite' }];
+  const hints = lead.websiteAgeHints || [];
+  if (hints.length === 0) return [0, { key: 'scoreDetail.noAgeHints' }];
+
+  const years = hints.flatMap(hint => (hint.match(YEAR_PATTERN) || []).map(Number));
+  const yearHints = hints.filter(hint => hint.match(YEAR_PATTERN));
+  const age = years.length > 0 ? new Date().getFullYear() - Math.max(...years) : 0;
+  // Two years without an update is normal; ten or more is a strong signal
+  const value = clamp((age - 2) / 8 + 0.3 * (hints.length - yearHints.length));
+  return [value, asWritten(hints.join(', '))];
+};
+
+const SIGNALS: Record<Exclude<ScoreFactor, 'modelAssessment'>, (lead: Scorable) => [number, Message]> = {
+  noChatWidget: signalNoChatWidget,
+  noCorporateLinkedin: signalNoCorporateLinkedin,
+  contactChannel: signalContactChannel,
+  decisionMaker: signalDecisionMaker,
+  emailQuality: signalEmailQuality,
+  websiteAge: signalWebsiteAge,
+};
+
+/**
+ * Scores a lead from its signals. The model's original needScore is kept
+ * in the breakdown so later rescoring never compounds on itself.
+ * A score fixed by hand is kept as needScore; the breakdown is still refreshed.
+ */
+export const scoreLead = <T extends Scorable>(lead: T, weights: ScoringWeights): T => {
+  const modelScore = lead.scoreBreakdown?.modelScore ?? lead.needScore;
+  const totalWeight = SCORE_FACTORS.reduce((sum, factor) => sum + Math.max(0, weights[factor] || 0), 0);
+
+  const contributions: ScoreContribution[] = SCORE_FACTORS.map(factor => {
+    const [value, detail]: [number, Message] = factor === 'modelAssessment'
+      ? [clamp((modelScore - 1) / 4), { key: 'scoreDetail.modelScore', params: { score: modelScore } }]
+      : SIGNALS[factor](lead);
+    const weight = Math.max(0, weights[factor] || 0);
+    const points = totalWeight > 0 ? (4 * weight * value) / totalWeight : 0;
+    return { factor, value: Math.round(value * 100) / 100, weight, points: Math.round(points * 100) / 100, detail };
+  });
+
+  const score = totalWeight > 0 ? 1 + contributions.reduce((sum, c) => sum + c.points, 0) : modelScore;
+
+  const scoreBreakdown: ScoreBreakdown = {
+    score: Math.round(score * 10) / 10,
+    modelScore,
+    contributions,
+    computedAt: new Date().toISOString(),
+  };
+  const computed = Math.min(5, Math.max(1, Math.round(score)));
+  return { ...lead, needScore: lead.needScoreOverride ?? computed, scoreBreakdown };
+};
+
+const sameBreakdown = (a?: ScoreBreakdown, b?: ScoreBreakdown) =>
+  !!a && !!b && a.score === b.score && JSON.stringify(a.contributions) === JSON.stringify(b.contributions);
+
+/**
+ * Rescores every lead; returns only those whose score or explanation changed, ready to be persisted.
+ */
+export const rescoreLeads = <T extends Scorable>(leads: T[], weights: ScoringWeights): T[] =>
+  leads
+    .map(lead => [lead, scoreLead(lead, weights)] as const)
+    .filter(([before, after]) => before.needScore !== after.needScore || !sameBreakdown(before.scoreBreakdown, after.scoreBreakdown))
+    .map(([, after]) => after);
+
+/**
+ * Age signals that can be read from a homepage without the model: an old
+ * copyright year, no mobile viewport, or long-dead technologies.
+ */
+export const detectWebsiteAgeHints = (html: string): string[] => {
+  const hints: string[] = [];
+  const copyright = /(?:©|&copy;|copyright)\s*(?:(?:19|20)\d{2}\s*[-–]\s*)?((?:19|20)\d{2})/i.exec(html);
+  if (copyright) hints.push(`Copyright ${copyright[1]}`);
+  if (!/<meta[^>]+name=["']?viewport/i.test(html)) hints.push('Sin versión móvil');
+  if (/\.swf\b|application\/x-shockwave-flash/i.test(html)) hints.push('Usa Flash');
+  if (/jquery[.-]1\.\d/i.test(html)) hints.push('jQuery 1.x');
+  return hints;
+};
+
+export const withWebsiteAgeHints = <T extends Company>(lead: T, html: string): T => ({
+  ...lead,
+  websiteAgeHints: Array.from(new Set([...(lead.websiteAgeHints || []), ...detectWebsiteAgeHints(html)])),
+});
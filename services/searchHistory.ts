@@ -0,0 +1,209 @@
+import { stripAccents } from "./dedup";
+import { Translate } from "./i18n";
+import { MARKET_LIST, MarketLanguage } from "./markets";
+
+// --- SEARCH HISTORY ---
+// One entry per distinct query the agent ran, with its segment and yield.
+// Near-duplicate queries are caught before a cycle spends API calls on them,
+// and the strategist gets a bounded summary instead of the whole list.
+
+// pinned: a proven search the agent may repeat; blacklisted: never run anything like it
+export type SearchEntryStatus = 'normal' | 'pinned' | 'blacklisted';
+
+export interface SearchEntry {
+  id?: number; // assigned by the store
+  query: string;
+  niche?: string;
+  location?: string;
+  createdAt: string;
+  lastRunAt: string;
+  runs: number;
+  found: number; // leads kept across runs
+  inserted: number; // of those, new to the database
+  status: SearchEntryStatus;
+}
+
+// Normal entries kept; pinned and blacklisted ones are never pruned
+export const SEARCH_HISTORY_LIMIT = 500;
+// Token overlap from which two queries count as the same search
+export const QUERY_SIMILARITY_THRESHOLD = 0.75;
+// Prompt summary: latest queries listed verbatim, older ones grouped by niche
+const PROMPT_RECENT = 15;
+const PROMPT_NICHES = 15;
+const PROMPT_STATUS_LIMIT = 20;
+
+// Words that change the wording of a query but not the companies it finds, in each market language
+const FILLER_BY_LANGUAGE: Record<MarketLanguage, string[]> = {
+  es: [
+    'en', 'de', 'del', 'la', 'el', 'los', 'las', 'y', 'o', 'para', 'con', 'al', 'a', 'por', 'sus',
+    'equipo', 'directivo', 'directivos', 'direccion', 'directiva', 'dueno', 'duenos', 'gerente', 'gerentes',
+    'socio', 'socios', 'ceo', 'responsable', 'responsables', 'contacto', 'contactos', 'email', 'emails',
+    'linkedin', 'empresa', 'empresas', 'fundador', 'fundadores', 'propietario', 'propietarios',
+  ],
+  pt: [
+    'em', 'de', 'da', 'do', 'das', 'dos', 'e', 'ou', 'para', 'com', 'a', 'o', 'as', 'os', 'no', 'na', 'nos', 'nas', 'por', 'seus', 'suas',
+    'equipa', 'equipe', 'direcao', 'diretor', 'diretores', 'socio', 'socios', 'gerente', 'gerentes', 'administrador',
+    'contacto', 'contactos', 'contato', 'empresa', 'empresas', 'fundador', 'fundadores', 'proprietario', 'proprietarios',
+  ],
+  fr: [
+    'a', 'au', 'aux', 'de', 'du', 'des', 'la', 'le', 'les', 'l', 'd', 'et', 'ou', 'pour', 'avec', 'en', 'sur', 'par', 'ses', 'leurs',
+    'equipe', 'direction', 'dirigeant', 'dirigeants', 'directeur', 'directeurs', 'gerant', 'gerants', 'associe', 'associes', 'pdg',
+    'responsable', 'contact', 'contacts', 'entreprise', 'entreprises', 'societe', 'societes', 'fondateur', 'fondateurs', 'proprietaire',
+  ],
+  en: [
+    'in', 'of', 'the', 'and', 'or', 'for', 'with', 'at', 'by', 'to', 'a', 'an', 'on', 'their',
+    'team', 'management', 'director', 'directors', 'owner', 'owners', 'founder', 'founders', 'manager', 'managers', 'managing',
+    'partner', 'partners', 'head', 'contact', 'contacts', 'company', 'companies',
+  ],
+};
+
+const words = (text: string) => stripAccents(text.toLowerCase()).split(/[^a-z0-9ñ]+/).filter(Boolean);
+
+// Plus the local job titles the prompts ask for ("sócio-gerente", "gérant"), which queries often end with
+const FILLER_WORDS = new Set([
+  ...Object.values(FILLER_BY_LANGUAGE).flat(),
+  ...MARKET_LIST.flatMap(market => words(market.prompt.roles)),
+]);
+
+// Crude plural folding: "clínicas dentales" and "clínica dental" match
+const stem = (word: string) => word.length > 4 ? word.replace(/(es|s)$/, '') : word;
+
+export const queryTokens = (query: string): string[] =>
+  Array.from(new Set(
+    words(query)
+      .filter(word => !FILLER_WORDS.has(word))
+      .map(stem)
+  ));
+
+export const normalizeQuery = (query: string) => queryTokens(query).sort().join(' ');
+
+/**
+ * Jaccard overlap of the meaningful words of two queries (0-1).
+ */
+export const querySimilarity = (a: string, b: string) => {
+  const tokensA = queryTokens(a);
+  const tokensB = new Set(queryTokens(b));
+  if (tokensA.length === 0 || tokensB.size === 0) return 0;
+  const shared = tokensA.filter(token => tokensB.has(token)).length;
+  return shared / (tokensA.length + tokensB.size - shared);
+};
+
+/**
+ * Share of the words of `blocked` that also appear in `query` (0-1).
+ */
+const containment = (query: string, blocked: string) => {
+  const tokens = new Set(queryTokens(query));
+  const blockedTokens = queryTokens(blocked);
+  return blockedTokens.length > 0 ? blockedTokens.filter(token => tokens.has(token)).length / blockedTokens.length : 0;
+};
+
+/**
+ * The closest entry to `query` at or above the similarity threshold.
+ * A blacklisted query also matches any query that contains all its words.
+ */
+export const findSimilar = (query: string, entries: SearchEntry[]): { entry: SearchEntry; similarity: number } | null => {
+  let best: { entry: SearchEntry; similarity: number } | null = null;
+  for (const entry of entries) {
+    const similarity = entry.status === 'blacklisted'
+      ? Math.max(querySimilarity(query, entry.query), containment(query, entry.query))
+      : querySimilarity(query, entry.query);
+    if (similarity >= QUERY_SIMILARITY_THRESHOLD && (!best || similarity > best.similarity)) best = { entry, similarity };
+  }
+  return best;
+};
+
+/**
+ * Why a planned query should not run, or null when it may.
+ * Pinned searches can be repeated; anything like a blacklisted or past one cannot.
+ */
+export const blockReason = (query: string, entries: SearchEntry[], t: Translate): string | null => {
+  const match = findSimilar(query, entries);
+  if (!match || match.entry.status === 'pinned') return null;
+  const percent = Math.round(match.similarity * 100);
+  return match.entry.status === 'blacklisted'
+    ? t('history.similarToBlocked', { query: match.entry.query, percent })
+    : t('history.alreadySearched', { query: match.entry.query, percent });
+};
+
+export const createSearchEntry = (query: string, patch: Partial<SearchEntry> = {}, at = new Date().toISOString()): SearchEntry => ({
+  query: query.trim(),
+  createdAt: at,
+  lastRunAt: at,
+  runs: 0,
+  found: 0,
+  inserted: 0,
+  status: 'normal',
+  ...patch,
+});
+
+/**
+ * Adds one run to the history: to the matching entry when the query was run
+ * before (a retry or a pinned search), otherwise as a new entry.
+ */
+export const recordSearch = (
+  entries: SearchEntry[],
+  run: { query: string; niche?: string; location?: string; found: number; inserted: number },
+  at = new Date().toISOString()
+): SearchEntry => {
+  const existing = entries.find(entry => normalizeQuery(entry.query) === normalizeQuery(run.query));
+  const base = existing || createSearchEntry(run.query, { niche: run.niche, location: run.location }, at);
+  return {
+    ...base,
+    niche: run.niche || base.niche,
+    location: run.location || base.location,
+    lastRunAt: at,
+    runs: base.runs + 1,
+    found: base.found + run.found,
+    inserted: base.inserted + run.inserted,
+  };
+};
+
+/**
+ * Normal entries beyond the limit, oldest first, to be deleted.
+ */
+export const entriesToPrune = (entries: SearchEntry[], limit = SEARCH_HISTORY_LIMIT): SearchEntry[] =>
+  entries
+    .filter(entry => entry.status === 'normal')
+    .sort((a, b) => b.lastRunAt.localeCompare(a.lastRunAt))
+    .slice(limit);
+
+export interface HistorySummary {
+  recent: string[]; // latest queries, verbatim
+  older: string[]; // "niche (location, location)", the niches with most locations first
+  pinned: string[];
+  blacklisted: string[];
+}
+
+/**
+ * Bounded history for the strategist prompt: blocked and pinned searches,
+ * the latest queries verbatim and the rest grouped by niche. Null when nothing was searched yet.
+ */
+export const summarizeHistory = (entries: SearchEntry[]): HistorySummary | null => {
+  if (entries.length === 0) return null;
+  const byRecency = [...entries].sort((a, b) => b.lastRunAt.localeCompare(a.lastRunAt));
+  const blacklisted = byRecency.filter(e => e.status === 'blacklisted').slice(0, PROMPT_STATUS_LIMIT);
+  const pinned = byRecency.filter(e => e.status === 'pinned').slice(0, PROMPT_STATUS_LIMIT);
+  const normal = byRecency.filter(e => e.status === 'normal');
+  const recent = normal.slice(0, PROMPT_RECENT);
+
+  const older = new Map<string, Set<string>>();
+  normal.slice(PROMPT_RECENT).forEach(entry => {
+    const niche = entry.niche || entry.query;
+    if (!older.has(niche)) older.set(niche, new Set());
+    if (entry.location) older.get(niche)!.add(entry.location);
+  });
+  const olderLines = Array.from(older.entries())
+    .sort((a, b) => b[1].size - a[1].size)
+    .slice(0, PROMPT_NICHES)
+    .map(([niche, locations]) => locations.size > 0 ? `${niche} (${Array.from(locations).join(', ')})` : niche);
+
+  return {
+    recent: recent.map(e => e.query),
+    older: olderLines,
+    pinned: pinned.map(e => e.query),
+    blacklisted: blacklisted.map(e => e.query),
+  };
+};
+
+// Plans proposed per cycle before giving up on finding a query that is not a repeat
+export const MAX_PLAN_ATTEMPTS = 3;
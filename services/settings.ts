@@ -0,0 +1,68 @@
+import { IdealCustomerProfile } from "../types";
+import { DEFAULT_EMAIL_POLICY, EmailAcceptancePolicy } from "./emailQuality";
+import { DEFAULT_ICP } from "./icpProfiles";
+import { DEFAULT_SCORING_WEIGHTS, ScoringWeights } from "./scoring";
+import { DEFAULT_EXPORT_OPTIONS, ExportOptions } from "./leadExport";
+import { CrmSettings, DEFAULT_CRM_SETTINGS } from "./crmExport";
+import { DEFAULT_RATE_LIMIT_SETTINGS, RateLimitSettings } from "./rateLimiter";
+import { UI_LANGUAGES, UiLanguage } from "./i18n";
+
+// Small user preferences. Kept in localStorage: they are tiny and needed synchronously at startup.
+const SETTINGS_KEY = 'b2b_settings';
+
+export interface AppSettings {
+  emailPolicy: EmailAcceptancePolicy;
+  icpProfiles: IdealCustomerProfile[];
+  activeProfileId: string;
+  scoringWeights: ScoringWeights;
+  exportOptions: ExportOptions;
+  crm: CrmSettings;
+  rateLimits: RateLimitSettings;
+  uiLanguage: UiLanguage;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  emailPolicy: DEFAULT_EMAIL_POLICY,
+  icpProfiles: [DEFAULT_ICP],
+  activeProfileId: DEFAULT_ICP.id,
+  scoringWeights: DEFAULT_SCORING_WEIGHTS,
+  exportOptions: DEFAULT_EXPORT_OPTIONS,
+  crm: DEFAULT_CRM_SETTINGS,
+  rateLimits: DEFAULT_RATE_LIMIT_SETTINGS,
+  uiLanguage: 'es',
+};
+
+/**
+ * Reads the stored settings, filling any section missing from older versions with its default.
+ */
+export const loadSettings = (): AppSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return {
+      ...DEFAULT_SETTINGS,
+      ...stored,
+      emailPolicy: { ...DEFAULT_SETTINGS.emailPolicy, ...stored.emailPolicy },
+      scoringWeights: { ...DEFAULT_SETTINGS.scoringWeights, ...stored.scoringWeights },
+      exportOptions: { ...DEFAULT_SETTINGS.exportOptions, ...stored.exportOptions },
+      crm: { ...DEFAULT_SETTINGS.crm, ...stored.crm },
+      rateLimits: { budgets: { ...stored.rateLimits?.budgets } },
+      uiLanguage: stored.uiLanguage in UI_LANGUAGES ? stored.uiLanguage : DEFAULT_SETTINGS.uiLanguage,
+      icpProfiles: Array.isArray(stored.icpProfiles) && stored.icpProfiles.length > 0
+        ? stored.icpProfiles.map((profile: Partial<IdealCustomerProfile>) => ({ ...DEFAULT_ICP, ...profile }))
+        : DEFAULT_SETTINGS.icpProfiles,
+    };
+  } catch (e) {
+    console.error("Failed to load settings", e);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+/**
+ * The profile the agent targets; falls back to the first one if the id is stale.
+ */
+export const activeProfile = (settings: AppSettings): IdealCustomerProfile =>
+  settings.icpProfiles.find(p => p.id === settings.activeProfileId) || settings.icpProfiles[0] || DEFAULT_ICP;
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,30 @@
+import { Lead } from "../types";
+
+// --- UNDO ---
+// Every manual change to the shared database records how to revert it:
+// which snapshots to write back and which newly created leads to remove.
+
+export interface UndoEntry {
+  id: string;
+  label: string;
+  restore: Lead[];
+  remove: string[];
+  at: string;
+}
+
+export const UNDO_LIMIT = 30;
+
+export const pushUndo = (stack: UndoEntry[], label: string, restore: Lead[], remove: string[] = []): UndoEntry[] =>
+  [...stack, { id: crypto.randomUUID(), label, restore, remove, at: new Date().toISOString() }].slice(-UNDO_LIMIT);
+
+/**
+ * The lead list after reverting `entry`: restored snapshots replace (or re-add)
+ * their leads, created ones disappear.
+ */
+export const applyUndo = (leads: Lead[], entry: UndoEntry): Lead[] => {
+  const restored = new Map(entry.restore.map(lead => [lead.id, lead]));
+  const removed = new Set(entry.remove);
+  const kept = leads.filter(lead => !removed.has(lead.id)).map(lead => restored.get(lead.id) || lead);
+  const missing = entry.restore.filter(lead => !kept.some(l => l.id === lead.id));
+  return [...kept, ...missing];
+};
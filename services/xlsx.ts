@@ -0,0 +1,246 @@
+import { MessageError } from "./i18n";
+
+// --- MINIMAL XLSX WRITER ---
+// A single-sheet workbook with inline strings, zipped without compression.
+// Enough for Excel, LibreOffice and Google Sheets, without pulling in a spreadsheet library.
+
+export type CellValue = string | number;
+
+const encoder = new TextEncoder();
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * ZIP archive with every entry STORED (method 0).
+ */
+export const zipStore = (files: { name: string; content: string | Uint8Array }[]): Uint8Array => {
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const data = typeof file.content === 'string' ? encoder.encode(file.content) : file.content;
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true); // stored
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    chunks.push(new Uint8Array(local.buffer), name, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint16(10, 0, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...chunks, ...central, new Uint8Array(end.buffer)];
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let position = 0;
+  parts.forEach(part => { out.set(part, position); position += part.length; });
+  return out;
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// 0 -> A, 25 -> Z, 26 -> AA
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  return name;
+};
+
+const cellXml = (value: CellValue, ref: string) =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? `<c r="${ref}"><v>${value}</v></c>`
+    : `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+
+export const buildXlsx = (rows: CellValue[][], sheetName = 'Leads'): Uint8Array => {
+  const sheetRows = rows
+    .map((row, r) => `<row r="${r + 1}">${row.map((value, c) => cellXml(value, `${columnName(c)}${r + 1}`)).join('')}</row>`)
+    .join('');
+
+  return zipStore([
+    {
+      name: '[Content_Types].xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+        + '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+        + '</Relationships>',
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+        + `<sheets><sheet name="${escapeXml(sheetName.replace(/[[\]:*?/\\]/g, '').slice(0, 31) || 'Sheet1')}" sheetId="1" r:id="rId1"/></sheets>`
+        + '</workbook>',
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+        + '</Relationships>',
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+        + `<sheetData>${sheetRows}</sheetData>`
+        + '</worksheet>',
+    },
+  ]);
+};
+
+// --- READER ---
+
+const decoder = new TextDecoder();
+
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Entries of a ZIP archive, located through the central directory.
+ * Supports the STORED and DEFLATE methods, which is all spreadsheet apps write.
+ */
+const unzip = async (buffer: ArrayBuffer): Promise<Map<string, string>> => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  let end = buffer.byteLength - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) throw new MessageError({ key: 'import.invalidXlsx' });
+
+  const files = new Map<string, string>();
+  const count = view.getUint16(end + 10, true);
+  let pointer = view.getUint32(end + 16, true);
+  for (let i = 0; i < count; i++) {
+    const method = view.getUint16(pointer + 10, true);
+    const compressedSize = view.getUint32(pointer + 20, true);
+    const nameLength = view.getUint16(pointer + 28, true);
+    const extraLength = view.getUint16(pointer + 30, true);
+    const commentLength = view.getUint16(pointer + 32, true);
+    const localOffset = view.getUint32(pointer + 42, true);
+    const name = decoder.decode(bytes.subarray(pointer + 46, pointer + 46 + nameLength));
+    pointer += 46 + nameLength + extraLength + commentLength;
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) files.set(name, decoder.decode(data));
+    else if (method === 8) files.set(name, decoder.decode(await inflateRaw(data)));
+  }
+  return files;
+};
+
+// "BC12" -> 54 (zero-based column)
+const columnIndex = (ref: string): number => {
+  const letters = ref.replace(/\d+$/, '');
+  let index = 0;
+  for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+  return index - 1;
+};
+
+// Rich-text runs are concatenated; phonetic hints (rPh) are not part of the value
+const textOf = (element: Element | null | undefined) =>
+  Array.from(element?.getElementsByTagName('t') || [])
+    .filter(t => t.parentElement?.tagName !== 'rPh')
+    .map(t => t.textContent || '')
+    .join('');
+
+/**
+ * Path of the workbook's first sheet in tab order: workbook.xml lists the sheets,
+ * its relationships file says which part holds each. Sheet file numbers follow
+ * creation order, not tab order, so they are only a fallback.
+ */
+const firstSheetPath = (files: Map<string, string>, parse: (xml?: string) => Document | null): string | undefined => {
+  const relId = parse(files.get('xl/workbook.xml'))?.getElementsByTagName('sheet')[0]?.getAttribute('r:id');
+  const target = relId && Array.from(parse(files.get('xl/_rels/workbook.xml.rels'))?.getElementsByTagName('Relationship') || [])
+    .find(rel => rel.getAttribute('Id') === relId)?.getAttribute('Target');
+  if (target) return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  return Array.from(files.keys())
+    .filter(name => /^xl\/worksheets\/sheet\d+\.xml$/.test(name))
+    .sort((a, b) => Number(a.match(/\d+/)![0]) - Number(b.match(/\d+/)![0]))[0];
+};
+
+/**
+ * Cell text of the first worksheet, as rows of strings.
+ */
+export const readXlsx = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const files = await unzip(buffer);
+  const parser = new DOMParser();
+  const parse = (xml?: string) => xml ? parser.parseFromString(xml, 'application/xml') : null;
+
+  const shared = Array.from(parse(files.get('xl/sharedStrings.xml'))?.getElementsByTagName('si') || []).map(si => textOf(si));
+  const sheetName = firstSheetPath(files, parse);
+  const sheet = parse(sheetName ? files.get(sheetName) : undefined);
+  if (!sheet) throw new MessageError({ key: 'import.noSheets' });
+
+  return Array.from(sheet.getElementsByTagName('row')).map(row => {
+    const cells: string[] = [];
+    Array.from(row.getElementsByTagName('c')).forEach((cell, i) => {
+      const ref = cell.getAttribute('r');
+      const index = ref ? columnIndex(ref) : i;
+      const type = cell.getAttribute('t');
+      const value = cell.getElementsByTagName('v')[0]?.textContent || '';
+      cells[index] = type === 's' ? shared[Number(value)] || ''
+        : type === 'inlineStr' ? textOf(cell.getElementsByTagName('is')[0])
+        : value;
+    });
+    return Array.from(cells, cell => cell || '');
+  });
+};
@@ -1,13 +1,209 @@
-export interface Lead {
-  companyName: string;
-  contactName?: string;
-  role?: string;
+import type { Message } from "./services/i18n";
+
+// CRM pipeline stage, tracked by sales after the lead is found
+export type PipelineStatus = 'new' | 'contacted' | 'replied' | 'meeting' | 'won' | 'lost' | 'do-not-contact';
+
+export interface StatusTransition {
+  from: PipelineStatus | null;
+  to: PipelineStatus;
+  at: string;
+}
+
+export interface LeadNote {
+  id: string;
+  text: string;
+  createdAt: string;
+}
+
+export type Seniority = 'c-level' | 'director' | 'manager' | 'staff' | 'department' | 'unknown';
+
+// How a contact got into the database
+export type ContactSource = 'agent' | 'manual' | 'import';
+
+export type EmailKind = 'personal' | 'departmental' | 'generic' | 'no-reply' | 'free-mail' | 'invalid';
+
+export interface EmailQuality {
+  kind: EmailKind;
+  valid: boolean;
+  disposable: boolean;
+  domainMatchesWebsite: boolean;
+  confidence: number; // 0-100
+  issues: Message[];
+}
+
+export type EmailPattern = 'first.last' | 'first_last' | 'firstlast' | 'flast' | 'f.last' | 'first' | 'last';
+
+// Address guessed from the company's email format, never confirmed by a source
+export interface InferredEmail {
   email: string;
+  pattern: EmailPattern;
+  confidence: number; // 0-100
+  basis: 'learned' | 'default';
+  samples: number; // personal emails of the domain the pattern was learned from
+}
+
+export interface Contact {
+  id: string;
+  name?: string;
+  role?: string;
+  email: string; // as found in the source, or 'N/A'
+  emailQuality?: EmailQuality;
+  inferredEmails?: InferredEmail[];
+  seniority: Seniority;
+  source: ContactSource;
+}
+
+export type ChatVendor = 'Intercom' | 'Zendesk' | 'Drift' | 'Tidio' | 'HubSpot Chat' | 'Crisp' | 'Tawk.to' | 'LiveChat' | 'WhatsApp';
+
+// Why chatbotStatus has its value: widgets fingerprinted in the site's HTML next to the model's verdict
+export interface ChatbotEvidence {
+  vendors: ChatVendor[];
+  evidence: { vendor: ChatVendor; snippet: string }[];
+  llmStatus: Company['chatbotStatus'];
+  verdictSource: 'rules' | 'llm' | 'rules+llm';
+  url?: string;
+  checkedAt: string;
+}
+
+export type ScoreFactor =
+  | 'noChatWidget'
+  | 'noCorporateLinkedin'
+  | 'contactChannel'
+  | 'decisionMaker'
+  | 'emailQuality'
+  | 'websiteAge'
+  | 'modelAssessment';
+
+export interface ScoreContribution {
+  factor: ScoreFactor;
+  value: number; // 0-1, how strongly the signal is present
+  weight: number;
+  points: number; // share of the 1-5 score this factor adds
+  detail: Message;
+}
+
+// How needScore was computed, so every lead's priority can be explained
+export interface ScoreBreakdown {
+  score: number; // unrounded 1-5
+  modelScore: number; // the model's own 1-5 opinion, kept as one more factor
+  contributions: ScoreContribution[];
+  computedAt: string;
+}
+
+// Company-level facts, shared by every person that works there
+export interface Company {
+  companyName: string;
   website: string;
   chatbotStatus: 'OPORTUNIDAD' | 'TIENE_CHATBOT';
   needScore: number;
   reason: string;
   socialLinks: string[];
+  sector?: string;
+  country?: string; // ISO 3166-1 alpha-2 of the company's market ("ES", "PT"...)
+  chatbotEvidence?: ChatbotEvidence;
+  websiteAgeHints?: string[]; // "Copyright 2013", "Sin versión móvil"...
+  scoreBreakdown?: ScoreBreakdown;
+  needScoreOverride?: number; // set by hand; wins over the computed score
+}
+
+// A web page the search grounded its answer on
+export interface ProvenanceSource {
+  uri: string;
+  title?: string;
+  matchesCompany: boolean; // mentions the company's name or domain; otherwise it only backs the cycle
+}
+
+// Where a lead was found: the agent strategy that produced it, or manual input,
+// plus the evidence needed to check its facts before outreach
+export interface LeadOrigin {
+  mode: 'agent' | 'manual' | 'import' | 'bulk';
+  file?: string; // imported spreadsheet name
+  list?: string; // bulk list job name
+  niche?: string;
+  location?: string;
+  query?: string;
+  cycleAt?: string; // ISO time of the agent cycle
+  sources?: ProvenanceSource[];
+  excerpt?: string; // part of the raw search text that talks about this company
+}
+
+export type CrmTarget = 'hubspot' | 'pipedrive' | 'salesforce';
+
+// Last hand-off of a lead to a CRM, so it is not exported or pushed twice
+export interface CrmSyncRecord {
+  syncedAt: string;
+  via: 'file' | 'push';
+  remoteId?: string; // id returned by the push endpoint
+}
+
+// A lead is a company record plus its people and its position in the pipeline
+export interface Lead extends Company {
+  id: string;
+  createdAt: string; // ISO date the lead entered the database
+  contacts: Contact[];
+  pipelineStatus: PipelineStatus;
+  statusHistory: StatusTransition[];
+  notes: LeadNote[];
+  origin?: LeadOrigin;
+  crmSync?: Partial<Record<CrmTarget, CrmSyncRecord>>;
+  campaignIds?: string[]; // campaigns whose agent cycles found or re-found this lead
+}
+
+export type ExtractedContact = Omit<Contact, 'id' | 'source'>;
+
+// Company as returned by the AI, before it gets an identity and pipeline state in the repository
+export interface ExtractedLead extends Company {
+  contacts: ExtractedContact[];
+  origin?: LeadOrigin;
+}
+
+// Who we sell to. Compiled into the agent prompts and the post-filter of each cycle.
+export interface IdealCustomerProfile {
+  id: string;
+  name: string;
+  countries: string[];
+  regions: string[];
+  includeSectors: string[];
+  excludeSectors: string[];
+  targetRoles: string[];
+  companySize: string;
+  // 'chatbot' stands for any automated chat; vendor names (ChatVendor) target one tool
+  disqualifyingTechnologies: string[];
+  scoring: { high: string; low: string };
+  requireTargetRole: boolean;
+}
+
+export type CampaignStatus = 'active' | 'completed' | 'stopped';
+
+// A bounded, goal-driven use of the agent loop: it steers the strategist
+// and stops by itself when the lead target or a limit is reached
+export interface Campaign {
+  id: string;
+  name: string;
+  objective: string; // "50 clínicas dentales cualificadas en Andalucía"
+  niches: string[]; // empty = any niche of the profile
+  regions: string[]; // empty = any region of the profile
+  leadTarget: number;
+  minNeedScore: number; // need score a lead must reach to count towards the target
+  maxCycles: number;
+  maxApiCalls: number;
+  cycleDelaySeconds: number;
+  status: CampaignStatus;
+  cycles: number;
+  apiCalls: number;
+  createdAt: string;
+  endedAt?: string;
+  stopReason?: Message;
+}
+
+// Possible duplicate waiting for a human decision (merge or keep separate)
+export interface MergeCandidate {
+  id: string;
+  incoming: Lead;
+  existingId: string;
+  score: number;
+  reasons: Message[];
+  createdAt: string;
 }
 
 export interface AnalysisStats {